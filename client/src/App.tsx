@@ -1,9 +1,11 @@
 import { Switch, Route } from "wouter";
+import type { ComponentType } from "react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider, useQueryClient } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useServerEvents } from "@/lib/events";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/Layout";
 import Dashboard from "@/pages/dashboard";
 import Vehicles from "@/pages/vehicles";
@@ -15,9 +17,39 @@ import DriversPayments from "@/pages/drivers-payments";
 import WeeklySummary from "@/pages/WeeklySummary";
 import Investments from "@/pages/investments";
 import Import from "@/pages/import";
+import RentalSlabs from "@/pages/rental-slabs";
+import SubstituteRates from "@/pages/substitute-rates";
+import Companies from "@/pages/companies";
+import Accommodations from "@/pages/accommodations";
+import ExpiringDocuments from "@/pages/expiring-documents";
+import Incidents from "@/pages/incidents";
+import FuelPage from "@/pages/fuel";
+import OdometerPage from "@/pages/odometer";
+import RosterPage from "@/pages/roster";
+import LeavePage from "@/pages/leave";
+import SubstitutesPage from "@/pages/substitutes";
+import Users from "@/pages/users";
+import AuditLog from "@/pages/audit-log";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
+import { Loader2, ShieldAlert } from "lucide-react";
 
-function Router() {
+function Forbidden() {
+  return (
+    <div className="flex flex-col items-center justify-center h-full text-gray-500">
+      <ShieldAlert className="w-12 h-12 mb-4 text-gray-300" />
+      <p>Your role does not have access to this page.</p>
+    </div>
+  );
+}
+
+// Route that renders Forbidden for roles not allowed on the page (see PAGE_ROLES)
+function GuardedRoute({ path, component: Component }: { path: string; component: ComponentType }) {
+  const { canAccess } = useAuth();
+  return <Route path={path}>{canAccess(path) ? <Component /> : <Forbidden />}</Route>;
+}
+
+function AuthenticatedRouter() {
   const qc = useQueryClient();
   useServerEvents(qc);
 
@@ -30,24 +62,53 @@ function Router() {
         <Route path="/drivers" component={Drivers} />
         <Route path="/trips" component={Trips} />
         <Route path="/trip-logs" component={TripLogs} />
-        <Route path="/settlements" component={Settlements} />
-        <Route path="/drivers-payments" component={DriversPayments} />
-        <Route path="/weekly-summary" component={WeeklySummary} />
-        <Route path="/investments" component={Investments} />
-        <Route path="/import" component={Import} />
+        <GuardedRoute path="/settlements" component={Settlements} />
+        <GuardedRoute path="/drivers-payments" component={DriversPayments} />
+        <GuardedRoute path="/weekly-summary" component={WeeklySummary} />
+        <GuardedRoute path="/investments" component={Investments} />
+        <GuardedRoute path="/import" component={Import} />
+        <Route path="/rental-slabs" component={RentalSlabs} />
+        <Route path="/substitute-rates" component={SubstituteRates} />
+        <Route path="/companies" component={Companies} />
+        <Route path="/accommodations" component={Accommodations} />
+        <Route path="/expiring-documents" component={ExpiringDocuments} />
+        <Route path="/incidents" component={Incidents} />
+        <Route path="/fuel" component={FuelPage} />
+        <Route path="/odometer" component={OdometerPage} />
+        <Route path="/roster" component={RosterPage} />
+        <Route path="/leave" component={LeavePage} />
+        <Route path="/substitutes" component={SubstitutesPage} />
+        <GuardedRoute path="/audit-log" component={AuditLog} />
+        <GuardedRoute path="/users" component={Users} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
   );
 }
 
+function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return user ? <AuthenticatedRouter /> : <Login />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
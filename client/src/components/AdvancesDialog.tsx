@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { api, type DriverAdvance, type PayoutMethod } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { PAYOUT_METHOD_LABELS } from "@/components/PayoutsDialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+const inr = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+function emptyForm() {
+  const today = new Date();
+  return {
+    issuedDate: format(today, "yyyy-MM-dd"),
+    principal: "",
+    instalmentAmount: "",
+    instalmentCount: "",
+    firstInstalmentDate: format(addDays(today, 7), "yyyy-MM-dd"),
+    method: "cash" as PayoutMethod,
+    reference: "",
+    notes: "",
+  };
+}
+
+interface AdvancesDialogProps {
+  driver: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** A driver's advances with their instalment progress, and a form to issue a new one. */
+export default function AdvancesDialog({ driver, onOpenChange }: AdvancesDialogProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<DriverAdvance | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canIssue = !!user && canAccessApi(user.role, "POST", "/api/advances");
+
+  const { data: advances = [], isLoading } = useQuery({
+    queryKey: ["/api/advances", driver?.id],
+    queryFn: () => api.getAdvances(driver!.id),
+    enabled: !!driver,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/advances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/advances/outstanding"] });
+  };
+
+  // Suggest enough instalments to cover the principal
+  const setInstalmentAmount = (value: string) => {
+    const principal = parseInt(form.principal);
+    const amount = parseInt(value);
+    const count = principal > 0 && amount > 0 ? String(Math.ceil(principal / amount)) : form.instalmentCount;
+    setForm({ ...form, instalmentAmount: value, instalmentCount: count });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createAdvance({
+      driverId: driver!.id,
+      issuedDate: form.issuedDate,
+      principal: parseInt(form.principal),
+      instalmentAmount: parseInt(form.instalmentAmount),
+      instalmentCount: parseInt(form.instalmentCount),
+      firstInstalmentDate: form.firstInstalmentDate,
+      method: form.method,
+      reference: form.reference || undefined,
+      notes: form.notes || undefined,
+    }),
+    onSuccess: () => {
+      refresh();
+      setForm(emptyForm());
+      toast({ title: "Success", description: "Advance issued" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteAdvance(id),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Advance deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isFormValid = parseInt(form.principal) > 0 && parseInt(form.instalmentAmount) > 0 && parseInt(form.instalmentCount) > 0;
+
+  return (
+    <>
+      <Dialog open={!!driver} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Advances — {driver?.name}</DialogTitle>
+            <DialogDescription>
+              Instalments are deducted from the driver's weekly settlement on their due dates.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading advances...</p>
+          ) : advances.length === 0 ? (
+            <p className="text-center py-6 text-sm text-gray-500">No advances issued</p>
+          ) : (
+            <div className="space-y-3">
+              {advances.map((advance) => (
+                <div key={advance.id} className="border rounded-lg p-3 space-y-2" data-testid={`advance-${advance.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {inr(advance.principal)} on {format(new Date(advance.issuedDate), "MMM dd, yyyy")}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {PAYOUT_METHOD_LABELS[advance.method]}{advance.reference ? ` · ${advance.reference}` : ""} · issued by {advance.issuedBy}
+                        {advance.notes ? ` · ${advance.notes}` : ""}
+                      </p>
+                    </div>
+                    {canIssue && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeleteConfirm(advance)}
+                        data-testid={`button-delete-advance-${advance.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <Progress value={(advance.recovered / advance.principal) * 100} />
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>Recovered {inr(advance.recovered)}</span>
+                    <span className="font-medium">Outstanding {inr(advance.outstanding)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {advance.instalments.map((instalment) => {
+                      const due = instalment.dueDate <= format(new Date(), "yyyy-MM-dd");
+                      return (
+                        <span
+                          key={instalment.number}
+                          className={`text-xs rounded px-2 py-0.5 ${due ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"}`}
+                          title={due ? "Deducted" : "Upcoming"}
+                        >
+                          {format(new Date(instalment.dueDate), "MMM dd")}: {inr(instalment.amount)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canIssue && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <h3 className="font-medium text-gray-900">Issue Advance</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="advanceIssuedDate">Issued On</Label>
+                  <Input
+                    id="advanceIssuedDate"
+                    type="date"
+                    value={form.issuedDate}
+                    onChange={(e) => setForm({ ...form, issuedDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="advancePrincipal">Amount (₹)</Label>
+                  <Input
+                    id="advancePrincipal"
+                    type="number"
+                    min="1"
+                    value={form.principal}
+                    onChange={(e) => setForm({ ...form, principal: e.target.value })}
+                    data-testid="input-advance-principal"
+                  />
+                </div>
+                <div>
+                  <Label>Method</Label>
+                  <Select value={form.method} onValueChange={(value) => setForm({ ...form, method: value as PayoutMethod })}>
+                    <SelectTrigger data-testid="select-advance-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYOUT_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="advanceInstalmentAmount">Weekly Instalment (₹)</Label>
+                  <Input
+                    id="advanceInstalmentAmount"
+                    type="number"
+                    min="1"
+                    value={form.instalmentAmount}
+                    onChange={(e) => setInstalmentAmount(e.target.value)}
+                    data-testid="input-advance-instalment-amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="advanceInstalmentCount">Instalments</Label>
+                  <Input
+                    id="advanceInstalmentCount"
+                    type="number"
+                    min="1"
+                    value={form.instalmentCount}
+                    onChange={(e) => setForm({ ...form, instalmentCount: e.target.value })}
+                    data-testid="input-advance-instalment-count"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="advanceFirstInstalment">First Instalment</Label>
+                  <Input
+                    id="advanceFirstInstalment"
+                    type="date"
+                    value={form.firstInstalmentDate}
+                    onChange={(e) => setForm({ ...form, firstInstalmentDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="advanceReference">Reference</Label>
+                  <Input
+                    id="advanceReference"
+                    value={form.reference}
+                    onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="advanceNotes">Notes</Label>
+                  <Input
+                    id="advanceNotes"
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !isFormValid}
+                data-testid="button-issue-advance"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {createMutation.isPending ? "Issuing..." : "Issue Advance"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteConfirm} onOpenChange={(open) => !open && setDeleteConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Advance</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the advance and all of its instalments, including ones already deducted from past settlements.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deleteConfirm) {
+                  deleteMutation.mutate(deleteConfirm.id);
+                  setDeleteConfirm(null);
+                }
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type AuditLogEntry, type AuditLogFilters } from "@/lib/api";
+import type { AuditEntity, AuditAction } from "@shared/schema";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  user: "User",
+  company: "Company",
+  vehicle: "Vehicle",
+  driver: "Driver",
+  vehicleDriverAssignment: "Vehicle Assignment",
+  driverRentLog: "Trip Log",
+  weeklySettlement: "Weekly Settlement",
+  substituteDriver: "Substitute Driver",
+  weeklySummary: "Weekly Summary",
+  investment: "Investment",
+  investmentReturn: "Investment Return",
+  slabSchedule: "Slab Schedule",
+  driverAdjustment: "Driver Adjustment",
+  driverPayout: "Driver Payout",
+  driverAdvance: "Driver Advance",
+  driverDeposit: "Driver Deposit",
+  depositDeduction: "Deposit Deduction",
+  accommodation: "Accommodation",
+  accommodationAssignment: "Room Assignment",
+  maintenanceRecord: "Maintenance Record",
+  serviceInterval: "Service Interval",
+  vehicleDocument: "Vehicle Document",
+  driverDocument: "Driver Document",
+  incident: "Incident",
+  fuelEntry: "Fuel Entry",
+  rosterEntry: "Roster Entry",
+  driverLeave: "Driver Leave",
+  substitute: "Substitute",
+  substituteRateCard: "Substitute Rate Card",
+  holiday: "Holiday",
+  statementColumnMapping: "Statement Column Mapping",
+  driverAlias: "Driver Alias",
+  vehicleAlias: "Vehicle Alias",
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = ["updatedAt", "createdAt"];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function AuditActionBadge({ action }: { action: AuditAction }) {
+  return (
+    <Badge variant="secondary" className={ACTION_STYLES[action]}>
+      {action}
+    </Badge>
+  );
+}
+
+/** Field-by-field view of what an audit entry changed. */
+export function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => entry.action !== "update" || formatValue(before[field]) !== formatValue(after[field]));
+
+  if (fields.length === 0) {
+    return <p className="text-xs text-gray-500">No field changes</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {fields.map((field) => (
+          <tr key={field} className="align-top">
+            <td className="pr-3 py-0.5 font-medium text-gray-600 whitespace-nowrap">{field}</td>
+            <td className="py-0.5 break-all">
+              {entry.action !== "create" && (
+                <span className={entry.action === "update" ? "text-red-600 line-through mr-2" : "text-gray-700"}>
+                  {formatValue(before[field])}
+                </span>
+              )}
+              {entry.action !== "delete" && (
+                <span className="text-green-700">{formatValue(after[field])}</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface AuditHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  filters: AuditLogFilters;
+}
+
+/** Side drawer listing the change history of one record. */
+export default function AuditHistoryDrawer({ open, onOpenChange, title, filters }: AuditHistoryDrawerProps) {
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["/api/audit-log", filters],
+    queryFn: () => api.getAuditLog(filters),
+    enabled: open,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+        <div className="mt-6 space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes recorded</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="border rounded-lg p-3 space-y-2" data-testid={`audit-entry-${entry.id}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <AuditActionBadge action={entry.action} />
+                    <span className="text-sm font-medium text-gray-900">{entry.actorName}</span>
+                  </div>
+                  <span className="text-xs text-gray-500">{format(new Date(entry.createdAt), "MMM dd, yyyy HH:mm")}</span>
+                </div>
+                {entry.entity === "weeklySummary" && (
+                  <p className="text-xs text-gray-500">Week {entry.entityId.split(":").slice(1).join(" to ")}</p>
+                )}
+                <AuditChanges entry={entry} />
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
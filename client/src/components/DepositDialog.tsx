@@ -0,0 +1,333 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type DepositDeductionReason, type PayoutMethod } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { PAYOUT_METHOD_LABELS } from "@/components/PayoutsDialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+
+const inr = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+const DEDUCTION_REASON_LABELS: Record<DepositDeductionReason, string> = {
+  damage: "Damage",
+  unpaid_dues: "Unpaid dues",
+  other: "Other",
+};
+
+const today = () => new Date().toISOString().split("T")[0];
+
+interface DepositDialogProps {
+  driver: { id: number; name: string; dismissDate?: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** A driver's security deposit, deductions against it and, once dismissed, the final settlement. */
+export default function DepositDialog({ driver, onOpenChange }: DepositDialogProps) {
+  const [depositForm, setDepositForm] = useState({ amount: "", collectedDate: today(), method: "cash" as PayoutMethod, reference: "", notes: "" });
+  const [deductionForm, setDeductionForm] = useState({ date: today(), amount: "", reason: "damage" as DepositDeductionReason, description: "" });
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const driverId = driver?.id ?? 0;
+  const canEdit = !!user && canAccessApi(user.role, "PUT", `/api/drivers/${driverId}/deposit`);
+
+  const { data: state, isLoading } = useQuery({
+    queryKey: [`/api/drivers/${driverId}/deposit`],
+    queryFn: () => api.getDriverDeposit(driverId),
+    enabled: !!driver,
+  });
+
+  const { data: settlement, error: settlementError } = useQuery({
+    queryKey: [`/api/drivers/${driverId}/final-settlement`],
+    queryFn: () => api.getFinalSettlement(driverId),
+    enabled: !!driver?.dismissDate,
+  });
+
+  const deposit = state?.deposit;
+  useEffect(() => {
+    setDepositForm(deposit
+      ? { amount: String(deposit.amount), collectedDate: deposit.collectedDate, method: deposit.method, reference: deposit.reference ?? "", notes: deposit.notes ?? "" }
+      : { amount: "", collectedDate: today(), method: "cash", reference: "", notes: "" });
+  }, [deposit]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/drivers/${driverId}/deposit`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/drivers/${driverId}/final-settlement`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/drivers/${driverId}/ledger`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveDeposit = useMutation({
+    mutationFn: () => api.saveDriverDeposit(driverId, {
+      amount: parseInt(depositForm.amount),
+      collectedDate: depositForm.collectedDate,
+      method: depositForm.method,
+      reference: depositForm.reference || undefined,
+      notes: depositForm.notes || undefined,
+    }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Deposit saved" });
+    },
+    onError,
+  });
+
+  const addDeduction = useMutation({
+    mutationFn: () => api.createDepositDeduction(driverId, {
+      date: deductionForm.date,
+      amount: parseInt(deductionForm.amount),
+      reason: deductionForm.reason,
+      description: deductionForm.description,
+    }),
+    onSuccess: () => {
+      refresh();
+      setDeductionForm((current) => ({ ...current, amount: "", description: "" }));
+      toast({ title: "Success", description: "Deduction added" });
+    },
+    onError,
+  });
+
+  const deleteDeduction = useMutation({
+    mutationFn: (deductionId: number) => api.deleteDepositDeduction(driverId, deductionId),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Deduction deleted" });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={!!driver} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Security Deposit — {driver?.name}</DialogTitle>
+          <DialogDescription>
+            {deposit
+              ? `${inr(deposit.amount)} collected ${format(new Date(deposit.collectedDate), "MMM dd, yyyy")} by ${deposit.recordedBy} · balance ${inr(state?.balance ?? 0)}`
+              : "No deposit recorded"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading deposit...</p>
+        ) : (
+          <div className="space-y-6">
+            {canEdit && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <h3 className="font-medium text-gray-900">{deposit ? "Edit Deposit" : "Record Deposit"}</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  <div>
+                    <Label htmlFor="depositAmount">Amount (₹)</Label>
+                    <Input
+                      id="depositAmount"
+                      type="number"
+                      min="1"
+                      value={depositForm.amount}
+                      onChange={(e) => setDepositForm({ ...depositForm, amount: e.target.value })}
+                      data-testid="input-deposit-amount"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="depositDate">Collected On</Label>
+                    <Input
+                      id="depositDate"
+                      type="date"
+                      value={depositForm.collectedDate}
+                      onChange={(e) => setDepositForm({ ...depositForm, collectedDate: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Method</Label>
+                    <Select value={depositForm.method} onValueChange={(value) => setDepositForm({ ...depositForm, method: value as PayoutMethod })}>
+                      <SelectTrigger data-testid="select-deposit-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYOUT_METHOD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="depositReference">Reference</Label>
+                    <Input
+                      id="depositReference"
+                      value={depositForm.reference}
+                      onChange={(e) => setDepositForm({ ...depositForm, reference: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="depositNotes">Notes</Label>
+                    <Input
+                      id="depositNotes"
+                      value={depositForm.notes}
+                      onChange={(e) => setDepositForm({ ...depositForm, notes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <Button
+                  onClick={() => saveDeposit.mutate()}
+                  disabled={saveDeposit.isPending || !(parseInt(depositForm.amount) > 0)}
+                  data-testid="button-save-deposit"
+                >
+                  {saveDeposit.isPending ? "Saving..." : "Save Deposit"}
+                </Button>
+              </div>
+            )}
+
+            {deposit && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-900">Deductions</h3>
+                {state.deductions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No deductions</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        {canEdit && <TableHead />}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {state.deductions.map((deduction) => (
+                        <TableRow key={deduction.id} data-testid={`row-deduction-${deduction.id}`}>
+                          <TableCell className="whitespace-nowrap">{format(new Date(deduction.date), "MMM dd, yyyy")}</TableCell>
+                          <TableCell>{DEDUCTION_REASON_LABELS[deduction.reason]}</TableCell>
+                          <TableCell>{deduction.description}</TableCell>
+                          <TableCell className="text-right">{inr(deduction.amount)}</TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteDeduction.mutate(deduction.id)}
+                                disabled={deleteDeduction.isPending}
+                                data-testid={`button-delete-deduction-${deduction.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {canEdit && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                    <div>
+                      <Label htmlFor="deductionDate">Date</Label>
+                      <Input
+                        id="deductionDate"
+                        type="date"
+                        value={deductionForm.date}
+                        onChange={(e) => setDeductionForm({ ...deductionForm, date: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="deductionAmount">Amount (₹)</Label>
+                      <Input
+                        id="deductionAmount"
+                        type="number"
+                        min="1"
+                        value={deductionForm.amount}
+                        onChange={(e) => setDeductionForm({ ...deductionForm, amount: e.target.value })}
+                        data-testid="input-deduction-amount"
+                      />
+                    </div>
+                    <div>
+                      <Label>Reason</Label>
+                      <Select value={deductionForm.reason} onValueChange={(value) => setDeductionForm({ ...deductionForm, reason: value as DepositDeductionReason })}>
+                        <SelectTrigger data-testid="select-deduction-reason">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(DEDUCTION_REASON_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="deductionDescription">Description</Label>
+                      <Input
+                        id="deductionDescription"
+                        value={deductionForm.description}
+                        onChange={(e) => setDeductionForm({ ...deductionForm, description: e.target.value })}
+                        data-testid="input-deduction-description"
+                      />
+                    </div>
+                    <Button
+                      onClick={() => addDeduction.mutate()}
+                      disabled={addDeduction.isPending || !(parseInt(deductionForm.amount) > 0) || !deductionForm.description.trim()}
+                      data-testid="button-add-deduction"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Deduction
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {driver?.dismissDate && (
+              <div className="border rounded-lg p-4 space-y-2 bg-gray-50" data-testid="final-settlement">
+                <h3 className="font-medium text-gray-900">
+                  Final Settlement · dismissed {format(new Date(driver.dismissDate), "MMM dd, yyyy")}
+                </h3>
+                {settlementError ? (
+                  <p className="text-sm text-red-600">{(settlementError as Error).message}</p>
+                ) : settlement ? (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      <tr>
+                        <td className="py-1 text-gray-600">Deposit after deductions</td>
+                        <td className="py-1 text-right">{inr(settlement.depositBalance)}</td>
+                      </tr>
+                      <tr>
+                        <td className="py-1 text-gray-600">Ledger balance ({settlement.ledgerBalance < 0 ? "owed by driver" : "owed to driver"})</td>
+                        <td className="py-1 text-right">{settlement.ledgerBalance < 0 ? "−" : ""}{inr(Math.abs(settlement.ledgerBalance))}</td>
+                      </tr>
+                      <tr>
+                        <td className="py-1 text-gray-600">Advance outstanding</td>
+                        <td className="py-1 text-right">{settlement.outstandingAdvance ? `−${inr(settlement.outstandingAdvance)}` : inr(0)}</td>
+                      </tr>
+                      <tr className="border-t font-semibold">
+                        <td className="py-2">{settlement.netPayable < 0 ? "To recover from driver" : "To refund to driver"}</td>
+                        <td className={`py-2 text-right ${settlement.netPayable < 0 ? "text-red-600" : "text-green-700"}`} data-testid="text-final-net">
+                          {inr(Math.abs(settlement.netPayable))}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-gray-500">Loading final settlement...</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Record the refund as a payout in Weekly Summary; the amount drops to zero once it is paid.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
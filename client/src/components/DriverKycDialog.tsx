@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { differenceInCalendarDays, format } from "date-fns";
+import { api, type ComplianceStatus, type DriverDocumentKind, type DriverKyc } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UPLOAD_ACCEPT } from "@/components/VehicleDocumentsDialog";
+import { FileText, Trash2, Upload, User } from "lucide-react";
+
+// Matches EXPIRY_WARNING_DAYS on the server
+const EXPIRY_WARNING_DAYS = 30;
+
+export const DRIVER_DOCUMENT_LABELS: Record<DriverDocumentKind, string> = {
+  photo: "Photo",
+  licence: "Driving Licence",
+  badge: "PSV Badge",
+  id_proof: "ID Proof",
+  other: "Other",
+};
+
+/** Status of a licence or badge from its expiry date; trips cannot be logged once the licence has expired. */
+export function expiryDateStatus(expiry: string | null): ComplianceStatus {
+  if (!expiry) return "missing";
+  const daysLeft = differenceInCalendarDays(new Date(expiry), new Date(format(new Date(), "yyyy-MM-dd")));
+  if (daysLeft < 0) return "expired";
+  return daysLeft <= EXPIRY_WARNING_DAYS ? "expiring" : "valid";
+}
+
+function toForm(driver: DriverKyc) {
+  return {
+    licenceNumber: driver.licenceNumber ?? "",
+    licenceExpiry: driver.licenceExpiry ?? "",
+    badgeNumber: driver.badgeNumber ?? "",
+    badgeExpiry: driver.badgeExpiry ?? "",
+    idReference: driver.idReference ?? "",
+    emergencyContactName: driver.emergencyContactName ?? "",
+    emergencyContactPhone: driver.emergencyContactPhone ?? "",
+  };
+}
+
+interface DriverKycDialogProps {
+  driver: ({ id: number; name: string } & DriverKyc) | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** A driver's licence, badge, ID and emergency contact, with uploaded copies and photo. */
+export default function DriverKycDialog({ driver, onOpenChange }: DriverKycDialogProps) {
+  const [form, setForm] = useState(() => toForm(driver ?? ({} as DriverKyc)));
+  const [kind, setKind] = useState<DriverDocumentKind>("licence");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const driverId = driver?.id ?? 0;
+  const canEdit = !!user && canAccessApi(user.role, "PUT", `/api/drivers/${driverId}`);
+
+  useEffect(() => {
+    if (driver) setForm(toForm(driver));
+  }, [driver]);
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: ["/api/drivers", driverId, "documents"],
+    queryFn: () => api.getDriverDocuments(driverId),
+    enabled: !!driver,
+  });
+  const photo = documents.find((d) => d.kind === "photo");
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveKyc = useMutation({
+    mutationFn: () => api.updateDriver(driverId, {
+      licenceNumber: form.licenceNumber || null,
+      licenceExpiry: form.licenceExpiry || null,
+      badgeNumber: form.badgeNumber || null,
+      badgeExpiry: form.badgeExpiry || null,
+      idReference: form.idReference || null,
+      emergencyContactName: form.emergencyContactName || null,
+      emergencyContactPhone: form.emergencyContactPhone || null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/expiring-documents"] });
+      toast({ title: "Success", description: "KYC details saved" });
+    },
+    onError,
+  });
+
+  const upload = useMutation({
+    mutationFn: (file: File) => api.uploadDriverDocument(driverId, kind, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/drivers", driverId, "documents"] });
+      toast({ title: "Success", description: "File uploaded" });
+    },
+    onError,
+  });
+
+  const deleteDocument = useMutation({
+    mutationFn: (documentId: number) => api.deleteDriverDocument(driverId, documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/drivers", driverId, "documents"] });
+      toast({ title: "Success", description: "File deleted" });
+    },
+    onError,
+  });
+
+  const field = (key: keyof typeof form, label: string, type = "text") => (
+    <div>
+      <Label htmlFor={`kyc-${key}`}>{label}</Label>
+      <Input
+        id={`kyc-${key}`}
+        type={type}
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        disabled={!canEdit}
+        data-testid={`input-kyc-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={!!driver} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>KYC — {driver?.name}</DialogTitle>
+          <DialogDescription>
+            Trips cannot be logged for a driver after their licence expiry date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-6">
+          <div className="w-28 h-28 flex-shrink-0 rounded-lg bg-gray-100 overflow-hidden flex items-center justify-center">
+            {photo ? (
+              <img
+                src={api.driverDocumentFileUrl(driverId, photo.id)}
+                alt={driver?.name}
+                className="w-full h-full object-cover"
+                data-testid="img-driver-photo"
+              />
+            ) : (
+              <User className="w-12 h-12 text-gray-300" />
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3 flex-1">
+            {field("licenceNumber", "Licence Number")}
+            {field("licenceExpiry", "Licence Expiry", "date")}
+            {field("badgeNumber", "Badge / PSV Number")}
+            {field("badgeExpiry", "Badge Expiry", "date")}
+            {field("idReference", "Aadhaar / ID Reference")}
+            <div />
+            {field("emergencyContactName", "Emergency Contact")}
+            {field("emergencyContactPhone", "Emergency Phone")}
+          </div>
+        </div>
+        {canEdit && (
+          <Button onClick={() => saveKyc.mutate()} disabled={saveKyc.isPending} data-testid="button-save-kyc">
+            {saveKyc.isPending ? "Saving..." : "Save Details"}
+          </Button>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="font-medium text-gray-900">Files</h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading files...</p>
+          ) : documents.length === 0 ? (
+            <p className="text-sm text-gray-500">No files uploaded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((d) => (
+                  <TableRow key={d.id} data-testid={`row-driver-document-${d.id}`}>
+                    <TableCell className="font-medium">{DRIVER_DOCUMENT_LABELS[d.kind]}</TableCell>
+                    <TableCell>
+                      <a
+                        href={api.driverDocumentFileUrl(driverId, d.id)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center text-sm text-blue-600 hover:underline"
+                      >
+                        <FileText className="w-4 h-4 mr-1" />
+                        {d.fileName}
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {format(new Date(d.createdAt), "MMM dd, yyyy")} by {d.uploadedBy}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteDocument.mutate(d.id)}
+                          disabled={deleteDocument.isPending}
+                          data-testid={`button-delete-driver-document-${d.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canEdit && (
+            <div className="flex items-end gap-3">
+              <div className="w-48">
+                <Label>Type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as DriverDocumentKind)}>
+                  <SelectTrigger data-testid="select-driver-document-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DRIVER_DOCUMENT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Label className="inline-flex items-center h-10 px-4 rounded-md border text-sm font-medium cursor-pointer hover:bg-gray-50">
+                <Upload className="w-4 h-4 mr-2" />
+                {upload.isPending ? "Uploading..." : "Upload File"}
+                <input
+                  type="file"
+                  accept={UPLOAD_ACCEPT}
+                  className="hidden"
+                  disabled={upload.isPending}
+                  onChange={(e) => {
+                    const selected = e.target.files?.[0];
+                    if (selected) upload.mutate(selected);
+                    e.target.value = "";
+                  }}
+                  data-testid="input-upload-driver-document"
+                />
+              </Label>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
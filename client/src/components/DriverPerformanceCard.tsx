@@ -44,13 +44,13 @@ export default function DriverPerformanceCard({ vehicleId }: DriverPerformanceCa
               <div className="bg-gray-50 rounded-lg p-3">
                 <p className="text-xs text-gray-500 uppercase tracking-wide">Accommodation</p>
                 <p className="text-sm font-semibold text-gray-900">
-                  {vehicleSummary.morningDriver.hasAccommodation ? "Yes - ₹600/day" : "No - ₹500/day"}
+                  {vehicleSummary.morningDriver.accommodationName ?? "None"} - ₹{vehicleSummary.morningDriver.dailyRent}/day
                 </p>
               </div>
               <div className="bg-gray-50 rounded-lg p-3">
                 <p className="text-xs text-gray-500 uppercase tracking-wide">Weekly Due</p>
                 <p className="text-sm font-semibold text-gray-900">
-                  ₹{((vehicleSummary.morningDriver.hasAccommodation ? 600 : 500) * 7).toLocaleString()}
+                  ₹{(vehicleSummary.morningDriver.dailyRent * 7).toLocaleString()}
                 </p>
               </div>
             </div>
@@ -73,13 +73,13 @@ export default function DriverPerformanceCard({ vehicleId }: DriverPerformanceCa
               <div className="bg-gray-50 rounded-lg p-3">
                 <p className="text-xs text-gray-500 uppercase tracking-wide">Accommodation</p>
                 <p className="text-sm font-semibold text-gray-900">
-                  {vehicleSummary.eveningDriver.hasAccommodation ? "Yes - ₹600/day" : "No - ₹500/day"}
+                  {vehicleSummary.eveningDriver.accommodationName ?? "None"} - ₹{vehicleSummary.eveningDriver.dailyRent}/day
                 </p>
               </div>
               <div className="bg-gray-50 rounded-lg p-3">
                 <p className="text-xs text-gray-500 uppercase tracking-wide">Weekly Due</p>
                 <p className="text-sm font-semibold text-gray-900">
-                  ₹{((vehicleSummary.eveningDriver.hasAccommodation ? 600 : 500) * 7).toLocaleString()}
+                  ₹{(vehicleSummary.eveningDriver.dailyRent * 7).toLocaleString()}
                 </p>
               </div>
             </div>
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type LedgerSource } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+
+const inr = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+const SOURCE_LABELS: Record<LedgerSource, string> = {
+  rent: "Rent",
+  collection: "Collection",
+  wallet: "Wallet",
+  dues: "Dues",
+  payout: "Payout",
+  advance: "Advance",
+  incident: "Incident",
+  deposit: "Deposit",
+  adjustment: "Adjustment",
+};
+
+// Positive balances are owed to the driver, negative ones by the driver
+function BalanceText({ value }: { value: number }) {
+  return (
+    <span className={value < 0 ? "text-red-600" : "text-green-700"}>
+      {inr(Math.abs(value))} {value < 0 ? "Dr" : "Cr"}
+    </span>
+  );
+}
+
+interface DriverStatementProps {
+  driver: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Side drawer with a driver's dated ledger and manual adjustments. */
+export default function DriverStatement({ driver, onOpenChange }: DriverStatementProps) {
+  const [range, setRange] = useState({ from: "", to: "" });
+  const [adjustment, setAdjustment] = useState({
+    date: new Date().toISOString().split("T")[0],
+    direction: "credit",
+    amount: "",
+    description: "",
+  });
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const driverId = driver?.id ?? 0;
+  const ledgerKey = `/api/drivers/${driverId}/ledger`;
+  const canAdjust = !!user && canAccessApi(user.role, "POST", `/api/drivers/${driverId}/adjustments`);
+
+  const { data: ledger, isLoading, error } = useQuery({
+    queryKey: [ledgerKey, range],
+    queryFn: () => api.getDriverLedger(driverId, range),
+    enabled: !!driver,
+  });
+
+  const createAdjustment = useMutation({
+    mutationFn: () => api.createDriverAdjustment(driverId, {
+      date: adjustment.date,
+      amount: (adjustment.direction === "debit" ? -1 : 1) * parseInt(adjustment.amount || "0"),
+      description: adjustment.description,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ledgerKey] });
+      setAdjustment((current) => ({ ...current, amount: "", description: "" }));
+      toast({ title: "Success", description: "Adjustment added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteAdjustment = useMutation({
+    mutationFn: (adjustmentId: number) => api.deleteDriverAdjustment(driverId, adjustmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ledgerKey] });
+      toast({ title: "Success", description: "Adjustment deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Sheet open={!!driver} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-4xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Statement</SheetTitle>
+          <SheetDescription>{driver?.name}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="ledgerFrom">From</Label>
+              <Input
+                id="ledgerFrom"
+                type="date"
+                value={range.from}
+                onChange={(e) => setRange({ ...range, from: e.target.value })}
+                data-testid="input-ledger-from"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ledgerTo">To</Label>
+              <Input
+                id="ledgerTo"
+                type="date"
+                value={range.to}
+                onChange={(e) => setRange({ ...range, to: e.target.value })}
+                data-testid="input-ledger-to"
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading statement...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{(error as Error).message}</p>
+          ) : ledger && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div className="border rounded-lg p-3">
+                  <p className="text-gray-500">Opening</p>
+                  <p className="font-semibold" data-testid="text-ledger-opening"><BalanceText value={ledger.openingBalance} /></p>
+                </div>
+                <div className="border rounded-lg p-3">
+                  <p className="text-gray-500">Debits</p>
+                  <p className="font-semibold">{inr(ledger.totalDebit)}</p>
+                </div>
+                <div className="border rounded-lg p-3">
+                  <p className="text-gray-500">Credits</p>
+                  <p className="font-semibold">{inr(ledger.totalCredit)}</p>
+                </div>
+                <div className="border rounded-lg p-3">
+                  <p className="text-gray-500">Closing</p>
+                  <p className="font-semibold" data-testid="text-ledger-closing"><BalanceText value={ledger.closingBalance} /></p>
+                </div>
+              </div>
+
+              {ledger.entries.length === 0 ? (
+                <p className="text-center py-8 text-sm text-gray-500">No entries in this period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      {canAdjust && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ledger.entries.map((entry, index) => (
+                      <TableRow key={`${entry.source}-${entry.refId}-${index}`} data-testid={`row-ledger-${index}`}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(entry.date), "MMM dd, yyyy")}</TableCell>
+                        <TableCell><Badge variant="secondary">{SOURCE_LABELS[entry.source]}</Badge></TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className="text-right">{entry.debit ? inr(entry.debit) : ""}</TableCell>
+                        <TableCell className="text-right">{entry.credit ? inr(entry.credit) : ""}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap"><BalanceText value={entry.balance} /></TableCell>
+                        {canAdjust && (
+                          <TableCell>
+                            {entry.source === "adjustment" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteAdjustment.mutate(Number(entry.refId))}
+                                disabled={deleteAdjustment.isPending}
+                                data-testid={`button-delete-adjustment-${entry.refId}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+
+          {canAdjust && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <h3 className="font-medium text-gray-900">Add Adjustment</h3>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <div>
+                  <Label htmlFor="adjustmentDate">Date</Label>
+                  <Input
+                    id="adjustmentDate"
+                    type="date"
+                    value={adjustment.date}
+                    onChange={(e) => setAdjustment({ ...adjustment, date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={adjustment.direction} onValueChange={(value) => setAdjustment({ ...adjustment, direction: value })}>
+                    <SelectTrigger data-testid="select-adjustment-direction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="credit">Credit (owed to driver)</SelectItem>
+                      <SelectItem value="debit">Debit (owed by driver)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="adjustmentAmount">Amount (₹)</Label>
+                  <Input
+                    id="adjustmentAmount"
+                    type="number"
+                    min="1"
+                    value={adjustment.amount}
+                    onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+                    data-testid="input-adjustment-amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="adjustmentDescription">Description</Label>
+                  <Input
+                    id="adjustmentDescription"
+                    value={adjustment.description}
+                    onChange={(e) => setAdjustment({ ...adjustment, description: e.target.value })}
+                    data-testid="input-adjustment-description"
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={() => createAdjustment.mutate()}
+                disabled={createAdjustment.isPending || !adjustment.amount || !adjustment.description.trim()}
+                data-testid="button-add-adjustment"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {createAdjustment.isPending ? "Adding..." : "Add Adjustment"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
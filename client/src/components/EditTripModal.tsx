@@ -140,7 +140,7 @@ export default function EditTripModal({ trip, open, onOpenChange }: EditTripModa
                     <SelectContent>
                       {vehicles.map((vehicle) => (
                         <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
-                          {vehicle.vehicleNumber} ({vehicle.company})
+                          {vehicle.vehicleNumber} ({vehicle.companyName})
                         </SelectItem>
                       ))}
                     </SelectContent>
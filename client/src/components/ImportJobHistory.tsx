@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { queryClient } from "@/lib/queryClient";
+import { api, type ImportJob, type ImportUndoResult } from "@/lib/api";
+import type { ImportKind, ImportRecordEntity } from "@shared/schema";
+import { canAccessApi } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Undo2 } from "lucide-react";
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  "trip-logs": "Trip logs",
+  "weekly-summary": "Driver statement",
+};
+
+const RECORD_LABELS: Record<ImportRecordEntity, string> = {
+  driverRentLog: "trip logs",
+  driverLeave: "leave days",
+  weeklySummary: "weekly summaries",
+  driver: "drivers",
+  vehicle: "vehicles",
+};
+
+function recordSummary(records: Partial<Record<ImportRecordEntity, number>>): string {
+  return (Object.keys(RECORD_LABELS) as ImportRecordEntity[])
+    .filter((entity) => records[entity])
+    .map((entity) => `${records[entity]} ${RECORD_LABELS[entity]}`)
+    .join(", ");
+}
+
+function undoSummary(result: ImportUndoResult): string {
+  const parts = [`Removed ${recordSummary(result.removed) || "nothing"}`];
+  if (result.restored > 0) parts.push(`put back ${result.restored} weekly summaries as they were`);
+  if (result.kept.length > 0) parts.push(`kept ${result.kept.length} (see the history)`);
+  return parts.join("; ");
+}
+
+/** Past runs of the importers the user may see, with undo for those they may write to. */
+export default function ImportJobHistory() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [undoing, setUndoing] = useState<ImportJob | null>(null);
+
+  const canRead = (kind: ImportKind) => !!user && canAccessApi(user.role, "GET", `/api/import/${kind}/jobs`);
+  const canUndo = (kind: ImportKind) => !!user && canAccessApi(user.role, "POST", `/api/import/${kind}/jobs/0/undo`);
+
+  const { data: tripJobs = [] } = useQuery({
+    queryKey: ["/api/import/trip-logs/jobs"],
+    queryFn: () => api.getImportJobs("trip-logs"),
+    enabled: canRead("trip-logs"),
+  });
+  const { data: statementJobs = [] } = useQuery({
+    queryKey: ["/api/import/weekly-summary/jobs"],
+    queryFn: () => api.getImportJobs("weekly-summary"),
+    enabled: canRead("weekly-summary"),
+  });
+  const jobs = [...tripJobs, ...statementJobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const undoMutation = useMutation({
+    mutationFn: (job: ImportJob) => api.undoImportJob(job.kind, job.id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/trip-logs/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import/weekly-summary/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      toast({
+        title: "Import Undone",
+        description: undoSummary(result),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Undo Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import History</CardTitle>
+        <CardDescription>
+          Each import and the rows it wrote. Undoing an import removes them, except rows in closed weeks and drivers or vehicles other records use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Import</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Wrote</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => (
+              <TableRow key={`${job.kind}-${job.id}`} data-testid={`import-job-${job.id}`}>
+                <TableCell className="whitespace-nowrap">{format(new Date(job.createdAt), "MMM dd, yyyy HH:mm")}</TableCell>
+                <TableCell>{KIND_LABELS[job.kind]}</TableCell>
+                <TableCell className="max-w-[16rem] truncate" title={job.fileName ?? undefined}>
+                  {job.fileName ?? "—"}
+                  {typeof job.options.sheetName === "string" && <span className="text-gray-500"> · {job.options.sheetName}</span>}
+                </TableCell>
+                <TableCell>{job.uploadedBy}</TableCell>
+                <TableCell className="text-sm">
+                  {recordSummary(job.records) || "Nothing"}
+                  {job.undoKept && job.undoKept.length > 0 && (
+                    <ul className="text-xs text-gray-500 mt-1 list-disc list-inside">
+                      {job.undoKept.map((note) => <li key={note}>Kept: {note}</li>)}
+                    </ul>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {job.undoneAt ? (
+                    <Badge variant="secondary" title={`${job.undoneBy}, ${format(new Date(job.undoneAt), "MMM dd, yyyy HH:mm")}`}>
+                      Undone
+                    </Badge>
+                  ) : canUndo(job.kind) && Object.keys(job.records).length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setUndoing(job)}
+                      disabled={undoMutation.isPending}
+                      data-testid={`button-undo-import-${job.id}`}
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      Undo
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <AlertDialog open={undoing !== null} onOpenChange={() => setUndoing(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Undo this import?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {undoing && `This removes the ${recordSummary(undoing.records)} written by ${undoing.fileName ?? "the import"}, and puts back weekly summaries it overwrote. Rows in closed weeks, and drivers or vehicles that other records use, are kept.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  if (undoing) {
+                    undoMutation.mutate(undoing);
+                    setUndoing(null);
+                  }
+                }}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Undo Import
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
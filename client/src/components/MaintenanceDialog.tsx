@@ -0,0 +1,394 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type MaintenanceCategory, type ServiceDue, type ServiceStatus } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+
+const inr = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+export const MAINTENANCE_CATEGORY_LABELS: Record<MaintenanceCategory, string> = {
+  service: "Service",
+  tyres: "Tyres",
+  battery: "Battery",
+  repair: "Repair",
+  bodywork: "Bodywork",
+  other: "Other",
+};
+
+export function ServiceStatusBadge({ status }: { status: ServiceStatus }) {
+  if (status === "overdue") return <Badge variant="secondary" className="bg-red-100 text-red-800">Overdue</Badge>;
+  if (status === "upcoming") return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Due soon</Badge>;
+  return <Badge variant="secondary" className="bg-green-100 text-green-800">OK</Badge>;
+}
+
+/** "in 5 days · 800 km left" style summary of when a service falls due. */
+export function describeDue(service: ServiceDue): string {
+  const parts: string[] = [];
+  if (service.daysLeft !== null) {
+    parts.push(service.daysLeft < 0 ? `${-service.daysLeft} days overdue` : service.daysLeft === 0 ? "due today" : `in ${service.daysLeft} days`);
+  }
+  if (service.kmLeft !== null) {
+    parts.push(service.kmLeft <= 0 ? `${(-service.kmLeft).toLocaleString("en-IN")} km over` : `${service.kmLeft.toLocaleString("en-IN")} km left`);
+  } else if (service.intervalKm && service.dueKm === null) {
+    parts.push("no odometer reading yet");
+  }
+  return parts.join(" · ");
+}
+
+function emptyRecord() {
+  return {
+    date: format(new Date(), "yyyy-MM-dd"),
+    category: "service" as MaintenanceCategory,
+    odometer: "",
+    cost: "",
+    garage: "",
+    description: "",
+  };
+}
+
+function emptyInterval() {
+  return { category: "service" as MaintenanceCategory, intervalDays: "", intervalKm: "" };
+}
+
+interface MaintenanceDialogProps {
+  vehicle: { id: number; vehicleNumber: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** A vehicle's service intervals with their due state, and its maintenance records. */
+export default function MaintenanceDialog({ vehicle, onOpenChange }: MaintenanceDialogProps) {
+  const [record, setRecord] = useState(emptyRecord);
+  const [serviceInterval, setServiceInterval] = useState(emptyInterval);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const vehicleId = vehicle?.id ?? 0;
+  const canEdit = !!user && canAccessApi(user.role, "POST", `/api/vehicles/${vehicleId}/maintenance`);
+
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ["/api/vehicles", vehicleId, "maintenance"],
+    queryFn: () => api.getMaintenanceRecords(vehicleId),
+    enabled: !!vehicle,
+  });
+
+  const { data: schedule = [] } = useQuery({
+    queryKey: ["/api/vehicles", vehicleId, "service-intervals"],
+    queryFn: () => api.getServiceIntervals(vehicleId),
+    enabled: !!vehicle,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles", vehicleId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/due"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createRecord = useMutation({
+    mutationFn: () => api.createMaintenanceRecord(vehicleId, {
+      date: record.date,
+      category: record.category,
+      odometer: record.odometer ? parseInt(record.odometer) : null,
+      cost: parseInt(record.cost || "0"),
+      garage: record.garage || undefined,
+      description: record.description || undefined,
+    }),
+    onSuccess: () => {
+      refresh();
+      setRecord(emptyRecord());
+      toast({ title: "Success", description: "Maintenance recorded" });
+    },
+    onError,
+  });
+
+  const deleteRecord = useMutation({
+    mutationFn: (recordId: number) => api.deleteMaintenanceRecord(vehicleId, recordId),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Maintenance record deleted" });
+    },
+    onError,
+  });
+
+  const saveInterval = useMutation({
+    mutationFn: () => api.saveServiceInterval(vehicleId, {
+      category: serviceInterval.category,
+      intervalDays: serviceInterval.intervalDays ? parseInt(serviceInterval.intervalDays) : null,
+      intervalKm: serviceInterval.intervalKm ? parseInt(serviceInterval.intervalKm) : null,
+    }),
+    onSuccess: () => {
+      refresh();
+      setServiceInterval(emptyInterval());
+      toast({ title: "Success", description: "Service interval saved" });
+    },
+    onError,
+  });
+
+  const deleteInterval = useMutation({
+    mutationFn: (intervalId: number) => api.deleteServiceInterval(vehicleId, intervalId),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Service interval removed" });
+    },
+    onError,
+  });
+
+  const totalCost = records.reduce((sum, r) => sum + r.cost, 0);
+
+  return (
+    <Dialog open={!!vehicle} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Maintenance — {vehicle?.vehicleNumber}</DialogTitle>
+          <DialogDescription>
+            Costs are deducted from the vehicle's profit for the week they are dated in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900">Service Schedule</h3>
+          {schedule.length === 0 ? (
+            <p className="text-sm text-gray-500">No service intervals set</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Every</TableHead>
+                  <TableHead>Last Done</TableHead>
+                  <TableHead>Next Due</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.map((service) => (
+                  <TableRow key={service.intervalId} data-testid={`row-interval-${service.intervalId}`}>
+                    <TableCell className="font-medium">{MAINTENANCE_CATEGORY_LABELS[service.category]}</TableCell>
+                    <TableCell>
+                      {[
+                        service.intervalDays ? `${service.intervalDays} days` : null,
+                        service.intervalKm ? `${service.intervalKm.toLocaleString("en-IN")} km` : null,
+                      ].filter(Boolean).join(" / ")}
+                    </TableCell>
+                    <TableCell>
+                      {service.lastDate ? format(new Date(service.lastDate), "MMM dd, yyyy") : "—"}
+                      {service.lastOdometer !== null && <div className="text-xs text-gray-500">{service.lastOdometer.toLocaleString("en-IN")} km</div>}
+                    </TableCell>
+                    <TableCell>
+                      {[
+                        service.dueDate ? format(new Date(service.dueDate), "MMM dd, yyyy") : null,
+                        service.dueKm !== null ? `${service.dueKm.toLocaleString("en-IN")} km` : null,
+                      ].filter(Boolean).join(" or ") || "—"}
+                      <div className="text-xs text-gray-500">{describeDue(service)}</div>
+                    </TableCell>
+                    <TableCell><ServiceStatusBadge status={service.status} /></TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteInterval.mutate(service.intervalId)}
+                          disabled={deleteInterval.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canEdit && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <Label>Type</Label>
+                <Select value={serviceInterval.category} onValueChange={(value) => setServiceInterval({ ...serviceInterval, category: value as MaintenanceCategory })}>
+                  <SelectTrigger data-testid="select-interval-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MAINTENANCE_CATEGORY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="intervalDays">Every (days)</Label>
+                <Input
+                  id="intervalDays"
+                  type="number"
+                  min="1"
+                  value={serviceInterval.intervalDays}
+                  onChange={(e) => setServiceInterval({ ...serviceInterval, intervalDays: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="intervalKm">Every (km)</Label>
+                <Input
+                  id="intervalKm"
+                  type="number"
+                  min="1"
+                  value={serviceInterval.intervalKm}
+                  onChange={(e) => setServiceInterval({ ...serviceInterval, intervalKm: e.target.value })}
+                />
+              </div>
+              <Button
+                onClick={() => saveInterval.mutate()}
+                disabled={saveInterval.isPending || (!serviceInterval.intervalDays && !serviceInterval.intervalKm)}
+                data-testid="button-save-interval"
+              >
+                Save Interval
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900">Records</h3>
+            {records.length > 0 && <span className="text-sm text-gray-500">Total {inr(totalCost)}</span>}
+          </div>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading records...</p>
+          ) : records.length === 0 ? (
+            <p className="text-sm text-gray-500">No maintenance recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Odometer</TableHead>
+                  <TableHead>Garage</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((r) => (
+                  <TableRow key={r.id} data-testid={`row-maintenance-${r.id}`}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(r.date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>{MAINTENANCE_CATEGORY_LABELS[r.category]}</TableCell>
+                    <TableCell className="text-right">{r.odometer !== null ? `${r.odometer.toLocaleString("en-IN")} km` : "—"}</TableCell>
+                    <TableCell>{r.garage || "—"}</TableCell>
+                    <TableCell>
+                      {r.description || "—"}
+                      <div className="text-xs text-gray-500">by {r.recordedBy}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{inr(r.cost)}</TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteRecord.mutate(r.id)}
+                          disabled={deleteRecord.isPending}
+                          data-testid={`button-delete-maintenance-${r.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canEdit && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <h3 className="font-medium text-gray-900">Add Record</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="maintenanceDate">Date</Label>
+                  <Input
+                    id="maintenanceDate"
+                    type="date"
+                    value={record.date}
+                    onChange={(e) => setRecord({ ...record, date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={record.category} onValueChange={(value) => setRecord({ ...record, category: value as MaintenanceCategory })}>
+                    <SelectTrigger data-testid="select-maintenance-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(MAINTENANCE_CATEGORY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="maintenanceCost">Cost (₹)</Label>
+                  <Input
+                    id="maintenanceCost"
+                    type="number"
+                    min="0"
+                    value={record.cost}
+                    onChange={(e) => setRecord({ ...record, cost: e.target.value })}
+                    data-testid="input-maintenance-cost"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="maintenanceOdometer">Odometer (km)</Label>
+                  <Input
+                    id="maintenanceOdometer"
+                    type="number"
+                    min="0"
+                    value={record.odometer}
+                    onChange={(e) => setRecord({ ...record, odometer: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="maintenanceGarage">Garage</Label>
+                  <Input
+                    id="maintenanceGarage"
+                    value={record.garage}
+                    onChange={(e) => setRecord({ ...record, garage: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="maintenanceDescription">Details</Label>
+                  <Input
+                    id="maintenanceDescription"
+                    value={record.description}
+                    onChange={(e) => setRecord({ ...record, description: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={() => createRecord.mutate()}
+                disabled={createRecord.isPending || record.cost === "" || !record.date}
+                data-testid="button-add-maintenance"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {createRecord.isPending ? "Saving..." : "Add Record"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
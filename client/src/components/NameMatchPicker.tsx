@@ -0,0 +1,39 @@
+import type { NameMatchCandidate } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+
+interface NameMatchPickerProps {
+  name: string; // the name as the import wrote it
+  candidates: NameMatchCandidate[];
+  disabled?: boolean;
+  onUse: (id: number) => void;      // tie the name to the record for this import only
+  onRemember: (id: number) => void; // save the name as the record's alias
+}
+
+/** Suggests records for a name an import could not match, to use once or remember as an alias. */
+export default function NameMatchPicker({ name, candidates, disabled, onUse, onRemember }: NameMatchPickerProps) {
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-1" data-testid={`match-picker-${name}`}>
+      <p className="text-xs text-gray-500">Did you mean:</p>
+      {candidates.map((candidate) => (
+        <div key={candidate.id} className="flex items-center gap-1 text-xs">
+          <span className="font-medium mr-1">{candidate.name}</span>
+          <Button variant="outline" size="sm" className="h-6 px-2 text-xs" disabled={disabled} onClick={() => onUse(candidate.id)}>
+            Use
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={disabled}
+            onClick={() => onRemember(candidate.id)}
+            title={`Always read "${name}" as ${candidate.name}`}
+          >
+            Always
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
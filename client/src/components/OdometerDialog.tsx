@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type HandoverReading } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface OdometerShift {
+  id: number;
+  isSubstitute: boolean;
+  vehicleId: number;
+  vehicleNumber: string;
+  driverName: string;
+  date: string; // YYYY-MM-DD
+  shift: "morning" | "evening";
+  startOdometer: number | null;
+  endOdometer: number | null;
+}
+
+interface OdometerDialogProps {
+  shift: OdometerShift | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function describeHandover(reading: HandoverReading, side: "previous" | "next"): string {
+  const who = `${reading.driverName}${reading.substitute ? " (substitute)" : ""}`;
+  const when = `${reading.shift} shift, ${format(new Date(reading.date), "MMM dd")}`;
+  const km = side === "previous" ? reading.endOdometer : reading.startOdometer;
+  return `${who}, ${when}: ${km === null ? "no reading" : `${side === "previous" ? "ended at" : "started at"} ${km} km`}`;
+}
+
+const parseKm = (value: string) => (value.trim() === "" ? null : parseInt(value));
+
+/**
+ * Start and end odometer readings for a rent log or substitute shift. The
+ * start defaults to where the previous shift on the vehicle ended.
+ */
+export default function OdometerDialog({ shift, onOpenChange }: OdometerDialogProps) {
+  const [form, setForm] = useState({ start: "", end: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: handover } = useQuery({
+    queryKey: ["/api/odometer/handover", shift?.vehicleId, shift?.date, shift?.shift],
+    queryFn: () => api.getHandover(shift!.vehicleId, shift!.date, shift!.shift),
+    enabled: !!shift,
+  });
+
+  useEffect(() => {
+    if (!shift) return;
+    const prefill = shift.startOdometer ?? handover?.previous?.endOdometer ?? null;
+    setForm({
+      start: prefill === null ? "" : String(prefill),
+      end: shift.endOdometer === null ? "" : String(shift.endOdometer),
+    });
+  }, [shift, handover]);
+
+  const start = parseKm(form.start);
+  const end = parseKm(form.end);
+  const driven = start !== null && end !== null ? end - start : null;
+
+  const save = useMutation({
+    mutationFn: (): Promise<{ handoverWarning?: string | null }> => {
+      const readings = { startOdometer: start, endOdometer: end };
+      return shift!.isSubstitute
+        ? api.updateSubstituteOdometer(shift!.id, readings)
+        : api.updateRentLog(shift!.id, readings);
+    },
+    onSuccess: (result) => {
+      const changed = shift!.isSubstitute ? "/api/substitute-drivers" : "/api/driver-rent-logs";
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === "string" && (k.startsWith(changed) || k.startsWith("/api/odometer") || k.startsWith("/api/reports/odometer"));
+      }});
+      if (result.handoverWarning) {
+        toast({ title: "Readings saved with a gap", description: result.handoverWarning });
+      } else {
+        toast({ title: "Success", description: "Odometer readings saved" });
+      }
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!shift} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Odometer — {shift?.vehicleNumber}</DialogTitle>
+          <DialogDescription>
+            {shift && `${shift.driverName} · ${shift.shift} shift · ${format(new Date(shift.date), "MMM dd, yyyy")}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {handover?.previous && (
+            <p className="text-sm text-gray-500">Previous: {describeHandover(handover.previous, "previous")}</p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="startOdometer">Start (km)</Label>
+              <Input
+                id="startOdometer"
+                type="number"
+                min="0"
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+                data-testid="input-start-odometer"
+              />
+            </div>
+            <div>
+              <Label htmlFor="endOdometer">End (km)</Label>
+              <Input
+                id="endOdometer"
+                type="number"
+                min="0"
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+                data-testid="input-end-odometer"
+              />
+            </div>
+          </div>
+          {driven !== null && (
+            <p className={driven < 0 ? "text-sm text-red-600" : "text-sm text-gray-700"}>
+              {driven < 0 ? "End reading is below the start" : `${driven} km driven`}
+            </p>
+          )}
+          {handover?.next && (
+            <p className="text-sm text-gray-500">Next: {describeHandover(handover.next, "next")}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => save.mutate()}
+            disabled={save.isPending || (driven !== null && driven < 0)}
+            data-testid="button-save-odometer"
+          >
+            {save.isPending ? "Saving..." : "Save Readings"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
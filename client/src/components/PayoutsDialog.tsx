@@ -0,0 +1,257 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type DriverPayout, type PayoutMethod } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ban, Plus } from "lucide-react";
+
+const inr = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+export const PAYOUT_METHOD_LABELS: Record<PayoutMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  bank: "Bank transfer",
+};
+
+interface PayoutsDialogProps {
+  driver: { driverId: number; driverName: string } | null;
+  startDate: string;
+  endDate: string;
+  readOnly?: boolean; // the range falls in a closed week
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Payouts handed to one driver in a date range, with recording and voiding. */
+export default function PayoutsDialog({ driver, startDate, endDate, readOnly, onOpenChange }: PayoutsDialogProps) {
+  const [form, setForm] = useState({ date: endDate, amount: "", method: "cash" as PayoutMethod, reference: "", notes: "" });
+  const [voiding, setVoiding] = useState<DriverPayout | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canRecord = !readOnly && !!user && canAccessApi(user.role, "POST", "/api/payouts");
+
+  useEffect(() => {
+    setForm((current) => ({ ...current, date: endDate }));
+  }, [endDate]);
+
+  const filters = { driverId: driver?.driverId, from: startDate, to: endDate, includeVoided: true };
+  const { data: payouts = [], isLoading } = useQuery({
+    queryKey: ["/api/payouts", filters],
+    queryFn: () => api.getPayouts(filters),
+    enabled: !!driver,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payouts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/weekly-summary/aggregates"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createPayout({
+      driverId: driver!.driverId,
+      date: form.date,
+      amount: parseInt(form.amount),
+      method: form.method,
+      reference: form.reference || undefined,
+      notes: form.notes || undefined,
+    }),
+    onSuccess: () => {
+      refresh();
+      setForm((current) => ({ ...current, amount: "", reference: "", notes: "" }));
+      toast({ title: "Success", description: "Payout recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: () => api.voidPayout(voiding!.id, voidReason),
+    onSuccess: () => {
+      refresh();
+      setVoiding(null);
+      setVoidReason("");
+      toast({ title: "Success", description: "Payout voided" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activeTotal = payouts.filter((payout) => !payout.voidedAt).reduce((sum, payout) => sum + payout.amount, 0);
+
+  return (
+    <>
+      <Dialog open={!!driver} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Payouts — {driver?.driverName}</DialogTitle>
+            <DialogDescription>
+              {startDate} to {endDate} · Total {inr(activeTotal)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading payouts...</p>
+          ) : payouts.length === 0 ? (
+            <p className="text-center py-6 text-sm text-gray-500">No payouts recorded in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Recorded By</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payouts.map((payout) => (
+                  <TableRow key={payout.id} className={payout.voidedAt ? "text-gray-400" : ""} data-testid={`row-payout-${payout.id}`}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(payout.date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell className={`text-right ${payout.voidedAt ? "line-through" : ""}`}>{inr(payout.amount)}</TableCell>
+                    <TableCell>{PAYOUT_METHOD_LABELS[payout.method]}</TableCell>
+                    <TableCell>
+                      {payout.reference || "—"}
+                      {payout.notes && <p className="text-xs text-gray-500">{payout.notes}</p>}
+                    </TableCell>
+                    <TableCell>{payout.recordedBy}</TableCell>
+                    <TableCell>
+                      {payout.voidedAt ? (
+                        <Badge variant="secondary" title={`${payout.voidedBy}: ${payout.voidReason}`}>Voided</Badge>
+                      ) : canRecord && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setVoiding(payout)}
+                          title="Void"
+                          data-testid={`button-void-payout-${payout.id}`}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canRecord && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <h3 className="font-medium text-gray-900">Record Payout</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                  <Label htmlFor="payoutDate">Date</Label>
+                  <Input
+                    id="payoutDate"
+                    type="date"
+                    min={startDate}
+                    max={endDate}
+                    value={form.date}
+                    onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="payoutAmount">Amount (₹)</Label>
+                  <Input
+                    id="payoutAmount"
+                    type="number"
+                    min="1"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    data-testid="input-payout-amount"
+                  />
+                </div>
+                <div>
+                  <Label>Method</Label>
+                  <Select value={form.method} onValueChange={(value) => setForm({ ...form, method: value as PayoutMethod })}>
+                    <SelectTrigger data-testid="select-payout-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYOUT_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="payoutReference">Reference</Label>
+                  <Input
+                    id="payoutReference"
+                    value={form.reference}
+                    placeholder={form.method === "cash" ? "Optional" : "Transaction ID"}
+                    onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                    data-testid="input-payout-reference"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="payoutNotes">Notes</Label>
+                <Input
+                  id="payoutNotes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+              </div>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !form.amount || parseInt(form.amount) <= 0 || !form.date}
+                data-testid="button-record-payout"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {createMutation.isPending ? "Recording..." : "Record Payout"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!voiding} onOpenChange={(open) => !open && setVoiding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Payout</DialogTitle>
+            <DialogDescription>
+              {voiding && `${inr(voiding.amount)} on ${voiding.date}. The record is kept but no longer counts towards the driver's payout.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="voidReason">Reason</Label>
+            <Textarea
+              id="voidReason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              data-testid="input-void-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoiding(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => voidMutation.mutate()}
+              disabled={voidMutation.isPending || !voidReason.trim()}
+              data-testid="button-confirm-void"
+            >
+              Void
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,11 +1,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Plus, Calculator, UserPlus, FileText, ChevronRight } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccessApi } from "@shared/permissions";
+import type { ExportType } from "@shared/schema";
 import { useState } from "react";
 
+const EXPORTS: Array<{ type: ExportType; label: string }> = [
+  { type: "settlements", label: "Settlements" },
+  { type: "weekly-summaries", label: "Weekly summaries" },
+  { type: "trips", label: "Trips" },
+  { type: "drivers", label: "Drivers" },
+  { type: "vehicles", label: "Vehicles" },
+  { type: "investments", label: "Investments" },
+];
+
 interface QuickActionsProps {
   onAddTripLog: () => void;
   onAddSubstitute?: () => void;
@@ -13,7 +26,10 @@ interface QuickActionsProps {
 
 export default function QuickActions({ onAddTripLog, onAddSubstitute }: QuickActionsProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
+  const [exportOpen, setExportOpen] = useState(false);
+  const exports = EXPORTS.filter(({ type }) => !!user && canAccessApi(user.role, "GET", `/api/export/${type}`));
 
   // Process all settlements mutation
   const processAllSettlementsMutation = useMutation({
@@ -35,14 +51,15 @@ export default function QuickActions({ onAddTripLog, onAddSubstitute }: QuickAct
     },
   });
 
-  // Export data function
-  const handleExport = async (type: "settlements" | "trips" | "drivers" | "vehicles") => {
+  // Export data as an Excel workbook
+  const handleExport = async (type: ExportType) => {
+    setExportOpen(false);
     try {
-      const blob = await api.exportData(type);
+      const blob = await api.exportData(type, "xlsx");
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${type}_export_${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `${type}_export_${new Date().toISOString().split('T')[0]}.xlsx`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -50,7 +67,7 @@ export default function QuickActions({ onAddTripLog, onAddSubstitute }: QuickAct
       
       toast({
         title: "Success",
-        description: `${type.charAt(0).toUpperCase() + type.slice(1)} exported successfully`,
+        description: `${EXPORTS.find((e) => e.type === type)?.label} exported successfully`,
       });
     } catch (error) {
       toast({
@@ -88,15 +105,6 @@ export default function QuickActions({ onAddTripLog, onAddSubstitute }: QuickAct
       onClick: onAddSubstitute || (() => {}),
       disabled: false,
     },
-    {
-      icon: FileText,
-      label: "Export Report",
-      bgColor: "fleet-gradient-amber",
-      textColor: "text-orange-900",
-      iconColor: "text-orange-600",
-      onClick: () => handleExport("settlements"),
-      disabled: false,
-    },
   ];
 
   return (
@@ -124,6 +132,38 @@ export default function QuickActions({ onAddTripLog, onAddSubstitute }: QuickAct
               </Button>
             );
           })}
+          {exports.length > 0 && (
+            <Popover open={exportOpen} onOpenChange={setExportOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-between p-3 h-auto fleet-gradient-amber hover:opacity-80 transition-opacity"
+                  data-testid="button-export-report"
+                >
+                  <div className="flex items-center space-x-3">
+                    <FileText className="w-5 h-5 text-orange-600" />
+                    <span className="font-medium text-orange-900">Export Report</span>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-orange-600 opacity-60" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-56 p-1">
+                <p className="px-2 py-1.5 text-xs text-gray-500">Download as Excel</p>
+                {exports.map(({ type, label }) => (
+                  <Button
+                    key={type}
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-start"
+                    onClick={() => handleExport(type)}
+                    data-testid={`button-export-${type}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </PopoverContent>
+            </Popover>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -15,9 +15,11 @@ export default function RentalSlabCard({ vehicleId }: RentalSlabCardProps) {
   });
 
   const { data: rentalSlabs } = useQuery({
-    queryKey: ["/api/rental-slabs", vehicleSummary?.vehicle.company],
-    queryFn: () => vehicleSummary?.vehicle.company ? api.getRentalSlabs(vehicleSummary.vehicle.company) : null,
-    enabled: !!vehicleSummary?.vehicle.company,
+    queryKey: ["/api/rental-slabs", vehicleSummary?.vehicle.companyId, vehicleSummary?.weekStart],
+    queryFn: () => vehicleSummary?.vehicle.companyId
+      ? api.getRentalSlabs(vehicleSummary.vehicle.companyId, vehicleSummary.weekStart.split("T")[0])
+      : null,
+    enabled: !!vehicleSummary?.vehicle.companyId,
   });
 
   if (isLoading) {
@@ -52,7 +54,7 @@ export default function RentalSlabCard({ vehicleId }: RentalSlabCardProps) {
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium text-blue-900">Current Slab</span>
             <Badge variant="secondary" className="bg-blue-200 text-blue-800">
-              {vehicleSummary.vehicle.company}
+              {vehicleSummary.vehicle.companyName}
             </Badge>
           </div>
           <div className="flex items-center justify-between">
@@ -105,7 +107,7 @@ export default function RentalSlabCard({ vehicleId }: RentalSlabCardProps) {
         {/* All Slabs Reference */}
         <div className="border-t pt-4">
           <h4 className="text-sm font-medium text-gray-900 mb-3">
-            {vehicleSummary.vehicle.company} Rental Slabs
+            {vehicleSummary.vehicle.companyName} Rental Slabs
           </h4>
           <div className="space-y-2 text-xs">
             {rentalSlabs?.map((slab, index) => {
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MAINTENANCE_CATEGORY_LABELS, ServiceStatusBadge, describeDue } from "@/components/MaintenanceDialog";
+import { Wrench } from "lucide-react";
+
+/** Dashboard list of services that are overdue or coming up across the fleet. */
+export default function ServiceDuePanel() {
+  const { data: services = [], isLoading } = useQuery({
+    queryKey: ["/api/maintenance/due"],
+    queryFn: api.getServicesDue,
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse h-48 bg-gray-200 rounded-xl"></div>;
+  }
+
+  const overdue = services.filter((service) => service.status === "overdue").length;
+
+  return (
+    <Card className="rounded-xl shadow-sm border border-gray-200" data-testid="card-service-due">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-gray-900">Upcoming Service</CardTitle>
+          {overdue > 0 && (
+            <Badge variant="secondary" className="bg-red-100 text-red-800">
+              {overdue} overdue
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {services.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            <Wrench className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+            <p className="text-sm">Nothing due in the next two weeks</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {services.map((service) => (
+              <div
+                key={service.intervalId}
+                className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                data-testid={`service-due-${service.intervalId}`}
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{service.vehicleNumber}</p>
+                  <p className="text-xs text-gray-500">
+                    {MAINTENANCE_CATEGORY_LABELS[service.category]}
+                    {service.dueDate ? ` · ${format(new Date(service.dueDate), "MMM dd")}` : ""}
+                  </p>
+                  <p className="text-xs text-gray-500">{describeDue(service)}</p>
+                </div>
+                <ServiceStatusBadge status={service.status} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
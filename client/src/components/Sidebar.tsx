@@ -1,8 +1,11 @@
-import { Truck, BarChart3, Car, Users, Route, Calculator, Wallet, Calendar, TrendingUp, Upload } from "lucide-react";
+import { Truck, BarChart3, Car, Users, Route, Calculator, Wallet, Calendar, TrendingUp, Upload, Layers, Building2, UserCog, LogOut, History, Home, FileWarning, Siren, Fuel, Gauge, CalendarRange, CalendarOff, UserCheck, Timer } from "lucide-react";
 import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS } from "@shared/permissions";
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const { user, logout, canAccess } = useAuth();
   
   const currentWeek = new Date().toLocaleDateString('en-US', {
     month: 'short',
@@ -14,13 +17,26 @@ export default function Sidebar() {
     { icon: BarChart3, label: "Dashboard", href: "/", active: location === "/" },
     { icon: Car, label: "Vehicles", href: "/vehicles", active: location === "/vehicles" },
     { icon: Users, label: "Drivers", href: "/drivers", active: location === "/drivers" },
+    { icon: FileWarning, label: "Expiring Documents", href: "/expiring-documents", active: location === "/expiring-documents" },
+    { icon: CalendarRange, label: "Roster", href: "/roster", active: location === "/roster" },
+    { icon: CalendarOff, label: "Leave", href: "/leave", active: location === "/leave" },
+    { icon: UserCheck, label: "Substitutes", href: "/substitutes", active: location === "/substitutes" },
     { icon: Route, label: "Trip Logs", href: "/trip-logs", active: location === "/trip-logs" },
+    { icon: Siren, label: "Incidents", href: "/incidents", active: location === "/incidents" },
+    { icon: Fuel, label: "Fuel", href: "/fuel", active: location === "/fuel" },
+    { icon: Gauge, label: "Odometer", href: "/odometer", active: location === "/odometer" },
     { icon: Calendar, label: "Weekly Summary", href: "/weekly-summary", active: location === "/weekly-summary" },
     { icon: Calculator, label: "Settlements", href: "/settlements", active: location === "/settlements" },
     { icon: Wallet, label: "Drivers Payments", href: "/drivers-payments", active: location === "/drivers-payments" },
     { icon: TrendingUp, label: "Investments", href: "/investments", active: location === "/investments" },
+    { icon: Home, label: "Accommodations", href: "/accommodations", active: location === "/accommodations" },
+    { icon: Building2, label: "Companies", href: "/companies", active: location === "/companies" },
+    { icon: Layers, label: "Rental Slabs", href: "/rental-slabs", active: location === "/rental-slabs" },
+    { icon: Timer, label: "Substitute Rates", href: "/substitute-rates", active: location === "/substitute-rates" },
     { icon: Upload, label: "Import Data", href: "/import", active: location === "/import" },
-  ];
+    { icon: History, label: "Audit Log", href: "/audit-log", active: location === "/audit-log" },
+    { icon: UserCog, label: "Users", href: "/users", active: location === "/users" },
+  ].filter((item) => canAccess(item.href));
 
   return (
     <div className="w-64 bg-white shadow-sm border-r border-gray-200 flex-shrink-0">
@@ -57,11 +73,27 @@ export default function Sidebar() {
       </nav>
       
       {/* Current Week Info */}
-      <div className="p-4 mt-auto">
+      <div className="p-4 mt-auto space-y-3">
         <div className="bg-gray-50 rounded-lg p-3">
           <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Current Week</p>
           <p className="text-sm font-semibold text-gray-900">{currentWeek}</p>
         </div>
+        {user && (
+          <div className="flex items-center justify-between px-3">
+            <div>
+              <p className="text-sm font-semibold text-gray-900">{user.displayName}</p>
+              <p className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</p>
+            </div>
+            <button
+              onClick={() => logout()}
+              className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+              title="Log out"
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,155 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api, type SpreadsheetSheet } from "@/lib/api";
+import {
+  STATEMENT_FIELDS,
+  STATEMENT_FIELD_LABELS,
+  resolveStatementColumns,
+  type StatementColumns,
+  type StatementProfileId,
+} from "@shared/statementProfiles";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const NOT_MAPPED = "__none__";
+
+export interface StatementFile {
+  name: string;
+  headers: string[];
+  rows: Array<Record<string, unknown>>;
+  sheets?: SpreadsheetSheet[]; // an Excel file's sheets, of which `sheet` is shown
+  sheet?: string;
+}
+
+export interface StatementImportChoice {
+  profile: StatementProfileId;
+  columns: StatementColumns;
+  saveMapping: boolean;
+}
+
+interface StatementImportDialogProps {
+  file: StatementFile | null;
+  weekStart: string; // the week rows without a date are filed in
+  importing?: boolean;
+  onImport: (choice: StatementImportChoice) => void;
+  onSheetChange?: (sheet: string) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Picks the statement format for an uploaded file and maps its columns to weekly summary fields. */
+export default function StatementImportDialog({ file, weekStart, importing, onImport, onSheetChange, onOpenChange }: StatementImportDialogProps) {
+  const [profileId, setProfileId] = useState<StatementProfileId>("template");
+  const [columns, setColumns] = useState<StatementColumns>({});
+  const [saveMapping, setSaveMapping] = useState(true);
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["/api/import/weekly-summary/profiles"],
+    queryFn: () => api.getStatementProfiles(),
+    enabled: !!file,
+  });
+  const profile = profiles.find((p) => p.id === profileId);
+
+  useEffect(() => {
+    if (file && profile) {
+      setColumns(resolveStatementColumns(profile, file.headers, profile.savedColumns));
+    }
+  }, [file, profile]);
+
+  const setColumn = (field: typeof STATEMENT_FIELDS[number], header: string) => {
+    setColumns({ ...columns, [field]: header === NOT_MAPPED ? null : header });
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Driver Statement</DialogTitle>
+          <DialogDescription>{file?.name} · {file?.rows.length ?? 0} rows</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {file?.sheets && file.sheets.length > 1 && (
+            <div>
+              <Label>Sheet</Label>
+              <Select value={file.sheet} onValueChange={(value) => onSheetChange?.(value)}>
+                <SelectTrigger data-testid="select-statement-sheet">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {file.sheets.map((sheet) => (
+                    <SelectItem key={sheet.name} value={sheet.name}>{sheet.name} ({sheet.rows.length} rows)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <Label>Format</Label>
+            <Select value={profileId} onValueChange={(value) => setProfileId(value as StatementProfileId)}>
+              <SelectTrigger data-testid="select-statement-profile">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {profile && <p className="text-xs text-gray-500 mt-1">{profile.description}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 max-h-80 overflow-y-auto">
+            {STATEMENT_FIELDS.map((field) => (
+              <div key={field}>
+                <Label className="text-xs">{STATEMENT_FIELD_LABELS[field]}</Label>
+                <Select value={columns[field] ?? NOT_MAPPED} onValueChange={(value) => setColumn(field, value)}>
+                  <SelectTrigger className="h-9" data-testid={`select-column-${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>— Not in file —</SelectItem>
+                    {file?.headers.map((header) => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {!columns.date && (
+            <p className="text-sm text-amber-700">No date column: every row is filed in the week starting {weekStart}.</p>
+          )}
+          {!columns.trips && (
+            <p className="text-sm text-gray-500">No trips column: each driver keeps the trip count from the trip logs.</p>
+          )}
+          <p className="text-xs text-gray-500">
+            Tolls, tips, incentives and platform fees are recorded as the statement's breakdown; the wallet is worked out from total earnings, cash and refunds.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="saveStatementMapping" checked={saveMapping} onCheckedChange={(checked) => setSaveMapping(checked === true)} />
+            <Label htmlFor="saveStatementMapping" className="text-sm font-normal">
+              Remember this mapping for {profile?.name ?? "this format"}
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => onImport({ profile: profileId, columns, saveMapping })}
+            disabled={!columns.driver || importing}
+            data-testid="button-run-statement-import"
+          >
+            {importing ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
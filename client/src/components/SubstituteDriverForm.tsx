@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,12 +12,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useToast } from "@/hooks/use-toast";
 import { CalendarIcon, Plus, UserPlus } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { api } from "@/lib/api";
 import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
 const substituteDriverSchema = z.object({
-  name: z.string().min(1, "Name is required"),
+  substituteId: z.number({ required_error: "Pick a substitute" }).min(1, "Pick a substitute"),
   vehicleId: z.number().min(1, "Vehicle selection is required"),
   date: z.date({
     required_error: "Date is required",
@@ -25,17 +26,20 @@ const substituteDriverSchema = z.object({
   shift: z.enum(["morning", "evening"], {
     required_error: "Shift is required",
   }),
-  shiftHours: z.enum(["6", "8", "12"], {
-    required_error: "Shift hours are required",
-  }),
+  shiftHours: z.number({ required_error: "Shift hours are required" }).int().min(1, "At least 1 hour").max(24, "At most 24 hours"),
   tripCount: z.number().min(1, "Trip count must be at least 1").max(50, "Trip count cannot exceed 50"),
+  startOdometer: z.number().int().min(0).nullable(),
+  endOdometer: z.number().int().min(0).nullable(),
+}).refine((data) => data.startOdometer === null || data.endOdometer === null || data.endOdometer >= data.startOdometer, {
+  message: "End reading is below the start",
+  path: ["endOdometer"],
 });
 
 type SubstituteDriverFormData = z.infer<typeof substituteDriverSchema>;
 
 interface SubstituteDriverFormProps {
   vehicleId?: number | null;
-  vehicles: Array<{ id: number; vehicleNumber: string; company: string }>;
+  vehicles: Array<{ id: number; vehicleNumber: string; companyName: string | null }>;
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
 }
@@ -44,39 +48,70 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
   const [internalOpen, setInternalOpen] = useState(false);
   const open = externalOpen !== undefined ? externalOpen : internalOpen;
   const setOpen = onOpenChange || setInternalOpen;
+  const [newSubstitute, setNewSubstitute] = useState<{ name: string; phone: string } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: substitutes = [] } = useQuery({
+    queryKey: ["/api/substitutes"],
+    queryFn: () => api.getSubstitutes(),
+    enabled: open,
+  });
+  const activeSubstitutes = substitutes.filter((substitute) => substitute.active);
+
   const form = useForm<SubstituteDriverFormData>({
     resolver: zodResolver(substituteDriverSchema),
     defaultValues: {
       vehicleId: vehicleId || undefined,
       date: new Date(),
       shift: "morning",
-      shiftHours: "8",
+      shiftHours: 8,
       tripCount: 5,
+      startOdometer: null,
+      endOdometer: null,
+    },
+  });
+
+  // The server prices the shift from the rate card; the form shows and sends that charge
+  const [quoteVehicleId, quoteDate, quoteHours, quoteSubstituteId] = form.watch(["vehicleId", "date", "shiftHours", "substituteId"]);
+  const quoteDay = quoteDate ? quoteDate.toISOString().split("T")[0] : "";
+  const quoteReady = open && !!quoteVehicleId && !!quoteDay && Number.isInteger(quoteHours) && quoteHours >= 1 && quoteHours <= 24;
+  const { data: quote, error: quoteError } = useQuery({
+    queryKey: ["/api/substitute-rates/quote", quoteVehicleId, quoteDay, quoteHours, quoteSubstituteId],
+    queryFn: () => api.getSubstituteQuote({
+      vehicleId: quoteVehicleId,
+      date: quoteDay,
+      shiftHours: quoteHours,
+      substituteId: quoteSubstituteId || undefined,
+    }),
+    enabled: quoteReady,
+    retry: false,
+  });
+
+  const addSubstituteMutation = useMutation({
+    mutationFn: (values: { name: string; phone: string }) => api.createSubstitute(values),
+    onSuccess: (substitute) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/substitutes"] });
+      form.setValue("substituteId", substitute.id, { shouldValidate: true });
+      setNewSubstitute(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
     },
   });
 
   const mutation = useMutation({
     mutationFn: async (data: SubstituteDriverFormData) => {
-      const shiftHours = parseInt(data.shiftHours);
-      let charge: number;
-      
-      // Calculate charge based on hours
-      switch (shiftHours) {
-        case 6:
-          charge = 250;
-          break;
-        case 8:
-          charge = 350;
-          break;
-        case 12:
-          charge = 500;
-          break;
-        default:
-          throw new Error("Invalid shift hours");
+      const substitute = substitutes.find((s) => s.id === data.substituteId);
+      if (!substitute) {
+        throw new Error("Pick a substitute");
       }
+      const { charge } = await api.getSubstituteQuote({
+        vehicleId: data.vehicleId,
+        date: data.date.toISOString().split("T")[0],
+        shiftHours: data.shiftHours,
+        substituteId: data.substituteId,
+      });
 
       const response = await fetch("/api/substitute-drivers", {
         method: "POST",
@@ -85,21 +120,23 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
         },
         body: JSON.stringify({
           ...data,
+          name: substitute.name,
           date: data.date.toISOString(),
-          shiftHours,
           charge,
           tripCount: data.tripCount,
         }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to add substitute driver");
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || error.message || "Failed to add substitute driver");
       }
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (substitute) => {
       queryClient.invalidateQueries({ queryKey: ["/api/substitute-drivers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/substitutes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/profit-graph"] });
@@ -107,16 +144,21 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
       queryClient.invalidateQueries({ queryKey: ["/api/trips/recent/500"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trips/recent/10"] });
       queryClient.invalidateQueries({ queryKey: ["/api/driver-rent-logs"] });
+      queryClient.invalidateQueries({ predicate: (q) => typeof q.queryKey[0] === "string" && q.queryKey[0].startsWith("/api/reports/odometer") });
       toast({
         title: "Success",
-        description: "Substitute driver added successfully",
+        description: substitute.handoverWarning
+          ? `Substitute driver added. ${substitute.handoverWarning}`
+          : "Substitute driver added successfully",
       });
       form.reset({
         vehicleId: vehicleId || undefined,
         date: new Date(),
         shift: "morning",
-        shiftHours: "8",
+        shiftHours: 8,
         tripCount: 5,
+        startOdometer: null,
+        endOdometer: null,
       });
       setOpen(false);
     },
@@ -133,19 +175,6 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
     mutation.mutate(data);
   };
 
-  const getChargeForHours = (hours: string) => {
-    switch (hours) {
-      case "6":
-        return "₹250";
-      case "8":
-        return "₹350";
-      case "12":
-        return "₹500";
-      default:
-        return "";
-    }
-  };
-
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       {externalOpen === undefined && (
@@ -165,13 +194,63 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
               control={form.control}
-              name="name"
+              name="substituteId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Driver Name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Enter substitute driver name" {...field} />
-                  </FormControl>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Substitute</FormLabel>
+                    {!newSubstitute && (
+                      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setNewSubstitute({ name: "", phone: "" })}>
+                        <Plus className="w-3 h-3 mr-1" />
+                        New substitute
+                      </Button>
+                    )}
+                  </div>
+                  {newSubstitute ? (
+                    <div className="space-y-2 rounded border p-3">
+                      <Input
+                        placeholder="Name"
+                        value={newSubstitute.name}
+                        onChange={(e) => setNewSubstitute({ ...newSubstitute, name: e.target.value })}
+                        data-testid="input-new-substitute-name"
+                      />
+                      <Input
+                        placeholder="Phone (optional)"
+                        value={newSubstitute.phone}
+                        onChange={(e) => setNewSubstitute({ ...newSubstitute, phone: e.target.value })}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setNewSubstitute(null)}>Cancel</Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          disabled={!newSubstitute.name.trim() || addSubstituteMutation.isPending}
+                          onClick={() => addSubstituteMutation.mutate(newSubstitute)}
+                          data-testid="button-add-new-substitute"
+                        >
+                          Add to Registry
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value?.toString() || ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-substitute">
+                          <SelectValue placeholder="Select substitute" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {activeSubstitutes.map((substitute) => (
+                          <SelectItem key={substitute.id} value={substitute.id.toString()}>
+                            {substitute.name}{substitute.phone ? ` (${substitute.phone})` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -195,7 +274,7 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
                     <SelectContent>
                       {vehicles.map((vehicle) => (
                         <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
-                          {vehicle.vehicleNumber} ({vehicle.company})
+                          {vehicle.vehicleNumber} ({vehicle.companyName})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -274,21 +353,29 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Shift Hours</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select hours" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="6">6 hours (₹250)</SelectItem>
-                      <SelectItem value="8">8 hours (₹350)</SelectItem>
-                      <SelectItem value="12">12 hours (₹500)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {field.value && (
-                    <p className="text-sm text-muted-foreground">
-                      Charge: {getChargeForHours(field.value)}
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="24"
+                      value={Number.isNaN(field.value) ? "" : field.value}
+                      onChange={(e) => field.onChange(e.target.value === "" ? NaN : parseInt(e.target.value))}
+                      onBlur={field.onBlur}
+                      name={field.name}
+                      data-testid="input-shift-hours"
+                    />
+                  </FormControl>
+                  {quoteReady && (
+                    <p className="text-sm text-muted-foreground" data-testid="text-substitute-charge">
+                      {quoteError
+                        ? (quoteError as Error).message
+                        : quote
+                          ? <>
+                              Charge: ₹{quote.charge}
+                              {quote.source === "substitute" ? " (agreed rate" : ` (up-to-${quote.bandHours}h band`}
+                              {quote.premium > 0 ? `, +₹${quote.premium} ${quote.premiumReason})` : ")"}
+                            </>
+                          : "Pricing shift..."}
                     </p>
                   )}
                   <FormMessage />
@@ -326,6 +413,33 @@ export default function SubstituteDriverForm({ vehicleId, vehicles, open: extern
               )}
             />
 
+            <div className="grid grid-cols-2 gap-3">
+              {(["startOdometer", "endOdometer"] as const).map((name) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{name === "startOdometer" ? "Start Odometer (km)" : "End Odometer (km)"}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="Optional"
+                          value={field.value?.toString() ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                          onBlur={field.onBlur}
+                          name={field.name}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
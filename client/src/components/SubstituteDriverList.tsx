@@ -120,9 +120,7 @@ export default function SubstituteDriverList({ vehicleId, weekStart, weekEnd }:
                       {driver.charge}
                     </div>
                     <div className="text-xs text-gray-500">
-                      {driver.shiftHours === 6 && "6-hour rate"}
-                      {driver.shiftHours === 8 && "8-hour rate"}
-                      {driver.shiftHours === 12 && "12-hour rate"}
+                      {driver.shiftHours}-hour rate
                     </div>
                   </div>
                 </div>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -38,12 +38,21 @@ const tripLogSchema = tripLogFormSchema.transform((data) => ({
 
 type TripLogFormData = z.infer<typeof tripLogFormSchema>;
 
+// Slot to open the form on, e.g. from the roster
+export interface TripLogPrefill {
+  vehicleId: number;
+  driverId?: number;
+  date: string;
+  shift: "morning" | "evening";
+}
+
 interface TripLogModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  prefill?: TripLogPrefill | null;
 }
 
-export default function TripLogModal({ open, onOpenChange }: TripLogModalProps) {
+export default function TripLogModal({ open, onOpenChange, prefill }: TripLogModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedVehicleId, setSelectedVehicleId] = useState<number | null>(null);
@@ -77,6 +86,33 @@ export default function TripLogModal({ open, onOpenChange }: TripLogModalProps)
     },
   });
 
+  useEffect(() => {
+    if (!open || !prefill) return;
+    setSelectedVehicleId(prefill.vehicleId);
+    form.reset({
+      vehicleId: String(prefill.vehicleId),
+      driverId: prefill.driverId ? String(prefill.driverId) : "",
+      tripDate: prefill.date,
+      shift: prefill.shift,
+    });
+  }, [open, prefill]);
+
+  // The driver rostered for the chosen vehicle, date and shift fills the driver until one is picked
+  const tripDate = form.watch("tripDate");
+  const shift = form.watch("shift");
+  const { data: roster } = useQuery({
+    queryKey: ["/api/roster", tripDate, selectedVehicleId],
+    queryFn: () => api.getRoster({ from: tripDate, to: tripDate, vehicleId: selectedVehicleId! }),
+    enabled: open && !!selectedVehicleId && /^\d{4}-\d{2}-\d{2}$/.test(tripDate ?? ""),
+  });
+  const rostered = roster?.entries.find((entry) => entry.shift === shift);
+
+  useEffect(() => {
+    if (rostered && !form.getFieldState("driverId").isDirty) {
+      form.setValue("driverId", String(rostered.driverId));
+    }
+  }, [rostered]);
+
   const createTripMutation = useMutation({
     mutationFn: (data: TripLogFormData) => {
       const parsedData = {
@@ -122,7 +158,7 @@ export default function TripLogModal({ open, onOpenChange }: TripLogModalProps)
     const id = parseInt(vehicleId);
     setSelectedVehicleId(id);
     form.setValue("vehicleId", vehicleId);
-    form.setValue("driverId", ""); // Reset driver selection
+    form.resetField("driverId", { defaultValue: "" }); // Reset driver selection, so the roster can fill it
   };
 
   const getAvailableDrivers = () => {
@@ -173,7 +209,7 @@ export default function TripLogModal({ open, onOpenChange }: TripLogModalProps)
                     <SelectContent>
                       {getActiveVehicles().map((vehicle) => (
                         <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
-                          {vehicle.vehicleNumber} {vehicle.qrCode ? `(QR: ${vehicle.qrCode})` : ''} - {vehicle.company}
+                          {vehicle.vehicleNumber} {vehicle.qrCode ? `(QR: ${vehicle.qrCode})` : ''} - {vehicle.companyName}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -189,7 +225,10 @@ export default function TripLogModal({ open, onOpenChange }: TripLogModalProps)
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Driver</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value?.toString()}>
+                  <Select
+                    onValueChange={(value) => form.setValue("driverId", value, { shouldDirty: true, shouldValidate: true })}
+                    value={field.value?.toString()}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select Driver" />
@@ -203,6 +242,12 @@ export default function TripLogModal({ open, onOpenChange }: TripLogModalProps)
                       ))}
                     </SelectContent>
                   </Select>
+                  {rostered && (
+                    <p className="text-sm text-muted-foreground">
+                      Rostered: {rostered.driverName}
+                      {field.value && field.value !== String(rostered.driverId) && " (a different driver is selected)"}
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type ComplianceStatus, type DocumentCompliance, type VehicleDocumentType } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, Plus, Trash2, Upload } from "lucide-react";
+
+export const DOCUMENT_TYPE_LABELS: Record<VehicleDocumentType, string> = {
+  insurance: "Insurance",
+  permit: "Permit",
+  fitness: "Fitness Certificate",
+  pollution: "Pollution Certificate",
+  road_tax: "Road Tax",
+};
+
+export const UPLOAD_ACCEPT = "application/pdf,image/jpeg,image/png,image/webp";
+
+export function ComplianceBadge({ status }: { status: ComplianceStatus }) {
+  if (status === "expired") return <Badge variant="secondary" className="bg-red-100 text-red-800">Expired</Badge>;
+  if (status === "missing") return <Badge variant="secondary" className="bg-gray-100 text-gray-700">Missing</Badge>;
+  if (status === "expiring") return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Expiring</Badge>;
+  return <Badge variant="secondary" className="bg-green-100 text-green-800">Valid</Badge>;
+}
+
+/** "expires in 12 days" style summary of a document's expiry. */
+export function describeExpiry(document: Pick<DocumentCompliance, "daysLeft">): string {
+  if (document.daysLeft === null) return "not on file";
+  if (document.daysLeft < 0) return `expired ${-document.daysLeft} days ago`;
+  if (document.daysLeft === 0) return "expires today";
+  return `expires in ${document.daysLeft} days`;
+}
+
+function emptyDocument() {
+  return {
+    type: "insurance" as VehicleDocumentType,
+    documentNumber: "",
+    issuedDate: "",
+    expiryDate: "",
+    notes: "",
+  };
+}
+
+interface VehicleDocumentsDialogProps {
+  vehicle: { id: number; vehicleNumber: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** A vehicle's insurance, permits and certificates, with uploaded copies. */
+export default function VehicleDocumentsDialog({ vehicle, onOpenChange }: VehicleDocumentsDialogProps) {
+  const [document, setDocument] = useState(emptyDocument);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const vehicleId = vehicle?.id ?? 0;
+  const canEdit = !!user && canAccessApi(user.role, "POST", `/api/vehicles/${vehicleId}/documents`);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/vehicles", vehicleId, "documents"],
+    queryFn: () => api.getVehicleDocuments(vehicleId),
+    enabled: !!vehicle,
+  });
+  const documents = data?.documents ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles", vehicleId, "documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicle-compliance"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createDocument = useMutation({
+    mutationFn: async () => {
+      const created = await api.createVehicleDocument(vehicleId, {
+        type: document.type,
+        documentNumber: document.documentNumber || undefined,
+        issuedDate: document.issuedDate || null,
+        expiryDate: document.expiryDate,
+        notes: document.notes || undefined,
+      });
+      if (file) await api.uploadVehicleDocumentFile(vehicleId, created.id, file);
+    },
+    onSuccess: () => {
+      refresh();
+      setDocument(emptyDocument());
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      toast({ title: "Success", description: "Document saved" });
+    },
+    onError: (error: Error) => {
+      // The document itself may have been saved even if the upload failed
+      refresh();
+      onError(error);
+    },
+  });
+
+  const uploadFile = useMutation({
+    mutationFn: ({ documentId, file }: { documentId: number; file: File }) =>
+      api.uploadVehicleDocumentFile(vehicleId, documentId, file),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "File uploaded" });
+    },
+    onError,
+  });
+
+  const deleteDocument = useMutation({
+    mutationFn: (documentId: number) => api.deleteVehicleDocument(vehicleId, documentId),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Document deleted" });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={!!vehicle} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Documents — {vehicle?.vehicleNumber}</DialogTitle>
+          <DialogDescription>
+            Add renewals as new documents; the latest expiry of each type is the one that counts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {data && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {data.compliance.documents.map((status) => (
+              <div key={status.type} className="border rounded-lg p-3" data-testid={`compliance-${status.type}`}>
+                <p className="text-xs text-gray-500">{DOCUMENT_TYPE_LABELS[status.type]}</p>
+                <div className="mt-1"><ComplianceBadge status={status.status} /></div>
+                <p className="text-xs text-gray-500 mt-1">{describeExpiry(status)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="font-medium text-gray-900">Documents</h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading documents...</p>
+          ) : documents.length === 0 ? (
+            <p className="text-sm text-gray-500">No documents on file</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Copy</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((d) => (
+                  <TableRow key={d.id} data-testid={`row-document-${d.id}`}>
+                    <TableCell className="font-medium">
+                      {DOCUMENT_TYPE_LABELS[d.type]}
+                      {d.notes && <div className="text-xs text-gray-500">{d.notes}</div>}
+                    </TableCell>
+                    <TableCell>{d.documentNumber || "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap">{d.issuedDate ? format(new Date(d.issuedDate), "MMM dd, yyyy") : "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap">{format(new Date(d.expiryDate), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>
+                      {d.filePath ? (
+                        <a
+                          href={api.vehicleDocumentFileUrl(vehicleId, d.id)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="inline-flex items-center text-sm text-blue-600 hover:underline"
+                        >
+                          <FileText className="w-4 h-4 mr-1" />
+                          {d.fileName}
+                        </a>
+                      ) : canEdit ? (
+                        <Label className="inline-flex items-center text-sm text-gray-600 cursor-pointer hover:text-gray-900">
+                          <Upload className="w-4 h-4 mr-1" />
+                          Upload
+                          <input
+                            type="file"
+                            accept={UPLOAD_ACCEPT}
+                            className="hidden"
+                            onChange={(e) => {
+                              const selected = e.target.files?.[0];
+                              if (selected) uploadFile.mutate({ documentId: d.id, file: selected });
+                              e.target.value = "";
+                            }}
+                            data-testid={`input-upload-document-${d.id}`}
+                          />
+                        </Label>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteDocument.mutate(d.id)}
+                          disabled={deleteDocument.isPending}
+                          data-testid={`button-delete-document-${d.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canEdit && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <h3 className="font-medium text-gray-900">Add Document</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <div>
+                  <Label>Type</Label>
+                  <Select value={document.type} onValueChange={(value) => setDocument({ ...document, type: value as VehicleDocumentType })}>
+                    <SelectTrigger data-testid="select-document-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="documentNumber">Number</Label>
+                  <Input
+                    id="documentNumber"
+                    value={document.documentNumber}
+                    onChange={(e) => setDocument({ ...document, documentNumber: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="documentNotes">Notes</Label>
+                  <Input
+                    id="documentNotes"
+                    value={document.notes}
+                    onChange={(e) => setDocument({ ...document, notes: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="documentIssued">Issued</Label>
+                  <Input
+                    id="documentIssued"
+                    type="date"
+                    value={document.issuedDate}
+                    onChange={(e) => setDocument({ ...document, issuedDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="documentExpiry">Expires</Label>
+                  <Input
+                    id="documentExpiry"
+                    type="date"
+                    value={document.expiryDate}
+                    onChange={(e) => setDocument({ ...document, expiryDate: e.target.value })}
+                    data-testid="input-document-expiry"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="documentFile">Copy (PDF or image)</Label>
+                  <Input
+                    key={fileInputKey}
+                    id="documentFile"
+                    type="file"
+                    accept={UPLOAD_ACCEPT}
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={() => createDocument.mutate()}
+                disabled={createDocument.isPending || !document.expiryDate}
+                data-testid="button-add-document"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {createDocument.isPending ? "Saving..." : "Add Document"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
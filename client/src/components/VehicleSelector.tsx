@@ -1,6 +1,7 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { api, type Vehicle, type VehicleSummary } from "@/lib/api";
+import { format } from "date-fns";
+import { api, type Vehicle, type VehicleSummary, type Company } from "@/lib/api";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
@@ -13,12 +14,19 @@ interface VehicleSelectorProps {
 }
 
 export default function VehicleSelector({ selectedVehicleId, onVehicleSelect }: VehicleSelectorProps) {
+  const [companyFilter, setCompanyFilter] = useState<string>("all");
+
   const { data: vehicles, isLoading: vehiclesLoading } = useQuery({
     queryKey: ["/api/vehicles"],
     queryFn: () => api.getVehicles(),
     enabled: true,
   });
 
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+    queryFn: () => api.getCompanies(),
+  });
+
   const { data: vehicleSummary, isLoading: summaryLoading, refetch } = useQuery({
     queryKey: ["/api/vehicles", selectedVehicleId, "weekly-summary"],
     queryFn: () => selectedVehicleId ? api.getVehicleSummary(selectedVehicleId) : null,
@@ -38,6 +46,7 @@ export default function VehicleSelector({ selectedVehicleId, onVehicleSelect }:
     today.setHours(0, 0, 0, 0);
     
     return vehicles.filter((vehicle: Vehicle) => {
+      if (companyFilter !== "all" && String(vehicle.companyId) !== companyFilter) return false;
       if (!vehicle.droppedDate) return true;
       
       const droppedDate = new Date(vehicle.droppedDate);
@@ -45,7 +54,7 @@ export default function VehicleSelector({ selectedVehicleId, onVehicleSelect }:
       
       return droppedDate > today;
     });
-  }, [vehicles]);
+  }, [vehicles, companyFilter]);
 
   if (vehiclesLoading) {
     return <div className="mb-6 animate-pulse h-48 bg-gray-200 rounded-xl"></div>;
@@ -58,6 +67,19 @@ export default function VehicleSelector({ selectedVehicleId, onVehicleSelect }:
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-lg font-semibold text-gray-900">Vehicle Performance</h3>
             <div className="flex items-center space-x-4">
+              {companies.length > 1 && (
+                <Select value={companyFilter} onValueChange={setCompanyFilter}>
+                  <SelectTrigger className="w-40" data-testid="select-company-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Companies</SelectItem>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <Select value={selectedVehicleId?.toString() || ""} onValueChange={handleVehicleChange}>
                 <SelectTrigger className="w-48">
                   <SelectValue placeholder="Select Vehicle" />
@@ -65,7 +87,7 @@ export default function VehicleSelector({ selectedVehicleId, onVehicleSelect }:
                 <SelectContent>
                   {activeVehicles.map((vehicle: Vehicle) => (
                     <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
-                      {vehicle.vehicleNumber} ({vehicle.company})
+                      {vehicle.vehicleNumber} ({vehicle.companyName})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -112,7 +134,10 @@ export default function VehicleSelector({ selectedVehicleId, onVehicleSelect }:
                     <div>
                       <p className="text-red-600 text-xs font-medium uppercase tracking-wide">Company Rent</p>
                       <p className="text-2xl font-bold text-red-900">₹{vehicleSummary.totalRentToCompany.toLocaleString()}</p>
-                      <p className="text-xs text-red-600">This Week</p>
+                      <p className="text-xs text-red-600">
+                        {vehicleSummary.walletDeduction > 0 && `+ ₹${vehicleSummary.walletDeduction.toLocaleString()} wallet deduction · `}
+                        Settles {format(new Date(`${vehicleSummary.settlementDate}T00:00:00`), "EEE dd MMM")}
+                      </p>
                     </div>
                     <Building className="text-red-400 text-xl" />
                   </div>
@@ -0,0 +1,80 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import type { AppUser as AuthUser } from "@/lib/api";
+import { canAccessPage } from "@shared/permissions";
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  login: (credentials: { username: string; password: string }) => Promise<AuthUser>;
+  logout: () => Promise<void>;
+  isLoggingIn: boolean;
+  canAccess: (path: string) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const res = await fetch("/api/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+        credentials: "include",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Login failed");
+      return data as AuthUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], loggedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  const current = user ?? null;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: current,
+        isLoading,
+        login: loginMutation.mutateAsync,
+        logout: logoutMutation.mutateAsync,
+        isLoggingIn: loginMutation.isPending,
+        canAccess: (path: string) => !!current && canAccessPage(current.role, path),
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -1,25 +1,125 @@
 import { apiRequest } from "./queryClient";
+import type { UserRole, AuditEntity, AuditAction, ExportType, ExportFormat, ImportKind, ImportRecordEntity } from "@shared/schema";
+import type { StatementColumns, StatementProfile, StatementProfileId } from "@shared/statementProfiles";
+
+export interface AppUser {
+  id: number;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  active: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserInput {
+  username?: string;
+  password?: string;
+  displayName?: string;
+  role?: UserRole;
+  active?: boolean;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  actorId: number | null;
+  actorName: string;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  entity?: AuditEntity;
+  entityId?: string;
+  entityIdPrefix?: string;
+  action?: AuditAction;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export const SETTLEMENT_DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+export type SettlementDay = typeof SETTLEMENT_DAYS[number];
+
+export interface Company {
+  id: number;
+  name: string;
+  contactName: string | null;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  settlementDay: SettlementDay;
+  walletDeduction: number;
+  walletNotes: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompanyInput {
+  name: string;
+  contactName?: string | null;
+  contactPhone?: string | null;
+  contactEmail?: string | null;
+  settlementDay: SettlementDay;
+  walletDeduction: number;
+  walletNotes?: string | null;
+  active?: boolean;
+}
 
 export interface Vehicle {
   id: number;
   vehicleNumber: string;
   qrCode?: string;
-  company: "PMV" | "Letzryd";
+  companyId: number;
+  companyName: string | null;
   purchasedDate: string;
   droppedDate?: string;
   createdAt: string;
   updatedAt: string;
 }
 
-export interface Driver {
+export interface DriverKyc {
+  licenceNumber: string | null;
+  licenceExpiry: string | null;
+  badgeNumber: string | null;
+  badgeExpiry: string | null;
+  idReference: string | null;
+  emergencyContactName: string | null;
+  emergencyContactPhone: string | null;
+}
+
+export interface Driver extends DriverKyc {
   id: number;
   name: string;
   phone: string;
-  hasAccommodation: boolean;
+  joinedDate: string;
+  dismissDate: string | null;
+  accommodationId: number | null;   // room the driver stays in today
+  accommodationName: string | null;
+  dailyRent: number;                // base rent plus today's room charge
   createdAt: string;
   updatedAt: string;
 }
 
+export type DriverDocumentKind = "photo" | "licence" | "badge" | "id_proof" | "other";
+
+export interface DriverDocument {
+  id: number;
+  driverId: number;
+  kind: DriverDocumentKind;
+  fileName: string;
+  filePath: string;
+  fileType: string;
+  uploadedBy: string;
+  createdAt: string;
+}
+
 export interface DriverRentLog {
   id: number;
   driverId: number;
@@ -29,6 +129,8 @@ export interface DriverRentLog {
   rent: number;
   amountCollected: number;
   fuel: number;
+  startOdometer: number | null;
+  endOdometer: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -38,159 +140,1774 @@ export interface RentLogWithDetails extends DriverRentLog {
   vehicleNumber: string;
 }
 
-export interface SettlementRow {
-  weekStart: string;
-  weekEnd: string;
-  rent: number;
-  wallet: number;
-  companyRent: number | null;
-  companyWallet: number | null;
-  roomRent: number;
-  profit: number | null;
+export type LedgerSource = "rent" | "collection" | "wallet" | "dues" | "payout" | "advance" | "incident" | "deposit" | "adjustment";
+
+export interface LedgerEntry {
+  date: string;
+  source: LedgerSource;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  refId: string;
 }
 
-export interface VehicleSummary {
-  vehicle: Vehicle;
-  totalTrips: number;
-  rentalRate: number;
-  totalRentToCompany: number;
-  totalDriverRent: number;
-  profit: number;
-  rentalInfo: {
-    currentRate: number;
-    nextBetterSlab: {
-      rate: number;
-      tripsNeeded: number;
-    } | null;
-    weeklyCost: number;
-    optimizationTip: string;
-  };
-  morningDriver: Driver | null;
-  eveningDriver: Driver | null;
+export interface DriverLedger {
+  driverId: number;
+  driverName: string;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  entries: LedgerEntry[];
 }
 
-export interface ProfitBreakdown {
-  revenue: {
-    drivers: Array<{ id: number; name: string; rent: number; daysWorked: number }>;
-    substitutes: Array<{ id: number; name: string; charge: number }>;
-    totalDriverRent: number;
-    totalSubstituteCharges: number;
-  };
-  expenses: {
-    slabRentPerDay: number;
-    totalDays: number;
-    totalCompanyRent: number;
-    company: string;
-  };
-  calculation: {
-    totalRevenue: number;
-    totalExpenses: number;
-    netProfit: number;
-  };
+export interface DriverAdjustmentInput {
+  date: string;
+  amount: number;
+  description: string;
 }
 
-export interface ProfitData {
+export type PayoutMethod = "cash" | "upi" | "bank";
+
+export interface DriverPayout {
+  id: number;
+  driverId: number;
+  date: string;
+  amount: number;
+  method: PayoutMethod;
+  reference: string | null;
+  notes: string | null;
+  recordedBy: string;
+  voidedAt: string | null;
+  voidedBy: string | null;
+  voidReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DriverPayoutInput {
+  driverId: number;
+  date: string;
+  amount: number;
+  method: PayoutMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface AdvanceInstalment {
+  number: number;
+  dueDate: string;
+  amount: number;
+}
+
+export interface DriverAdvance {
+  id: number;
+  driverId: number;
+  issuedDate: string;
+  principal: number;
+  instalmentAmount: number;
+  instalmentCount: number;
+  firstInstalmentDate: string;
+  method: PayoutMethod;
+  reference: string | null;
+  notes: string | null;
+  issuedBy: string;
+  instalments: AdvanceInstalment[];
+  recovered: number;
+  outstanding: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DriverAdvanceInput {
+  driverId: number;
+  issuedDate: string;
+  principal: number;
+  instalmentAmount: number;
+  instalmentCount: number;
+  firstInstalmentDate: string;
+  method: PayoutMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export type DepositDeductionReason = "damage" | "unpaid_dues" | "other";
+
+export interface DriverDeposit {
+  id: number;
+  driverId: number;
+  amount: number;
+  collectedDate: string;
+  method: PayoutMethod;
+  reference: string | null;
+  notes: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DriverDepositInput {
+  amount: number;
+  collectedDate: string;
+  method: PayoutMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface DepositDeduction {
+  id: number;
+  driverId: number;
+  date: string;
+  amount: number;
+  reason: DepositDeductionReason;
+  description: string;
+  recordedBy: string;
+  createdAt: string;
+}
+
+export interface DepositDeductionInput {
+  date: string;
+  amount: number;
+  reason: DepositDeductionReason;
+  description: string;
+}
+
+export interface DriverDepositState {
+  deposit: DriverDeposit | null;
+  deductions: DepositDeduction[];
+  balance: number;
+}
+
+export interface FinalSettlement {
+  driverId: number;
+  driverName: string;
+  joinedDate: string;
+  dismissDate: string;
+  deposit: DriverDeposit | null;
+  deductions: DepositDeduction[];
+  depositBalance: number;
+  ledgerBalance: number;
+  outstandingAdvance: number;
+  netPayable: number;
+}
+
+export type MaintenanceCategory = "service" | "tyres" | "battery" | "repair" | "bodywork" | "other";
+
+export interface MaintenanceRecord {
+  id: number;
+  vehicleId: number;
+  date: string;
+  category: MaintenanceCategory;
+  odometer: number | null;
+  cost: number;
+  garage: string | null;
+  description: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MaintenanceRecordInput {
+  date: string;
+  category: MaintenanceCategory;
+  odometer?: number | null;
+  cost: number;
+  garage?: string;
+  description?: string;
+}
+
+export interface ServiceIntervalInput {
+  category: MaintenanceCategory;
+  intervalDays?: number | null;
+  intervalKm?: number | null;
+  notes?: string;
+}
+
+export type ServiceStatus = "overdue" | "upcoming" | "ok";
+
+export interface ServiceDue {
+  intervalId: number;
+  vehicleId: number;
+  vehicleNumber: string;
+  category: MaintenanceCategory;
+  intervalDays: number | null;
+  intervalKm: number | null;
+  lastDate: string | null;
+  lastOdometer: number | null;
+  dueDate: string | null;
+  dueKm: number | null;
+  currentOdometer: number | null;
+  daysLeft: number | null;
+  kmLeft: number | null;
+  status: ServiceStatus;
+}
+
+export type VehicleDocumentType = "insurance" | "permit" | "fitness" | "pollution" | "road_tax";
+
+export interface VehicleDocument {
+  id: number;
+  vehicleId: number;
+  type: VehicleDocumentType;
+  documentNumber: string | null;
+  issuedDate: string | null;
+  expiryDate: string;
+  fileName: string | null;
+  filePath: string | null;
+  fileType: string | null;
+  notes: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VehicleDocumentInput {
+  type: VehicleDocumentType;
+  documentNumber?: string;
+  issuedDate?: string | null;
+  expiryDate: string;
+  notes?: string;
+}
+
+export type ComplianceStatus = "expired" | "missing" | "expiring" | "valid";
+
+export interface DocumentCompliance {
+  type: VehicleDocumentType;
+  documentId: number | null;
+  documentNumber: string | null;
+  expiryDate: string | null;
+  daysLeft: number | null;
+  status: ComplianceStatus;
+}
+
+export interface VehicleCompliance {
+  vehicleId: number;
+  vehicleNumber: string;
+  status: ComplianceStatus;
+  documents: DocumentCompliance[];
+}
+
+export interface ExpiryWarning extends DocumentCompliance {
+  vehicleId: number;
+  vehicleNumber: string;
+}
+
+export interface ExpiringDocument {
+  subject: "driver" | "vehicle";
+  subjectId: number;
+  subjectName: string;
+  document: "licence" | "badge" | VehicleDocumentType;
+  documentNumber: string | null;
+  expiryDate: string;
+  daysLeft: number;
+  status: "expired" | "expiring";
+}
+
+export type IncidentType = "challan" | "accident" | "damage" | "other";
+
+export interface Incident {
+  id: number;
+  vehicleId: number;
+  vehicleNumber: string;
+  type: IncidentType;
+  date: string;
+  time: string | null;
+  amount: number;
+  reference: string | null;
+  description: string | null;
+  shiftDate: string | null;
+  shift: "morning" | "evening" | null;
+  driverId: number | null;
+  driverName: string | null;
+  substituteDriverId: number | null;
+  substituteName: string | null;
+  resolvedBy: "rent_log" | "substitute" | "manual" | null;
+  chargeToDriver: boolean;
+  chargeDate: string;
+  evidenceFileName: string | null;
+  evidencePath: string | null;
+  evidenceType: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IncidentInput {
+  vehicleId: number;
+  type: IncidentType;
+  date: string;
+  time?: string | null;
+  amount: number;
+  reference?: string;
+  description?: string;
+  driverId?: number | null;
+  chargeToDriver: boolean;
+  chargeDate?: string;
+}
+
+export interface IncidentResponsibility {
+  shiftDate: string;
+  shift: "morning" | "evening" | null;
+  driverId: number | null;
+  driverName: string | null;
+  substituteDriverId: number | null;
+  substituteName: string | null;
+  resolvedBy: "rent_log" | "substitute" | "manual" | null;
+  note: string;
+}
+
+export type FuelType = "cng" | "petrol" | "diesel" | "ev";
+export type FuelPaymentMethod = "cash" | "upi" | "card" | "fuel_card";
+
+export interface FuelEntry {
+  id: number;
+  vehicleId: number;
+  vehicleNumber: string;
+  date: string;
+  shift: "morning" | "evening";
+  fuelType: FuelType;
+  quantity: string; // decimal column, e.g. "8.50"
+  pricePerUnit: string;
+  amount: number;
+  odometer: number | null;
+  fullTank: boolean;
+  paymentMethod: FuelPaymentMethod;
+  station: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FuelEntryInput {
+  vehicleId: number;
+  date: string;
+  shift: "morning" | "evening";
+  fuelType: FuelType;
+  quantity: number;
+  pricePerUnit: number;
+  amount?: number;
+  odometer?: number | null;
+  fullTank: boolean;
+  paymentMethod: FuelPaymentMethod;
+  station?: string;
+}
+
+export interface FuelShift {
+  date: string;
+  shift: "morning" | "evening";
+  driverName: string | null;
+  substitute: boolean;
+  trips: number;
+  spend: number;
+  source: "entries" | "trip_log";
+  deviation: number | null;
+  outlier: boolean;
+}
+
+export interface FuelEfficiencyPoint {
+  date: string;
+  fuelType: FuelType;
+  odometer: number;
+  distanceKm: number;
+  quantity: number;
+  kmPerUnit: number;
+  costPerKm: number;
+}
+
+export interface FuelWeek {
   weekStart: string;
   weekEnd: string;
-  profit: number | null;
-  rent: number;
-  wallet: number;
-  companyRent: number | null;
-  companyWallet: number | null;
-  roomRent: number;
+  spend: number;
+  quantity: number;
+  trips: number;
+  costPerTrip: number | null;
 }
 
-// API functions
-export const api = {
-  // Vehicle APIs
-  getVehicles: async (): Promise<Vehicle[]> => {
-    const response = await fetch("/api/vehicles");
-    if (!response.ok) throw new Error("Failed to fetch vehicles");
-    return response.json();
-  },
+export interface VehicleFuelReport {
+  vehicleId: number;
+  vehicleNumber: string;
+  fuelType: FuelType | null;
+  spend: number;
+  quantity: number;
+  trips: number;
+  costPerTrip: number | null;
+  kmPerUnit: number | null;
+  medianShiftSpend: number | null;
+  outliers: number;
+  weeks: FuelWeek[];
+  efficiency: FuelEfficiencyPoint[];
+  shifts: FuelShift[];
+}
 
-  getVehicle: async (id: number): Promise<Vehicle> => {
-    const response = await fetch(`/api/vehicles/${id}`);
-    if (!response.ok) throw new Error("Failed to fetch vehicle");
-    return response.json();
-  },
+export interface OdometerReadings {
+  startOdometer: number | null;
+  endOdometer: number | null;
+}
 
-  createVehicle: async (vehicle: { vehicleNumber: string; qrCode?: string; company: "PMV" | "Letzryd"; purchasedDate: string | Date }): Promise<Vehicle> => {
-    const response = await fetch("/api/vehicles", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(vehicle),
-    });
-    if (!response.ok) throw new Error("Failed to create vehicle");
-    return response.json();
-  },
+export interface HandoverReading extends OdometerReadings {
+  date: string;
+  shift: "morning" | "evening";
+  driverName: string;
+  substitute: boolean;
+}
 
-  updateVehicle: async (id: number, vehicle: { vehicleNumber?: string; qrCode?: string; company?: "PMV" | "Letzryd"; purchasedDate?: string | Date; droppedDate?: string | Date | null }): Promise<Vehicle> => {
-    const response = await fetch(`/api/vehicles/${id}`, {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(vehicle),
-    });
-    if (!response.ok) throw new Error("Failed to update vehicle");
+export interface HandoverContext {
+  previous: HandoverReading | null;
+  next: HandoverReading | null;
+}
+
+export interface OdometerGap {
+  vehicleId: number;
+  vehicleNumber: string;
+  fromDate: string;
+  fromShift: "morning" | "evening";
+  toDate: string;
+  toShift: "morning" | "evening";
+  lastHeldBy: string;
+  substitute: boolean;
+  endOdometer: number;
+  startOdometer: number;
+  km: number;
+}
+
+export interface DriverOdometerRow {
+  driverId: number | null;
+  driverName: string;
+  substitute: boolean;
+  shifts: number;
+  km: number;
+  trips: number;
+  kmPerTrip: number | null;
+  gaps: number;
+  gapKm: number;
+}
+
+export interface OdometerReport {
+  from: string;
+  to: string;
+  toleranceKm: number;
+  gaps: OdometerGap[];
+  drivers: DriverOdometerRow[];
+}
+
+export interface RosterEntry {
+  id: number;
+  vehicleId: number;
+  driverId: number;
+  date: string;
+  shift: "morning" | "evening";
+  notes: string | null;
+  createdBy: string;
+  vehicleNumber: string;
+  driverName: string;
+}
+
+export interface RosterEntryInput {
+  vehicleId: number;
+  driverId: number;
+  date: string;
+  shift: "morning" | "evening";
+  notes?: string;
+}
+
+export interface RosterConflict {
+  kind: "double_booked" | "double_shift";
+  driverId: number;
+  driverName: string;
+  date: string;
+  entryIds: number[];
+  message: string;
+}
+
+export interface RosterWeek {
+  entries: RosterEntry[];
+  conflicts: RosterConflict[];
+}
+
+export interface Substitute {
+  id: number;
+  name: string;
+  phone: string | null;
+  rate6h: number | null;
+  rate8h: number | null;
+  rate12h: number | null;
+  active: boolean;
+  notes: string | null;
+}
+
+export interface SubstituteWithTotals extends Substitute {
+  shifts: number;
+  trips: number;
+  paid: number;
+  lastShift: string | null;
+}
+
+export interface SubstituteInput {
+  name: string;
+  phone?: string;
+  rate6h?: number | null;
+  rate8h?: number | null;
+  rate12h?: number | null;
+  active?: boolean;
+  notes?: string;
+}
+
+export interface SubstituteShift {
+  id: number;
+  substituteId: number | null;
+  name: string;
+  vehicleId: number;
+  vehicleNumber: string;
+  date: string;
+  shift: "morning" | "evening";
+  shiftHours: number;
+  tripCount: number;
+  charge: number;
+}
+
+export interface SubstituteHistory {
+  substitute: Substitute;
+  shifts: SubstituteShift[];
+  totals: { shifts: number; trips: number; paid: number };
+}
+
+export interface UnlinkedSubstituteName {
+  name: string;
+  shifts: number;
+  paid: number;
+}
+
+export const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  rows: Array<Record<string, string | number>>;
+}
+
+export interface StatementProfileWithMapping extends StatementProfile {
+  savedColumns: StatementColumns | null;
+}
+
+export interface StatementImportRequest {
+  profile: StatementProfileId;
+  columns: StatementColumns;
+  csvData: Array<Record<string, unknown>>;
+  weekStart?: string;
+  confirmOverwrite?: boolean;
+  driverMatches?: Record<string, number>; // statement name to driver id, for this import only
+  fileName?: string;
+  sheetName?: string;
+}
+
+export interface StatementImportResult {
+  duplicatesFound?: boolean;
+  existingData?: Array<{ driverName: string; weekStart: string; weekEnd: string }>;
+  success: number;
+  skipped: number;
+  errors: string[];
+  driversNotFound: string[];
+  driverCandidates?: Record<string, NameMatchCandidate[]>;
+  jobId?: number; // absent when duplicatesFound
+}
+
+export type MatchSource = "name" | "alias" | "phone" | "qrCode" | "confirmed";
+
+export interface NameMatch {
+  id: number;
+  name: string;
+  by: MatchSource;
+}
+
+export interface NameMatchCandidate {
+  id: number;
+  name: string;
+  distance: number;
+}
+
+export interface DriverAlias {
+  id: number;
+  driverId: number;
+  alias: string;
+  driverName: string;
+  recordedBy: string;
+  createdAt: string;
+}
+
+export interface VehicleAlias {
+  id: number;
+  vehicleId: number;
+  alias: string;
+  vehicleNumber: string;
+  recordedBy: string;
+  createdAt: string;
+}
+
+export type TripImportAction = "new_log" | "duplicate" | "leave" | "skipped_leave" | "error";
+
+export interface TripImportChange {
+  field: "vehicle" | "shift" | "rent" | "amountCollected" | "fuel";
+  existing: string | number;
+  incoming: string | number;
+}
+
+export interface TripImportRow {
+  row: number;
+  action: TripImportAction;
+  date: string | null;
+  driverName: string | null;
+  driverId: number | null;
+  vehicleNumber: string | null;
+  vehicleId: number | null;
+  driverMatch: NameMatch | null;
+  vehicleMatch: NameMatch | null;
+  driverCandidates: NameMatchCandidate[];
+  vehicleCandidates: NameMatchCandidate[];
+  shift: "morning" | "evening" | null;
+  rent: number;
+  amountCollected: number;
+  fuel: number;
+  leaveType: LeaveType | null;
+  newDriver: boolean;
+  newVehicle: boolean;
+  message: string | null;
+  existingLogId: number | null;
+  changes: TripImportChange[];
+}
+
+export interface TripImportPlan {
+  rows: TripImportRow[];
+  newDrivers: Array<{ name: string; joinedDate: string }>;
+  newVehicles: Array<{ vehicleNumber: string; companyId: number; companyName: string; purchasedDate: string }>;
+  counts: Record<TripImportAction, number>;
+  fingerprint: string;
+}
+
+export interface TripImportRequest {
+  csvData: Array<Record<string, unknown>>;
+  defaultCompanyId?: number | null;
+  driverMatches?: Record<string, number>;  // name in the file to driver id, for this import only
+  vehicleMatches?: Record<string, number>;
+  fileName?: string;
+  sheetName?: string;
+}
+
+export interface TripImportResult {
+  message: string;
+  jobId: number;
+  counts: Record<TripImportAction, number>;
+  details: {
+    vehiclesCreated: string[];
+    driversCreated: string[];
+    rentLogsCreated: number;
+    leavesRecorded: number;
+  };
+}
+
+// What the commit answers when the fleet's data changed since the preview: nothing was written
+export interface TripImportStale {
+  message: string;
+  plan: TripImportPlan;
+}
+
+export interface ImportJob {
+  id: number;
+  kind: ImportKind;
+  fileName: string | null;
+  options: Record<string, unknown>;
+  counts: Record<string, number>;
+  uploadedBy: string;
+  undoneBy: string | null;
+  undoneAt: string | null;
+  undoKept: string[] | null;
+  createdAt: string;
+  records: Partial<Record<ImportRecordEntity, number>>; // rows tagged to the job, by kind
+}
+
+export interface ImportUndoResult {
+  removed: Partial<Record<ImportRecordEntity, number>>;
+  restored: number;
+  kept: string[];
+}
+
+export interface SubstituteRateBand {
+  maxHours: number;
+  charge: number;
+}
+
+export interface SubstituteRateCard {
+  id: number;
+  companyId: number | null;
+  vehicleId: number | null;
+  weekendPremium: number;
+  holidayPremium: number;
+  notes: string | null;
+  bands: SubstituteRateBand[];
+  companyName: string | null;
+  vehicleNumber: string | null;
+}
+
+export interface SubstituteRateCardInput {
+  companyId?: number | null;
+  vehicleId?: number | null;
+  weekendPremium: number;
+  holidayPremium: number;
+  notes?: string;
+  bands: SubstituteRateBand[];
+}
+
+export interface Holiday {
+  id: number;
+  date: string;
+  name: string;
+}
+
+export interface SubstituteQuote {
+  charge: number;
+  baseCharge: number;
+  premium: number;
+  premiumReason: string | null;
+  bandHours: number;
+  source: "substitute" | "vehicle" | "company" | "default";
+  rateCardId: number;
+}
+
+export type LeaveType = "planned" | "unplanned" | "sick" | "no_vehicle";
+
+export interface DriverLeave {
+  id: number;
+  driverId: number;
+  startDate: string;
+  endDate: string;
+  type: LeaveType;
+  vehicleId: number | null;
+  reason: string | null;
+  source: "manual" | "import";
+  recordedBy: string;
+  driverName: string;
+  vehicleNumber: string | null;
+}
+
+export interface DriverLeaveInput {
+  driverId: number;
+  startDate: string;
+  endDate: string;
+  type: LeaveType;
+  vehicleId?: number | null;
+  reason?: string;
+}
+
+export interface IdleVehicleShift {
+  date: string;
+  shift: "morning" | "evening" | null;
+  vehicleId: number;
+  vehicleNumber: string;
+  driverId: number;
+  driverName: string;
+  leaveId: number;
+  leaveType: LeaveType;
+  basis: "roster" | "leave" | "assignment";
+}
+
+export interface IdleVehicleReport {
+  from: string;
+  to: string;
+  shifts: IdleVehicleShift[];
+  vehicles: Array<{ vehicleId: number; vehicleNumber: string; idleShifts: number }>;
+}
+
+export interface Accommodation {
+  id: number;
+  name: string;
+  address: string;
+  monthlyRent: number;
+  capacity: number;
+  occupantDailyRent: number;
+  leaseStart: string;
+  leaseEnd: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccommodationInput {
+  name: string;
+  address: string;
+  monthlyRent: number;
+  capacity: number;
+  occupantDailyRent: number;
+  leaseStart: string;
+  leaseEnd: string | null;
+  notes?: string;
+}
+
+export interface AccommodationAssignment {
+  id: number;
+  accommodationId: number;
+  driverId: number;
+  driverName: string;
+  accommodationName: string;
+  startDate: string;
+  endDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccommodationWithOccupancy extends Accommodation {
+  occupants: AccommodationAssignment[];
+}
+
+export interface AccommodationAssignmentInput {
+  driverId: number;
+  startDate: string;
+  endDate?: string | null;
+}
+
+export interface WeekLock {
+  closedAt: string | null;
+  closedBy: string | null;
+  closeReason: string | null;
+  reopenedAt: string | null;
+  reopenedBy: string | null;
+  reopenReason: string | null;
+}
+
+export interface SettlementRow {
+  weekStart: string;
+  weekEnd: string;
+  rent: number;
+  wallet: number;
+  walletDeduction: number; // the companies' weekly deduction for every vehicle that ran
+  settlementDates: string[]; // the days the companies settle the week on
+  companyRent: number | null;
+  companyWallet: number | null;
+  roomRent: number;
+  profit: number | null;
+  lock: WeekLock;
+}
+
+export interface ClosedWeek extends WeekLock {
+  weekStart: string;
+  weekEnd: string;
+}
+
+export interface RentalSlab {
+  minTrips: number;
+  maxTrips: number | null;
+  rate: number;
+}
+
+export interface SlabSchedule {
+  id: number;
+  companyId: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  notes: string | null;
+  rows: Array<RentalSlab & { id: number; scheduleId: number }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SlabScheduleInput {
+  companyId: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  notes?: string | null;
+  rows: RentalSlab[];
+}
+
+export interface VehicleSummary {
+  vehicle: Vehicle;
+  totalTrips: number;
+  rentalRate: number;
+  totalRentToCompany: number;
+  walletDeduction: number; // the company's weekly deduction for the vehicle
+  settlementDate: string;
+  totalDriverRent: number;
+  maintenanceCost: number;
+  profit: number;
+  rentalInfo: {
+    currentRate: number;
+    nextBetterSlab: {
+      rate: number;
+      tripsNeeded: number;
+    } | null;
+    weeklyCost: number;
+    optimizationTip: string;
+  };
+  morningDriver: Driver | null;
+  eveningDriver: Driver | null;
+  weekStart: string;
+  weekEnd: string;
+}
+
+export interface ProfitBreakdown {
+  revenue: {
+    drivers: Array<{ id: number; name: string; rent: number; daysWorked: number }>;
+    substitutes: Array<{ id: number; name: string; charge: number }>;
+    totalDriverRent: number;
+    totalSubstituteCharges: number;
+  };
+  expenses: {
+    slabRentPerDay: number;
+    totalDays: number;
+    totalCompanyRent: number;
+    company: string;
+  };
+  calculation: {
+    totalRevenue: number;
+    totalExpenses: number;
+    netProfit: number;
+  };
+}
+
+export interface ProfitData {
+  weekStart: string;
+  weekEnd: string;
+  profit: number | null;
+  rent: number;
+  wallet: number;
+  walletDeduction: number;
+  companyRent: number | null;
+  companyWallet: number | null;
+  roomRent: number;
+}
+
+// API functions
+export const api = {
+  // Audit log APIs
+  getAuditLog: async (filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    });
+    const response = await fetch(`/api/audit-log?${params.toString()}`);
+    if (!response.ok) throw new Error("Failed to fetch audit log");
+    return response.json();
+  },
+
+  // User APIs
+  getUsers: async (): Promise<AppUser[]> => {
+    const response = await fetch("/api/users");
+    if (!response.ok) throw new Error("Failed to fetch users");
+    return response.json();
+  },
+
+  createUser: async (user: UserInput): Promise<AppUser> => {
+    const response = await fetch("/api/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(user),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to create user");
+    }
+    return response.json();
+  },
+
+  updateUser: async (id: number, user: UserInput): Promise<AppUser> => {
+    const response = await fetch(`/api/users/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(user),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update user");
+    }
+    return response.json();
+  },
+
+  deleteUser: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/users/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete user");
+    }
+  },
+
+  // Company APIs
+  getCompanies: async (): Promise<Company[]> => {
+    const response = await fetch("/api/companies");
+    if (!response.ok) throw new Error("Failed to fetch companies");
+    return response.json();
+  },
+
+  createCompany: async (company: CompanyInput): Promise<Company> => {
+    const response = await fetch("/api/companies", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(company),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to create company");
+    }
+    return response.json();
+  },
+
+  updateCompany: async (id: number, company: Partial<CompanyInput>): Promise<Company> => {
+    const response = await fetch(`/api/companies/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(company),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update company");
+    }
+    return response.json();
+  },
+
+  deleteCompany: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/companies/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete company");
+    }
+  },
+
+  // Maintenance APIs
+  getServicesDue: async (): Promise<ServiceDue[]> => {
+    const response = await fetch("/api/maintenance/due");
+    if (!response.ok) throw new Error("Failed to fetch service schedule");
+    return response.json();
+  },
+
+  getMaintenanceRecords: async (vehicleId: number): Promise<MaintenanceRecord[]> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/maintenance`);
+    if (!response.ok) throw new Error("Failed to fetch maintenance records");
+    return response.json();
+  },
+
+  createMaintenanceRecord: async (vehicleId: number, record: MaintenanceRecordInput): Promise<MaintenanceRecord> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/maintenance`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(record),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add maintenance record");
+    }
+    return response.json();
+  },
+
+  deleteMaintenanceRecord: async (vehicleId: number, recordId: number): Promise<void> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/maintenance/${recordId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete maintenance record");
+    }
+  },
+
+  getServiceIntervals: async (vehicleId: number): Promise<ServiceDue[]> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/service-intervals`);
+    if (!response.ok) throw new Error("Failed to fetch service intervals");
+    return response.json();
+  },
+
+  saveServiceInterval: async (vehicleId: number, interval: ServiceIntervalInput): Promise<void> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/service-intervals`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(interval),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to save service interval");
+    }
+  },
+
+  deleteServiceInterval: async (vehicleId: number, intervalId: number): Promise<void> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/service-intervals/${intervalId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete service interval");
+    }
+  },
+
+  // Incident APIs
+  getIncidents: async (): Promise<Incident[]> => {
+    const response = await fetch("/api/incidents");
+    if (!response.ok) throw new Error("Failed to fetch incidents");
+    return response.json();
+  },
+
+  resolveIncidentDriver: async (vehicleId: number, date: string, time?: string): Promise<IncidentResponsibility> => {
+    const params = new URLSearchParams({ vehicleId: String(vehicleId), date });
+    if (time) params.set("time", time);
+    const response = await fetch(`/api/incidents/resolve?${params}`);
+    if (!response.ok) throw new Error("Failed to resolve driver");
+    return response.json();
+  },
+
+  createIncident: async (incident: IncidentInput): Promise<Incident> => {
+    const response = await fetch("/api/incidents", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(incident),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to record incident");
+    }
+    return response.json();
+  },
+
+  updateIncident: async (id: number, incident: IncidentInput): Promise<Incident> => {
+    const response = await fetch(`/api/incidents/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(incident),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update incident");
+    }
+    return response.json();
+  },
+
+  deleteIncident: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/incidents/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete incident");
+    }
+  },
+
+  uploadIncidentEvidence: async (id: number, file: File): Promise<Incident> => {
+    const response = await fetch(`/api/incidents/${id}/evidence`, {
+      method: "PUT",
+      headers: { "Content-Type": file.type, "X-File-Name": encodeURIComponent(file.name) },
+      body: file,
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to upload evidence");
+    }
+    return response.json();
+  },
+
+  incidentEvidenceUrl: (id: number): string => `/api/incidents/${id}/evidence`,
+
+  // Fuel APIs
+  getFuelEntries: async (query: { vehicleId?: number; from?: string; to?: string } = {}): Promise<FuelEntry[]> => {
+    const params = new URLSearchParams();
+    if (query.vehicleId) params.set("vehicleId", String(query.vehicleId));
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const response = await fetch(`/api/fuel-entries?${params}`);
+    if (!response.ok) throw new Error("Failed to fetch fuel entries");
+    return response.json();
+  },
+
+  createFuelEntry: async (entry: FuelEntryInput): Promise<FuelEntry> => {
+    const response = await fetch("/api/fuel-entries", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add fuel entry");
+    }
+    return response.json();
+  },
+
+  updateFuelEntry: async (id: number, entry: FuelEntryInput): Promise<FuelEntry> => {
+    const response = await fetch(`/api/fuel-entries/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update fuel entry");
+    }
+    return response.json();
+  },
+
+  deleteFuelEntry: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/fuel-entries/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete fuel entry");
+    }
+  },
+
+  getFuelReport: async (from: string, to: string): Promise<VehicleFuelReport[]> => {
+    const response = await fetch(`/api/reports/fuel?${new URLSearchParams({ from, to })}`);
+    if (!response.ok) throw new Error("Failed to fetch fuel report");
+    return response.json();
+  },
+
+  // Odometer APIs
+  getHandover: async (vehicleId: number, date: string, shift: "morning" | "evening"): Promise<HandoverContext> => {
+    const params = new URLSearchParams({ vehicleId: String(vehicleId), date, shift });
+    const response = await fetch(`/api/odometer/handover?${params}`);
+    if (!response.ok) throw new Error("Failed to fetch handover readings");
+    return response.json();
+  },
+
+  updateSubstituteOdometer: async (id: number, readings: OdometerReadings): Promise<{ handoverWarning: string | null }> => {
+    const response = await fetch(`/api/substitute-drivers/${id}/odometer`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(readings),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to record odometer readings");
+    }
+    return response.json();
+  },
+
+  getOdometerReport: async (from: string, to: string): Promise<OdometerReport> => {
+    const response = await fetch(`/api/reports/odometer?${new URLSearchParams({ from, to })}`);
+    if (!response.ok) throw new Error("Failed to fetch odometer report");
+    return response.json();
+  },
+
+  // Roster APIs
+  getRoster: async (query: { from: string; to: string; vehicleId?: number }): Promise<RosterWeek> => {
+    const params = new URLSearchParams({ from: query.from, to: query.to });
+    if (query.vehicleId) params.set("vehicleId", String(query.vehicleId));
+    const response = await fetch(`/api/roster?${params}`);
+    if (!response.ok) throw new Error("Failed to fetch roster");
+    return response.json();
+  },
+
+  planRosterSlot: async (entry: RosterEntryInput): Promise<RosterEntry> => {
+    const response = await fetch("/api/roster", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to plan shift");
+    }
+    return response.json();
+  },
+
+  moveRosterEntry: async (id: number, entry: RosterEntryInput): Promise<RosterEntry> => {
+    const response = await fetch(`/api/roster/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to move roster entry");
+    }
+    return response.json();
+  },
+
+  deleteRosterEntry: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/roster/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to remove roster entry");
+    }
+  },
+
+  copyRosterWeek: async (fromWeekStart: string, toWeekStart: string): Promise<{ created: number; skipped: string[] }> => {
+    const response = await fetch("/api/roster/copy-week", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fromWeekStart, toWeekStart }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to copy roster week");
+    }
+    return response.json();
+  },
+
+  // Driver leave APIs
+  getDriverLeaves: async (query: { driverId?: number; from?: string; to?: string } = {}): Promise<DriverLeave[]> => {
+    const params = new URLSearchParams();
+    if (query.driverId) params.set("driverId", String(query.driverId));
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const response = await fetch(`/api/driver-leaves?${params}`);
+    if (!response.ok) throw new Error("Failed to fetch driver leave");
+    return response.json();
+  },
+
+  createDriverLeave: async (leave: DriverLeaveInput): Promise<DriverLeave> => {
+    const response = await fetch("/api/driver-leaves", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(leave),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to record leave");
+    }
+    return response.json();
+  },
+
+  updateDriverLeave: async (id: number, leave: DriverLeaveInput): Promise<DriverLeave> => {
+    const response = await fetch(`/api/driver-leaves/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(leave),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update leave");
+    }
+    return response.json();
+  },
+
+  deleteDriverLeave: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/driver-leaves/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete leave");
+    }
+  },
+
+  getIdleVehicleReport: async (from: string, to: string): Promise<IdleVehicleReport> => {
+    const response = await fetch(`/api/reports/idle-vehicles?${new URLSearchParams({ from, to })}`);
+    if (!response.ok) throw new Error("Failed to fetch idle vehicle report");
+    return response.json();
+  },
+
+  // Vehicle document APIs
+  getVehicleCompliance: async (): Promise<VehicleCompliance[]> => {
+    const response = await fetch("/api/vehicle-compliance");
+    if (!response.ok) throw new Error("Failed to fetch vehicle compliance");
+    return response.json();
+  },
+
+  getVehicleDocuments: async (vehicleId: number): Promise<{ documents: VehicleDocument[]; compliance: VehicleCompliance }> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/documents`);
+    if (!response.ok) throw new Error("Failed to fetch vehicle documents");
+    return response.json();
+  },
+
+  createVehicleDocument: async (vehicleId: number, document: VehicleDocumentInput): Promise<VehicleDocument> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/documents`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(document),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add vehicle document");
+    }
+    return response.json();
+  },
+
+  deleteVehicleDocument: async (vehicleId: number, documentId: number): Promise<void> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/documents/${documentId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete vehicle document");
+    }
+  },
+
+  uploadVehicleDocumentFile: async (vehicleId: number, documentId: number, file: File): Promise<VehicleDocument> => {
+    const response = await fetch(`/api/vehicles/${vehicleId}/documents/${documentId}/file`, {
+      method: "PUT",
+      headers: { "Content-Type": file.type, "X-File-Name": encodeURIComponent(file.name) },
+      body: file,
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to upload document file");
+    }
+    return response.json();
+  },
+
+  vehicleDocumentFileUrl: (vehicleId: number, documentId: number): string =>
+    `/api/vehicles/${vehicleId}/documents/${documentId}/file`,
+
+  // Accommodation APIs
+  getAccommodations: async (): Promise<AccommodationWithOccupancy[]> => {
+    const response = await fetch("/api/accommodations");
+    if (!response.ok) throw new Error("Failed to fetch accommodations");
+    return response.json();
+  },
+
+  createAccommodation: async (accommodation: AccommodationInput): Promise<Accommodation> => {
+    const response = await fetch("/api/accommodations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(accommodation),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to create accommodation");
+    }
+    return response.json();
+  },
+
+  updateAccommodation: async (id: number, accommodation: AccommodationInput): Promise<Accommodation> => {
+    const response = await fetch(`/api/accommodations/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(accommodation),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update accommodation");
+    }
+    return response.json();
+  },
+
+  deleteAccommodation: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/accommodations/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete accommodation");
+    }
+  },
+
+  createAccommodationAssignment: async (accommodationId: number, assignment: AccommodationAssignmentInput): Promise<AccommodationAssignment> => {
+    const response = await fetch(`/api/accommodations/${accommodationId}/assignments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(assignment),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to assign driver");
+    }
+    return response.json();
+  },
+
+  endAccommodationAssignment: async (accommodationId: number, assignmentId: number, endDate: string): Promise<AccommodationAssignment> => {
+    const response = await fetch(`/api/accommodations/${accommodationId}/assignments/${assignmentId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endDate }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to end stay");
+    }
+    return response.json();
+  },
+
+  deleteAccommodationAssignment: async (accommodationId: number, assignmentId: number): Promise<void> => {
+    const response = await fetch(`/api/accommodations/${accommodationId}/assignments/${assignmentId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete stay");
+    }
+  },
+
+  // Vehicle APIs
+  getVehicles: async (): Promise<Vehicle[]> => {
+    const response = await fetch("/api/vehicles");
+    if (!response.ok) throw new Error("Failed to fetch vehicles");
+    return response.json();
+  },
+
+  getVehicle: async (id: number): Promise<Vehicle> => {
+    const response = await fetch(`/api/vehicles/${id}`);
+    if (!response.ok) throw new Error("Failed to fetch vehicle");
+    return response.json();
+  },
+
+  createVehicle: async (vehicle: { vehicleNumber: string; qrCode?: string; companyId: number; purchasedDate: string | Date }): Promise<Vehicle> => {
+    const response = await fetch("/api/vehicles", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(vehicle),
+    });
+    if (!response.ok) throw new Error("Failed to create vehicle");
+    return response.json();
+  },
+
+  updateVehicle: async (id: number, vehicle: { vehicleNumber?: string; qrCode?: string; companyId?: number; purchasedDate?: string | Date; droppedDate?: string | Date | null }): Promise<Vehicle> => {
+    const response = await fetch(`/api/vehicles/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(vehicle),
+    });
+    if (!response.ok) throw new Error("Failed to update vehicle");
+    return response.json();
+  },
+
+  deleteVehicle: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/vehicles/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) throw new Error("Failed to delete vehicle");
+  },
+
+  getVehicleSummary: async (id: number, weekStart?: string): Promise<VehicleSummary> => {
+    const url = weekStart ? `/api/vehicles/${id}/weekly-summary?weekStart=${weekStart}` : `/api/vehicles/${id}/weekly-summary`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error("Failed to fetch vehicle summary");
+    return response.json();
+  },
+
+  // Driver APIs
+  getDrivers: async (): Promise<Driver[]> => {
+    const response = await fetch("/api/drivers");
+    if (!response.ok) throw new Error("Failed to fetch drivers");
+    return response.json();
+  },
+
+  createDriver: async (driverData: {
+    name: string;
+    phone: string;
+  }): Promise<Driver> => {
+    const response = await fetch("/api/drivers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(driverData),
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const errorMessage = errorData.error || errorData.message || "Failed to create driver";
+      throw new Error(errorMessage);
+    }
+    
+    return response.json();
+  },
+
+  updateDriver: async (id: number, driver: { name?: string; phone?: string } & Partial<DriverKyc>): Promise<Driver> => {
+    const response = await fetch(`/api/drivers/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(driver),
+    });
+    if (!response.ok) throw new Error("Failed to update driver");
+    return response.json();
+  },
+
+  getDriverDocuments: async (driverId: number): Promise<DriverDocument[]> => {
+    const response = await fetch(`/api/drivers/${driverId}/documents`);
+    if (!response.ok) throw new Error("Failed to fetch driver documents");
+    return response.json();
+  },
+
+  uploadDriverDocument: async (driverId: number, kind: DriverDocumentKind, file: File): Promise<DriverDocument> => {
+    const response = await fetch(`/api/drivers/${driverId}/documents?kind=${kind}`, {
+      method: "POST",
+      headers: { "Content-Type": file.type, "X-File-Name": encodeURIComponent(file.name) },
+      body: file,
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to upload driver document");
+    }
+    return response.json();
+  },
+
+  deleteDriverDocument: async (driverId: number, documentId: number): Promise<void> => {
+    const response = await fetch(`/api/drivers/${driverId}/documents/${documentId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete driver document");
+    }
+  },
+
+  driverDocumentFileUrl: (driverId: number, documentId: number): string =>
+    `/api/drivers/${driverId}/documents/${documentId}/file`,
+
+  getExpiringDocuments: async (days: number): Promise<ExpiringDocument[]> => {
+    const response = await fetch(`/api/reports/expiring-documents?days=${days}`);
+    if (!response.ok) throw new Error("Failed to fetch expiring documents");
+    return response.json();
+  },
+
+  deleteDriver: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/drivers/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) throw new Error("Failed to delete driver");
+  },
+
+  // Driver payout APIs
+  getPayouts: async (filters: { driverId?: number; from?: string; to?: string; includeVoided?: boolean } = {}): Promise<DriverPayout[]> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    });
+    const response = await fetch(`/api/payouts?${params.toString()}`);
+    if (!response.ok) throw new Error("Failed to fetch payouts");
+    return response.json();
+  },
+
+  createPayout: async (payout: DriverPayoutInput): Promise<DriverPayout> => {
+    const response = await fetch("/api/payouts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payout),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to record payout");
+    }
+    return response.json();
+  },
+
+  voidPayout: async (id: number, reason: string): Promise<DriverPayout> => {
+    const response = await fetch(`/api/payouts/${id}/void`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to void payout");
+    }
+    return response.json();
+  },
+
+  // Driver advance APIs
+  getAdvances: async (driverId?: number): Promise<DriverAdvance[]> => {
+    const response = await fetch(driverId ? `/api/advances?driverId=${driverId}` : "/api/advances");
+    if (!response.ok) throw new Error("Failed to fetch advances");
+    return response.json();
+  },
+
+  getOutstandingAdvances: async (): Promise<Array<{ driverId: number; outstanding: number }>> => {
+    const response = await fetch("/api/advances/outstanding");
+    if (!response.ok) throw new Error("Failed to fetch outstanding advances");
+    return response.json();
+  },
+
+  createAdvance: async (advance: DriverAdvanceInput): Promise<DriverAdvance> => {
+    const response = await fetch("/api/advances", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(advance),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to issue advance");
+    }
+    return response.json();
+  },
+
+  deleteAdvance: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/advances/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to delete advance");
+    }
+  },
+
+  // Driver deposit APIs
+  getDriverDeposit: async (driverId: number): Promise<DriverDepositState> => {
+    const response = await fetch(`/api/drivers/${driverId}/deposit`);
+    if (!response.ok) throw new Error("Failed to fetch deposit");
+    return response.json();
+  },
+
+  saveDriverDeposit: async (driverId: number, deposit: DriverDepositInput): Promise<DriverDeposit> => {
+    const response = await fetch(`/api/drivers/${driverId}/deposit`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(deposit),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to save deposit");
+    }
+    return response.json();
+  },
+
+  createDepositDeduction: async (driverId: number, deduction: DepositDeductionInput): Promise<DepositDeduction> => {
+    const response = await fetch(`/api/drivers/${driverId}/deposit/deductions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(deduction),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add deduction");
+    }
     return response.json();
   },
 
-  deleteVehicle: async (id: number): Promise<void> => {
-    const response = await fetch(`/api/vehicles/${id}`, {
+  deleteDepositDeduction: async (driverId: number, deductionId: number): Promise<void> => {
+    const response = await fetch(`/api/drivers/${driverId}/deposit/deductions/${deductionId}`, {
       method: "DELETE",
     });
-    if (!response.ok) throw new Error("Failed to delete vehicle");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to delete deduction");
+    }
   },
 
-  getVehicleSummary: async (id: number, weekStart?: string): Promise<VehicleSummary> => {
-    const url = weekStart ? `/api/vehicles/${id}/weekly-summary?weekStart=${weekStart}` : `/api/vehicles/${id}/weekly-summary`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error("Failed to fetch vehicle summary");
+  getFinalSettlement: async (driverId: number): Promise<FinalSettlement> => {
+    const response = await fetch(`/api/drivers/${driverId}/final-settlement`);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to fetch final settlement");
+    }
     return response.json();
   },
 
-  // Driver APIs
-  getDrivers: async (): Promise<Driver[]> => {
-    const response = await fetch("/api/drivers");
-    if (!response.ok) throw new Error("Failed to fetch drivers");
+  // Driver ledger APIs
+  getDriverLedger: async (driverId: number, range: { from?: string; to?: string } = {}): Promise<DriverLedger> => {
+    const params = new URLSearchParams();
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+    const response = await fetch(`/api/drivers/${driverId}/ledger?${params.toString()}`);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to fetch driver ledger");
+    }
     return response.json();
   },
 
-  createDriver: async (driverData: {
-    name: string;
-    phone: string;
-    hasAccommodation: boolean;
-  }): Promise<Driver> => {
-    const response = await fetch("/api/drivers", {
+  createDriverAdjustment: async (driverId: number, adjustment: DriverAdjustmentInput): Promise<void> => {
+    const response = await fetch(`/api/drivers/${driverId}/adjustments`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(driverData),
+      body: JSON.stringify(adjustment),
     });
-    
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error || errorData.message || "Failed to create driver";
-      throw new Error(errorMessage);
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add adjustment");
     }
-    
-    return response.json();
-  },
-
-  updateDriver: async (id: number, driver: { name?: string; phone?: string; hasAccommodation?: boolean }): Promise<Driver> => {
-    const response = await fetch(`/api/drivers/${id}`, {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(driver),
-    });
-    if (!response.ok) throw new Error("Failed to update driver");
-    return response.json();
   },
 
-  deleteDriver: async (id: number): Promise<void> => {
-    const response = await fetch(`/api/drivers/${id}`, {
+  deleteDriverAdjustment: async (driverId: number, adjustmentId: number): Promise<void> => {
+    const response = await fetch(`/api/drivers/${driverId}/adjustments/${adjustmentId}`, {
       method: "DELETE",
     });
-    if (!response.ok) throw new Error("Failed to delete driver");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to delete adjustment");
+    }
   },
 
   // Driver rent log APIs
@@ -213,7 +1930,9 @@ export const api = {
     rent?: number;
     amountCollected?: number;
     fuel?: number;
-  }): Promise<DriverRentLog> => {
+    startOdometer?: number | null;
+    endOdometer?: number | null;
+  }): Promise<DriverRentLog & { handoverWarning?: string | null }> => {
     const serializedData = {
       ...rentLogData,
       date: rentLogData.date instanceof Date ? rentLogData.date.toISOString() : rentLogData.date,
@@ -223,7 +1942,10 @@ export const api = {
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(serializedData),
     });
-    if (!response.ok) throw new Error("Failed to update rent log");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update rent log");
+    }
     return response.json();
   },
 
@@ -231,7 +1953,10 @@ export const api = {
     const response = await fetch(`/api/driver-rent-logs/${id}`, {
       method: "DELETE",
     });
-    if (!response.ok) throw new Error("Failed to delete rent log");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to delete rent log");
+    }
   },
 
   // Dashboard APIs
@@ -242,22 +1967,77 @@ export const api = {
   },
 
   // Rental slab APIs
-  getRentalSlabs: async (company: "PMV" | "Letzryd"): Promise<any[]> => {
-    const response = await fetch(`/api/rental-slabs/${company}`);
+  getRentalSlabs: async (companyId: number, weekStart?: string): Promise<RentalSlab[]> => {
+    const url = weekStart ? `/api/rental-slabs/${companyId}?weekStart=${weekStart}` : `/api/rental-slabs/${companyId}`;
+    const response = await fetch(url);
     if (!response.ok) throw new Error("Failed to fetch rental slabs");
     return response.json();
   },
 
-  // Export APIs
-  exportData: async (type: "settlements" | "trips" | "drivers" | "vehicles"): Promise<Blob> => {
-    const response = await fetch(`/api/export/${type}`, {
-      method: "GET",
-      headers: { "Accept": "application/json" },
+  getSlabSchedules: async (companyId?: number): Promise<SlabSchedule[]> => {
+    const url = companyId ? `/api/slab-schedules?companyId=${companyId}` : "/api/slab-schedules";
+    const response = await fetch(url);
+    if (!response.ok) throw new Error("Failed to fetch slab schedules");
+    return response.json();
+  },
+
+  createSlabSchedule: async (schedule: SlabScheduleInput): Promise<SlabSchedule> => {
+    const response = await fetch("/api/slab-schedules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(schedule),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to create slab schedule");
+    }
+    return response.json();
+  },
+
+  updateSlabSchedule: async (id: number, schedule: SlabScheduleInput): Promise<SlabSchedule> => {
+    const response = await fetch(`/api/slab-schedules/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(schedule),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update slab schedule");
+    }
+    return response.json();
+  },
+
+  deleteSlabSchedule: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/slab-schedules/${id}`, {
+      method: "DELETE",
     });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete slab schedule");
+    }
+  },
+
+  // Export APIs
+  exportData: async (type: ExportType, format: ExportFormat = "json"): Promise<Blob> => {
+    const response = await fetch(`/api/export/${type}?format=${format}`);
     if (!response.ok) throw new Error(`Failed to export ${type}`);
     return response.blob();
   },
 
+  // Reads an Excel workbook into header-keyed rows per sheet, for the trip log or statement importer
+  readSpreadsheet: async (importer: "trip-logs" | "weekly-summary", file: File): Promise<SpreadsheetSheet[]> => {
+    const response = await fetch(`/api/import/${importer}/sheets`, {
+      method: "POST",
+      headers: { "Content-Type": XLSX_TYPE },
+      body: file,
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || result.message || "Failed to read workbook");
+    }
+    return result.sheets;
+  },
+
   // Substitute driver APIs
   getSubstituteDrivers: async (): Promise<any[]> => {
     const response = await fetch("/api/substitute-drivers");
@@ -267,13 +2047,16 @@ export const api = {
 
 
   createSubstituteDriver: async (substituteData: {
+    substituteId?: number;
     name: string;
     vehicleId: number;
     date: Date | string;
     shift: "morning" | "evening";
-    shiftHours: 6 | 8 | 12;
+    shiftHours: number;
     charge: number;
     tripCount?: number;
+    startOdometer?: number | null;
+    endOdometer?: number | null;
   }): Promise<any> => {
     const serializedData = {
       ...substituteData,
@@ -284,7 +2067,155 @@ export const api = {
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(serializedData),
     });
-    if (!response.ok) throw new Error("Failed to create substitute driver");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to create substitute driver");
+    }
+    return response.json();
+  },
+
+  // Substitute rate card APIs
+  getSubstituteRates: async (): Promise<{ cards: SubstituteRateCard[]; holidays: Holiday[] }> => {
+    const response = await fetch("/api/substitute-rates");
+    if (!response.ok) throw new Error("Failed to fetch substitute rates");
+    return response.json();
+  },
+
+  getSubstituteQuote: async (query: { vehicleId: number; date: string; shiftHours: number; substituteId?: number }): Promise<SubstituteQuote> => {
+    const params = new URLSearchParams({ vehicleId: String(query.vehicleId), date: query.date, shiftHours: String(query.shiftHours) });
+    if (query.substituteId) params.set("substituteId", String(query.substituteId));
+    const response = await fetch(`/api/substitute-rates/quote?${params}`);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to price substitute shift");
+    }
+    return response.json();
+  },
+
+  createSubstituteRateCard: async (card: SubstituteRateCardInput): Promise<SubstituteRateCard> => {
+    const response = await fetch("/api/substitute-rates/cards", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(card),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add rate card");
+    }
+    return response.json();
+  },
+
+  updateSubstituteRateCard: async (id: number, card: SubstituteRateCardInput): Promise<SubstituteRateCard> => {
+    const response = await fetch(`/api/substitute-rates/cards/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(card),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update rate card");
+    }
+    return response.json();
+  },
+
+  deleteSubstituteRateCard: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/substitute-rates/cards/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete rate card");
+    }
+  },
+
+  createHoliday: async (holiday: { date: string; name: string }): Promise<Holiday> => {
+    const response = await fetch("/api/substitute-rates/holidays", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(holiday),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add holiday");
+    }
+    return response.json();
+  },
+
+  deleteHoliday: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/substitute-rates/holidays/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete holiday");
+    }
+  },
+
+  // Substitute registry APIs
+  getSubstitutes: async (query: { from?: string; to?: string } = {}): Promise<SubstituteWithTotals[]> => {
+    const params = new URLSearchParams();
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const response = await fetch(`/api/substitutes?${params}`);
+    if (!response.ok) throw new Error("Failed to fetch substitutes");
+    return response.json();
+  },
+
+  createSubstitute: async (substitute: SubstituteInput): Promise<Substitute> => {
+    const response = await fetch("/api/substitutes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(substitute),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to add substitute");
+    }
+    return response.json();
+  },
+
+  updateSubstitute: async (id: number, substitute: SubstituteInput): Promise<Substitute> => {
+    const response = await fetch(`/api/substitutes/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(substitute),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to update substitute");
+    }
+    return response.json();
+  },
+
+  deleteSubstitute: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/substitutes/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete substitute");
+    }
+  },
+
+  getSubstituteHistory: async (id: number, query: { from?: string; to?: string } = {}): Promise<SubstituteHistory> => {
+    const params = new URLSearchParams();
+    if (query.from) params.set("from", query.from);
+    if (query.to) params.set("to", query.to);
+    const response = await fetch(`/api/substitutes/${id}/shifts?${params}`);
+    if (!response.ok) throw new Error("Failed to fetch substitute history");
+    return response.json();
+  },
+
+  getUnlinkedSubstituteNames: async (): Promise<UnlinkedSubstituteName[]> => {
+    const response = await fetch("/api/substitutes/unlinked");
+    if (!response.ok) throw new Error("Failed to fetch unlinked substitute names");
+    return response.json();
+  },
+
+  linkSubstituteShifts: async (id: number, names: string[]): Promise<{ linked: number }> => {
+    const response = await fetch(`/api/substitutes/${id}/link`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ names }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to link shifts");
+    }
     return response.json();
   },
 
@@ -292,7 +2223,10 @@ export const api = {
     const response = await fetch(`/api/substitute-drivers/${id}`, {
       method: "DELETE",
     });
-    if (!response.ok) throw new Error("Failed to delete substitute driver");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to delete substitute driver");
+    }
   },
 
   // Meta APIs
@@ -310,6 +2244,137 @@ export const api = {
     return response.json();
   },
 
+  getStatementProfiles: async (): Promise<StatementProfileWithMapping[]> => {
+    const response = await fetch("/api/import/weekly-summary/profiles");
+    if (!response.ok) throw new Error("Failed to fetch statement formats");
+    return response.json();
+  },
+
+  saveStatementColumns: async (profile: StatementProfileId, columns: StatementColumns): Promise<void> => {
+    const response = await fetch(`/api/import/weekly-summary/profiles/${profile}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ columns }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to save column mapping");
+    }
+  },
+
+  importStatement: async (request: StatementImportRequest): Promise<StatementImportResult> => {
+    const response = await fetch("/api/import/weekly-summary", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || result.message || "Import failed");
+    }
+    return result;
+  },
+
+  previewTripImport: async (request: TripImportRequest): Promise<TripImportPlan> => {
+    const response = await fetch("/api/import/trip-logs/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || result.message || "Failed to preview import");
+    }
+    return result;
+  },
+
+  commitTripImport: async (
+    request: TripImportRequest & { fingerprint: string; driverPhones?: Record<string, string> },
+  ): Promise<TripImportResult | TripImportStale> => {
+    const response = await fetch("/api/import/trip-logs/commit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (response.status === 409 && result.plan) {
+      return { message: result.error || result.message, plan: result.plan };
+    }
+    if (!response.ok) {
+      throw new Error(result.error || result.message || "Import failed");
+    }
+    return result;
+  },
+
+  getImportJobs: async (kind: ImportKind): Promise<ImportJob[]> => {
+    const response = await fetch(`/api/import/${kind}/jobs`);
+    if (!response.ok) throw new Error("Failed to fetch import history");
+    return response.json();
+  },
+
+  undoImportJob: async (kind: ImportKind, id: number): Promise<ImportUndoResult> => {
+    const response = await fetch(`/api/import/${kind}/jobs/${id}/undo`, { method: "POST" });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || result.message || "Failed to undo import");
+    }
+    return result;
+  },
+
+  getDriverAliases: async (): Promise<DriverAlias[]> => {
+    const response = await fetch("/api/import-aliases/drivers");
+    if (!response.ok) throw new Error("Failed to fetch driver aliases");
+    return response.json();
+  },
+
+  createDriverAlias: async (driverId: number, alias: string): Promise<DriverAlias> => {
+    const response = await fetch("/api/import-aliases/drivers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ driverId, alias }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to save driver alias");
+    }
+    return response.json();
+  },
+
+  deleteDriverAlias: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/import-aliases/drivers/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete driver alias");
+    }
+  },
+
+  getVehicleAliases: async (): Promise<VehicleAlias[]> => {
+    const response = await fetch("/api/import-aliases/vehicles");
+    if (!response.ok) throw new Error("Failed to fetch vehicle aliases");
+    return response.json();
+  },
+
+  createVehicleAlias: async (vehicleId: number, alias: string): Promise<VehicleAlias> => {
+    const response = await fetch("/api/import-aliases/vehicles", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ vehicleId, alias }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to save vehicle alias");
+    }
+    return response.json();
+  },
+
+  deleteVehicleAlias: async (id: number): Promise<void> => {
+    const response = await fetch(`/api/import-aliases/vehicles/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to delete vehicle alias");
+    }
+  },
+
   // Settlements APIs
   getSettlements: async (): Promise<{ items: SettlementRow[] }> => {
     const response = await fetch("/api/settlements");
@@ -323,13 +2388,51 @@ export const api = {
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(p),
     });
-    if (!response.ok) throw new Error("Failed to save settlement");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to save settlement");
+    }
+    return response.json();
+  },
+
+  getClosedWeeks: async (): Promise<ClosedWeek[]> => {
+    const response = await fetch("/api/settlements/closed-weeks");
+    if (!response.ok) throw new Error("Failed to load closed weeks");
+    return response.json();
+  },
+
+  closeWeek: async (p: { weekStart: string; weekEnd: string; reason: string }): Promise<ClosedWeek> => {
+    const response = await fetch("/api/settlements/close", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(p),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to close week");
+    }
+    return response.json();
+  },
+
+  reopenWeek: async (p: { weekStart: string; weekEnd: string; reason: string }): Promise<ClosedWeek> => {
+    const response = await fetch("/api/settlements/reopen", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(p),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || error.message || "Failed to reopen week");
+    }
     return response.json();
   },
 
   deleteSettlement: async (weekStart: string, weekEnd: string): Promise<{ ok: true; items: SettlementRow[] }> => {
     const response = await fetch(`/api/settlements?weekStart=${weekStart}&weekEnd=${weekEnd}`, { method: "DELETE" });
-    if (!response.ok) throw new Error("Failed to delete settlement");
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || "Failed to delete settlement");
+    }
     return response.json();
   },
 };
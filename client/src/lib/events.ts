@@ -1,5 +1,13 @@
 import { useEffect } from "react";
 import { QueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import type { ExpiryWarning } from "@/lib/api";
+
+// Driver statements and final settlements are built from trip logs, weekly
+// summaries, payouts, deposits and adjustments
+function isLedgerKey(k: string): boolean {
+  return /^\/api\/drivers\/\d+\/(ledger|deposit|final-settlement)/.test(k);
+}
 
 export function useServerEvents(queryClient: QueryClient) {
   useEffect(() => {
@@ -14,7 +22,10 @@ export function useServerEvents(queryClient: QueryClient) {
                k.startsWith("/api/weekly-summary") || 
                k.startsWith("/api/driver-rent-logs") ||
                k === "/api/settlements" ||
-               k.startsWith("/api/dashboard");
+               k.startsWith("/api/dashboard") ||
+               k.startsWith("/api/reports/fuel") ||
+               k.startsWith("/api/reports/odometer") || k.startsWith("/api/odometer") ||
+               isLedgerKey(k);
       }});
     });
 
@@ -25,15 +36,92 @@ export function useServerEvents(queryClient: QueryClient) {
         if (typeof k !== 'string') return false;
         return k.startsWith("/api/weekly-summary") || 
                k.startsWith("/api/driver-rent-logs") || 
-               k === "/api/settlements";
+               k.startsWith("/api/payouts") ||
+               k.startsWith("/api/advances") ||
+               k === "/api/settlements" ||
+               isLedgerKey(k);
+      }});
+    });
+
+    es.addEventListener("ledger:changed", () => {
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && isLedgerKey(k);
+      }});
+    });
+
+    es.addEventListener("maintenance:changed", () => {
+      // Service records and intervals → due list and per-vehicle weekly profit
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && (k === "/api/vehicles" || k.startsWith("/api/maintenance"));
+      }});
+    });
+
+    es.addEventListener("incidents:changed", () => {
+      // Incident charges come off the driver's weekly settlement and statement
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        if (typeof k !== 'string') return false;
+        return k.startsWith("/api/incidents") ||
+               k.startsWith("/api/weekly-summary") ||
+               isLedgerKey(k);
+      }});
+    });
+
+    es.addEventListener("fuel:changed", () => {
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && (k.startsWith("/api/fuel-entries") || k.startsWith("/api/reports/fuel"));
+      }});
+    });
+
+    es.addEventListener("roster:changed", () => {
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && k.startsWith("/api/roster");
       }});
     });
 
+    es.addEventListener("leave:changed", () => {
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && (k.startsWith("/api/driver-leaves") || k.startsWith("/api/reports/idle-vehicles") || k.startsWith("/api/weekly-summary"));
+      }});
+    });
+
+    es.addEventListener("substitutes:changed", () => {
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && (k.startsWith("/api/substitutes") || k.startsWith("/api/substitute-drivers"));
+      }});
+    });
+
+    es.addEventListener("documents:changed", () => {
+      queryClient.invalidateQueries({ predicate: (q) => {
+        const k = q.queryKey[0];
+        return typeof k === 'string' && (k === "/api/vehicles" || k === "/api/vehicle-compliance");
+      }});
+    });
+
+    es.addEventListener("compliance:warning", (e) => {
+      // Daily expiry check on the server
+      const { documents } = JSON.parse((e as MessageEvent).data) as { documents: ExpiryWarning[] };
+      const expired = documents.filter((d) => d.status === "expired").length;
+      toast({
+        title: "Vehicle documents need renewal",
+        description: `${expired} expired, ${documents.length - expired} expiring soon: ` +
+          documents.slice(0, 3).map((d) => d.vehicleNumber).join(", ") + (documents.length > 3 ? "…" : ""),
+        variant: expired > 0 ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicle-compliance"] });
+    });
+
     es.addEventListener("settlements:changed", () => {
       queryClient.invalidateQueries({ predicate: (q) => {
         const k = q.queryKey[0];
         if (typeof k !== 'string') return false;
-        return k === "/api/settlements" || k.startsWith("/api/dashboard");
+        return k === "/api/settlements" || k.startsWith("/api/settlements/") || k.startsWith("/api/dashboard");
       }});
     });
 
@@ -1,6 +1,7 @@
 import { useState, useMemo, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { BASE_DRIVER_RENT } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -9,9 +10,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format } from "date-fns";
-import { Trash2, Edit, Filter, X, Search, Plus, Check, ChevronsUpDown, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { Trash2, Edit, Filter, X, Search, Plus, Check, ChevronsUpDown, RefreshCw, ArrowUpDown, ArrowUp, ArrowDown, History, Gauge } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +27,8 @@ import {
 import EditTripModal from "@/components/EditTripModal";
 import TripLogModal from "@/components/TripLogModal";
 import SubstituteDriverForm from "@/components/SubstituteDriverForm";
+import AuditHistoryDrawer from "@/components/AuditHistoryDrawer";
+import OdometerDialog, { type OdometerShift } from "@/components/OdometerDialog";
 
 interface TripLog {
   id: number;
@@ -39,6 +43,8 @@ interface TripLog {
   rent?: number;
   amountCollected?: number;
   fuel?: number;
+  startOdometer: number | null;
+  endOdometer: number | null;
 }
 
 interface SubstituteDriver {
@@ -55,6 +61,7 @@ interface SubstituteDriver {
 export default function TripLogs() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { canAccess } = useAuth();
   const [editTrip, setEditTrip] = useState<any>(null);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [repairingData, setRepairingData] = useState(false);
@@ -64,6 +71,8 @@ export default function TripLogs() {
   // Delete confirmation states
   const [deleteTripConfirm, setDeleteTripConfirm] = useState<{ id: number; driverName: string; vehicleNumber: string } | null>(null);
   const [deleteSubstituteConfirm, setDeleteSubstituteConfirm] = useState<{ id: number; name: string } | null>(null);
+  const [historyLog, setHistoryLog] = useState<TripLog | null>(null);
+  const [odometerShift, setOdometerShift] = useState<OdometerShift | null>(null);
   
   // Filter states
   const [startDateFilter, setStartDateFilter] = useState("");
@@ -158,7 +167,7 @@ export default function TripLogs() {
     
     // Fallback: if no rent log found, use default values
     const driver = drivers.find(d => d.id === log.driverId);
-    const fallbackRent = driver?.hasAccommodation ? 600 : 500;
+    const fallbackRent = driver?.dailyRent ?? BASE_DRIVER_RENT;
     
     // Trigger auto-creation of missing rent log with shift
     autoCreateMissingRentLog(log.driverId, new Date(log.tripDate), log.vehicleId, fallbackRent, log.shift, 0, 0);
@@ -236,7 +245,9 @@ export default function TripLogs() {
       isSubstitute: false,
       rent: rentLog.rent,
       amountCollected: rentLog.amountCollected,
-      fuel: rentLog.fuel
+      fuel: rentLog.fuel,
+      startOdometer: rentLog.startOdometer,
+      endOdometer: rentLog.endOdometer
     }));
 
     const substituteLogs: TripLog[] = substituteDrivers.map(sub => ({
@@ -248,7 +259,9 @@ export default function TripLogs() {
       driverName: sub.name,
       vehicleNumber: sub.vehicleNumber,
       isSubstitute: true,
-      charge: sub.charge
+      charge: sub.charge,
+      startOdometer: sub.startOdometer,
+      endOdometer: sub.endOdometer
     }));
 
     return [...tripLogs, ...substituteLogs].sort((a, b) => 
@@ -480,7 +493,7 @@ export default function TripLogs() {
         
         // Find driver details for accurate rent calculation
         const driver = drivers.find(d => d.id === log.driverId);
-        const amount = driver?.hasAccommodation ? 600 : 500;
+        const amount = driver?.dailyRent ?? BASE_DRIVER_RENT;
         
         // Create the rent log with shift
         const newRentLog = await autoCreateMissingRentLog(log.driverId, new Date(log.tripDate), log.vehicleId, amount, log.shift, 0, 0);
@@ -701,7 +714,7 @@ export default function TripLogs() {
                     <SelectItem value="all">All vehicles</SelectItem>
                     {activeVehicles.map((vehicle) => (
                       <SelectItem key={vehicle.id} value={vehicle.vehicleNumber}>
-                        {vehicle.vehicleNumber} ({vehicle.company})
+                        {vehicle.vehicleNumber} ({vehicle.companyName})
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -796,6 +809,7 @@ export default function TripLogs() {
                   <th className="text-left p-4 font-semibold text-gray-700">Rent</th>
                   <th className="text-left p-4 font-semibold text-gray-700">Collection</th>
                   <th className="text-left p-4 font-semibold text-gray-700">Fuel</th>
+                  <th className="text-left p-4 font-semibold text-gray-700">Odometer</th>
                   <th className="text-left p-4 font-semibold text-gray-700">Actions</th>
                 </tr>
               </thead>
@@ -828,8 +842,39 @@ export default function TripLogs() {
                       <td className="p-4 font-semibold text-green-600">₹{details.rent}</td>
                       <td className="p-4 font-semibold text-blue-600">₹{details.amountCollected}</td>
                       <td className="p-4 font-semibold text-purple-600">₹{details.fuel}</td>
+                      <td className="p-4 text-sm text-gray-700 whitespace-nowrap">
+                        {log.startOdometer === null && log.endOdometer === null ? (
+                          <span className="text-gray-400">—</span>
+                        ) : (
+                          <>
+                            {log.startOdometer ?? "?"} → {log.endOdometer ?? "?"}
+                            {log.startOdometer !== null && log.endOdometer !== null && (
+                              <div className="text-xs text-gray-500">{log.endOdometer - log.startOdometer} km</div>
+                            )}
+                          </>
+                        )}
+                      </td>
                       <td className="p-4">
                         <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setOdometerShift({
+                              id: log.id,
+                              isSubstitute: !!log.isSubstitute,
+                              vehicleId: log.vehicleId,
+                              vehicleNumber: log.vehicleNumber,
+                              driverName: log.driverName,
+                              date: format(new Date(log.tripDate), "yyyy-MM-dd"),
+                              shift: log.shift,
+                              startOdometer: log.startOdometer,
+                              endOdometer: log.endOdometer,
+                            })}
+                            title="Odometer"
+                            data-testid={`button-odometer-${log.isSubstitute ? "sub" : "trip"}-${log.id}`}
+                          >
+                            <Gauge className="h-4 w-4" />
+                          </Button>
                           {!log.isSubstitute && (
                             <>
                               <Button
@@ -848,6 +893,17 @@ export default function TripLogs() {
                               >
                                 <Trash2 className="h-4 w-4" />
                               </Button>
+                              {canAccess("/audit-log") && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setHistoryLog(log)}
+                                  title="History"
+                                  data-testid={`button-history-${log.id}`}
+                                >
+                                  <History className="h-4 w-4" />
+                                </Button>
+                              )}
                             </>
                           )}
                           {log.isSubstitute && (
@@ -888,6 +944,18 @@ export default function TripLogs() {
         vehicles={activeVehicles}
       />
 
+      <OdometerDialog
+        shift={odometerShift}
+        onOpenChange={(open) => !open && setOdometerShift(null)}
+      />
+
+      <AuditHistoryDrawer
+        open={historyLog !== null}
+        onOpenChange={(open) => !open && setHistoryLog(null)}
+        title={historyLog ? `${historyLog.driverName} · ${historyLog.vehicleNumber} · ${format(new Date(historyLog.tripDate), "MMM dd, yyyy")}` : ""}
+        filters={{ entity: "driverRentLog", entityId: String(historyLog?.id ?? "") }}
+      />
+
       {/* Delete Trip Confirmation Dialog */}
       <AlertDialog open={deleteTripConfirm !== null} onOpenChange={() => setDeleteTripConfirm(null)}>
         <AlertDialogContent>
@@ -12,7 +12,14 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { CalendarIcon, Upload, AlertCircle } from "lucide-react";
+import { CalendarIcon, Upload, AlertCircle, History, Lock } from "lucide-react";
+import { api, type NameMatchCandidate, type StatementImportRequest } from "@/lib/api";
+import { weeklyWallet } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import AuditHistoryDrawer from "@/components/AuditHistoryDrawer";
+import PayoutsDialog from "@/components/PayoutsDialog";
+import StatementImportDialog, { type StatementFile, type StatementImportChoice } from "@/components/StatementImportDialog";
+import NameMatchPicker from "@/components/NameMatchPicker";
 
 interface WeeklySummaryRow {
   driverId: number;
@@ -26,7 +33,14 @@ interface WeeklySummaryRow {
   refund: number;
   expenses: number;
   dues: number;
+  tolls: number;
+  tips: number;
+  incentives: number;
+  platformFees: number;
   payout: number;
+  advanceDeduction: number;
+  incidentCharge: number;
+  leaveDays: number;
 }
 
 interface EditableFields {
@@ -36,7 +50,6 @@ interface EditableFields {
   refund: number;
   expenses: number;
   dues: number;
-  payout: number;
 }
 
 // Helper function to get Monday of current week in IST
@@ -72,13 +85,31 @@ function getTodayIST(): Date {
 
 const inr = (n: number) => `₹${n.toLocaleString()}`;
 
+// The statement's breakdown of total earnings; kept as imported when a row is edited
+type StatementBreakdown = Pick<WeeklySummaryRow, "tolls" | "tips" | "incentives" | "platformFees">;
+
+function breakdownText(row: StatementBreakdown): string {
+  return [
+    row.tips && `tips ${inr(row.tips)}`,
+    row.incentives && `incentives ${inr(row.incentives)}`,
+    row.tolls && `tolls ${inr(row.tolls)}`,
+    row.platformFees && `fees ${inr(row.platformFees)}`,
+  ].filter(Boolean).join(" · ");
+}
+
 export default function WeeklySummary() {
   const [startDate, setStartDate] = useState<Date>(getMondayOfCurrentWeek());
   const [endDate, setEndDate] = useState<Date>(getSundayOfWeek(getMondayOfCurrentWeek()));
   const [isImporting, setIsImporting] = useState(false);
   const [importResult, setImportResult] = useState<any>(null);
-  const [showNotFoundDialog, setShowNotFoundDialog] = useState(false);
-  const [driversNotFound, setDriversNotFound] = useState<string[]>([]);
+  // Statement names that matched no driver with trips in the week, with the import that skipped them
+  const [notFound, setNotFound] = useState<{
+    request: StatementImportRequest;
+    names: string[];
+    candidates: Record<string, NameMatchCandidate[]>;
+    matches: Record<string, number>;
+  } | null>(null);
+  const [statementFile, setStatementFile] = useState<StatementFile | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -95,19 +126,28 @@ export default function WeeklySummary() {
   const [draftRefund, setDraftRefund] = useState<string>("");
   const [draftExpenses, setDraftExpenses] = useState<string>("");
   const [draftDues, setDraftDues] = useState<string>("");
-  const [draftPayout, setDraftPayout] = useState<string>("");
 
   // Confirmation dialog states
   const [saveConfirm, setSaveConfirm] = useState<{ driverId: number; driverName: string } | null>(null);
   const [clearConfirm, setClearConfirm] = useState<{ driverId: number; driverName: string } | null>(null);
+  const [historyDriver, setHistoryDriver] = useState<{ driverId: number; driverName: string } | null>(null);
+  const [payoutDriver, setPayoutDriver] = useState<{ driverId: number; driverName: string } | null>(null);
+  const { canAccess } = useAuth();
   const [duplicateConfirm, setDuplicateConfirm] = useState<{
-    csvData: any[];
+    request: StatementImportRequest;
     existingData: Array<{ driverName: string; weekStart: string; weekEnd: string }>;
   } | null>(null);
 
   const startDateStr = format(startDate, "yyyy-MM-dd");
   const endDateStr = format(endDate, "yyyy-MM-dd");
 
+  // Summaries in a closed week are read-only until an owner reopens it on the Settlements page
+  const { data: closedWeeks = [] } = useQuery({
+    queryKey: ["/api/settlements/closed-weeks"],
+    queryFn: () => api.getClosedWeeks(),
+  });
+  const closedWeek = closedWeeks.find((week) => week.weekStart <= endDateStr && week.weekEnd >= startDateStr);
+
   const { data: summaries, isLoading, refetch } = useQuery<WeeklySummaryRow[]>({
     queryKey: ["/api/weekly-summary/aggregates", startDateStr, endDateStr],
     queryFn: async () => {
@@ -122,7 +162,7 @@ export default function WeeklySummary() {
   });
 
   const saveMutation = useMutation({
-    mutationFn: async (data: { driverId: number } & EditableFields) => {
+    mutationFn: async (data: { driverId: number } & EditableFields & StatementBreakdown) => {
       return apiRequest("POST", "/api/weekly-summary", {
         driverId: data.driverId,
         startDate: startDateStr,
@@ -133,7 +173,10 @@ export default function WeeklySummary() {
         refund: data.refund,
         expenses: data.expenses,
         dues: data.dues,
-        payout: data.payout,
+        tolls: data.tolls,
+        tips: data.tips,
+        incentives: data.incentives,
+        platformFees: data.platformFees,
       });
     },
     onSuccess: () => {
@@ -168,7 +211,6 @@ export default function WeeklySummary() {
       setDraftRefund("");
       setDraftExpenses("");
       setDraftDues("");
-      setDraftPayout("");
       
       queryClient.invalidateQueries({ 
         queryKey: ["/api/weekly-summary/aggregates", startDateStr, endDateStr] 
@@ -195,7 +237,6 @@ export default function WeeklySummary() {
     setDraftRefund(String(row.refund));
     setDraftExpenses(String(row.expenses));
     setDraftDues(String(row.dues));
-    setDraftPayout(String(row.payout));
   };
 
   const onCancel = () => {
@@ -206,7 +247,6 @@ export default function WeeklySummary() {
     setDraftRefund("");
     setDraftExpenses("");
     setDraftDues("");
-    setDraftPayout("");
   };
 
   const onSave = (driverId: number, driverName: string) => {
@@ -215,15 +255,19 @@ export default function WeeklySummary() {
 
   const confirmSave = () => {
     if (saveConfirm) {
+      const row = summaries?.find((summary) => summary.driverId === saveConfirm.driverId);
       saveMutation.mutate({
         driverId: saveConfirm.driverId,
+        tolls: row?.tolls ?? 0,
+        tips: row?.tips ?? 0,
+        incentives: row?.incentives ?? 0,
+        platformFees: row?.platformFees ?? 0,
         trips: draftTrips === "" ? 0 : Number(draftTrips),
         totalEarnings: draftTotalEarnings === "" ? 0 : Number(draftTotalEarnings),
         cash: draftCash === "" ? 0 : Number(draftCash),
         refund: draftRefund === "" ? 0 : Number(draftRefund),
         expenses: draftExpenses === "" ? 0 : Number(draftExpenses),
         dues: draftDues === "" ? 0 : Number(draftDues),
-        payout: draftPayout === "" ? 0 : Number(draftPayout),
       });
       setSaveConfirm(null);
     }
@@ -241,129 +285,97 @@ export default function WeeklySummary() {
   };
 
   const calculateWallet = (trips: number, totalEarnings: number, cash: number, refund: number, expenses: number): number => {
-    return totalEarnings - cash + refund - expenses - 100;
+    return weeklyWallet({ totalEarnings, cash, refund, expenses });
   };
 
-  const calculateTotal = (collection: number, rent: number, trips: number, totalEarnings: number, cash: number, refund: number, expenses: number, dues: number, payout: number): number => {
+  const calculateTotal = (collection: number, rent: number, trips: number, totalEarnings: number, cash: number, refund: number, expenses: number, dues: number, payout: number, advanceDeduction: number, incidentCharge: number): number => {
     const wallet = calculateWallet(trips, totalEarnings, cash, refund, expenses);
-    return collection + wallet + dues - rent - payout;
+    return collection + wallet + dues - rent - payout - advanceDeduction - incidentCharge;
   };
 
-  const handleImportCSV = async (event: React.ChangeEvent<HTMLInputElement>, confirmOverwrite = false) => {
+  const handleImportCSV = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setIsImporting(true);
-    setImportResult(null);
-
     try {
+      if (file.name.toLowerCase().endsWith(".xlsx")) {
+        const sheets = await api.readSpreadsheet("weekly-summary", file);
+        setStatementFile({ name: file.name, headers: sheets[0].headers, rows: sheets[0].rows, sheets, sheet: sheets[0].name });
+        return;
+      }
+
       const text = await file.text();
       
-      const parseResult: any = Papa.parse(text, {
+      const parseResult = Papa.parse<Record<string, string>>(text, {
         header: true,
         skipEmptyLines: true,
-        trimHeaders: true,
-        transform: (value: any) => value.trim(),
+        transformHeader: (header) => header.trim(),
+        transform: (value) => value.trim(),
       });
 
       if (parseResult.errors && parseResult.errors.length > 0) {
         console.error("CSV parsing errors:", parseResult.errors);
       }
 
-      const csvData = parseResult.data;
-
-      // Send to API (date is now taken from CSV, not from UI selection)
-      const response = await fetch('/api/import/weekly-summary', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          csvData,
-          confirmOverwrite,
-        }),
-      });
-
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(result.message || 'Import failed');
-      }
-
-      // Check if duplicates were found
-      if (result.duplicatesFound && !confirmOverwrite) {
-        setDuplicateConfirm({
-          csvData,
-          existingData: result.existingData,
-        });
-        setIsImporting(false);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-        return;
-      }
-
-      setImportResult(result);
-      
-      if (result.driversNotFound && result.driversNotFound.length > 0) {
-        setDriversNotFound(result.driversNotFound);
-        setShowNotFoundDialog(true);
-      }
-
-      // Refresh the summary data
-      queryClient.invalidateQueries({ 
-        queryKey: ["/api/weekly-summary/aggregates", startDateStr, endDateStr] 
-      });
-
-      toast({
-        title: "Import completed",
-        description: `Successfully imported ${result.success} records. ${result.skipped} skipped.`,
+      // Columns are mapped in the import dialog before anything is sent
+      setStatementFile({
+        name: file.name,
+        headers: parseResult.meta.fields ?? [],
+        rows: parseResult.data,
       });
     } catch (error: any) {
       console.error("Import error:", error);
       toast({
         title: "Import failed",
-        description: error.message || "Failed to import CSV file",
+        description: error.message || "Failed to read the file",
         variant: "destructive",
       });
     } finally {
-      setIsImporting(false);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     }
   };
 
-  const confirmOverwriteImport = async () => {
-    if (!duplicateConfirm) return;
+  const selectStatementSheet = (name: string) => {
+    const sheet = statementFile?.sheets?.find((candidate) => candidate.name === name);
+    if (statementFile && sheet) {
+      setStatementFile({ ...statementFile, headers: sheet.headers, rows: sheet.rows, sheet: name });
+    }
+  };
 
+  const runImport = async (request: StatementImportRequest) => {
     setIsImporting(true);
+    setImportResult(null);
 
     try {
-      const response = await fetch('/api/import/weekly-summary', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          csvData: duplicateConfirm.csvData,
-          confirmOverwrite: true,
-        }),
-      });
+      const result = await api.importStatement(request);
 
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(result.message || 'Import failed');
+      // Check if duplicates were found
+      if (result.duplicatesFound && !request.confirmOverwrite) {
+        setDuplicateConfirm({
+          request,
+          existingData: result.existingData ?? [],
+        });
+        return;
       }
 
       setImportResult(result);
       
       if (result.driversNotFound && result.driversNotFound.length > 0) {
-        setDriversNotFound(result.driversNotFound);
-        setShowNotFoundDialog(true);
+        setNotFound({
+          request,
+          names: result.driversNotFound,
+          candidates: result.driverCandidates ?? {},
+          matches: request.driverMatches ?? {},
+        });
       }
 
       // Refresh the summary data
       queryClient.invalidateQueries({ 
         queryKey: ["/api/weekly-summary/aggregates", startDateStr, endDateStr] 
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/import/weekly-summary/jobs"] });
 
       toast({
         title: "Import completed",
@@ -378,10 +390,50 @@ export default function WeeklySummary() {
       });
     } finally {
       setIsImporting(false);
-      setDuplicateConfirm(null);
     }
   };
 
+  const importStatement = async ({ profile, columns, saveMapping }: StatementImportChoice) => {
+    if (!statementFile) return;
+    if (saveMapping) {
+      try {
+        await api.saveStatementColumns(profile, columns);
+        queryClient.invalidateQueries({ queryKey: ["/api/import/weekly-summary/profiles"] });
+      } catch (error: any) {
+        toast({ title: "Mapping not saved", description: error.message, variant: "destructive" });
+      }
+    }
+    const { rows: csvData, name: fileName, sheet: sheetName } = statementFile;
+    setStatementFile(null);
+    await runImport({ profile, columns, csvData, weekStart: startDateStr, fileName, sheetName });
+  };
+
+  const rememberDriverName = async (name: string, driverId: number) => {
+    if (!notFound) return;
+    try {
+      await api.createDriverAlias(driverId, name);
+      queryClient.invalidateQueries({ queryKey: ["/api/import-aliases/drivers"] });
+      setNotFound({ ...notFound, matches: { ...notFound.matches, [name]: driverId } });
+    } catch (error: any) {
+      toast({ title: "Alias not saved", description: error.message, variant: "destructive" });
+    }
+  };
+
+  // Everything this statement wrote came from the same file, so importing it again only overwrites its own rows
+  const importMatchedDrivers = async () => {
+    if (!notFound) return;
+    const { request, matches } = notFound;
+    setNotFound(null);
+    await runImport({ ...request, driverMatches: matches, confirmOverwrite: true });
+  };
+
+  const confirmOverwriteImport = async () => {
+    if (!duplicateConfirm) return;
+    const { request } = duplicateConfirm;
+    setDuplicateConfirm(null);
+    await runImport({ ...request, confirmOverwrite: true });
+  };
+
   if (isLoading) {
     return (
       <div className="w-full p-4 md:p-6 lg:p-8">
@@ -445,7 +497,7 @@ export default function WeeklySummary() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv"
+                accept=".csv,.xlsx"
                 onChange={handleImportCSV}
                 className="hidden"
                 data-testid="input-file-csv"
@@ -457,11 +509,21 @@ export default function WeeklySummary() {
                 data-testid="button-import-csv"
               >
                 <Upload className="h-4 w-4 mr-2" />
-                {isImporting ? "Importing..." : "Import CSV"}
+                {isImporting ? "Importing..." : "Import Statement"}
               </Button>
             </div>
           </div>
 
+          {closedWeek && (
+            <Alert className="mb-4 border-gray-400" data-testid="alert-week-closed">
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                The week {closedWeek.weekStart} to {closedWeek.weekEnd} is closed
+                {closedWeek.closeReason && ` (${closedWeek.closeReason})`}. Its summaries cannot be edited until an owner reopens it.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Import Results */}
           {importResult && (
             <Alert className="mb-4">
@@ -485,6 +547,7 @@ export default function WeeklySummary() {
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Collection</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Fuel</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Trips</th>
+                    <th className="text-right py-3 px-2 text-gray-700 font-semibold">Leave</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Total Earnings</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Cash</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Refund</th>
@@ -492,6 +555,8 @@ export default function WeeklySummary() {
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Wallet</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Dues</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Payout</th>
+                    <th className="text-right py-3 px-2 text-gray-700 font-semibold">Advance</th>
+                    <th className="text-right py-3 px-2 text-gray-700 font-semibold">Incidents</th>
                     <th className="text-right py-3 px-2 text-gray-700 font-semibold">Total</th>
                     <th className="text-center py-3 px-2 text-gray-700 font-semibold">Actions</th>
                   </tr>
@@ -507,10 +572,10 @@ export default function WeeklySummary() {
                     const refund = editing ? (draftRefund === "" ? 0 : Number(draftRefund)) : row.refund;
                     const expenses = editing ? (draftExpenses === "" ? 0 : Number(draftExpenses)) : row.expenses;
                     const dues = editing ? (draftDues === "" ? 0 : Number(draftDues)) : row.dues;
-                    const payout = editing ? (draftPayout === "" ? 0 : Number(draftPayout)) : row.payout;
+                    const payout = row.payout; // sum of recorded payouts, managed in the Payouts dialog
 
                     const wallet = calculateWallet(trips, totalEarnings, cash, refund, expenses);
-                    const total = calculateTotal(row.collection, row.rent, trips, totalEarnings, cash, refund, expenses, dues, payout);
+                    const total = calculateTotal(row.collection, row.rent, trips, totalEarnings, cash, refund, expenses, dues, payout, row.advanceDeduction, row.incidentCharge);
 
                     return (
                       <tr key={row.driverId} className="border-b border-gray-200 hover:bg-gray-50">
@@ -532,6 +597,10 @@ export default function WeeklySummary() {
                           ) : (trips || "—")}
                         </td>
 
+                        <td className="py-3 px-2 text-right text-gray-900" data-testid={`text-leave-days-${row.driverId}`}>
+                          {row.leaveDays || "—"}
+                        </td>
+
                         <td className="py-3 px-2 text-right">
                           {editing ? (
                             <Input
@@ -542,6 +611,11 @@ export default function WeeklySummary() {
                               data-testid={`input-total-earnings-${row.driverId}`}
                             />
                           ) : (totalEarnings ? inr(totalEarnings) : "—")}
+                          {!editing && breakdownText(row) && (
+                            <div className="text-xs text-gray-500 whitespace-nowrap" data-testid={`text-breakdown-${row.driverId}`}>
+                              {breakdownText(row)}
+                            </div>
+                          )}
                         </td>
 
                         <td className="py-3 px-2 text-right">
@@ -597,15 +671,23 @@ export default function WeeklySummary() {
                         </td>
 
                         <td className="py-3 px-2 text-right">
-                          {editing ? (
-                            <Input
-                              type="number"
-                              value={draftPayout}
-                              onChange={(e) => setDraftPayout(e.target.value)}
-                              className="w-24 text-right"
-                              data-testid={`input-payout-${row.driverId}`}
-                            />
-                          ) : (payout ? inr(payout) : "—")}
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="px-0"
+                            onClick={() => setPayoutDriver({ driverId: row.driverId, driverName: row.driverName })}
+                            data-testid={`button-payouts-${row.driverId}`}
+                          >
+                            {payout ? inr(payout) : "—"}
+                          </Button>
+                        </td>
+
+                        <td className="py-3 px-2 text-right text-gray-900" title="Advance instalments due in this period" data-testid={`text-advance-${row.driverId}`}>
+                          {row.advanceDeduction ? inr(row.advanceDeduction) : "—"}
+                        </td>
+
+                        <td className="py-3 px-2 text-right text-gray-900" title="Challans and damage charged in this period" data-testid={`text-incidents-${row.driverId}`}>
+                          {row.incidentCharge ? inr(row.incidentCharge) : "—"}
                         </td>
 
                         <td className="py-3 px-2 text-right font-bold" data-testid={`text-total-${row.driverId}`}>
@@ -620,6 +702,7 @@ export default function WeeklySummary() {
                                   size="sm"
                                   variant="outline"
                                   onClick={() => onEdit(row)}
+                                  disabled={!!closedWeek}
                                   data-testid={`button-edit-${row.driverId}`}
                                 >
                                   ✎ Edit
@@ -628,10 +711,22 @@ export default function WeeklySummary() {
                                   size="sm"
                                   variant="destructive"
                                   onClick={() => onClear(row.driverId, row.driverName)}
+                                  disabled={!!closedWeek}
                                   data-testid={`button-clear-${row.driverId}`}
                                 >
                                   🗑 Clear
                                 </Button>
+                                {canAccess("/audit-log") && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setHistoryDriver({ driverId: row.driverId, driverName: row.driverName })}
+                                    title="History"
+                                    data-testid={`button-history-${row.driverId}`}
+                                  >
+                                    <History className="h-4 w-4" />
+                                  </Button>
+                                )}
                               </>
                             ) : (
                               <>
@@ -669,6 +764,31 @@ export default function WeeklySummary() {
         </CardContent>
       </Card>
 
+      {/* Weekly summary history for one driver, across all weeks */}
+      <AuditHistoryDrawer
+        open={historyDriver !== null}
+        onOpenChange={(open) => !open && setHistoryDriver(null)}
+        title={historyDriver ? `Weekly summaries for ${historyDriver.driverName}` : ""}
+        filters={{ entity: "weeklySummary", entityIdPrefix: `${historyDriver?.driverId}:` }}
+      />
+
+      <StatementImportDialog
+        file={statementFile}
+        weekStart={startDateStr}
+        importing={isImporting}
+        onImport={importStatement}
+        onSheetChange={selectStatementSheet}
+        onOpenChange={(open) => !open && setStatementFile(null)}
+      />
+
+      <PayoutsDialog
+        driver={payoutDriver}
+        startDate={startDateStr}
+        endDate={endDateStr}
+        readOnly={!!closedWeek}
+        onOpenChange={(open) => !open && setPayoutDriver(null)}
+      />
+
       {/* Save Confirmation Dialog */}
       <AlertDialog open={saveConfirm !== null} onOpenChange={() => setSaveConfirm(null)}>
         <AlertDialogContent>
@@ -709,25 +829,57 @@ export default function WeeklySummary() {
       </AlertDialog>
 
       {/* Drivers Not Found Dialog */}
-      <AlertDialog open={showNotFoundDialog} onOpenChange={setShowNotFoundDialog}>
+      <AlertDialog open={notFound !== null} onOpenChange={(open) => !open && setNotFound(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Drivers Not Found</AlertDialogTitle>
             <AlertDialogDescription>
-              The following drivers from the CSV were not found in the computed weekly summary for the selected date range and were skipped:
+              The following drivers from the CSV were not found in the computed weekly summary for the selected date range and were skipped.
+              Pick the driver a name stands for to import their rows.
             </AlertDialogDescription>
           </AlertDialogHeader>
-          <div className="my-4">
-            <ul className="list-disc list-inside space-y-1">
-              {driversNotFound.map((driver, index) => (
-                <li key={index} className="text-sm text-gray-700">{driver}</li>
-              ))}
+          <div className="my-4 max-h-72 overflow-y-auto">
+            <ul className="space-y-2">
+              {notFound?.names.map((name) => {
+                const matched = notFound.matches[name];
+                const candidates = notFound.candidates[name] ?? [];
+                return (
+                  <li key={name} className="text-sm text-gray-700">
+                    <span className="font-medium">{name}</span>
+                    {matched ? (
+                      <span className="text-gray-500">
+                        {" "}→ {candidates.find((c) => c.id === matched)?.name}
+                        <button
+                          type="button"
+                          className="ml-1 underline text-xs"
+                          onClick={() => {
+                            const { [name]: _removed, ...rest } = notFound.matches;
+                            setNotFound({ ...notFound, matches: rest });
+                          }}
+                        >
+                          undo
+                        </button>
+                      </span>
+                    ) : (
+                      <NameMatchPicker
+                        name={name}
+                        candidates={candidates}
+                        onUse={(id) => setNotFound({ ...notFound, matches: { ...notFound.matches, [name]: id } })}
+                        onRemember={(id) => rememberDriverName(name, id)}
+                      />
+                    )}
+                  </li>
+                );
+              })}
             </ul>
           </div>
           <AlertDialogFooter>
-            <AlertDialogAction onClick={() => setShowNotFoundDialog(false)}>
-              OK
-            </AlertDialogAction>
+            <AlertDialogCancel onClick={() => setNotFound(null)}>Close</AlertDialogCancel>
+            {notFound && Object.keys(notFound.matches).some((name) => !notFound.request.driverMatches?.[name]) && (
+              <AlertDialogAction onClick={importMatchedDrivers} data-testid="button-import-matched-drivers">
+                Import Again
+              </AlertDialogAction>
+            )}
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
@@ -0,0 +1,563 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  api,
+  type AccommodationAssignment,
+  type AccommodationInput,
+  type AccommodationWithOccupancy,
+  type Driver,
+} from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2, LogOut } from "lucide-react";
+
+const inr = (n: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n || 0);
+const today = () => format(new Date(), "yyyy-MM-dd");
+const formatDate = (date: string) => format(new Date(date), "MMM dd, yyyy");
+
+// Same proration the server uses for the weekly room cost in settlements
+const weeklyCost = (monthlyRent: number) => Math.floor((monthlyRent * 7) / 30);
+
+const isCurrent = (stay: AccommodationAssignment) => stay.startDate <= today() && (!stay.endDate || stay.endDate >= today());
+
+interface AccommodationForm {
+  name: string;
+  address: string;
+  monthlyRent: string;
+  capacity: string;
+  occupantDailyRent: string;
+  leaseStart: string;
+  leaseEnd: string;
+  notes: string;
+}
+
+const emptyForm = (): AccommodationForm => ({
+  name: "",
+  address: "",
+  monthlyRent: "",
+  capacity: "",
+  occupantDailyRent: "100",
+  leaseStart: today(),
+  leaseEnd: "",
+  notes: "",
+});
+
+interface AssignmentForm {
+  driverId: string;
+  startDate: string;
+  endDate: string;
+}
+
+const emptyAssignment = (): AssignmentForm => ({ driverId: "", startDate: today(), endDate: "" });
+
+export default function AccommodationsPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<AccommodationForm>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<AccommodationWithOccupancy | null>(null);
+  const [assignments, setAssignments] = useState<Record<number, AssignmentForm>>({});
+  const [endingStay, setEndingStay] = useState<{ stay: AccommodationAssignment; endDate: string } | null>(null);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = !!user && canAccessApi(user.role, "POST", "/api/accommodations");
+  const canAssign = !!user && canAccessApi(user.role, "POST", "/api/accommodations/0/assignments");
+
+  const { data: accommodations = [], isLoading } = useQuery({
+    queryKey: ["/api/accommodations"],
+    queryFn: api.getAccommodations,
+  });
+
+  const { data: drivers = [] } = useQuery<Driver[]>({
+    queryKey: ["/api/drivers"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accommodations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number | null; data: AccommodationInput }) =>
+      id ? api.updateAccommodation(id, data) : api.createAccommodation(data),
+    onSuccess: (_, { id }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
+      setIsFormOpen(false);
+      setEditingId(null);
+      setFormData(emptyForm());
+      toast({ title: "Success", description: id ? "Accommodation updated" : "Accommodation added" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteAccommodation,
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/settlements"] });
+      toast({ title: "Success", description: "Accommodation deleted" });
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ accommodationId, form }: { accommodationId: number; form: AssignmentForm }) =>
+      api.createAccommodationAssignment(accommodationId, {
+        driverId: parseInt(form.driverId),
+        startDate: form.startDate,
+        endDate: form.endDate || null,
+      }),
+    onSuccess: (_, { accommodationId }) => {
+      invalidate();
+      setAssignments((current) => ({ ...current, [accommodationId]: emptyAssignment() }));
+      toast({ title: "Success", description: "Driver assigned" });
+    },
+    onError,
+  });
+
+  const endStayMutation = useMutation({
+    mutationFn: ({ stay, endDate }: { stay: AccommodationAssignment; endDate: string }) =>
+      api.endAccommodationAssignment(stay.accommodationId, stay.id, endDate),
+    onSuccess: () => {
+      invalidate();
+      setEndingStay(null);
+      toast({ title: "Success", description: "Stay ended" });
+    },
+    onError,
+  });
+
+  const deleteStayMutation = useMutation({
+    mutationFn: (stay: AccommodationAssignment) => api.deleteAccommodationAssignment(stay.accommodationId, stay.id),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Stay deleted" });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (accommodation: AccommodationWithOccupancy) => {
+    setEditingId(accommodation.id);
+    setFormData({
+      name: accommodation.name,
+      address: accommodation.address,
+      monthlyRent: String(accommodation.monthlyRent),
+      capacity: String(accommodation.capacity),
+      occupantDailyRent: String(accommodation.occupantDailyRent),
+      leaseStart: accommodation.leaseStart,
+      leaseEnd: accommodation.leaseEnd || "",
+      notes: accommodation.notes || "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      id: editingId,
+      data: {
+        name: formData.name,
+        address: formData.address,
+        monthlyRent: parseInt(formData.monthlyRent) || 0,
+        capacity: parseInt(formData.capacity) || 0,
+        occupantDailyRent: parseInt(formData.occupantDailyRent) || 0,
+        leaseStart: formData.leaseStart,
+        leaseEnd: formData.leaseEnd || null,
+        notes: formData.notes || undefined,
+      },
+    });
+  };
+
+  const assignmentFor = (accommodationId: number) => assignments[accommodationId] ?? emptyAssignment();
+  const setAssignment = (accommodationId: number, form: AssignmentForm) =>
+    setAssignments((current) => ({ ...current, [accommodationId]: form }));
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Accommodations</h1>
+              <p className="text-sm text-gray-500">
+                Rooms rented for drivers. Their rent makes up the weekly room cost in settlements, and each occupant
+                is charged the room's daily rent on top of the vehicle rent.
+              </p>
+            </div>
+            {canManage && (
+              <Button onClick={openCreate} data-testid="button-add-accommodation">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Accommodation
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div>Loading accommodations...</div>
+          ) : accommodations.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-sm text-gray-500">No accommodations yet</CardContent>
+            </Card>
+          ) : (
+            accommodations.map((accommodation) => {
+              const current = accommodation.occupants.filter(isCurrent);
+              const leased = !accommodation.leaseEnd || accommodation.leaseEnd >= today();
+              const form = assignmentFor(accommodation.id);
+              const housedIds = new Set(current.map((stay) => stay.driverId));
+              return (
+                <Card key={accommodation.id} data-testid={`card-accommodation-${accommodation.id}`}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        {accommodation.name}
+                        {leased ? (
+                          <Badge variant="secondary" className="bg-green-100 text-green-800">Leased</Badge>
+                        ) : (
+                          <Badge variant="secondary">Lease ended</Badge>
+                        )}
+                      </CardTitle>
+                      <p className="text-sm text-gray-500">{accommodation.address}</p>
+                      {accommodation.notes && <p className="text-xs text-gray-500">{accommodation.notes}</p>}
+                    </div>
+                    {canManage && (
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openEdit(accommodation)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDeleteConfirm(accommodation)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                      <div className="border rounded-lg p-3">
+                        <p className="text-gray-500">Monthly Rent</p>
+                        <p className="font-semibold">{inr(accommodation.monthlyRent)}</p>
+                      </div>
+                      <div className="border rounded-lg p-3">
+                        <p className="text-gray-500">Weekly Cost</p>
+                        <p className="font-semibold">{inr(weeklyCost(accommodation.monthlyRent))}</p>
+                      </div>
+                      <div className="border rounded-lg p-3">
+                        <p className="text-gray-500">Occupancy</p>
+                        <p className="font-semibold" data-testid={`text-occupancy-${accommodation.id}`}>
+                          {current.length} / {accommodation.capacity}
+                        </p>
+                      </div>
+                      <div className="border rounded-lg p-3">
+                        <p className="text-gray-500">Charge per Occupant</p>
+                        <p className="font-semibold">{inr(accommodation.occupantDailyRent)}/day</p>
+                      </div>
+                      <div className="border rounded-lg p-3">
+                        <p className="text-gray-500">Lease</p>
+                        <p className="font-semibold">
+                          {formatDate(accommodation.leaseStart)} – {accommodation.leaseEnd ? formatDate(accommodation.leaseEnd) : "ongoing"}
+                        </p>
+                      </div>
+                    </div>
+
+                    {accommodation.occupants.length === 0 ? (
+                      <p className="text-sm text-gray-500">No one has stayed here yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Driver</TableHead>
+                            <TableHead>From</TableHead>
+                            <TableHead>To</TableHead>
+                            <TableHead>Status</TableHead>
+                            {canAssign && <TableHead>Actions</TableHead>}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {accommodation.occupants.map((stay) => (
+                            <TableRow key={stay.id} data-testid={`row-stay-${stay.id}`}>
+                              <TableCell className="font-medium">{stay.driverName}</TableCell>
+                              <TableCell>{formatDate(stay.startDate)}</TableCell>
+                              <TableCell>{stay.endDate ? formatDate(stay.endDate) : "—"}</TableCell>
+                              <TableCell>
+                                {isCurrent(stay) ? (
+                                  <Badge variant="secondary" className="bg-green-100 text-green-800">Staying</Badge>
+                                ) : stay.startDate > today() ? (
+                                  <Badge variant="secondary">Upcoming</Badge>
+                                ) : (
+                                  <Badge variant="secondary">Moved out</Badge>
+                                )}
+                              </TableCell>
+                              {canAssign && (
+                                <TableCell>
+                                  <div className="flex space-x-2">
+                                    {(!stay.endDate || stay.endDate >= today()) && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setEndingStay({ stay, endDate: today() })}
+                                        data-testid={`button-end-stay-${stay.id}`}
+                                      >
+                                        <LogOut className="w-4 h-4" />
+                                      </Button>
+                                    )}
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => deleteStayMutation.mutate(stay)}
+                                      disabled={deleteStayMutation.isPending}
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+
+                    {canAssign && leased && (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t pt-4">
+                        <div>
+                          <Label>Driver</Label>
+                          <Select
+                            value={form.driverId}
+                            onValueChange={(value) => setAssignment(accommodation.id, { ...form, driverId: value })}
+                          >
+                            <SelectTrigger data-testid={`select-assign-driver-${accommodation.id}`}>
+                              <SelectValue placeholder="Select driver" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {drivers
+                                .filter((driver) => !housedIds.has(driver.id))
+                                .map((driver) => (
+                                  <SelectItem key={driver.id} value={String(driver.id)}>
+                                    {driver.name}{driver.accommodationName ? ` (in ${driver.accommodationName})` : ""}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label htmlFor={`assignStart-${accommodation.id}`}>From</Label>
+                          <Input
+                            id={`assignStart-${accommodation.id}`}
+                            type="date"
+                            value={form.startDate}
+                            onChange={(e) => setAssignment(accommodation.id, { ...form, startDate: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`assignEnd-${accommodation.id}`}>To (optional)</Label>
+                          <Input
+                            id={`assignEnd-${accommodation.id}`}
+                            type="date"
+                            value={form.endDate}
+                            onChange={(e) => setAssignment(accommodation.id, { ...form, endDate: e.target.value })}
+                          />
+                        </div>
+                        <Button
+                          onClick={() => assignMutation.mutate({ accommodationId: accommodation.id, form })}
+                          disabled={assignMutation.isPending || !form.driverId || !form.startDate}
+                          data-testid={`button-assign-driver-${accommodation.id}`}
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Assign Driver
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+
+          {/* Create / Edit Dialog */}
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingId ? "Edit Accommodation" : "Add Accommodation"}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="accommodationName">Name</Label>
+                  <Input
+                    id="accommodationName"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Main Room"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="accommodationAddress">Address</Label>
+                  <Input
+                    id="accommodationAddress"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="accommodationMonthlyRent">Monthly Rent (₹)</Label>
+                    <Input
+                      id="accommodationMonthlyRent"
+                      type="number"
+                      min={0}
+                      value={formData.monthlyRent}
+                      onChange={(e) => setFormData({ ...formData, monthlyRent: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="accommodationCapacity">Capacity</Label>
+                    <Input
+                      id="accommodationCapacity"
+                      type="number"
+                      min={1}
+                      value={formData.capacity}
+                      onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="accommodationOccupantRent">Occupant Rent / Day (₹)</Label>
+                    <Input
+                      id="accommodationOccupantRent"
+                      type="number"
+                      min={0}
+                      value={formData.occupantDailyRent}
+                      onChange={(e) => setFormData({ ...formData, occupantDailyRent: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="accommodationLeaseStart">Lease Start</Label>
+                    <Input
+                      id="accommodationLeaseStart"
+                      type="date"
+                      value={formData.leaseStart}
+                      onChange={(e) => setFormData({ ...formData, leaseStart: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="accommodationLeaseEnd">Lease End (optional)</Label>
+                    <Input
+                      id="accommodationLeaseEnd"
+                      type="date"
+                      value={formData.leaseEnd}
+                      onChange={(e) => setFormData({ ...formData, leaseEnd: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="accommodationNotes">Notes</Label>
+                  <Input
+                    id="accommodationNotes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  />
+                </div>
+                <Button onClick={handleSave} disabled={saveMutation.isPending} className="w-full" data-testid="button-save-accommodation">
+                  {saveMutation.isPending ? "Saving..." : editingId ? "Update Accommodation" : "Add Accommodation"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          {/* End Stay Dialog */}
+          <Dialog open={!!endingStay} onOpenChange={(open) => !open && setEndingStay(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>End Stay</DialogTitle>
+                <DialogDescription>
+                  {endingStay && `${endingStay.stay.driverName} is charged for the room up to and including this date.`}
+                </DialogDescription>
+              </DialogHeader>
+              {endingStay && (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="stayEndDate">Last Night</Label>
+                    <Input
+                      id="stayEndDate"
+                      type="date"
+                      value={endingStay.endDate}
+                      onChange={(e) => setEndingStay({ ...endingStay, endDate: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => endStayMutation.mutate(endingStay)}
+                    disabled={endStayMutation.isPending || !endingStay.endDate}
+                    className="w-full"
+                    data-testid="button-confirm-end-stay"
+                  >
+                    {endStayMutation.isPending ? "Saving..." : "End Stay"}
+                  </Button>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={deleteConfirm !== null} onOpenChange={() => setDeleteConfirm(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Confirm Delete Accommodation</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deleteConfirm && `Are you sure you want to delete ${deleteConfirm.name}? Accommodations that drivers have stayed in cannot be deleted; set a lease end date instead.`}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (deleteConfirm) {
+                      deleteMutation.mutate(deleteConfirm.id);
+                      setDeleteConfirm(null);
+                    }
+                  }}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type AuditLogFilters } from "@/lib/api";
+import { AUDIT_ENTITIES, AUDIT_ACTIONS } from "@shared/schema";
+import { AUDIT_ENTITY_LABELS, AuditActionBadge, AuditChanges } from "@/components/AuditHistoryDrawer";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, X } from "lucide-react";
+
+const ALL = "all";
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ["/api/audit-log", filters],
+    queryFn: () => api.getAuditLog(filters),
+  });
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value === ALL || value === "" ? undefined : value }));
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Filters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+                <div>
+                  <Label>Record Type</Label>
+                  <Select value={filters.entity ?? ALL} onValueChange={(value) => setFilter("entity", value)}>
+                    <SelectTrigger data-testid="select-audit-entity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All records</SelectItem>
+                      {AUDIT_ENTITIES.map((entity) => (
+                        <SelectItem key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="auditEntityId">Record ID</Label>
+                  <Input
+                    id="auditEntityId"
+                    value={filters.entityId ?? ""}
+                    onChange={(e) => setFilter("entityId", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>Action</Label>
+                  <Select value={filters.action ?? ALL} onValueChange={(value) => setFilter("action", value)}>
+                    <SelectTrigger data-testid="select-audit-action">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All actions</SelectItem>
+                      {AUDIT_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action} className="capitalize">{action}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="auditActor">Changed By</Label>
+                  <Input
+                    id="auditActor"
+                    value={filters.actor ?? ""}
+                    onChange={(e) => setFilter("actor", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="auditFrom">From</Label>
+                  <Input
+                    id="auditFrom"
+                    type="date"
+                    value={filters.from ?? ""}
+                    onChange={(e) => setFilter("from", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="auditTo">To</Label>
+                  <Input
+                    id="auditTo"
+                    type="date"
+                    value={filters.to ?? ""}
+                    onChange={(e) => setFilter("to", e.target.value)}
+                  />
+                </div>
+              </div>
+              {Object.values(filters).some((value) => value !== undefined) && (
+                <Button variant="ghost" size="sm" className="mt-4" onClick={() => setFilters({})}>
+                  <X className="w-4 h-4 mr-1" />
+                  Clear filters
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading audit log...</div>
+              ) : entries.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No changes match these filters</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>When</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>ID</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Changed By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const isExpanded = expanded.has(entry.id);
+                      return [
+                        <TableRow
+                          key={entry.id}
+                          className="cursor-pointer"
+                          onClick={() => toggleExpanded(entry.id)}
+                          data-testid={`row-audit-${entry.id}`}
+                        >
+                          <TableCell>
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), "MMM dd, yyyy HH:mm:ss")}</TableCell>
+                          <TableCell>{AUDIT_ENTITY_LABELS[entry.entity] ?? entry.entity}</TableCell>
+                          <TableCell className="font-mono text-sm">{entry.entityId}</TableCell>
+                          <TableCell><AuditActionBadge action={entry.action} /></TableCell>
+                          <TableCell>{entry.actorName}</TableCell>
+                        </TableRow>,
+                        isExpanded && (
+                          <TableRow key={`${entry.id}-changes`} className="bg-gray-50 hover:bg-gray-50">
+                            <TableCell />
+                            <TableCell colSpan={5}>
+                              <AuditChanges entry={entry} />
+                            </TableCell>
+                          </TableRow>
+                        ),
+                      ];
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+              {entries.length === (filters.limit ?? 200) && (
+                <p className="text-xs text-gray-500 mt-4">Showing the latest {entries.length} changes. Narrow the filters to see older ones.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
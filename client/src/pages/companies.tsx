@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, SETTLEMENT_DAYS, type Company, type SettlementDay } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+
+const inr = (n: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n || 0);
+const dayLabel = (day: string) => day.charAt(0).toUpperCase() + day.slice(1);
+
+interface CompanyForm {
+  name: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+  settlementDay: SettlementDay;
+  walletDeduction: string;
+  walletNotes: string;
+  active: boolean;
+}
+
+const emptyForm = (): CompanyForm => ({
+  name: "",
+  contactName: "",
+  contactPhone: "",
+  contactEmail: "",
+  settlementDay: "monday",
+  walletDeduction: "0",
+  walletNotes: "",
+  active: true,
+});
+
+export default function CompaniesPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<CompanyForm>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<Company | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: companies = [], isLoading } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number | null; data: Parameters<typeof api.createCompany>[0] }) =>
+      id ? api.updateCompany(id, data) : api.createCompany(data),
+    onSuccess: (_, { id }) => {
+      invalidate();
+      setIsFormOpen(false);
+      setEditingId(null);
+      setFormData(emptyForm());
+      toast({ title: "Success", description: id ? "Company updated successfully" : "Company created successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteCompany,
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Company deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (company: Company) => {
+    setEditingId(company.id);
+    setFormData({
+      name: company.name,
+      contactName: company.contactName || "",
+      contactPhone: company.contactPhone || "",
+      contactEmail: company.contactEmail || "",
+      settlementDay: company.settlementDay,
+      walletDeduction: String(company.walletDeduction),
+      walletNotes: company.walletNotes || "",
+      active: company.active,
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      id: editingId,
+      data: {
+        name: formData.name,
+        contactName: formData.contactName || null,
+        contactPhone: formData.contactPhone || null,
+        contactEmail: formData.contactEmail || null,
+        settlementDay: formData.settlementDay,
+        walletDeduction: Number(formData.walletDeduction) || 0,
+        walletNotes: formData.walletNotes || null,
+        active: formData.active,
+      },
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Leasing Companies</h1>
+              <p className="text-sm text-gray-500">
+                Companies vehicles are leased from. Rental slabs are managed per company on the{" "}
+                <Link href="/rental-slabs" className="text-primary underline">Rental Slabs</Link> page.
+              </p>
+            </div>
+            <Button onClick={openCreate} data-testid="button-add-company">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Company
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All Companies</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading companies...</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Settlement Day</TableHead>
+                      <TableHead className="text-right">Wallet Deduction / Week</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {companies.map((company) => (
+                      <TableRow key={company.id} data-testid={`row-company-${company.id}`}>
+                        <TableCell className="font-medium">{company.name}</TableCell>
+                        <TableCell>
+                          <div>{company.contactName || "—"}</div>
+                          <div className="text-xs text-gray-500">
+                            {[company.contactPhone, company.contactEmail].filter(Boolean).join(" · ")}
+                          </div>
+                        </TableCell>
+                        <TableCell>{dayLabel(company.settlementDay)}</TableCell>
+                        <TableCell className="text-right">
+                          {inr(company.walletDeduction)}
+                          {company.walletNotes && <div className="text-xs text-gray-500">{company.walletNotes}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {company.active ? (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800">Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Inactive</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => openEdit(company)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setDeleteConfirm(company)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Create / Edit Dialog */}
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingId ? "Edit Company" : "Add Company"}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="companyName">Name</Label>
+                  <Input
+                    id="companyName"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., PMV"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="companyContactName">Contact Name</Label>
+                    <Input
+                      id="companyContactName"
+                      value={formData.contactName}
+                      onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="companyContactPhone">Contact Phone</Label>
+                    <Input
+                      id="companyContactPhone"
+                      value={formData.contactPhone}
+                      onChange={(e) => setFormData({ ...formData, contactPhone: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="companyContactEmail">Contact Email</Label>
+                  <Input
+                    id="companyContactEmail"
+                    type="email"
+                    value={formData.contactEmail}
+                    onChange={(e) => setFormData({ ...formData, contactEmail: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="companySettlementDay">Settlement Day</Label>
+                    <Select
+                      value={formData.settlementDay}
+                      onValueChange={(value: SettlementDay) => setFormData({ ...formData, settlementDay: value })}
+                    >
+                      <SelectTrigger id="companySettlementDay">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SETTLEMENT_DAYS.map((day) => (
+                          <SelectItem key={day} value={day}>{dayLabel(day)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="companyWalletDeduction">Wallet Deduction / Vehicle / Week (₹)</Label>
+                    <Input
+                      id="companyWalletDeduction"
+                      type="number"
+                      min={0}
+                      value={formData.walletDeduction}
+                      onChange={(e) => setFormData({ ...formData, walletDeduction: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="companyWalletNotes">Wallet Rules</Label>
+                  <Input
+                    id="companyWalletNotes"
+                    value={formData.walletNotes}
+                    onChange={(e) => setFormData({ ...formData, walletNotes: e.target.value })}
+                    placeholder="e.g., Wallet settled with the weekly rent invoice"
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="companyActive"
+                    checked={formData.active}
+                    onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                  />
+                  <Label htmlFor="companyActive">Active (available for new vehicles)</Label>
+                </div>
+                <Button onClick={handleSave} disabled={saveMutation.isPending} className="w-full" data-testid="button-save-company">
+                  {saveMutation.isPending ? "Saving..." : editingId ? "Update Company" : "Create Company"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={deleteConfirm !== null} onOpenChange={() => setDeleteConfirm(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Confirm Delete Company</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deleteConfirm && `Are you sure you want to delete ${deleteConfirm.name}? Its rental slab schedules will be deleted too. Companies with vehicles cannot be deleted.`}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (deleteConfirm) {
+                      deleteMutation.mutate(deleteConfirm.id);
+                      setDeleteConfirm(null);
+                    }
+                  }}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import DriverPerformanceCard from "@/components/DriverPerformanceCard";
 import ProfitChart from "@/components/ProfitChart";
 import RentalSlabCard from "@/components/RentalSlabCard";
 import UnpaidRentsPanel from "@/components/UnpaidRentsPanel";
+import ServiceDuePanel from "@/components/ServiceDuePanel";
 import QuickActions from "@/components/QuickActions";
 import RecentTripsTable from "@/components/RecentTripsTable";
 import SettlementStatusCard from "@/components/SettlementStatusCard";
@@ -20,7 +21,7 @@ export default function Dashboard() {
   const [showSubstituteModal, setShowSubstituteModal] = useState(false);
 
   // Fetch vehicles for substitute driver form
-  const { data: vehicles } = useQuery<Array<{ id: number; vehicleNumber: string; company: string }>>({
+  const { data: vehicles } = useQuery<Array<{ id: number; vehicleNumber: string; companyName: string | null }>>({
     queryKey: ["/api/vehicles"],
   });
 
@@ -77,6 +78,9 @@ export default function Dashboard() {
                 <RentalSlabCard vehicleId={selectedVehicleId} />
               )}
 
+              {/* Upcoming / Overdue Service */}
+              <ServiceDuePanel />
+
               {/* Unpaid Rents Panel */}
               <UnpaidRentsPanel />
 
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { weeklyWallet } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
@@ -32,6 +33,8 @@ interface DriverPaymentRow {
   expenses: number;
   dues: number;
   payout: number;
+  advanceDeduction: number;
+  incidentCharge: number;
 }
 
 export default function DriversPaymentsPage() {
@@ -63,8 +66,7 @@ export default function DriversPaymentsPage() {
   });
 
   const calculateTotal = (row: DriverPaymentRow): number => {
-    const wallet = row.totalEarnings - row.cash + row.refund - row.expenses - 100;
-    const total = row.collection + wallet + row.dues - row.rent - row.payout;
+    const total = row.collection + weeklyWallet(row) + row.dues - row.rent - row.payout - row.advanceDeduction - row.incidentCharge;
     return total;
   };
 
@@ -1,12 +1,11 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@/lib/api";
+import { api, type DriverKyc } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import {
   AlertDialog,
@@ -19,15 +18,22 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Edit, Trash2, Home } from "lucide-react";
+import { Plus, Edit, Trash2, Home, BookOpen, HandCoins, ShieldCheck, IdCard } from "lucide-react";
 import Sidebar from "@/components/Sidebar";
+import DriverStatement from "@/components/DriverStatement";
+import AdvancesDialog from "@/components/AdvancesDialog";
+import DepositDialog from "@/components/DepositDialog";
+import DriverKycDialog, { expiryDateStatus } from "@/components/DriverKycDialog";
+import { ComplianceBadge } from "@/components/VehicleDocumentsDialog";
+import { useAuth } from "@/hooks/use-auth";
 
-interface Driver {
+interface Driver extends DriverKyc {
   id: number;
   name: string;
   phone: string;
   qrCode?: string;
-  hasAccommodation: boolean;
+  accommodationName: string | null;
+  dailyRent: number;
   joinedDate: string;
   dismissDate?: string;
   createdAt: string;
@@ -42,7 +48,6 @@ export default function DriversPage() {
     name: "",
     phone: "",
     qrCode: "",
-    hasAccommodation: false,
     joinedDate: new Date().toISOString().split('T')[0],
     dismissDate: "",
   });
@@ -50,20 +55,34 @@ export default function DriversPage() {
   // Confirmation dialog states
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [updateConfirm, setUpdateConfirm] = useState(false);
+  const [statementDriver, setStatementDriver] = useState<Driver | null>(null);
+  const [advancesDriver, setAdvancesDriver] = useState<Driver | null>(null);
+  const [depositDriver, setDepositDriver] = useState<Driver | null>(null);
+  const [kycDriver, setKycDriver] = useState<Driver | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { canAccess } = useAuth();
+
   const { data: drivers, isLoading } = useQuery<Driver[]>({
     queryKey: ["/api/drivers"],
   });
 
+  const showFinance = canAccess("/drivers-payments");
+  const { data: outstandingAdvances = [] } = useQuery({
+    queryKey: ["/api/advances/outstanding"],
+    queryFn: () => api.getOutstandingAdvances(),
+    enabled: showFinance,
+  });
+  const outstandingByDriver = new Map(outstandingAdvances.map((row) => [row.driverId, row.outstanding]));
+
   const createMutation = useMutation({
     mutationFn: api.createDriver,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
       setIsCreateOpen(false);
-      setFormData({ name: "", phone: "", qrCode: "", hasAccommodation: false, joinedDate: new Date().toISOString().split('T')[0], dismissDate: "" });
+      setFormData({ name: "", phone: "", qrCode: "", joinedDate: new Date().toISOString().split('T')[0], dismissDate: "" });
       toast({ title: "Success", description: "Driver created successfully" });
     },
     onError: (error: any) => {
@@ -91,8 +110,12 @@ export default function DriversPage() {
 
   const updateMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: Partial<Driver> }) => api.updateDriver(id, data),
-    onSuccess: () => {
+    onSuccess: (_updated, { data }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
+      // Setting a dismiss date brings up the driver's final settlement
+      if (editingDriver && data.dismissDate && !editingDriver.dismissDate && showFinance) {
+        setDepositDriver({ ...editingDriver, dismissDate: data.dismissDate });
+      }
       setIsEditOpen(false);
       setEditingDriver(null);
       toast({ title: "Success", description: "Driver updated successfully" });
@@ -118,7 +141,6 @@ export default function DriversPage() {
       name: formData.name,
       phone: formData.phone,
       qrCode: formData.qrCode || undefined,
-      hasAccommodation: formData.hasAccommodation,
       joinedDate: formData.joinedDate,
     };
     createMutation.mutate(dataToSend);
@@ -130,7 +152,6 @@ export default function DriversPage() {
       name: driver.name,
       phone: driver.phone,
       qrCode: driver.qrCode || "",
-      hasAccommodation: driver.hasAccommodation,
       joinedDate: driver.joinedDate,
       dismissDate: driver.dismissDate || "",
     });
@@ -149,7 +170,6 @@ export default function DriversPage() {
         name: formData.name,
         phone: formData.phone,
         qrCode: formData.qrCode || undefined,
-        hasAccommodation: formData.hasAccommodation,
         joinedDate: formData.joinedDate,
         dismissDate: formData.dismissDate || null,
       };
@@ -211,17 +231,6 @@ export default function DriversPage() {
                       placeholder="e.g., QR12345678"
                     />
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="hasAccommodation"
-                      checked={formData.hasAccommodation}
-                      onCheckedChange={(checked) => setFormData({ ...formData, hasAccommodation: checked })}
-                    />
-                    <Label htmlFor="hasAccommodation" className="flex items-center space-x-2">
-                      <Home className="w-4 h-4" />
-                      <span>Has Accommodation</span>
-                    </Label>
-                  </div>
                   <div>
                     <Label htmlFor="joinedDate">Joined Date</Label>
                     <Input
@@ -255,8 +264,10 @@ export default function DriversPage() {
                       <TableHead>Phone</TableHead>
                       <TableHead>QR Code</TableHead>
                       <TableHead>Accommodation</TableHead>
+                      <TableHead>Licence</TableHead>
                       <TableHead>Joined</TableHead>
                       <TableHead>Dismiss</TableHead>
+                      {showFinance && <TableHead className="text-right">Advance Due</TableHead>}
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -276,20 +287,74 @@ export default function DriversPage() {
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center space-x-2">
-                            {driver.hasAccommodation ? (
+                            {driver.accommodationName ? (
                               <>
                                 <Home className="w-4 h-4 text-green-600" />
-                                <span className="text-green-600">Yes</span>
+                                <span className="text-green-600">{driver.accommodationName}</span>
                               </>
                             ) : (
                               <span className="text-gray-500">No</span>
                             )}
+                            <span className="text-xs text-gray-500">₹{driver.dailyRent}/day</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2" title={driver.licenceNumber ?? undefined}>
+                            <ComplianceBadge status={expiryDateStatus(driver.licenceExpiry)} />
+                            {driver.licenceExpiry && (
+                              <span className="text-xs text-gray-500">{new Date(driver.licenceExpiry).toLocaleDateString()}</span>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>{driver.joinedDate ? new Date(driver.joinedDate).toLocaleDateString() : "-"}</TableCell>
                         <TableCell>{driver.dismissDate ? new Date(driver.dismissDate).toLocaleDateString() : "-"}</TableCell>
+                        {showFinance && (
+                          <TableCell className="text-right" data-testid={`text-advance-outstanding-${driver.id}`}>
+                            {outstandingByDriver.get(driver.id) ? `₹${outstandingByDriver.get(driver.id)!.toLocaleString("en-IN")}` : "—"}
+                          </TableCell>
+                        )}
                         <TableCell>
                           <div className="flex space-x-2">
+                            {showFinance && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setStatementDriver(driver)}
+                                  title="Statement"
+                                  data-testid={`button-statement-${driver.id}`}
+                                >
+                                  <BookOpen className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setAdvancesDriver(driver)}
+                                  title="Advances"
+                                  data-testid={`button-advances-${driver.id}`}
+                                >
+                                  <HandCoins className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setDepositDriver(driver)}
+                                  title={driver.dismissDate ? "Deposit & final settlement" : "Deposit"}
+                                  data-testid={`button-deposit-${driver.id}`}
+                                >
+                                  <ShieldCheck className="w-4 h-4" />
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setKycDriver(driver)}
+                              title="KYC & documents"
+                              data-testid={`button-kyc-${driver.id}`}
+                            >
+                              <IdCard className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -347,17 +412,6 @@ export default function DriversPage() {
                     placeholder="e.g., QR12345678"
                   />
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Switch
-                    id="editHasAccommodation"
-                    checked={formData.hasAccommodation}
-                    onCheckedChange={(checked) => setFormData({ ...formData, hasAccommodation: checked })}
-                  />
-                  <Label htmlFor="editHasAccommodation" className="flex items-center space-x-2">
-                    <Home className="w-4 h-4" />
-                    <span>Has Accommodation</span>
-                  </Label>
-                </div>
                 <div>
                   <Label htmlFor="editJoinedDate">Joined Date</Label>
                   <Input
@@ -426,6 +480,26 @@ export default function DriversPage() {
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
+
+          <DriverStatement
+            driver={statementDriver}
+            onOpenChange={(open) => !open && setStatementDriver(null)}
+          />
+
+          <AdvancesDialog
+            driver={advancesDriver}
+            onOpenChange={(open) => !open && setAdvancesDriver(null)}
+          />
+
+          <DepositDialog
+            driver={depositDriver}
+            onOpenChange={(open) => !open && setDepositDriver(null)}
+          />
+
+          <DriverKycDialog
+            driver={kycDriver}
+            onOpenChange={(open) => !open && setKycDriver(null)}
+          />
         </div>
       </main>
     </div>
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type ExpiringDocument } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ComplianceBadge, DOCUMENT_TYPE_LABELS, describeExpiry } from "@/components/VehicleDocumentsDialog";
+import { Car, User } from "lucide-react";
+
+const WINDOWS = [7, 30, 60, 90];
+
+function documentLabel(row: ExpiringDocument): string {
+  if (row.document === "licence") return "Driving Licence";
+  if (row.document === "badge") return "PSV Badge";
+  return DOCUMENT_TYPE_LABELS[row.document];
+}
+
+export default function ExpiringDocumentsPage() {
+  const [days, setDays] = useState(30);
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ["/api/reports/expiring-documents", days],
+    queryFn: () => api.getExpiringDocuments(days),
+  });
+
+  const expired = rows.filter((row) => row.status === "expired").length;
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Expiring Documents</h1>
+              <p className="text-sm text-gray-500">
+                Driver licences and badges, and vehicle insurance, permits and certificates, that have expired or are due for renewal.
+              </p>
+            </div>
+            <div className="w-44">
+              <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                <SelectTrigger data-testid="select-expiry-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOWS.map((window) => (
+                    <SelectItem key={window} value={String(window)}>Next {window} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {rows.length} document{rows.length === 1 ? "" : "s"}
+                {expired > 0 && <span className="text-red-600 text-base font-normal"> · {expired} expired</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading documents...</div>
+              ) : rows.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing expires in the next {days} days</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>For</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Number</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={`${row.subject}-${row.subjectId}-${row.document}`} data-testid={`row-expiring-${row.subject}-${row.subjectId}-${row.document}`}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {row.subject === "driver" ? <User className="w-4 h-4 text-gray-400" /> : <Car className="w-4 h-4 text-gray-400" />}
+                            {row.subjectName}
+                          </div>
+                        </TableCell>
+                        <TableCell>{documentLabel(row)}</TableCell>
+                        <TableCell>{row.documentNumber || "—"}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(row.expiryDate), "MMM dd, yyyy")}
+                          <div className="text-xs text-gray-500">{describeExpiry(row)}</div>
+                        </TableCell>
+                        <TableCell><ComplianceBadge status={row.status} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
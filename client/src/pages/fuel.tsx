@@ -0,0 +1,652 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, startOfWeek } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import {
+  api,
+  type FuelEntry,
+  type FuelEntryInput,
+  type FuelPaymentMethod,
+  type FuelType,
+  type Vehicle,
+  type VehicleFuelReport,
+} from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2, AlertTriangle } from "lucide-react";
+
+const inr = (n: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n || 0);
+const today = () => format(new Date(), "yyyy-MM-dd");
+const formatDate = (date: string) => format(new Date(date), "MMM dd, yyyy");
+
+const WINDOWS = [4, 8, 12, 26];
+
+const FUEL_TYPE_LABELS: Record<FuelType, string> = {
+  cng: "CNG",
+  petrol: "Petrol",
+  diesel: "Diesel",
+  ev: "EV Charge",
+};
+
+const FUEL_UNITS: Record<FuelType, string> = {
+  cng: "kg",
+  petrol: "L",
+  diesel: "L",
+  ev: "kWh",
+};
+
+const PAYMENT_METHOD_LABELS: Record<FuelPaymentMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  fuel_card: "Fuel Card",
+};
+
+interface FuelForm {
+  vehicleId: string;
+  date: string;
+  shift: "morning" | "evening";
+  fuelType: FuelType;
+  quantity: string;
+  pricePerUnit: string;
+  amount: string;
+  odometer: string;
+  fullTank: boolean;
+  paymentMethod: FuelPaymentMethod;
+  station: string;
+}
+
+const emptyForm = (vehicleId = "", fuelType: FuelType = "cng"): FuelForm => ({
+  vehicleId,
+  date: today(),
+  shift: new Date().getHours() < 14 ? "morning" : "evening",
+  fuelType,
+  quantity: "",
+  pricePerUnit: "",
+  amount: "",
+  odometer: "",
+  fullTank: true,
+  paymentMethod: "cash",
+  station: "",
+});
+
+function describeDeviation(deviation: number | null): string {
+  if (deviation === null) return "—";
+  const percent = Math.round(deviation * 100);
+  return percent >= 0 ? `+${percent}%` : `${percent}%`;
+}
+
+function VehicleFuelDetail({ report }: { report: VehicleFuelReport }) {
+  const [outliersOnly, setOutliersOnly] = useState(report.outliers > 0);
+  const unit = report.fuelType ? FUEL_UNITS[report.fuelType] : "unit";
+
+  useEffect(() => {
+    setOutliersOnly(report.outliers > 0);
+  }, [report.vehicleId]);
+
+  const weekData = report.weeks.map((week) => ({
+    week: format(new Date(week.weekStart), "MMM dd"),
+    costPerTrip: week.costPerTrip,
+    spend: week.spend,
+  }));
+  const efficiencyData = report.efficiency
+    .filter((point) => point.fuelType === report.fuelType)
+    .map((point) => ({ date: format(new Date(point.date), "MMM dd"), kmPerUnit: point.kmPerUnit, costPerKm: point.costPerKm }));
+  const shifts = outliersOnly ? report.shifts.filter((shift) => shift.outlier) : report.shifts;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Fuel Cost per Trip — {report.vehicleNumber}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {weekData.length === 0 ? (
+              <p className="text-sm text-gray-500">No trips in this period</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={weekData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" fontSize={12} />
+                  <YAxis fontSize={12} />
+                  <Tooltip formatter={(value: number, name: string) => [inr(value), name === "costPerTrip" ? "Per trip" : "Spend"]} />
+                  <Line type="monotone" dataKey="costPerTrip" stroke="#2563eb" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Efficiency (km per {unit})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {efficiencyData.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Needs two full-tank fills with odometer readings in the period
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={efficiencyData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" fontSize={12} />
+                  <YAxis fontSize={12} />
+                  <Tooltip formatter={(value: number, name: string) => name === "kmPerUnit" ? [`${value} km/${unit}`, "Efficiency"] : [`₹${value}/km`, "Cost"]} />
+                  <Line type="monotone" dataKey="kmPerUnit" stroke="#059669" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base">Shifts</CardTitle>
+            <p className="text-sm text-gray-500">
+              {report.medianShiftSpend !== null
+                ? `Flagged when fuel spend is more than 50% off the ${inr(report.medianShiftSpend)} median shift`
+                : "Too few fuelled shifts in this period to set a norm"}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="outliersOnly" checked={outliersOnly} onCheckedChange={setOutliersOnly} data-testid="switch-outliers-only" />
+            <Label htmlFor="outliersOnly">Outliers only</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-gray-500">{outliersOnly ? "No outlier shifts" : "No shifts in this period"}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Driver</TableHead>
+                  <TableHead className="text-right">Trips</TableHead>
+                  <TableHead className="text-right">Fuel Spend</TableHead>
+                  <TableHead className="text-right">vs Norm</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shifts.map((shift) => (
+                  <TableRow
+                    key={`${shift.date}-${shift.shift}`}
+                    className={shift.outlier ? "bg-amber-50" : undefined}
+                    data-testid={`row-fuel-shift-${shift.date}-${shift.shift}`}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(shift.date)} <span className="text-gray-500 capitalize">{shift.shift}</span>
+                    </TableCell>
+                    <TableCell>
+                      {shift.driverName ?? <span className="text-gray-400">Not logged</span>}
+                      {shift.substitute && <span className="text-xs text-gray-500"> (substitute)</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{shift.trips}</TableCell>
+                    <TableCell className="text-right">
+                      {inr(shift.spend)}
+                      {shift.source === "trip_log" && shift.spend > 0 && <div className="text-xs text-gray-500">from trip log</div>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {shift.outlier ? (
+                        <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {describeDeviation(shift.deviation)}
+                        </Badge>
+                      ) : (
+                        describeDeviation(shift.deviation)
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function FuelPage() {
+  const [weeks, setWeeks] = useState(8);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<FuelForm>(() => emptyForm());
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = !!user && canAccessApi(user.role, "POST", "/api/fuel-entries");
+
+  const to = today();
+  const from = format(addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), -7 * (weeks - 1)), "yyyy-MM-dd");
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ["/api/reports/fuel", from, to],
+    queryFn: () => api.getFuelReport(from, to),
+  });
+
+  const { data: entries = [] } = useQuery({
+    queryKey: ["/api/fuel-entries", from, to],
+    queryFn: () => api.getFuelEntries({ from, to }),
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const selected = reports.find((report) => report.vehicleId === selectedVehicleId) ?? reports[0];
+  const vehicleEntries = selected ? entries.filter((entry) => entry.vehicleId === selected.vehicleId) : [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/fuel-entries"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports/fuel"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number | null; data: FuelEntryInput }) =>
+      id ? api.updateFuelEntry(id, data) : api.createFuelEntry(data),
+    onSuccess: (entry, { id }) => {
+      invalidate();
+      setSelectedVehicleId(entry.vehicleId);
+      setIsFormOpen(false);
+      setEditingId(null);
+      toast({ title: "Success", description: id ? "Fuel entry updated" : "Fuel entry added" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteFuelEntry,
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Fuel entry deleted" });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    // Start from the selected vehicle and the fuel it last took
+    const lastEntry = vehicleEntries[0];
+    setEditingId(null);
+    setFormData(emptyForm(selected ? String(selected.vehicleId) : "", lastEntry?.fuelType ?? selected?.fuelType ?? "cng"));
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (entry: FuelEntry) => {
+    setEditingId(entry.id);
+    setFormData({
+      vehicleId: String(entry.vehicleId),
+      date: entry.date,
+      shift: entry.shift,
+      fuelType: entry.fuelType,
+      quantity: String(Number(entry.quantity)),
+      pricePerUnit: String(Number(entry.pricePerUnit)),
+      amount: String(entry.amount),
+      odometer: entry.odometer !== null ? String(entry.odometer) : "",
+      fullTank: entry.fullTank,
+      paymentMethod: entry.paymentMethod,
+      station: entry.station || "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const quantity = parseFloat(formData.quantity);
+  const pricePerUnit = parseFloat(formData.pricePerUnit);
+  const computedAmount = quantity > 0 && pricePerUnit > 0 ? Math.round(quantity * pricePerUnit) : null;
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      id: editingId,
+      data: {
+        vehicleId: parseInt(formData.vehicleId),
+        date: formData.date,
+        shift: formData.shift,
+        fuelType: formData.fuelType,
+        quantity,
+        pricePerUnit,
+        amount: parseInt(formData.amount) || undefined,
+        odometer: formData.odometer ? parseInt(formData.odometer) : null,
+        fullTank: formData.fullTank,
+        paymentMethod: formData.paymentMethod,
+        station: formData.station || undefined,
+      },
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Fuel</h1>
+              <p className="text-sm text-gray-500">
+                Fuel bought per vehicle and shift, with efficiency between full-tank fills and fuel cost per trip by week.
+                Shifts without fuel entries use the fuel figure on their trip log.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="w-40">
+                <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+                  <SelectTrigger data-testid="select-fuel-window">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WINDOWS.map((window) => (
+                      <SelectItem key={window} value={String(window)}>Last {window} weeks</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {canManage && (
+                <Button onClick={openCreate} data-testid="button-add-fuel-entry">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Fuel
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Vehicles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading fuel report...</div>
+              ) : reports.length === 0 ? (
+                <p className="text-sm text-gray-500">No fuel or trips in this period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead>Fuel</TableHead>
+                      <TableHead className="text-right">Spend</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Trips</TableHead>
+                      <TableHead className="text-right">Cost / Trip</TableHead>
+                      <TableHead className="text-right">Efficiency</TableHead>
+                      <TableHead className="text-right">Outliers</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.map((report) => {
+                      const unit = report.fuelType ? FUEL_UNITS[report.fuelType] : "";
+                      return (
+                        <TableRow
+                          key={report.vehicleId}
+                          className={`cursor-pointer ${report.vehicleId === selected?.vehicleId ? "bg-blue-50" : ""}`}
+                          onClick={() => setSelectedVehicleId(report.vehicleId)}
+                          data-testid={`row-fuel-vehicle-${report.vehicleId}`}
+                        >
+                          <TableCell className="font-medium">{report.vehicleNumber}</TableCell>
+                          <TableCell>{report.fuelType ? FUEL_TYPE_LABELS[report.fuelType] : "—"}</TableCell>
+                          <TableCell className="text-right">{inr(report.spend)}</TableCell>
+                          <TableCell className="text-right">{report.quantity > 0 ? `${report.quantity} ${unit}` : "—"}</TableCell>
+                          <TableCell className="text-right">{report.trips}</TableCell>
+                          <TableCell className="text-right">{report.costPerTrip !== null ? inr(report.costPerTrip) : "—"}</TableCell>
+                          <TableCell className="text-right">{report.kmPerUnit !== null ? `${report.kmPerUnit} km/${unit}` : "—"}</TableCell>
+                          <TableCell className="text-right">
+                            {report.outliers > 0 ? (
+                              <Badge variant="secondary" className="bg-amber-100 text-amber-800">{report.outliers}</Badge>
+                            ) : (
+                              "0"
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {selected && <VehicleFuelDetail report={selected} />}
+
+          {selected && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Fuel Entries — {selected.vehicleNumber}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {vehicleEntries.length === 0 ? (
+                  <p className="text-sm text-gray-500">No fuel entries in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Shift</TableHead>
+                        <TableHead>Fuel</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Odometer</TableHead>
+                        <TableHead>Paid By</TableHead>
+                        <TableHead>Station</TableHead>
+                        {canManage && <TableHead>Actions</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {vehicleEntries.map((entry) => (
+                        <TableRow key={entry.id} data-testid={`row-fuel-entry-${entry.id}`}>
+                          <TableCell className="whitespace-nowrap">
+                            {formatDate(entry.date)} <span className="text-gray-500 capitalize">{entry.shift}</span>
+                          </TableCell>
+                          <TableCell>
+                            {FUEL_TYPE_LABELS[entry.fuelType]}
+                            {!entry.fullTank && <div className="text-xs text-gray-500">top-up</div>}
+                          </TableCell>
+                          <TableCell className="text-right">{Number(entry.quantity)} {FUEL_UNITS[entry.fuelType]}</TableCell>
+                          <TableCell className="text-right">₹{Number(entry.pricePerUnit)}</TableCell>
+                          <TableCell className="text-right">{inr(entry.amount)}</TableCell>
+                          <TableCell className="text-right">{entry.odometer !== null ? `${entry.odometer.toLocaleString()} km` : "—"}</TableCell>
+                          <TableCell>{PAYMENT_METHOD_LABELS[entry.paymentMethod]}</TableCell>
+                          <TableCell>{entry.station || "—"}</TableCell>
+                          {canManage && (
+                            <TableCell>
+                              <div className="flex space-x-2">
+                                <Button variant="outline" size="sm" onClick={() => openEdit(entry)} data-testid={`button-edit-fuel-entry-${entry.id}`}>
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => deleteMutation.mutate(entry.id)}
+                                  disabled={deleteMutation.isPending}
+                                  data-testid={`button-delete-fuel-entry-${entry.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Create / Edit Dialog */}
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>{editingId ? "Edit Fuel Entry" : "Add Fuel Entry"}</DialogTitle>
+                <DialogDescription>
+                  Note the odometer and whether the tank was filled up; efficiency is measured between full-tank fills.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label>Vehicle</Label>
+                    <Select value={formData.vehicleId} onValueChange={(value) => setFormData({ ...formData, vehicleId: value })}>
+                      <SelectTrigger data-testid="select-fuel-vehicle">
+                        <SelectValue placeholder="Select vehicle" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {vehicles.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={String(vehicle.id)}>{vehicle.vehicleNumber}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="fuelDate">Date</Label>
+                    <Input
+                      id="fuelDate"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Shift</Label>
+                    <Select value={formData.shift} onValueChange={(value) => setFormData({ ...formData, shift: value as "morning" | "evening" })}>
+                      <SelectTrigger data-testid="select-fuel-shift">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="morning">Morning</SelectItem>
+                        <SelectItem value="evening">Evening</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <Label>Fuel</Label>
+                    <Select value={formData.fuelType} onValueChange={(value) => setFormData({ ...formData, fuelType: value as FuelType })}>
+                      <SelectTrigger data-testid="select-fuel-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(FUEL_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="fuelQuantity">Quantity ({FUEL_UNITS[formData.fuelType]})</Label>
+                    <Input
+                      id="fuelQuantity"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={formData.quantity}
+                      onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                      data-testid="input-fuel-quantity"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="fuelPrice">Rate (₹/{FUEL_UNITS[formData.fuelType]})</Label>
+                    <Input
+                      id="fuelPrice"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={formData.pricePerUnit}
+                      onChange={(e) => setFormData({ ...formData, pricePerUnit: e.target.value })}
+                      data-testid="input-fuel-price"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="fuelAmount">Amount (₹)</Label>
+                    <Input
+                      id="fuelAmount"
+                      type="number"
+                      min={0}
+                      value={formData.amount}
+                      placeholder={computedAmount !== null ? String(computedAmount) : ""}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      data-testid="input-fuel-amount"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="fuelOdometer">Odometer (km)</Label>
+                    <Input
+                      id="fuelOdometer"
+                      type="number"
+                      min={0}
+                      value={formData.odometer}
+                      onChange={(e) => setFormData({ ...formData, odometer: e.target.value })}
+                      data-testid="input-fuel-odometer"
+                    />
+                  </div>
+                  <div>
+                    <Label>Paid By</Label>
+                    <Select value={formData.paymentMethod} onValueChange={(value) => setFormData({ ...formData, paymentMethod: value as FuelPaymentMethod })}>
+                      <SelectTrigger data-testid="select-fuel-payment">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="fuelStation">Station</Label>
+                    <Input
+                      id="fuelStation"
+                      value={formData.station}
+                      onChange={(e) => setFormData({ ...formData, station: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="fuelFullTank"
+                    checked={formData.fullTank}
+                    onCheckedChange={(checked) => setFormData({ ...formData, fullTank: checked === true })}
+                    data-testid="checkbox-fuel-full-tank"
+                  />
+                  <Label htmlFor="fuelFullTank">Filled the tank (or charged fully)</Label>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setIsFormOpen(false)}>Cancel</Button>
+                  <Button
+                    onClick={handleSave}
+                    disabled={saveMutation.isPending || !formData.vehicleId || !formData.date || computedAmount === null}
+                    data-testid="button-save-fuel-entry"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,84 +1,274 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import Papa from "papaparse";
+import { api } from "@/lib/api";
+import type { Company, SpreadsheetSheet, MatchSource, NameMatch, TripImportAction, TripImportPlan, TripImportResult, TripImportRow } from "@/lib/api";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload, CheckCircle, Loader2, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import NameMatchPicker from "@/components/NameMatchPicker";
+import ImportJobHistory from "@/components/ImportJobHistory";
+
+const ACTION_LABELS: Record<TripImportAction, string> = {
+  new_log: "New log",
+  duplicate: "Duplicate",
+  leave: "Leave",
+  skipped_leave: "Leave on record",
+  error: "Error",
+};
+
+const ACTION_STYLES: Record<TripImportAction, string> = {
+  new_log: "bg-green-100 text-green-800",
+  duplicate: "bg-amber-100 text-amber-800",
+  leave: "bg-blue-100 text-blue-800",
+  skipped_leave: "bg-gray-100 text-gray-700",
+  error: "bg-red-100 text-red-800",
+};
+
+const CHANGE_LABELS: Record<TripImportRow["changes"][number]["field"], string> = {
+  vehicle: "Vehicle",
+  shift: "Shift",
+  rent: "Rent",
+  amountCollected: "Collection",
+  fuel: "Fuel",
+};
+
+const MATCH_LABELS: Record<MatchSource, string> = {
+  name: "same name",
+  alias: "remembered alias",
+  phone: "phone number",
+  qrCode: "QR code",
+  confirmed: "chosen for this import",
+};
+
+// Names and numbers in the file tied to records for this import only
+interface ImportMatches {
+  drivers: Record<string, number>;
+  vehicles: Record<string, number>;
+}
+
+const NO_MATCHES: ImportMatches = { drivers: {}, vehicles: {} };
+
+function MatchNote({ match, onUndo }: { match: NameMatch | null; onUndo: () => void }) {
+  if (!match || match.by === "name") return null;
+  return (
+    <div className="text-xs text-gray-500 font-sans">
+      → {match.name} · {MATCH_LABELS[match.by]}
+      {match.by === "confirmed" && (
+        <button type="button" className="ml-1 underline" onClick={onUndo}>undo</button>
+      )}
+    </div>
+  );
+}
+
+function rowDetail(row: TripImportRow): string {
+  if (row.action === "leave") return row.leaveType === "no_vehicle" ? "No vehicle" : "Leave";
+  if (!row.shift) return "";
+  return `${row.shift === "evening" ? "Evening" : "Morning"} · Rent ₹${row.rent} · Collection ₹${row.amountCollected} · Fuel ₹${row.fuel}`;
+}
 
 export default function ImportPage() {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [result, setResult] = useState<any>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileName, setFileName] = useState<string>("");
+  const [csvData, setCsvData] = useState<Array<Record<string, unknown>> | null>(null);
+  const [plan, setPlan] = useState<TripImportPlan | null>(null);
+  const [driverPhones, setDriverPhones] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<TripImportResult | null>(null);
+  const [defaultCompanyId, setDefaultCompanyId] = useState<string>("");
+  const [matches, setMatches] = useState<ImportMatches>(NO_MATCHES);
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]); // an Excel file's sheets; empty for CSV
+  const [sheetName, setSheetName] = useState<string>("");
   const { toast } = useToast();
 
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+  const { data: driverAliases = [] } = useQuery({
+    queryKey: ["/api/import-aliases/drivers"],
+    queryFn: () => api.getDriverAliases(),
+  });
+  const { data: vehicleAliases = [] } = useQuery({
+    queryKey: ["/api/import-aliases/vehicles"],
+    queryFn: () => api.getVehicleAliases(),
+  });
+
+  const preview = async (rows: Array<Record<string, unknown>>, companyId: string, confirmed: ImportMatches) => {
+    setIsProcessing(true);
+    try {
+      setPlan(await api.previewTripImport({
+        csvData: rows,
+        defaultCompanyId: companyId ? Number(companyId) : undefined,
+        driverMatches: confirmed.drivers,
+        vehicleMatches: confirmed.vehicles,
+      }));
+    } catch (error: any) {
+      setPlan(null);
+      toast({
+        title: "Preview Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset file input so the same file can be chosen again
+    event.target.value = '';
     if (!file) return;
 
-    if (!file.name.endsWith('.csv')) {
+    const isWorkbook = file.name.toLowerCase().endsWith('.xlsx');
+    if (!isWorkbook && !file.name.toLowerCase().endsWith('.csv')) {
       toast({
         title: "Invalid File",
-        description: "Please upload a CSV file",
+        description: "Please upload a CSV or Excel (.xlsx) file",
         variant: "destructive",
       });
       return;
     }
 
-    setIsProcessing(true);
     setResult(null);
+    setPlan(null);
+    setDriverPhones({});
+    setMatches(NO_MATCHES);
 
-    try {
-      // Read file
-      const text = await file.text();
-      
+    let rows: Array<Record<string, unknown>>;
+    if (isWorkbook) {
+      try {
+        setIsProcessing(true);
+        const workbook = await api.readSpreadsheet("trip-logs", file);
+        // Start on the first sheet that looks like a trip log
+        const sheet = workbook.find((candidate) => {
+          const headers = candidate.headers.map((header) => header.toLowerCase());
+          return headers.includes("date") && headers.includes("driver");
+        }) ?? workbook[0];
+        setSheets(workbook);
+        setSheetName(sheet.name);
+        rows = sheet.rows;
+      } catch (error: any) {
+        setIsProcessing(false);
+        toast({
+          title: "Could Not Read Workbook",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else {
       // Parse CSV using Papaparse (handles quoted fields, commas, etc.)
-      const parseResult = Papa.parse(text, {
+      const parseResult = Papa.parse<Record<string, unknown>>(await file.text(), {
         header: true,
         skipEmptyLines: true,
-        trimHeaders: true,
+        transformHeader: (header) => header.trim(),
         transform: (value) => value.trim(),
       });
-
       if (parseResult.errors.length > 0) {
         console.error("CSV parsing errors:", parseResult.errors);
         toast({
           title: "CSV Parsing Warning",
-          description: `Found ${parseResult.errors.length} parsing issues. The import will continue.`,
+          description: `Found ${parseResult.errors.length} parsing issues. Check the preview before importing.`,
           variant: "destructive",
         });
       }
+      setSheets([]);
+      rows = parseResult.data;
+    }
+
+    setFileName(file.name);
+    setCsvData(rows);
+    await preview(rows, defaultCompanyId, NO_MATCHES);
+  };
 
-      const csvData = parseResult.data;
+  const handleSheetChange = (name: string) => {
+    const sheet = sheets.find((candidate) => candidate.name === name);
+    if (!sheet) return;
+    setSheetName(name);
+    setCsvData(sheet.rows);
+    preview(sheet.rows, defaultCompanyId, matches);
+  };
 
-      // Send to API
-      const response = await fetch('/api/import/trip-logs', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ csvData }),
-      });
+  const handleCompanyChange = (companyId: string) => {
+    setDefaultCompanyId(companyId);
+    // Which rows can create their vehicle depends on the company
+    if (csvData) preview(csvData, companyId, matches);
+  };
+
+  const applyMatch = (kind: keyof ImportMatches, name: string, id: number | null) => {
+    const { [name]: _previous, ...rest } = matches[kind];
+    const next = { ...matches, [kind]: id === null ? rest : { ...rest, [name]: id } };
+    setMatches(next);
+    if (csvData) preview(csvData, defaultCompanyId, next);
+  };
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        // Check if this is a duplicate rejection
-        if (data.rejected && data.duplicates) {
-          setResult({
-            rejected: true,
-            message: data.message,
-            duplicates: data.duplicates,
-          });
-        } else {
-          throw new Error(data.message || 'Import failed');
-        }
-      } else {
-        setResult(data);
+  const refreshAliases = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/import-aliases/drivers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/import-aliases/vehicles"] });
+    if (csvData) preview(csvData, defaultCompanyId, matches);
+  };
+
+  const rememberMatch = async (kind: keyof ImportMatches, name: string, id: number) => {
+    try {
+      if (kind === "drivers") await api.createDriverAlias(id, name);
+      else await api.createVehicleAlias(id, name);
+      toast({ title: "Alias saved", description: `"${name}" will be matched automatically in future imports` });
+      refreshAliases();
+    } catch (error: any) {
+      toast({ title: "Alias not saved", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const deleteAlias = async (kind: keyof ImportMatches, id: number) => {
+    try {
+      if (kind === "drivers") await api.deleteDriverAlias(id);
+      else await api.deleteVehicleAlias(id);
+      refreshAliases();
+    } catch (error: any) {
+      toast({ title: "Alias not deleted", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csvData || !plan) return;
+    setIsImporting(true);
+    try {
+      const response = await api.commitTripImport({
+        csvData,
+        defaultCompanyId: defaultCompanyId ? Number(defaultCompanyId) : undefined,
+        driverMatches: matches.drivers,
+        vehicleMatches: matches.vehicles,
+        fingerprint: plan.fingerprint,
+        driverPhones,
+        fileName,
+        sheetName: sheets.length > 0 ? sheetName : undefined,
+      });
+      if ("plan" in response) {
+        setPlan(response.plan);
         toast({
-          title: "Import Successful",
-          description: `Imported ${data.success} records successfully`,
+          title: "Preview Out of Date",
+          description: `${response.message}. The preview has been refreshed.`,
+          variant: "destructive",
         });
+        return;
       }
+      setResult(response);
+      queryClient.invalidateQueries({ queryKey: ["/api/import/trip-logs/jobs"] });
+      setPlan(null);
+      setCsvData(null);
+      toast({
+        title: "Import Successful",
+        description: `Created ${response.details.rentLogsCreated} trip logs and recorded ${response.details.leavesRecorded} leave days`,
+      });
     } catch (error: any) {
       toast({
         title: "Import Failed",
@@ -86,27 +276,64 @@ export default function ImportPage() {
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
-      // Reset file input
-      event.target.value = '';
+      setIsImporting(false);
     }
   };
 
+  const clearPreview = () => {
+    setPlan(null);
+    setCsvData(null);
+    setDriverPhones({});
+    setMatches(NO_MATCHES);
+    setSheets([]);
+  };
+
+  const writeCount = plan ? plan.counts.new_log + plan.counts.leave : 0;
+
+  // Suggestions for a name the file repeats are offered on its first row only
+  const pickerRows = new Set<string>();
+  const seenNames = new Set<string>();
+  for (const row of plan?.rows ?? []) {
+    for (const [kind, name, candidates] of [
+      ["driver", row.driverName, row.driverCandidates],
+      ["vehicle", row.vehicleNumber, row.vehicleCandidates],
+    ] as const) {
+      const key = `${kind}:${name?.toUpperCase()}`;
+      if (name && candidates.length > 0 && !seenNames.has(key)) {
+        seenNames.add(key);
+        pickerRows.add(`${kind}:${row.row}`);
+      }
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Import Trip Logs</h1>
-        <p className="text-gray-600 mt-2">Upload a CSV file to bulk import trip log data</p>
+        <p className="text-gray-600 mt-2">Upload a CSV or Excel file to bulk import trip log data</p>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>CSV File Upload</CardTitle>
+          <CardTitle>File Upload</CardTitle>
           <CardDescription>
-            Upload a CSV file with columns: Date, Vehicle, Driver, Shift, Rent, Collection, Fuel
+            Upload a CSV or Excel (.xlsx) file with columns: Date, Vehicle, Driver, Shift, Rent, Collection, Fuel, Company (optional)
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <Label htmlFor="import-company">Company for new vehicles</Label>
+            <Select value={defaultCompanyId} onValueChange={handleCompanyChange}>
+              <SelectTrigger id="import-company" data-testid="select-import-company">
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent>
+                {companies.filter(c => c.active).map((company) => (
+                  <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
             <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />
             <label htmlFor="csv-upload" className="cursor-pointer">
@@ -124,101 +351,246 @@ export default function ImportPage() {
                 ) : (
                   <>
                     <Upload className="w-4 h-4 mr-2" />
-                    Choose CSV File
+                    {plan ? "Choose Another File" : "Choose File"}
                   </>
                 )}
               </Button>
               <input
                 id="csv-upload"
                 type="file"
-                accept=".csv"
+                accept=".csv,.xlsx"
                 onChange={handleFileUpload}
                 className="hidden"
                 disabled={isProcessing}
               />
             </label>
             <p className="text-sm text-gray-500 mt-2">
-              Supported format: CSV (.csv)
+              Supported formats: CSV (.csv) and Excel (.xlsx)
             </p>
           </div>
 
-          {result && (
+          {plan && (
             <div className="space-y-4 mt-6">
-              {result.rejected ? (
-                <Alert className="border-red-500 bg-red-50">
-                  <AlertCircle className="h-4 w-4 text-red-500" />
-                  <AlertDescription>
-                    <div className="space-y-3">
-                      <p className="font-semibold text-red-700 text-lg">File Rejected - Duplicate Entries Found</p>
-                      <p className="text-red-600">{result.message}</p>
-                      <div className="bg-white border border-red-300 rounded p-3 mt-3">
-                        <p className="font-semibold text-red-700 mb-2">Duplicate Drivers Found:</p>
-                        <ul className="list-disc list-inside space-y-1 text-sm max-h-48 overflow-y-auto">
-                          {result.duplicates?.map((dup: string, index: number) => (
-                            <li key={index} className="text-red-600 font-mono text-xs">{dup}</li>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-3">
+                    <p className="font-semibold">Preview of {fileName}</p>
+                    {sheets.length > 1 && (
+                      <Select value={sheetName} onValueChange={handleSheetChange}>
+                        <SelectTrigger className="h-8 w-48" data-testid="select-import-sheet">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sheets.map((sheet) => (
+                            <SelectItem key={sheet.name} value={sheet.name}>{sheet.name} ({sheet.rows.length} rows)</SelectItem>
                           ))}
-                        </ul>
-                      </div>
-                      <p className="text-sm text-red-700 mt-3">
-                        <strong>Action required:</strong> Please remove the duplicate entries from your CSV file and try importing again. 
-                        Each driver can only have one entry per day.
-                      </p>
-                    </div>
-                  </AlertDescription>
-                </Alert>
-              ) : (
-                <>
-                  <Alert className={result.errors?.length > 0 ? "border-yellow-500" : "border-green-500"}>
-                    {result.errors?.length > 0 ? (
-                      <AlertCircle className="h-4 w-4 text-yellow-500" />
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {(Object.keys(ACTION_LABELS) as TripImportAction[]).map((action) => (
+                      <Badge key={action} variant="secondary" className={ACTION_STYLES[action]} data-testid={`badge-count-${action}`}>
+                        {ACTION_LABELS[action]}: {plan.counts[action]}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={clearPreview} disabled={isImporting}>Cancel</Button>
+                  <Button onClick={handleImport} disabled={writeCount === 0 || isImporting || isProcessing} data-testid="button-commit-import">
+                    {isImporting ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Importing...
+                      </>
                     ) : (
-                      <CheckCircle className="h-4 w-4 text-green-500" />
+                      `Import ${writeCount} rows`
                     )}
-                    <AlertDescription>
+                  </Button>
+                </div>
+              </div>
+
+              {(plan.counts.duplicate > 0 || plan.counts.error > 0) && (
+                <p className="text-sm text-gray-600">
+                  Duplicates and errors are left out of the import; fix them in the file and upload it again to bring them in.
+                </p>
+              )}
+
+              {(plan.newVehicles.length > 0 || plan.newDrivers.length > 0) && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  {plan.newVehicles.length > 0 && (
+                    <div className="border rounded-lg p-3">
+                      <p className="font-semibold text-sm mb-2">New vehicles ({plan.newVehicles.length})</p>
+                      <ul className="text-sm space-y-1">
+                        {plan.newVehicles.map((vehicle) => (
+                          <li key={vehicle.vehicleNumber}>
+                            <span className="font-mono">{vehicle.vehicleNumber}</span>
+                            <span className="text-gray-500"> · leased from {vehicle.companyName}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {plan.newDrivers.length > 0 && (
+                    <div className="border rounded-lg p-3">
+                      <p className="font-semibold text-sm mb-2">New drivers ({plan.newDrivers.length})</p>
                       <div className="space-y-2">
-                        <p className="font-semibold">Import Results:</p>
-                        <ul className="list-disc list-inside space-y-1 text-sm">
-                          <li>Successfully imported: <span className="font-bold text-green-600">{result.success}</span> records</li>
-                          <li>Skipped: <span className="font-bold text-gray-600">{result.skipped}</span> records (No Vehicle/Leave entries or existing entries)</li>
-                          {result.details?.tripsCreated > 0 && (
-                            <li>Trips created: <span className="font-bold">{result.details.tripsCreated}</span></li>
+                        {plan.newDrivers.map((driver) => (
+                          <div key={driver.name} className="flex items-center gap-2">
+                            <Label className="text-sm font-normal w-40 truncate">{driver.name}</Label>
+                            <Input
+                              className="h-8"
+                              placeholder="Phone (optional)"
+                              value={driverPhones[driver.name] ?? ""}
+                              onChange={(e) => setDriverPhones({ ...driverPhones, [driver.name]: e.target.value })}
+                              data-testid={`input-new-driver-phone-${driver.name}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">Drivers without a phone are created with a placeholder number.</p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="border rounded-lg max-h-[32rem] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Driver</TableHead>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.rows.map((row) => (
+                      <TableRow key={row.row} data-testid={`row-import-${row.row}`}>
+                        <TableCell className="text-gray-500">{row.row}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={ACTION_STYLES[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                        </TableCell>
+                        <TableCell>{row.date ?? ""}</TableCell>
+                        <TableCell>
+                          {row.driverName}
+                          {row.newDriver && <Badge variant="outline" className="ml-2 text-xs">New</Badge>}
+                          <MatchNote match={row.driverMatch} onUndo={() => applyMatch("drivers", row.driverName!, null)} />
+                          {!row.driverMatch && pickerRows.has(`driver:${row.row}`) && (
+                            <NameMatchPicker
+                              name={row.driverName!}
+                              candidates={row.driverCandidates}
+                              disabled={isProcessing || isImporting}
+                              onUse={(id) => applyMatch("drivers", row.driverName!, id)}
+                              onRemember={(id) => rememberMatch("drivers", row.driverName!, id)}
+                            />
                           )}
-                          {result.details?.rentLogsCreated > 0 && (
-                            <li>Rent logs created: <span className="font-bold">{result.details.rentLogsCreated}</span></li>
+                        </TableCell>
+                        <TableCell className="font-mono">
+                          {row.vehicleNumber}
+                          {row.newVehicle && <Badge variant="outline" className="ml-2 text-xs font-sans">New</Badge>}
+                          <MatchNote match={row.vehicleMatch} onUndo={() => applyMatch("vehicles", row.vehicleNumber!, null)} />
+                          {!row.vehicleMatch && pickerRows.has(`vehicle:${row.row}`) && (
+                            <div className="font-sans">
+                              <NameMatchPicker
+                                name={row.vehicleNumber!}
+                                candidates={row.vehicleCandidates}
+                                disabled={isProcessing || isImporting}
+                                onUse={(id) => applyMatch("vehicles", row.vehicleNumber!, id)}
+                                onRemember={(id) => rememberMatch("vehicles", row.vehicleNumber!, id)}
+                              />
+                            </div>
                           )}
-                          {result.details?.vehiclesCreated?.length > 0 && (
-                            <li>New vehicles created: <span className="font-bold">{result.details.vehiclesCreated.join(', ')}</span></li>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{rowDetail(row)}</div>
+                          {row.message && (
+                            <div className={row.action === "error" ? "text-red-600" : "text-gray-500"}>{row.message}</div>
                           )}
-                          {result.details?.driversCreated?.length > 0 && (
-                            <li>New drivers created: <span className="font-bold">{result.details.driversCreated.join(', ')}</span></li>
+                          {row.changes.length > 0 && (
+                            <ul className="text-xs text-amber-800 mt-1 space-y-0.5">
+                              {row.changes.map((change) => (
+                                <li key={change.field}>
+                                  {CHANGE_LABELS[change.field]}: {change.existing} on record → {change.incoming} in file
+                                </li>
+                              ))}
+                            </ul>
                           )}
-                        </ul>
-                      </div>
-                    </AlertDescription>
-                  </Alert>
-
-                  {result.errors?.length > 0 && (
-                    <Alert className="border-red-500">
-                      <AlertCircle className="h-4 w-4 text-red-500" />
-                      <AlertDescription>
-                        <div className="space-y-2">
-                          <p className="font-semibold text-red-700">Errors ({result.errors.length}):</p>
-                          <ul className="list-disc list-inside space-y-1 text-sm max-h-48 overflow-y-auto">
-                            {result.errors.map((error: string, index: number) => (
-                              <li key={index} className="text-red-600">{error}</li>
-                            ))}
-                          </ul>
-                        </div>
-                      </AlertDescription>
-                    </Alert>
-                  )}
-                </>
-              )}
+                          {row.action === "duplicate" && row.changes.length === 0 && (
+                            <div className="text-xs text-gray-500 mt-1">Same as the log on record</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <Alert className="border-green-500 mt-6">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              <AlertDescription>
+                <div className="space-y-2">
+                  <p className="font-semibold">Import Results:</p>
+                  <ul className="list-disc list-inside space-y-1 text-sm">
+                    <li>Trip logs created: <span className="font-bold text-green-600">{result.details.rentLogsCreated}</span></li>
+                    <li>Leave days recorded: <span className="font-bold">{result.details.leavesRecorded}</span></li>
+                    {result.counts.duplicate + result.counts.skipped_leave + result.counts.error > 0 && (
+                      <li>
+                        Left out: <span className="font-bold text-gray-600">{result.counts.duplicate + result.counts.skipped_leave + result.counts.error}</span> rows
+                        (duplicates, leave already on record and errors)
+                      </li>
+                    )}
+                    {result.details.vehiclesCreated.length > 0 && (
+                      <li>New vehicles created: <span className="font-bold">{result.details.vehiclesCreated.join(', ')}</span></li>
+                    )}
+                    {result.details.driversCreated.length > 0 && (
+                      <li>New drivers created: <span className="font-bold">{result.details.driversCreated.join(', ')}</span></li>
+                    )}
+                  </ul>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {(driverAliases.length > 0 || vehicleAliases.length > 0) && (
+            <div className="border rounded-lg p-4 mt-6">
+              <h4 className="font-semibold mb-1">Remembered names</h4>
+              <p className="text-sm text-gray-500 mb-3">Names and numbers that trip log and statement imports read as these drivers and vehicles.</p>
+              <div className="grid gap-4 md:grid-cols-2">
+                {([
+                  ["drivers", driverAliases.map((a) => ({ id: a.id, alias: a.alias, target: a.driverName }))],
+                  ["vehicles", vehicleAliases.map((a) => ({ id: a.id, alias: a.alias, target: a.vehicleNumber }))],
+                ] as const).map(([kind, aliases]) => aliases.length > 0 && (
+                  <ul key={kind} className="text-sm space-y-1">
+                    {aliases.map((alias) => (
+                      <li key={alias.id} className="flex items-center gap-2" data-testid={`alias-${kind}-${alias.id}`}>
+                        <span className="font-mono">{alias.alias}</span>
+                        <span className="text-gray-500">→ {alias.target}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 ml-auto"
+                          onClick={() => deleteAlias(kind, alias.id)}
+                          title="Forget this name"
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+              </div>
             </div>
           )}
 
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-6">
-            <h4 className="font-semibold text-blue-900 mb-2">CSV Format Requirements:</h4>
+            <h4 className="font-semibold text-blue-900 mb-2">File Format Requirements:</h4>
             <ul className="text-sm text-blue-800 space-y-1 list-disc list-inside">
               <li>Date format: DD/MM/YYYY (e.g., 06/10/2025)</li>
               <li>Vehicle: Vehicle number (e.g., KA05AP7645)</li>
@@ -227,17 +599,22 @@ export default function ImportPage() {
               <li>Rent: Numeric value (can be empty)</li>
               <li>Collection: Numeric value (can be empty)</li>
               <li>Fuel: Numeric value (can be empty)</li>
+              <li>Company (optional): Leasing company for vehicles that do not exist yet</li>
+              <li>Excel files: pick the sheet to import when there are several. Date cells, titles above the header row and merged cells are read as they appear.</li>
             </ul>
             <p className="text-sm text-blue-700 mt-3">
-              <strong>Important:</strong> Each driver can only have ONE entry per day. The file will be rejected if duplicate drivers are found on the same date.
+              <strong>Important:</strong> Each driver can only have ONE entry per day. Rows naming a driver twice on the same date, or a driver who already has a trip log that day, are shown in the preview and left out of the import.
             </p>
             <p className="text-sm text-blue-700 mt-1">
-              <strong>Note:</strong> Rows with "No Vechicle" or "Leave" will be automatically skipped. 
-              Missing vehicles and drivers will be created automatically.
+              <strong>Note:</strong> Rows with "No Vechicle" or "Leave" are recorded as driver leave for that day instead of a trip. 
+              Names that differ from the fleet's records (spelling, initials, a phone number or QR code in place of the driver, spacing in vehicle numbers) are matched where possible; the preview suggests close matches for the rest, which can be used once or remembered.
+              Missing vehicles and drivers will be created automatically. New vehicles are leased from the row's Company, or the company selected above.
             </p>
           </div>
         </CardContent>
       </Card>
+
+      <ImportJobHistory />
     </div>
   );
 }
@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api, type Driver, type Incident, type IncidentInput, type IncidentType, type Vehicle } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UPLOAD_ACCEPT } from "@/components/VehicleDocumentsDialog";
+import { Plus, Edit, Trash2, FileText } from "lucide-react";
+
+const inr = (n: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n || 0);
+const today = () => format(new Date(), "yyyy-MM-dd");
+const formatDate = (date: string) => format(new Date(date), "MMM dd, yyyy");
+
+const INCIDENT_TYPE_LABELS: Record<IncidentType, string> = {
+  challan: "Traffic Challan",
+  accident: "Accident",
+  damage: "Damage",
+  other: "Other",
+};
+
+// Driver select value meaning "whoever the trip logs say drove"
+const AUTO_DRIVER = "auto";
+
+interface IncidentForm {
+  vehicleId: string;
+  type: IncidentType;
+  date: string;
+  time: string;
+  amount: string;
+  reference: string;
+  description: string;
+  driverId: string;
+  chargeToDriver: boolean;
+}
+
+const emptyForm = (): IncidentForm => ({
+  vehicleId: "",
+  type: "challan",
+  date: today(),
+  time: "",
+  amount: "",
+  reference: "",
+  description: "",
+  driverId: AUTO_DRIVER,
+  chargeToDriver: true,
+});
+
+function ChargedTo({ incident }: { incident: Incident }) {
+  if (incident.driverName) {
+    return (
+      <div>
+        <span className="font-medium">{incident.driverName}</span>
+        <div className="text-xs text-gray-500">
+          {incident.resolvedBy === "manual" ? "chosen by hand" : `${incident.shift ?? "day"} shift, ${formatDate(incident.shiftDate ?? incident.date)}`}
+        </div>
+      </div>
+    );
+  }
+  if (incident.substituteName) {
+    return (
+      <div>
+        <span className="font-medium">{incident.substituteName}</span>
+        <div className="text-xs text-gray-500">substitute, not charged</div>
+      </div>
+    );
+  }
+  return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Unresolved</Badge>;
+}
+
+export default function IncidentsPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Incident | null>(null);
+  const [formData, setFormData] = useState<IncidentForm>(emptyForm);
+  const [evidence, setEvidence] = useState<File | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<Incident | null>(null);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canManage = !!user && canAccessApi(user.role, "POST", "/api/incidents");
+
+  const { data: incidents = [], isLoading } = useQuery({
+    queryKey: ["/api/incidents"],
+    queryFn: api.getIncidents,
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const { data: drivers = [] } = useQuery<Driver[]>({
+    queryKey: ["/api/drivers"],
+  });
+
+  const vehicleId = parseInt(formData.vehicleId);
+  const { data: resolution } = useQuery({
+    queryKey: ["/api/incidents/resolve", vehicleId, formData.date, formData.time],
+    queryFn: () => api.resolveIncidentDriver(vehicleId, formData.date, formData.time || undefined),
+    enabled: isFormOpen && !!vehicleId && !!formData.date,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+    setFormData(emptyForm());
+    setEvidence(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data, file }: { id: number | null; data: IncidentInput; file: File | null }) => {
+      const saved = id ? await api.updateIncident(id, data) : await api.createIncident(data);
+      if (file) await api.uploadIncidentEvidence(saved.id, file);
+      return saved;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      closeForm();
+      toast({ title: "Success", description: id ? "Incident updated" : "Incident recorded" });
+    },
+    onError: (error: Error) => {
+      // The incident itself may have been saved even if the upload failed
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      onError(error);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteIncident,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      toast({ title: "Success", description: "Incident deleted" });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(emptyForm());
+    setEvidence(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (incident: Incident) => {
+    setEditing(incident);
+    setFormData({
+      vehicleId: String(incident.vehicleId),
+      type: incident.type,
+      date: incident.date,
+      time: incident.time || "",
+      amount: String(incident.amount),
+      reference: incident.reference || "",
+      description: incident.description || "",
+      driverId: incident.resolvedBy === "manual" && incident.driverId ? String(incident.driverId) : AUTO_DRIVER,
+      chargeToDriver: incident.chargeToDriver,
+    });
+    setEvidence(null);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      id: editing?.id ?? null,
+      data: {
+        vehicleId,
+        type: formData.type,
+        date: formData.date,
+        time: formData.time || null,
+        amount: parseInt(formData.amount) || 0,
+        reference: formData.reference || undefined,
+        description: formData.description || undefined,
+        driverId: formData.driverId === AUTO_DRIVER ? null : parseInt(formData.driverId),
+        chargeToDriver: formData.chargeToDriver,
+      },
+      file: evidence,
+    });
+  };
+
+  const unresolved = incidents.filter((incident) => !incident.driverId && !incident.substituteDriverId).length;
+  const charged = incidents
+    .filter((incident) => incident.chargeToDriver && incident.driverId)
+    .reduce((sum, incident) => sum + incident.amount, 0);
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Incidents</h1>
+              <p className="text-sm text-gray-500">
+                Traffic challans, accidents and damage. The driver on shift is worked out from the trip logs, and
+                charges are deducted in the settlement week of their charge date.
+              </p>
+            </div>
+            {canManage && (
+              <Button onClick={openCreate} data-testid="button-add-incident">
+                <Plus className="w-4 h-4 mr-2" />
+                Record Incident
+              </Button>
+            )}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {incidents.length} incident{incidents.length === 1 ? "" : "s"} · {inr(charged)} charged to drivers
+                {unresolved > 0 && <span className="text-amber-600 text-base font-normal"> · {unresolved} unresolved</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading incidents...</div>
+              ) : incidents.length === 0 ? (
+                <p className="text-sm text-gray-500">No incidents recorded</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Driver</TableHead>
+                      <TableHead>Charged</TableHead>
+                      <TableHead>Evidence</TableHead>
+                      {canManage && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {incidents.map((incident) => (
+                      <TableRow key={incident.id} data-testid={`row-incident-${incident.id}`}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(incident.date)}
+                          {incident.time && <div className="text-xs text-gray-500">{incident.time}</div>}
+                        </TableCell>
+                        <TableCell className="font-medium">{incident.vehicleNumber}</TableCell>
+                        <TableCell>
+                          {INCIDENT_TYPE_LABELS[incident.type]}
+                          {incident.reference && <div className="text-xs text-gray-500">{incident.reference}</div>}
+                          {incident.description && <div className="text-xs text-gray-500">{incident.description}</div>}
+                        </TableCell>
+                        <TableCell>{inr(incident.amount)}</TableCell>
+                        <TableCell><ChargedTo incident={incident} /></TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {incident.chargeToDriver && incident.driverId ? formatDate(incident.chargeDate) : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {incident.evidencePath ? (
+                            <a
+                              href={api.incidentEvidenceUrl(incident.id)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex items-center text-sm text-blue-600 hover:underline"
+                            >
+                              <FileText className="w-4 h-4 mr-1" />
+                              {incident.evidenceFileName}
+                            </a>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        {canManage && (
+                          <TableCell>
+                            <div className="flex space-x-2">
+                              <Button variant="outline" size="sm" onClick={() => openEdit(incident)} data-testid={`button-edit-incident-${incident.id}`}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setDeleteConfirm(incident)}
+                                disabled={deleteMutation.isPending}
+                                data-testid={`button-delete-incident-${incident.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Record / Edit Dialog */}
+          <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>{editing ? "Edit Incident" : "Record Incident"}</DialogTitle>
+                <DialogDescription>
+                  Add the time to pin down the shift; without it the incident is only matched when one person drove that day.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Vehicle</Label>
+                    <Select value={formData.vehicleId} onValueChange={(value) => setFormData({ ...formData, vehicleId: value })}>
+                      <SelectTrigger data-testid="select-incident-vehicle">
+                        <SelectValue placeholder="Select vehicle" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {vehicles.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={String(vehicle.id)}>{vehicle.vehicleNumber}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Type</Label>
+                    <Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value as IncidentType })}>
+                      <SelectTrigger data-testid="select-incident-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(INCIDENT_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="incidentDate">Date</Label>
+                    <Input
+                      id="incidentDate"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="incidentTime">Time (optional)</Label>
+                    <Input
+                      id="incidentTime"
+                      type="time"
+                      value={formData.time}
+                      onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                      data-testid="input-incident-time"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="incidentAmount">Amount (₹)</Label>
+                    <Input
+                      id="incidentAmount"
+                      type="number"
+                      min={1}
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      data-testid="input-incident-amount"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="incidentReference">Challan / Reference No.</Label>
+                    <Input
+                      id="incidentReference"
+                      value={formData.reference}
+                      onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="incidentEvidence">Evidence (PDF or image)</Label>
+                    <Input
+                      id="incidentEvidence"
+                      type="file"
+                      accept={UPLOAD_ACCEPT}
+                      onChange={(e) => setEvidence(e.target.files?.[0] ?? null)}
+                    />
+                    {editing?.evidenceFileName && !evidence && (
+                      <p className="text-xs text-gray-500 mt-1">Current: {editing.evidenceFileName}</p>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="incidentDescription">Description</Label>
+                  <Input
+                    id="incidentDescription"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="e.g., Signal jump at Silk Board"
+                  />
+                </div>
+
+                <div className="border rounded-lg p-3 space-y-3">
+                  {resolution && (
+                    <p className="text-sm text-gray-700" data-testid="text-incident-resolution">{resolution.note}</p>
+                  )}
+                  <div>
+                    <Label>Driver to Charge</Label>
+                    <Select value={formData.driverId} onValueChange={(value) => setFormData({ ...formData, driverId: value })}>
+                      <SelectTrigger data-testid="select-incident-driver">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTO_DRIVER}>
+                          From trip logs{resolution?.driverName ? ` (${resolution.driverName})` : ""}
+                        </SelectItem>
+                        {drivers.map((driver) => (
+                          <SelectItem key={driver.id} value={String(driver.id)}>{driver.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="incidentCharge"
+                      checked={formData.chargeToDriver}
+                      onCheckedChange={(checked) => setFormData({ ...formData, chargeToDriver: checked === true })}
+                      data-testid="checkbox-incident-charge"
+                    />
+                    <Label htmlFor="incidentCharge">Deduct from the driver's settlement</Label>
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={closeForm}>Cancel</Button>
+                  <Button
+                    onClick={handleSave}
+                    disabled={saveMutation.isPending || !vehicleId || !formData.date || !(parseInt(formData.amount) > 0)}
+                    data-testid="button-save-incident"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={!!deleteConfirm} onOpenChange={(open) => !open && setDeleteConfirm(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete incident?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deleteConfirm && `The ${INCIDENT_TYPE_LABELS[deleteConfirm.type].toLowerCase()} on ${deleteConfirm.vehicleNumber} will be removed`}
+                  {deleteConfirm?.chargeToDriver && deleteConfirm.driverId ? ` and its ${inr(deleteConfirm.amount)} charge to ${deleteConfirm.driverName} reversed.` : "."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (deleteConfirm) deleteMutation.mutate(deleteConfirm.id);
+                    setDeleteConfirm(null);
+                  }}
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, addMonths, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { api, type DriverLeave, type DriverLeaveInput, type LeaveType } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Plus } from "lucide-react";
+
+const LEAVE_TYPES: Record<LeaveType, { label: string; cell: string }> = {
+  planned: { label: "Planned", cell: "bg-blue-200 text-blue-900" },
+  unplanned: { label: "Unplanned", cell: "bg-red-200 text-red-900" },
+  sick: { label: "Sick", cell: "bg-amber-200 text-amber-900" },
+  no_vehicle: { label: "No Vehicle", cell: "bg-gray-300 text-gray-800" },
+};
+
+const BASIS_LABELS = { roster: "Roster", leave: "Noted on leave", assignment: "Usual assignment" };
+
+interface LeaveForm {
+  driverId: string;
+  startDate: string;
+  endDate: string;
+  type: LeaveType;
+  vehicleId: string;
+  reason: string;
+}
+
+const emptyForm = (driverId = "", date = format(new Date(), "yyyy-MM-dd")): LeaveForm => ({
+  driverId, startDate: date, endDate: date, type: "unplanned", vehicleId: "", reason: "",
+});
+
+const formatDate = (date: string) => format(parseISO(date), "MMM dd");
+
+export default function LeavePage() {
+  const [month, setMonth] = useState(() => format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [editing, setEditing] = useState<DriverLeave | null>(null);
+  const [form, setForm] = useState<LeaveForm | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canEdit = !!user && canAccessApi(user.role, "POST", "/api/driver-leaves");
+  const from = month;
+  const to = format(endOfMonth(parseISO(month)), "yyyy-MM-dd");
+  const days: string[] = [];
+  for (let day = parseISO(from); format(day, "yyyy-MM-dd") <= to; day = addDays(day, 1)) {
+    days.push(format(day, "yyyy-MM-dd"));
+  }
+
+  const { data: leaves = [], isLoading } = useQuery({
+    queryKey: ["/api/driver-leaves", from, to],
+    queryFn: () => api.getDriverLeaves({ from, to }),
+  });
+
+  const { data: idle } = useQuery({
+    queryKey: ["/api/reports/idle-vehicles", from, to],
+    queryFn: () => api.getIdleVehicleReport(from, to),
+  });
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ["/api/drivers"],
+    queryFn: () => api.getDrivers(),
+  });
+
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ["/api/vehicles"],
+    queryFn: () => api.getVehicles(),
+  });
+
+  // Drivers with the fleet at some point in the month
+  const monthDrivers = drivers
+    .filter((d) => d.joinedDate <= to && (!d.dismissDate || d.dismissDate > from))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const leaveOn = (driverId: number, date: string) =>
+    leaves.find((leave) => leave.driverId === driverId && leave.startDate <= date && leave.endDate >= date);
+  const leaveDays = (driverId: number) =>
+    days.filter((date) => {
+      const leave = leaveOn(driverId, date);
+      return leave && leave.type !== "no_vehicle";
+    }).length;
+
+  const closeDialog = () => {
+    setForm(null);
+    setEditing(null);
+  };
+  const openNew = (driverId?: number, date?: string) => {
+    setEditing(null);
+    setForm(emptyForm(driverId ? String(driverId) : "", date));
+  };
+  const openEdit = (leave: DriverLeave) => {
+    setEditing(leave);
+    setForm({
+      driverId: String(leave.driverId),
+      startDate: leave.startDate,
+      endDate: leave.endDate,
+      type: leave.type,
+      vehicleId: leave.vehicleId ? String(leave.vehicleId) : "",
+      reason: leave.reason ?? "",
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const onSaved = (description: string) => {
+    queryClient.invalidateQueries({ predicate: (q) => {
+      const k = q.queryKey[0];
+      return typeof k === "string" && (k.startsWith("/api/driver-leaves") || k.startsWith("/api/reports/idle-vehicles") || k.startsWith("/api/weekly-summary"));
+    }});
+    toast({ title: "Success", description });
+    closeDialog();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: DriverLeaveInput) =>
+      editing ? api.updateDriverLeave(editing.id, values) : api.createDriverLeave(values),
+    onSuccess: () => onSaved(editing ? "Leave updated" : "Leave recorded"),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteDriverLeave(id),
+    onSuccess: () => onSaved("Leave deleted"),
+    onError,
+  });
+
+  const submit = () => {
+    if (!form) return;
+    saveMutation.mutate({
+      driverId: Number(form.driverId),
+      startDate: form.startDate,
+      endDate: form.endDate,
+      type: form.type,
+      vehicleId: form.vehicleId ? Number(form.vehicleId) : null,
+      reason: form.reason,
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Driver Leave</h1>
+              <p className="text-sm text-gray-500">
+                Days drivers were off, recorded here or picked up from "Leave" and "No Vechicle" rows in trip log imports.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMonth(format(addMonths(parseISO(month), -1), "yyyy-MM-dd"))} data-testid="button-prev-month">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setMonth(format(startOfMonth(new Date()), "yyyy-MM-dd"))}>This Month</Button>
+              <Button variant="outline" size="sm" onClick={() => setMonth(format(addMonths(parseISO(month), 1), "yyyy-MM-dd"))} data-testid="button-next-month">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              {canEdit && (
+                <Button size="sm" onClick={() => openNew()} data-testid="button-record-leave">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Record Leave
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{format(parseISO(month), "MMMM yyyy")}</CardTitle>
+                <div className="flex gap-3 text-xs">
+                  {Object.entries(LEAVE_TYPES).map(([type, { label, cell }]) => (
+                    <span key={type} className="flex items-center gap-1">
+                      <span className={`inline-block w-3 h-3 rounded ${cell}`} />
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {isLoading ? (
+                <div>Loading leave...</div>
+              ) : (
+                <table className="border-collapse text-xs">
+                  <thead>
+                    <tr>
+                      <th className="text-left p-2 border-b font-semibold text-gray-700 sticky left-0 bg-white">Driver</th>
+                      {days.map((day) => (
+                        <th key={day} className="p-1 border-b font-semibold text-gray-700 text-center w-7">
+                          {format(parseISO(day), "d")}
+                        </th>
+                      ))}
+                      <th className="p-2 border-b font-semibold text-gray-700 text-right">Days</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {monthDrivers.map((driver) => (
+                      <tr key={driver.id} className="border-b">
+                        <td className="p-2 font-medium text-gray-800 whitespace-nowrap sticky left-0 bg-white">{driver.name}</td>
+                        {days.map((day) => {
+                          const leave = leaveOn(driver.id, day);
+                          return (
+                            <td key={day} className="p-0.5">
+                              <button
+                                type="button"
+                                disabled={!canEdit}
+                                onClick={() => (leave ? openEdit(leave) : openNew(driver.id, day))}
+                                className={`w-6 h-6 rounded ${leave ? LEAVE_TYPES[leave.type].cell : "hover:bg-gray-100"}`}
+                                title={leave ? `${LEAVE_TYPES[leave.type].label}${leave.reason ? `: ${leave.reason}` : ""}` : undefined}
+                                data-testid={`cell-leave-${driver.id}-${day}`}
+                              >
+                                {leave ? LEAVE_TYPES[leave.type].label[0] : ""}
+                              </button>
+                            </td>
+                          );
+                        })}
+                        <td className="p-2 text-right text-gray-700">{leaveDays(driver.id) || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Vehicles Idle Through Unplanned Leave</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!idle || idle.shifts.length === 0 ? (
+                <p className="text-sm text-gray-500">No vehicle stood idle for a driver on unplanned or sick leave this month</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {idle.vehicles.map((vehicle) => (
+                      <Badge key={vehicle.vehicleId} variant="outline" className="border-red-200 text-red-700 bg-red-50">
+                        {vehicle.vehicleNumber}: {vehicle.idleShifts} shift{vehicle.idleShifts === 1 ? "" : "s"}
+                      </Badge>
+                    ))}
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Vehicle</TableHead>
+                        <TableHead>Shift</TableHead>
+                        <TableHead>Driver on Leave</TableHead>
+                        <TableHead>Planned From</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {idle.shifts.map((row) => (
+                        <TableRow key={`${row.vehicleId}-${row.date}-${row.shift ?? "day"}`} data-testid={`row-idle-${row.vehicleId}-${row.date}`}>
+                          <TableCell className="whitespace-nowrap">{formatDate(row.date)}</TableCell>
+                          <TableCell className="font-medium">{row.vehicleNumber}</TableCell>
+                          <TableCell>{row.shift ? (row.shift === "morning" ? "Morning" : "Evening") : "Whole day"}</TableCell>
+                          <TableCell>
+                            {row.driverName}
+                            <Badge variant="outline" className="ml-2 text-xs">{LEAVE_TYPES[row.leaveType].label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-gray-500">{BASIS_LABELS[row.basis]}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Leave" : "Record Leave"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label>Driver</Label>
+                <Select value={form.driverId} onValueChange={(value) => setForm({ ...form, driverId: value })}>
+                  <SelectTrigger data-testid="select-leave-driver">
+                    <SelectValue placeholder="Select driver" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {monthDrivers.map((driver) => (
+                      <SelectItem key={driver.id} value={String(driver.id)}>{driver.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="leaveStart">From</Label>
+                  <Input id="leaveStart" type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="leaveEnd">To</Label>
+                  <Input id="leaveEnd" type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as LeaveType })}>
+                  <SelectTrigger data-testid="select-leave-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LEAVE_TYPES).map(([type, { label }]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Vehicle (optional)</Label>
+                <Select value={form.vehicleId || "none"} onValueChange={(value) => setForm({ ...form, vehicleId: value === "none" ? "" : value })}>
+                  <SelectTrigger data-testid="select-leave-vehicle">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Usual vehicle</SelectItem>
+                    {vehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={String(vehicle.id)}>{vehicle.vehicleNumber}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="leaveReason">Reason</Label>
+                <Textarea id="leaveReason" value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} />
+              </div>
+              {editing?.source === "import" && (
+                <p className="text-xs text-gray-500">Picked up from a trip log import</p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            {editing && (
+              <Button
+                variant="destructive"
+                className="mr-auto"
+                onClick={() => deleteMutation.mutate(editing.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-leave"
+              >
+                Delete
+              </Button>
+            )}
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={submit}
+              disabled={saveMutation.isPending || !form?.driverId || !form.startDate || !form.endDate}
+              data-testid="button-save-leave"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
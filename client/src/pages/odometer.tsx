@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const WINDOWS = [7, 30, 60, 90];
+
+const formatDate = (date: string) => format(new Date(date), "MMM dd, yyyy");
+const shiftLabel = (shift: string) => (shift === "morning" ? "Morning" : "Evening");
+
+export default function OdometerPage() {
+  const [days, setDays] = useState(30);
+  const to = format(new Date(), "yyyy-MM-dd");
+  const from = format(addDays(new Date(), -days), "yyyy-MM-dd");
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ["/api/reports/odometer", from, to],
+    queryFn: () => api.getOdometerReport(from, to),
+  });
+
+  const gaps = report?.gaps ?? [];
+  const drivers = report?.drivers ?? [];
+  const unaccounted = gaps.filter((gap) => gap.km > 0).reduce((sum, gap) => sum + gap.km, 0);
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Odometer Gaps</h1>
+              <p className="text-sm text-gray-500">
+                Kilometres driven between one shift's end reading and the next shift's start on the same vehicle,
+                and km per trip for each driver over shifts with both readings.
+              </p>
+            </div>
+            <div className="w-44">
+              <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                <SelectTrigger data-testid="select-odometer-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOWS.map((window) => (
+                    <SelectItem key={window} value={String(window)}>Last {window} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {gaps.length} gap{gaps.length === 1 ? "" : "s"}
+                {unaccounted > 0 && <span className="text-red-600 text-base font-normal"> · {unaccounted} km unaccounted for</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading readings...</div>
+              ) : gaps.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Every handover in the period matches to within {report?.toleranceKm ?? 0} km
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vehicle</TableHead>
+                      <TableHead>Between</TableHead>
+                      <TableHead>Last Held By</TableHead>
+                      <TableHead className="text-right">End → Next Start</TableHead>
+                      <TableHead className="text-right">Gap</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gaps.map((gap) => (
+                      <TableRow key={`${gap.vehicleId}-${gap.toDate}-${gap.toShift}-${gap.startOdometer}`} data-testid={`row-odometer-gap-${gap.vehicleId}-${gap.toDate}-${gap.toShift}`}>
+                        <TableCell className="font-medium">{gap.vehicleNumber}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(gap.fromDate)} {shiftLabel(gap.fromShift)}
+                          <div className="text-xs text-gray-500">to {formatDate(gap.toDate)} {shiftLabel(gap.toShift)}</div>
+                        </TableCell>
+                        <TableCell>
+                          {gap.lastHeldBy}
+                          {gap.substitute && (
+                            <Badge variant="outline" className="ml-2 border-orange-200 text-orange-700 bg-orange-50 text-xs">Substitute</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{gap.endOdometer} → {gap.startOdometer}</TableCell>
+                        <TableCell className={`text-right font-semibold ${gap.km < 0 ? "text-amber-600" : "text-red-600"}`}>
+                          {gap.km > 0 ? `+${gap.km}` : gap.km} km
+                          {gap.km < 0 && <div className="text-xs font-normal">reading went back</div>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Kilometres per Driver</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {drivers.length === 0 ? (
+                <p className="text-sm text-gray-500">No shifts with odometer readings in the period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Driver</TableHead>
+                      <TableHead className="text-right">Shifts</TableHead>
+                      <TableHead className="text-right">Km Driven</TableHead>
+                      <TableHead className="text-right">Trips</TableHead>
+                      <TableHead className="text-right">Km / Trip</TableHead>
+                      <TableHead className="text-right">Gaps</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {drivers.map((row) => (
+                      <TableRow key={`${row.substitute ? "sub" : "driver"}-${row.driverId ?? row.driverName}`}>
+                        <TableCell className="font-medium">
+                          {row.driverName}
+                          {row.substitute && (
+                            <Badge variant="outline" className="ml-2 border-orange-200 text-orange-700 bg-orange-50 text-xs">Substitute</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{row.shifts}</TableCell>
+                        <TableCell className="text-right">{row.km}</TableCell>
+                        <TableCell className="text-right">{row.trips}</TableCell>
+                        <TableCell className="text-right">{row.kmPerTrip ?? "—"}</TableCell>
+                        <TableCell className={`text-right ${row.gaps > 0 ? "text-red-600 font-semibold" : ""}`}>
+                          {row.gaps > 0 ? `${row.gaps} · ${row.gapKm} km` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
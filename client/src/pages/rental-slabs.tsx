@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, type SlabSchedule, type RentalSlab, type Company } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2, X } from "lucide-react";
+
+const inr = (n: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n || 0);
+const fmt = (iso: string) => new Date(iso).toLocaleDateString("en-GB");
+
+interface SlabRowDraft {
+  minTrips: string;
+  maxTrips: string;
+  rate: string;
+}
+
+interface ScheduleForm {
+  companyId: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+  notes: string;
+  rows: SlabRowDraft[];
+}
+
+const emptyForm = (): ScheduleForm => ({
+  companyId: "",
+  effectiveFrom: new Date().toISOString().split("T")[0],
+  effectiveTo: "",
+  notes: "",
+  rows: [{ minTrips: "0", maxTrips: "", rate: "" }],
+});
+
+const isInForce = (schedule: SlabSchedule, today: string) =>
+  schedule.effectiveFrom <= today && (!schedule.effectiveTo || schedule.effectiveTo >= today);
+
+export default function RentalSlabsPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<ScheduleForm>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<SlabSchedule | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = new Date().toISOString().split("T")[0];
+
+  const { data: schedules = [], isLoading } = useQuery<SlabSchedule[]>({
+    queryKey: ["/api/slab-schedules"],
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const companyName = (id: number) => companies.find(c => c.id === id)?.name ?? `Company #${id}`;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/slab-schedules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/rental-slabs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number | null; data: Parameters<typeof api.createSlabSchedule>[0] }) =>
+      id ? api.updateSlabSchedule(id, data) : api.createSlabSchedule(data),
+    onSuccess: (_, { id }) => {
+      invalidate();
+      setIsFormOpen(false);
+      setEditingId(null);
+      setFormData(emptyForm());
+      toast({ title: "Success", description: id ? "Slab schedule updated successfully" : "Slab schedule created successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteSlabSchedule,
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Slab schedule deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (schedule: SlabSchedule) => {
+    setEditingId(schedule.id);
+    setFormData({
+      companyId: String(schedule.companyId),
+      effectiveFrom: schedule.effectiveFrom,
+      effectiveTo: schedule.effectiveTo || "",
+      notes: schedule.notes || "",
+      rows: [...schedule.rows]
+        .sort((a, b) => a.minTrips - b.minTrips)
+        .map((row) => ({
+          minTrips: String(row.minTrips),
+          maxTrips: row.maxTrips == null ? "" : String(row.maxTrips),
+          rate: String(row.rate),
+        })),
+    });
+    setIsFormOpen(true);
+  };
+
+  const updateRow = (index: number, field: keyof SlabRowDraft, value: string) => {
+    setFormData({
+      ...formData,
+      rows: formData.rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)),
+    });
+  };
+
+  const addRow = () => {
+    setFormData({ ...formData, rows: [...formData.rows, { minTrips: "", maxTrips: "", rate: "" }] });
+  };
+
+  const removeRow = (index: number) => {
+    setFormData({ ...formData, rows: formData.rows.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    if (!formData.companyId) {
+      toast({ title: "Error", description: "Select the leasing company", variant: "destructive" });
+      return;
+    }
+    const rows: RentalSlab[] = formData.rows.map((row) => ({
+      minTrips: Number(row.minTrips) || 0,
+      maxTrips: row.maxTrips === "" ? null : Number(row.maxTrips),
+      rate: Number(row.rate) || 0,
+    }));
+
+    saveMutation.mutate({
+      id: editingId,
+      data: {
+        companyId: Number(formData.companyId),
+        effectiveFrom: formData.effectiveFrom,
+        effectiveTo: formData.effectiveTo || null,
+        notes: formData.notes || null,
+        rows,
+      },
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Rental Slabs</h1>
+              <p className="text-sm text-gray-500">
+                Daily company rent by weekly trip count. Each week is charged using the schedule in force on its start date.
+              </p>
+            </div>
+            <Button onClick={openCreate} data-testid="button-add-slab-schedule">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Schedule
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div>Loading slab schedules...</div>
+          ) : schedules.length === 0 ? (
+            <Card>
+              <CardContent className="py-6 text-gray-500">No slab schedules yet.</CardContent>
+            </Card>
+          ) : (
+            schedules.map((schedule) => (
+              <Card key={schedule.id} data-testid={`card-slab-schedule-${schedule.id}`}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2">
+                      {companyName(schedule.companyId)}
+                      {isInForce(schedule, today) && (
+                        <Badge variant="secondary" className="bg-green-100 text-green-800">In force</Badge>
+                      )}
+                    </CardTitle>
+                    <p className="text-sm text-gray-500">
+                      {fmt(schedule.effectiveFrom)} – {schedule.effectiveTo ? fmt(schedule.effectiveTo) : "open-ended"}
+                      {schedule.notes ? ` · ${schedule.notes}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(schedule)} data-testid={`button-edit-slab-schedule-${schedule.id}`}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDeleteConfirm(schedule)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-slab-schedule-${schedule.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Weekly Trips</TableHead>
+                        <TableHead className="text-right">Rate / Day</TableHead>
+                        <TableHead className="text-right">Weekly Rent</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...schedule.rows]
+                        .sort((a, b) => b.minTrips - a.minTrips)
+                        .map((row) => (
+                          <TableRow key={row.id}>
+                            <TableCell>{row.maxTrips == null ? `${row.minTrips}+` : `${row.minTrips} – ${row.maxTrips}`}</TableCell>
+                            <TableCell className="text-right">{inr(row.rate)}</TableCell>
+                            <TableCell className="text-right">{inr(row.rate * 7)}</TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {/* Create / Edit Dialog */}
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>{editingId ? "Edit Slab Schedule" : "Add Slab Schedule"}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="slabCompany">Company</Label>
+                    <Select value={formData.companyId} onValueChange={(value) => setFormData({ ...formData, companyId: value })}>
+                      <SelectTrigger id="slabCompany">
+                        <SelectValue placeholder="Select company" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {companies.map((company) => (
+                          <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="slabEffectiveFrom">Effective From</Label>
+                    <Input
+                      id="slabEffectiveFrom"
+                      type="date"
+                      value={formData.effectiveFrom}
+                      onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="slabEffectiveTo">Effective To (Optional)</Label>
+                    <Input
+                      id="slabEffectiveTo"
+                      type="date"
+                      value={formData.effectiveTo}
+                      onChange={(e) => setFormData({ ...formData, effectiveTo: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="slabNotes">Notes</Label>
+                  <Input
+                    id="slabNotes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    placeholder="e.g., Revised rates from company circular"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-sm font-medium text-gray-600">
+                    <span>Min Trips</span>
+                    <span>Max Trips (blank = no limit)</span>
+                    <span>Rate / Day (₹)</span>
+                    <span className="w-9" />
+                  </div>
+                  {formData.rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                      <Input type="number" min={0} value={row.minTrips} onChange={(e) => updateRow(index, "minTrips", e.target.value)} />
+                      <Input type="number" min={0} value={row.maxTrips} onChange={(e) => updateRow(index, "maxTrips", e.target.value)} />
+                      <Input type="number" min={0} value={row.rate} onChange={(e) => updateRow(index, "rate", e.target.value)} />
+                      <Button variant="ghost" size="sm" onClick={() => removeRow(index)} disabled={formData.rows.length === 1}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={addRow}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Slab
+                  </Button>
+                </div>
+
+                <Button onClick={handleSave} disabled={saveMutation.isPending} className="w-full" data-testid="button-save-slab-schedule">
+                  {saveMutation.isPending ? "Saving..." : editingId ? "Update Schedule" : "Create Schedule"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={deleteConfirm !== null} onOpenChange={() => setDeleteConfirm(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Confirm Delete Slab Schedule</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deleteConfirm && `Are you sure you want to delete the ${companyName(deleteConfirm.companyId)} schedule starting ${fmt(deleteConfirm.effectiveFrom)}? Weeks in that period will have no rental slabs until another schedule covers them.`}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (deleteConfirm) {
+                      deleteMutation.mutate(deleteConfirm.id);
+                      setDeleteConfirm(null);
+                    }
+                  }}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </main>
+    </div>
+  );
+}
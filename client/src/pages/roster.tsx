@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { api, type RosterEntry, type RosterEntryInput } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import TripLogModal, { type TripLogPrefill } from "@/components/TripLogModal";
+import { AlertTriangle, ChevronLeft, ChevronRight, Copy, NotebookPen, X } from "lucide-react";
+
+type Shift = "morning" | "evening";
+
+const SHIFTS: Shift[] = ["morning", "evening"];
+const SHIFT_LETTERS: Record<Shift, string> = { morning: "M", evening: "E" };
+
+const weekStartOf = (date: Date) => format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+
+// What is being dragged: a driver from the list, or an entry already on the grid
+type DragItem = { kind: "driver"; driverId: number } | { kind: "entry"; entryId: number };
+const DRAG_TYPE = "application/x-roster";
+
+export default function RosterPage() {
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(new Date()));
+  const [driverSearch, setDriverSearch] = useState("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [tripPrefill, setTripPrefill] = useState<TripLogPrefill | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canEdit = !!user && canAccessApi(user.role, "POST", "/api/roster");
+  const days = Array.from({ length: 7 }, (_, i) => format(addDays(parseISO(weekStart), i), "yyyy-MM-dd"));
+  const weekEnd = days[6];
+
+  const { data: week, isLoading } = useQuery({
+    queryKey: ["/api/roster", weekStart],
+    queryFn: () => api.getRoster({ from: weekStart, to: weekEnd }),
+  });
+
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ["/api/vehicles"],
+    queryFn: () => api.getVehicles(),
+  });
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ["/api/drivers"],
+    queryFn: () => api.getDrivers(),
+  });
+
+  const entries = week?.entries ?? [];
+  const conflicts = week?.conflicts ?? [];
+  const doubleBooked = new Set(conflicts.filter((c) => c.kind === "double_booked").flatMap((c) => c.entryIds));
+  const doubleShift = new Set(conflicts.filter((c) => c.kind === "double_shift").flatMap((c) => c.entryIds));
+
+  // Vehicles and drivers with the fleet at some point in the week
+  const weekVehicles = vehicles
+    .filter((v) => v.purchasedDate <= weekEnd && (!v.droppedDate || v.droppedDate > weekStart))
+    .sort((a, b) => a.vehicleNumber.localeCompare(b.vehicleNumber));
+  const weekDrivers = drivers
+    .filter((d) => d.joinedDate <= weekEnd && (!d.dismissDate || d.dismissDate > weekStart))
+    .filter((d) => d.name.toLowerCase().includes(driverSearch.toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const slotKey = (vehicleId: number, date: string, shift: Shift) => `${vehicleId}|${date}|${shift}`;
+  const bySlot = new Map(entries.map((entry) => [slotKey(entry.vehicleId, entry.date, entry.shift), entry]));
+  const shiftsPlanned = (driverId: number) => entries.filter((entry) => entry.driverId === driverId).length;
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const planMutation = useMutation({
+    mutationFn: (entry: RosterEntryInput) => api.planRosterSlot(entry),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ id, entry }: { id: number; entry: RosterEntryInput }) => api.moveRosterEntry(id, entry),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteRosterEntry(id),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const copyMutation = useMutation({
+    mutationFn: () => api.copyRosterWeek(format(addDays(parseISO(weekStart), -7), "yyyy-MM-dd"), weekStart),
+    onSuccess: (result) => {
+      refresh();
+      toast({
+        title: result.created > 0 ? `Copied ${result.created} shift${result.created === 1 ? "" : "s"} from last week` : "Nothing to copy",
+        description: result.skipped.length > 0 ? `Skipped: ${result.skipped.join("; ")}` : undefined,
+      });
+    },
+    onError,
+  });
+
+  const startDrag = (item: DragItem) => (e: React.DragEvent) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const dropOn = (vehicleId: number, date: string, shift: Shift) => (e: React.DragEvent) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const raw = e.dataTransfer.getData(DRAG_TYPE);
+    if (!raw) return;
+    const item = JSON.parse(raw) as DragItem;
+    if (item.kind === "driver") {
+      planMutation.mutate({ vehicleId, driverId: item.driverId, date, shift });
+      return;
+    }
+    const entry = entries.find((en) => en.id === item.entryId);
+    if (!entry || (entry.vehicleId === vehicleId && entry.date === date && entry.shift === shift)) return;
+    moveMutation.mutate({
+      id: entry.id,
+      entry: { vehicleId, driverId: entry.driverId, date, shift, notes: entry.notes ?? undefined },
+    });
+  };
+
+  const chipClass = (entry: RosterEntry) =>
+    doubleBooked.has(entry.id)
+      ? "bg-red-100 border-red-300 text-red-800"
+      : doubleShift.has(entry.id)
+        ? "bg-amber-100 border-amber-300 text-amber-800"
+        : "bg-blue-50 border-blue-200 text-blue-800";
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Roster</h1>
+              <p className="text-sm text-gray-500">
+                Plan who drives each vehicle, shift by shift. Drag a driver onto a shift, or drag a planned shift to move it.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(format(addDays(parseISO(weekStart), -7), "yyyy-MM-dd"))} data-testid="button-prev-week">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(weekStartOf(new Date()))}>This Week</Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(format(addDays(parseISO(weekStart), 7), "yyyy-MM-dd"))} data-testid="button-next-week">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              {canEdit && (
+                <Button size="sm" onClick={() => copyMutation.mutate()} disabled={copyMutation.isPending} data-testid="button-copy-week">
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copy Last Week
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-6 items-start">
+            {canEdit && (
+              <Card className="w-56 shrink-0">
+                <CardHeader>
+                  <CardTitle className="text-base">Drivers</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <Input placeholder="Search" value={driverSearch} onChange={(e) => setDriverSearch(e.target.value)} />
+                  <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+                    {weekDrivers.map((driver) => (
+                      <div
+                        key={driver.id}
+                        draggable
+                        onDragStart={startDrag({ kind: "driver", driverId: driver.id })}
+                        className="flex items-center justify-between rounded border bg-white px-2 py-1 text-sm cursor-grab hover:bg-gray-50"
+                        data-testid={`drag-driver-${driver.id}`}
+                      >
+                        <span className="truncate">{driver.name}</span>
+                        <span className="text-xs text-gray-500">{shiftsPlanned(driver.id)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="flex-1 min-w-0">
+              <CardHeader>
+                <CardTitle>
+                  {format(parseISO(weekStart), "MMM dd")} – {format(parseISO(weekEnd), "MMM dd, yyyy")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {isLoading ? (
+                  <div>Loading roster...</div>
+                ) : (
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr>
+                        <th className="text-left p-2 border-b font-semibold text-gray-700">Vehicle</th>
+                        {days.map((day) => (
+                          <th key={day} className="p-2 border-b font-semibold text-gray-700 text-center min-w-[110px]">
+                            {format(parseISO(day), "EEE dd")}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {weekVehicles.map((vehicle) => (
+                        <tr key={vehicle.id} className="border-b">
+                          <td className="p-2 font-medium text-gray-800 whitespace-nowrap">{vehicle.vehicleNumber}</td>
+                          {days.map((day) => (
+                            <td key={day} className="p-1 align-top">
+                              {SHIFTS.map((shift) => {
+                                const key = slotKey(vehicle.id, day, shift);
+                                const entry = bySlot.get(key);
+                                return (
+                                  <div
+                                    key={shift}
+                                    onDragOver={canEdit ? (e) => { e.preventDefault(); setDropTarget(key); } : undefined}
+                                    onDragLeave={() => setDropTarget((current) => (current === key ? null : current))}
+                                    onDrop={canEdit ? dropOn(vehicle.id, day, shift) : undefined}
+                                    className={`flex items-center gap-1 min-h-[28px] rounded px-1 mb-1 border border-dashed ${dropTarget === key ? "border-blue-400 bg-blue-50" : "border-transparent"}`}
+                                    data-testid={`slot-${vehicle.id}-${day}-${shift}`}
+                                  >
+                                    <span className="text-[10px] text-gray-400 w-3">{SHIFT_LETTERS[shift]}</span>
+                                    {entry && (
+                                      <div
+                                        draggable={canEdit}
+                                        onDragStart={startDrag({ kind: "entry", entryId: entry.id })}
+                                        className={`group flex items-center gap-1 flex-1 min-w-0 rounded border px-1 text-xs ${canEdit ? "cursor-grab" : ""} ${chipClass(entry)}`}
+                                        title={entry.notes ?? undefined}
+                                      >
+                                        <span className="truncate flex-1">{entry.driverName}</span>
+                                        <button
+                                          type="button"
+                                          onClick={() => setTripPrefill({ vehicleId: entry.vehicleId, driverId: entry.driverId, date: entry.date, shift: entry.shift })}
+                                          className="opacity-0 group-hover:opacity-100"
+                                          title="Log trip"
+                                        >
+                                          <NotebookPen className="w-3 h-3" />
+                                        </button>
+                                        {canEdit && (
+                                          <button
+                                            type="button"
+                                            onClick={() => deleteMutation.mutate(entry.id)}
+                                            className="opacity-0 group-hover:opacity-100"
+                                            title="Remove"
+                                            data-testid={`button-remove-roster-${entry.id}`}
+                                          >
+                                            <X className="w-3 h-3" />
+                                          </button>
+                                        )}
+                                      </div>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {conflicts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <AlertTriangle className="w-4 h-4 text-amber-600" />
+                  {conflicts.length} conflict{conflicts.length === 1 ? "" : "s"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {conflicts.map((conflict) => (
+                    <li key={`${conflict.kind}-${conflict.driverId}-${conflict.date}`} className={conflict.kind === "double_booked" ? "text-red-700" : "text-amber-700"}>
+                      {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <TripLogModal
+        open={tripPrefill !== null}
+        onOpenChange={(open) => !open && setTripPrefill(null)}
+        prefill={tripPrefill}
+      />
+    </div>
+  );
+}
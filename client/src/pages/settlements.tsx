@@ -1,9 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Lock, Unlock } from "lucide-react";
 import { Table, TableHead, TableHeader, TableRow, TableBody, TableCell } from "@/components/ui/table";
 import {
   AlertDialog,
@@ -20,9 +27,12 @@ const inr = (n:number)=> new Intl.NumberFormat("en-IN",{style:"currency",currenc
 const fmt = (iso:string)=> new Date(iso).toLocaleDateString("en-GB");
 
 type Key = string; // `${weekStart}-${weekEnd}`
+type LockAction = { mode: "close" | "reopen"; weekStart: string; weekEnd: string };
 
 export default function SettlementsPage() {
   const qc = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
   const { data, isLoading, error } = useQuery({ queryKey:["settlements"], queryFn: () => api.getSettlements() });
   const rows = data?.items ?? [];
 
@@ -34,6 +44,10 @@ export default function SettlementsPage() {
   // Confirmation dialog states
   const [saveConfirm, setSaveConfirm] = useState<{ weekStart: string; weekEnd: string } | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<{ weekStart: string; weekEnd: string } | null>(null);
+  const [lockAction, setLockAction] = useState<LockAction | null>(null);
+  const [lockReason, setLockReason] = useState("");
+
+  const onError = (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" });
 
   const mSave = useMutation({
     mutationFn: api.saveSettlement,
@@ -43,10 +57,23 @@ export default function SettlementsPage() {
       setDraftCW("");
       qc.invalidateQueries({ queryKey:["settlements"] });
     },
+    onError,
   });
   const mDel = useMutation({
     mutationFn: ({weekStart, weekEnd}:{weekStart:string; weekEnd:string}) => api.deleteSettlement(weekStart, weekEnd),
     onSuccess: () => qc.invalidateQueries({ queryKey:["settlements"] }),
+    onError,
+  });
+  const mLock = useMutation({
+    mutationFn: ({ mode, ...p }: LockAction & { reason: string }) => mode === "close" ? api.closeWeek(p) : api.reopenWeek(p),
+    onSuccess: (_, { mode }) => {
+      setLockAction(null);
+      setLockReason("");
+      qc.invalidateQueries({ queryKey:["settlements"] });
+      qc.invalidateQueries({ queryKey:["/api/settlements/closed-weeks"] });
+      toast({ title: mode === "close" ? "Week closed" : "Week reopened" });
+    },
+    onError,
   });
 
   const onEdit = (key: Key, crInit: number | null, cwInit: number | null) => {
@@ -84,33 +111,53 @@ export default function SettlementsPage() {
           <TableHeader>
             <TableRow>
               <TableHead>Week</TableHead>
+              <TableHead>Status</TableHead>
               <TableHead className="text-right">Rent</TableHead>
               <TableHead className="text-right">Wallet</TableHead>
               <TableHead className="text-right">Company Rent</TableHead>
               <TableHead className="text-right">Company Wallet</TableHead>
+              <TableHead className="text-right">Wallet Deduction</TableHead>
               <TableHead className="text-right">Room Rent</TableHead>
               <TableHead className="text-right">Profit</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {isLoading && <TableRow><TableCell colSpan={8}>Loading…</TableCell></TableRow>}
-            {error && <TableRow><TableCell colSpan={8}>Failed to load.</TableCell></TableRow>}
-            {!isLoading && rows.length===0 && <TableRow><TableCell colSpan={8}>No data.</TableCell></TableRow>}
+            {isLoading && <TableRow><TableCell colSpan={10}>Loading…</TableCell></TableRow>}
+            {error && <TableRow><TableCell colSpan={10}>Failed to load.</TableCell></TableRow>}
+            {!isLoading && rows.length===0 && <TableRow><TableCell colSpan={10}>No data.</TableCell></TableRow>}
 
             {rows.map(r => {
               const key: Key = `${r.weekStart}-${r.weekEnd}`;
               const editing = editingKey === key;
+              const closed = r.lock.closedAt != null;
 
               // profit should use edited values in edit mode, else saved values
               const canCalc = editing ? (draftCR!=="" && draftCW!=="") : (r.companyRent!=null && r.companyWallet!=null);
               const profit = canCalc
-                ? (r.rent - r.wallet - Number(editing?draftCR:(r.companyRent||0)) + Number(editing?draftCW:(r.companyWallet||0)) - r.roomRent)
+                ? (r.rent - r.wallet - Number(editing?draftCR:(r.companyRent||0)) + Number(editing?draftCW:(r.companyWallet||0)) - r.walletDeduction - r.roomRent)
                 : null;
 
               return (
                 <TableRow key={key}>
-                  <TableCell>{fmt(r.weekStart)} – {fmt(r.weekEnd)}</TableCell>
+                  <TableCell>
+                    {fmt(r.weekStart)} – {fmt(r.weekEnd)}
+                    {r.settlementDates.length > 0 && (
+                      <div className="text-xs text-gray-500">Settles {r.settlementDates.map(fmt).join(", ")}</div>
+                    )}
+                  </TableCell>
+
+                  <TableCell>
+                    {closed ? (
+                      <Badge variant="secondary" className="bg-gray-800 text-white" title={`Closed by ${r.lock.closedBy}: ${r.lock.closeReason}`}>
+                        <Lock className="w-3 h-3 mr-1" />Closed
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" title={r.lock.reopenedAt ? `Reopened by ${r.lock.reopenedBy}: ${r.lock.reopenReason}` : undefined}>
+                        {r.lock.reopenedAt ? "Reopened" : "Open"}
+                      </Badge>
+                    )}
+                  </TableCell>
 
                   <TableCell className="text-right">
                     <span className="text-green-600 font-semibold">{inr(r.rent)}</span>
@@ -132,14 +179,25 @@ export default function SettlementsPage() {
                     ) : (r.companyWallet==null ? "—" : inr(r.companyWallet))}
                   </TableCell>
 
+                  <TableCell className="text-right">{inr(r.walletDeduction)}</TableCell>
+
                   <TableCell className="text-right">{inr(r.roomRent)}</TableCell>
 
                   <TableCell className="text-right">{profit==null ? "—" : inr(profit)}</TableCell>
 
                   <TableCell className="text-right space-x-2">
-                    {!editing ? (
+                    {closed ? (
+                      user?.role === "owner" && (
+                        <Button size="sm" variant="outline" onClick={()=>setLockAction({ mode:"reopen", weekStart:r.weekStart, weekEnd:r.weekEnd })} data-testid={`button-reopen-${r.weekStart}`}>
+                          <Unlock className="w-4 h-4 mr-1" />Reopen
+                        </Button>
+                      )
+                    ) : !editing ? (
                       <>
                         <Button size="sm" variant="outline" onClick={()=>onEdit(key, r.companyRent, r.companyWallet)}>✎ Edit</Button>
+                        <Button size="sm" variant="outline" onClick={()=>setLockAction({ mode:"close", weekStart:r.weekStart, weekEnd:r.weekEnd })} data-testid={`button-close-${r.weekStart}`}>
+                          <Lock className="w-4 h-4 mr-1" />Close
+                        </Button>
                         <Button size="sm" variant="destructive" onClick={()=>setDeleteConfirm({ weekStart:r.weekStart, weekEnd:r.weekEnd })}>🗑 Delete</Button>
                       </>
                     ) : (
@@ -174,6 +232,40 @@ export default function SettlementsPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Close / Reopen Week Dialog */}
+      <Dialog open={lockAction !== null} onOpenChange={(open) => { if (!open) { setLockAction(null); setLockReason(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{lockAction?.mode === "close" ? "Close Week" : "Reopen Week"}</DialogTitle>
+            <DialogDescription>
+              {lockAction && (lockAction.mode === "close"
+                ? `Closing ${fmt(lockAction.weekStart)} – ${fmt(lockAction.weekEnd)} locks its trip logs, substitutes, weekly summaries and company figures. Only an owner can reopen it.`
+                : `Reopening ${fmt(lockAction.weekStart)} – ${fmt(lockAction.weekEnd)} allows its trip logs, substitutes and weekly summaries to be edited again.`)}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="lockReason">Reason</Label>
+            <Textarea
+              id="lockReason"
+              value={lockReason}
+              onChange={(e) => setLockReason(e.target.value)}
+              placeholder={lockAction?.mode === "close" ? "e.g. Settled with company on statement #123" : "e.g. Company revised the wallet amount"}
+              data-testid="input-lock-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => { setLockAction(null); setLockReason(""); }}>Cancel</Button>
+            <Button
+              onClick={() => lockAction && mLock.mutate({ ...lockAction, reason: lockReason })}
+              disabled={!lockReason.trim() || mLock.isPending}
+              data-testid="button-confirm-lock"
+            >
+              {lockAction?.mode === "close" ? "Close Week" : "Reopen Week"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteConfirm !== null} onOpenChange={() => setDeleteConfirm(null)}>
         <AlertDialogContent>
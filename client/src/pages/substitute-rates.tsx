@@ -0,0 +1,489 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, type SubstituteRateCard, type SubstituteRateCardInput, type Holiday, type Company } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format, parseISO } from "date-fns";
+import { Plus, Edit, Trash2, X } from "lucide-react";
+
+const inr = (n: number) => new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n || 0);
+
+const ANY = "any";
+
+interface BandDraft {
+  maxHours: string;
+  charge: string;
+}
+
+interface CardForm {
+  companyId: string;
+  vehicleId: string;
+  weekendPremium: string;
+  holidayPremium: string;
+  notes: string;
+  bands: BandDraft[];
+}
+
+const emptyForm = (): CardForm => ({
+  companyId: ANY,
+  vehicleId: ANY,
+  weekendPremium: "0",
+  holidayPremium: "0",
+  notes: "",
+  bands: [{ maxHours: "", charge: "" }],
+});
+
+const isDefaultCard = (card: SubstituteRateCard) => !card.companyId && !card.vehicleId;
+
+const scopeLabel = (card: SubstituteRateCard) =>
+  card.vehicleId ? `Vehicle ${card.vehicleNumber ?? `#${card.vehicleId}`}`
+    : card.companyId ? `Company ${card.companyName ?? `#${card.companyId}`}`
+      : "Fleet default";
+
+export default function SubstituteRatesPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<SubstituteRateCard | null>(null);
+  const [formData, setFormData] = useState<CardForm>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<SubstituteRateCard | null>(null);
+  const [holidayForm, setHolidayForm] = useState({ date: "", name: "" });
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canEdit = !!user && canAccessApi(user.role, "POST", "/api/substitute-rates");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/substitute-rates"],
+    queryFn: () => api.getSubstituteRates(),
+  });
+  const cards = data?.cards ?? [];
+  const holidays = data?.holidays ?? [];
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ["/api/vehicles"],
+    queryFn: () => api.getVehicles(),
+  });
+
+  // Default first, then company overrides, then vehicle overrides
+  const sortedCards = [...cards].sort((a, b) =>
+    Number(!!a.vehicleId) - Number(!!b.vehicleId)
+    || Number(!!a.companyId) - Number(!!b.companyId)
+    || scopeLabel(a).localeCompare(scopeLabel(b)));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/substitute-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/substitute-rates/quote"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, card }: { id: number | null; card: SubstituteRateCardInput }) =>
+      id ? api.updateSubstituteRateCard(id, card) : api.createSubstituteRateCard(card),
+    onSuccess: (_, { id }) => {
+      invalidate();
+      setIsFormOpen(false);
+      setEditing(null);
+      setFormData(emptyForm());
+      toast({ title: "Success", description: id ? "Rate card updated" : "Rate card added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteSubstituteRateCard,
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Rate card deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: api.createHoliday,
+    onSuccess: () => {
+      invalidate();
+      setHolidayForm({ date: "", name: "" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: api.deleteHoliday,
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(emptyForm());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (card: SubstituteRateCard) => {
+    setEditing(card);
+    setFormData({
+      companyId: card.companyId ? String(card.companyId) : ANY,
+      vehicleId: card.vehicleId ? String(card.vehicleId) : ANY,
+      weekendPremium: String(card.weekendPremium),
+      holidayPremium: String(card.holidayPremium),
+      notes: card.notes || "",
+      bands: card.bands.map((band) => ({ maxHours: String(band.maxHours), charge: String(band.charge) })),
+    });
+    setIsFormOpen(true);
+  };
+
+  const updateBand = (index: number, field: keyof BandDraft, value: string) => {
+    setFormData({
+      ...formData,
+      bands: formData.bands.map((band, i) => (i === index ? { ...band, [field]: value } : band)),
+    });
+  };
+
+  const handleSave = () => {
+    const editingDefault = !!editing && isDefaultCard(editing);
+    if (!editingDefault && formData.companyId === ANY && formData.vehicleId === ANY) {
+      toast({ title: "Error", description: "Pick the company or vehicle this card overrides", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      id: editing?.id ?? null,
+      card: {
+        companyId: formData.companyId === ANY ? null : Number(formData.companyId),
+        vehicleId: formData.vehicleId === ANY ? null : Number(formData.vehicleId),
+        weekendPremium: Number(formData.weekendPremium) || 0,
+        holidayPremium: Number(formData.holidayPremium) || 0,
+        notes: formData.notes || undefined,
+        bands: formData.bands.map((band) => ({
+          maxHours: Number(band.maxHours) || 0,
+          charge: Number(band.charge) || 0,
+        })),
+      },
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Substitute Rates</h1>
+              <p className="text-sm text-gray-500">
+                A shift is charged at the smallest band covering its hours, plus the weekend or holiday premium. A vehicle's own card wins over its company's, which wins over the fleet default.
+              </p>
+            </div>
+            {canEdit && (
+              <Button onClick={openCreate} data-testid="button-add-rate-card">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Override
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div>Loading rate cards...</div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {sortedCards.map((card) => (
+                <Card key={card.id} data-testid={`card-rate-card-${card.id}`}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <div className="space-y-1">
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        {scopeLabel(card)}
+                        {isDefaultCard(card) && <Badge variant="secondary">Default</Badge>}
+                      </CardTitle>
+                      <p className="text-sm text-gray-500">
+                        Weekend +{inr(card.weekendPremium)} · Holiday +{inr(card.holidayPremium)}
+                        {card.notes ? ` · ${card.notes}` : ""}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openEdit(card)} data-testid={`button-edit-rate-card-${card.id}`}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        {!isDefaultCard(card) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDeleteConfirm(card)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-rate-card-${card.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Shift Hours</TableHead>
+                          <TableHead className="text-right">Charge</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {card.bands.map((band, index) => (
+                          <TableRow key={band.maxHours}>
+                            <TableCell>
+                              {index === 0 ? `Up to ${band.maxHours}` : `${card.bands[index - 1].maxHours + 1} – ${band.maxHours}`}
+                            </TableCell>
+                            <TableCell className="text-right">{inr(band.charge)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Holidays</CardTitle>
+              <p className="text-sm text-gray-500">Shifts on these dates get the holiday premium instead of the weekend one.</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {canEdit && (
+                <div className="flex items-end gap-2">
+                  <div>
+                    <Label htmlFor="holidayDate">Date</Label>
+                    <Input
+                      id="holidayDate"
+                      type="date"
+                      value={holidayForm.date}
+                      onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <Label htmlFor="holidayName">Name</Label>
+                    <Input
+                      id="holidayName"
+                      value={holidayForm.name}
+                      placeholder="e.g., Diwali"
+                      onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => addHolidayMutation.mutate(holidayForm)}
+                    disabled={!holidayForm.date || !holidayForm.name.trim() || addHolidayMutation.isPending}
+                    data-testid="button-add-holiday"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Holiday
+                  </Button>
+                </div>
+              )}
+              {holidays.length === 0 ? (
+                <p className="text-sm text-gray-500">No holidays recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holidays.map((holiday: Holiday) => (
+                      <TableRow key={holiday.id} data-testid={`row-holiday-${holiday.id}`}>
+                        <TableCell>{format(parseISO(holiday.date), "EEE, MMM dd yyyy")}</TableCell>
+                        <TableCell>{holiday.name}</TableCell>
+                        <TableCell className="text-right">
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                              disabled={deleteHolidayMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogContent className="max-w-xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {editing ? `Edit ${scopeLabel(editing)} Rates` : "Add Rate Override"}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                {!(editing && isDefaultCard(editing)) && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="rateCardCompany">Company</Label>
+                      <Select
+                        value={formData.companyId}
+                        onValueChange={(value) => setFormData({ ...formData, companyId: value, vehicleId: value === ANY ? formData.vehicleId : ANY })}
+                      >
+                        <SelectTrigger id="rateCardCompany">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>—</SelectItem>
+                          {companies.map((company) => (
+                            <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="rateCardVehicle">Or Vehicle</Label>
+                      <Select
+                        value={formData.vehicleId}
+                        onValueChange={(value) => setFormData({ ...formData, vehicleId: value, companyId: value === ANY ? formData.companyId : ANY })}
+                      >
+                        <SelectTrigger id="rateCardVehicle">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>—</SelectItem>
+                          {vehicles.map((vehicle) => (
+                            <SelectItem key={vehicle.id} value={String(vehicle.id)}>{vehicle.vehicleNumber}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="weekendPremium">Weekend Premium (₹)</Label>
+                    <Input
+                      id="weekendPremium"
+                      type="number"
+                      min={0}
+                      value={formData.weekendPremium}
+                      onChange={(e) => setFormData({ ...formData, weekendPremium: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="holidayPremium">Holiday Premium (₹)</Label>
+                    <Input
+                      id="holidayPremium"
+                      type="number"
+                      min={0}
+                      value={formData.holidayPremium}
+                      onChange={(e) => setFormData({ ...formData, holidayPremium: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="rateCardNotes">Notes</Label>
+                  <Input
+                    id="rateCardNotes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm font-medium text-gray-600">
+                    <span>Up To Hours</span>
+                    <span>Charge (₹)</span>
+                    <span className="w-9" />
+                  </div>
+                  {formData.bands.map((band, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                      <Input type="number" min={1} max={24} value={band.maxHours} onChange={(e) => updateBand(index, "maxHours", e.target.value)} />
+                      <Input type="number" min={0} value={band.charge} onChange={(e) => updateBand(index, "charge", e.target.value)} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFormData({ ...formData, bands: formData.bands.filter((_, i) => i !== index) })}
+                        disabled={formData.bands.length === 1}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData({ ...formData, bands: [...formData.bands, { maxHours: "", charge: "" }] })}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Band
+                  </Button>
+                  <p className="text-xs text-gray-500">Shifts longer than the last band cannot be recorded against this card.</p>
+                </div>
+
+                <Button onClick={handleSave} disabled={saveMutation.isPending} className="w-full" data-testid="button-save-rate-card">
+                  {saveMutation.isPending ? "Saving..." : editing ? "Update Rates" : "Add Override"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={deleteConfirm !== null} onOpenChange={() => setDeleteConfirm(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete Rate Override</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deleteConfirm && `Delete the ${scopeLabel(deleteConfirm)} rates? Its substitute shifts will be priced by the next card up. Shifts already recorded keep their charge.`}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (deleteConfirm) {
+                      deleteMutation.mutate(deleteConfirm.id);
+                      setDeleteConfirm(null);
+                    }
+                  }}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addMonths, endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { api, type Substitute, type SubstituteInput } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canAccessApi } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Pencil, Plus } from "lucide-react";
+
+// Agreed rates replace the rate card's band charge; premiums still apply on top
+const RATE_FIELDS = [
+  { key: "rate6h", label: "Up to 6h" },
+  { key: "rate8h", label: "Up to 8h" },
+  { key: "rate12h", label: "Longer" },
+] as const;
+
+interface SubstituteForm {
+  name: string;
+  phone: string;
+  rate6h: string;
+  rate8h: string;
+  rate12h: string;
+  active: boolean;
+  notes: string;
+}
+
+const emptyForm = (name = ""): SubstituteForm => ({
+  name, phone: "", rate6h: "", rate8h: "", rate12h: "", active: true, notes: "",
+});
+
+const inr = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+const parseRate = (value: string) => (value.trim() === "" ? null : parseInt(value));
+
+export default function SubstitutesPage() {
+  const [month, setMonth] = useState(() => format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<Substitute | null>(null);
+  const [form, setForm] = useState<SubstituteForm | null>(null);
+  const [linkNames, setLinkNames] = useState<string[]>([]); // names to link once a new substitute is saved
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const canEdit = !!user && canAccessApi(user.role, "POST", "/api/substitutes");
+  const from = month;
+  const to = format(endOfMonth(parseISO(month)), "yyyy-MM-dd");
+
+  const { data: substitutes = [], isLoading } = useQuery({
+    queryKey: ["/api/substitutes", from, to],
+    queryFn: () => api.getSubstitutes({ from, to }),
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ["/api/substitutes", selectedId, "shifts", from, to],
+    queryFn: () => api.getSubstituteHistory(selectedId!, { from, to }),
+    enabled: selectedId !== null,
+  });
+
+  const { data: unlinked = [] } = useQuery({
+    queryKey: ["/api/substitutes/unlinked"],
+    queryFn: () => api.getUnlinkedSubstituteNames(),
+  });
+
+  const monthPaid = substitutes.reduce((sum, substitute) => sum + substitute.paid, 0);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (q) => {
+      const k = q.queryKey[0];
+      return typeof k === "string" && (k.startsWith("/api/substitutes") || k.startsWith("/api/substitute-drivers"));
+    }});
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const closeDialog = () => {
+    setForm(null);
+    setEditing(null);
+    setLinkNames([]);
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: ({ id, names }: { id: number; names: string[] }) => api.linkSubstituteShifts(id, names),
+    onSuccess: (result) => {
+      refresh();
+      toast({ title: "Success", description: `Linked ${result.linked} shift${result.linked === 1 ? "" : "s"}` });
+    },
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (values: SubstituteInput) =>
+      editing ? api.updateSubstitute(editing.id, values) : api.createSubstitute(values),
+    onSuccess: (substitute) => {
+      if (linkNames.length > 0) {
+        linkMutation.mutate({ id: substitute.id, names: linkNames });
+      }
+      refresh();
+      toast({ title: "Success", description: editing ? "Substitute updated" : "Substitute added" });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteSubstitute(id),
+    onSuccess: () => {
+      refresh();
+      if (editing && selectedId === editing.id) setSelectedId(null);
+      toast({ title: "Success", description: "Substitute deleted" });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const openEdit = (substitute: Substitute) => {
+    setEditing(substitute);
+    setForm({
+      name: substitute.name,
+      phone: substitute.phone ?? "",
+      rate6h: substitute.rate6h?.toString() ?? "",
+      rate8h: substitute.rate8h?.toString() ?? "",
+      rate12h: substitute.rate12h?.toString() ?? "",
+      active: substitute.active,
+      notes: substitute.notes ?? "",
+    });
+  };
+
+  const submit = () => {
+    if (!form) return;
+    saveMutation.mutate({
+      name: form.name,
+      phone: form.phone,
+      rate6h: parseRate(form.rate6h),
+      rate8h: parseRate(form.rate8h),
+      rate12h: parseRate(form.rate12h),
+      active: form.active,
+      notes: form.notes,
+    });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Substitutes</h1>
+              <p className="text-sm text-gray-500">
+                The people who cover shifts, their agreed rates, and what each was paid in the month.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMonth(format(addMonths(parseISO(month), -1), "yyyy-MM-dd"))} data-testid="button-prev-month">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm font-medium w-28 text-center">{format(parseISO(month), "MMMM yyyy")}</span>
+              <Button variant="outline" size="sm" onClick={() => setMonth(format(addMonths(parseISO(month), 1), "yyyy-MM-dd"))} data-testid="button-next-month">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              {canEdit && (
+                <Button size="sm" onClick={() => setForm(emptyForm())} data-testid="button-add-substitute">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Substitute
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {substitutes.length} substitute{substitutes.length === 1 ? "" : "s"}
+                {monthPaid > 0 && <span className="text-base font-normal text-gray-500"> · {inr(monthPaid)} paid this month</span>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading substitutes...</div>
+              ) : substitutes.length === 0 ? (
+                <p className="text-sm text-gray-500">No substitutes in the registry yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Agreed Rates (≤6h / ≤8h / longer)</TableHead>
+                      <TableHead className="text-right">Shifts</TableHead>
+                      <TableHead className="text-right">Trips</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead>Last Shift</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {substitutes.map((substitute) => (
+                      <TableRow
+                        key={substitute.id}
+                        className={`cursor-pointer ${selectedId === substitute.id ? "bg-blue-50" : ""}`}
+                        onClick={() => setSelectedId(substitute.id)}
+                        data-testid={`row-substitute-${substitute.id}`}
+                      >
+                        <TableCell className="font-medium">
+                          {substitute.name}
+                          {!substitute.active && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                        </TableCell>
+                        <TableCell>{substitute.phone ?? "—"}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {RATE_FIELDS.map(({ key }) => (
+                            <span key={key} className={substitute[key] === null ? "text-gray-400" : ""}>
+                              {substitute[key] === null ? "card" : inr(substitute[key]!)}
+                              {key !== "rate12h" && " / "}
+                            </span>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right">{substitute.shifts || "—"}</TableCell>
+                        <TableCell className="text-right">{substitute.trips || "—"}</TableCell>
+                        <TableCell className="text-right font-semibold">{substitute.paid ? inr(substitute.paid) : "—"}</TableCell>
+                        <TableCell>{substitute.lastShift ? format(parseISO(substitute.lastShift), "MMM dd") : "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => { e.stopPropagation(); openEdit(substitute); }}
+                              data-testid={`button-edit-substitute-${substitute.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {history && selectedId !== null && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {history.substitute.name} — {format(parseISO(month), "MMMM yyyy")}
+                  <span className="text-base font-normal text-gray-500">
+                    {" "}· {history.totals.shifts} shift{history.totals.shifts === 1 ? "" : "s"}, {history.totals.trips} trips, {inr(history.totals.paid)}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.shifts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No shifts this month</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Vehicle</TableHead>
+                        <TableHead>Shift</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">Trips</TableHead>
+                        <TableHead className="text-right">Charge</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {history.shifts.map((shift) => (
+                        <TableRow key={shift.id}>
+                          <TableCell>{format(new Date(shift.date), "MMM dd, yyyy")}</TableCell>
+                          <TableCell>{shift.vehicleNumber}</TableCell>
+                          <TableCell>{shift.shift === "morning" ? "Morning" : "Evening"}</TableCell>
+                          <TableCell className="text-right">{shift.shiftHours}</TableCell>
+                          <TableCell className="text-right">{shift.tripCount}</TableCell>
+                          <TableCell className="text-right">{inr(shift.charge)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {unlinked.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Unlinked Names</CardTitle>
+                <p className="text-sm text-gray-500">
+                  Names typed on shifts recorded before the registry. Link each spelling to the person it belongs to.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name on Shifts</TableHead>
+                      <TableHead className="text-right">Shifts</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      {canEdit && <TableHead className="w-72">Link To</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unlinked.map((row) => (
+                      <TableRow key={row.name}>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell className="text-right">{row.shifts}</TableCell>
+                        <TableCell className="text-right">{inr(row.paid)}</TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <Select
+                              value=""
+                              onValueChange={(value) => {
+                                if (value === "new") {
+                                  setLinkNames([row.name]);
+                                  setForm(emptyForm(row.name));
+                                } else {
+                                  linkMutation.mutate({ id: Number(value), names: [row.name] });
+                                }
+                              }}
+                            >
+                              <SelectTrigger data-testid={`select-link-${row.name}`}>
+                                <SelectValue placeholder="Choose substitute" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="new">New substitute named "{row.name}"</SelectItem>
+                                {substitutes.map((substitute) => (
+                                  <SelectItem key={substitute.id} value={String(substitute.id)}>{substitute.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Substitute" : "Add Substitute"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="substituteName">Name</Label>
+                <Input id="substituteName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="substitutePhone">Phone</Label>
+                <Input id="substitutePhone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              </div>
+              <div>
+                <Label>Agreed Rates</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {RATE_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <span className="text-xs text-gray-500">{label}</span>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder="Card rate"
+                        value={form[key]}
+                        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                        data-testid={`input-${key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave blank to pay the rate card's charge</p>
+              </div>
+              <div>
+                <Label htmlFor="substituteNotes">Notes</Label>
+                <Textarea id="substituteNotes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+              </div>
+              {editing && (
+                <div className="flex items-center gap-2">
+                  <Switch id="substituteActive" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+                  <Label htmlFor="substituteActive">Available for new shifts</Label>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            {editing && (
+              <Button
+                variant="destructive"
+                className="mr-auto"
+                onClick={() => deleteMutation.mutate(editing.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-substitute"
+              >
+                Delete
+              </Button>
+            )}
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button onClick={submit} disabled={saveMutation.isPending || !form?.name.trim()} data-testid="button-save-substitute">
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
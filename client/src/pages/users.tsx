@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, type AppUser, type UserInput } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS } from "@shared/permissions";
+import type { UserRole } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+interface UserForm {
+  username: string;
+  displayName: string;
+  password: string;
+  role: UserRole;
+  active: boolean;
+}
+
+const emptyForm = (): UserForm => ({
+  username: "",
+  displayName: "",
+  password: "",
+  role: "read_only",
+  active: true,
+});
+
+export default function UsersPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<UserForm>(emptyForm);
+  const [deleteConfirm, setDeleteConfirm] = useState<AppUser | null>(null);
+
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [], isLoading } = useQuery<AppUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number | null; data: UserInput }) =>
+      id ? api.updateUser(id, data) : api.createUser(data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setIsFormOpen(false);
+      setEditingId(null);
+      setFormData(emptyForm());
+      toast({ title: "Success", description: id ? "User updated successfully" : "User created successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteUser,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Success", description: "User deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (user: AppUser) => {
+    setEditingId(user.id);
+    setFormData({
+      username: user.username,
+      displayName: user.displayName,
+      password: "",
+      role: user.role,
+      active: user.active,
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSave = () => {
+    const data: UserInput = {
+      displayName: formData.displayName,
+      role: formData.role,
+      active: formData.active,
+      // Leaving the password blank while editing keeps the current one
+      ...(formData.password ? { password: formData.password } : {}),
+    };
+    if (!editingId) data.username = formData.username;
+    saveMutation.mutate({ id: editingId, data });
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <main className="flex-1 p-6 overflow-auto">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+            <Button onClick={openCreate} data-testid="button-add-user">
+              <Plus className="w-4 h-4 mr-2" />
+              Add User
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Dashboard Users</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div>Loading users...</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Username</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Last Login</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((user) => (
+                      <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                        <TableCell className="font-medium font-mono">{user.username}</TableCell>
+                        <TableCell>{user.displayName}</TableCell>
+                        <TableCell>{ROLE_LABELS[user.role]}</TableCell>
+                        <TableCell>
+                          {user.active ? (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800">Active</Badge>
+                          ) : (
+                            <Badge variant="secondary">Disabled</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Never"}</TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => openEdit(user)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setDeleteConfirm(user)}
+                              disabled={deleteMutation.isPending || user.id === currentUser?.id}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Create / Edit Dialog */}
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingId ? "Edit User" : "Add User"}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="userUsername">Username</Label>
+                  <Input
+                    id="userUsername"
+                    value={formData.username}
+                    onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                    disabled={editingId !== null}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="userDisplayName">Display Name</Label>
+                  <Input
+                    id="userDisplayName"
+                    value={formData.displayName}
+                    onChange={(e) => setFormData({ ...formData, displayName: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="userPassword">{editingId ? "New Password (leave blank to keep)" : "Password"}</Label>
+                  <Input
+                    id="userPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="userRole">Role</Label>
+                  <Select value={formData.role} onValueChange={(value: UserRole) => setFormData({ ...formData, role: value })}>
+                    <SelectTrigger id="userRole">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="userActive"
+                    checked={formData.active}
+                    onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                  />
+                  <Label htmlFor="userActive">Active (can log in)</Label>
+                </div>
+                <Button onClick={handleSave} disabled={saveMutation.isPending} className="w-full" data-testid="button-save-user">
+                  {saveMutation.isPending ? "Saving..." : editingId ? "Update User" : "Create User"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <AlertDialog open={deleteConfirm !== null} onOpenChange={() => setDeleteConfirm(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Confirm Delete User</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {deleteConfirm && `Are you sure you want to delete ${deleteConfirm.username}? They will no longer be able to log in.`}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (deleteConfirm) {
+                      deleteMutation.mutate(deleteConfirm.id);
+                      setDeleteConfirm(null);
+                    }
+                  }}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </main>
+    </div>
+  );
+}
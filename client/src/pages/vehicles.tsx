@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@/lib/api";
+import { api, type Company, type VehicleCompliance } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,14 +19,17 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Plus, Edit, Trash2, Wrench, FileText } from "lucide-react";
 import Sidebar from "@/components/Sidebar";
+import MaintenanceDialog from "@/components/MaintenanceDialog";
+import VehicleDocumentsDialog, { ComplianceBadge } from "@/components/VehicleDocumentsDialog";
 
 interface Vehicle {
   id: number;
   vehicleNumber: string;
   qrCode?: string;
-  company: "PMV" | "Letzryd";
+  companyId: number;
+  companyName: string | null;
   purchasedDate: string;
   droppedDate?: string;
   createdAt: string;
@@ -40,7 +43,7 @@ export default function VehiclesPage() {
   const [formData, setFormData] = useState({
     vehicleNumber: "",
     qrCode: "",
-    company: "PMV" as "PMV" | "Letzryd",
+    companyId: "",
     purchasedDate: new Date().toISOString().split('T')[0],
     droppedDate: "",
   });
@@ -48,6 +51,8 @@ export default function VehiclesPage() {
   // Confirmation dialog states
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [updateConfirm, setUpdateConfirm] = useState(false);
+  const [maintenanceVehicle, setMaintenanceVehicle] = useState<Vehicle | null>(null);
+  const [documentsVehicle, setDocumentsVehicle] = useState<Vehicle | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -56,12 +61,25 @@ export default function VehiclesPage() {
     queryKey: ["/api/vehicles"],
   });
 
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const { data: compliance = [] } = useQuery<VehicleCompliance[]>({
+    queryKey: ["/api/vehicle-compliance"],
+    queryFn: api.getVehicleCompliance,
+  });
+
+  // Inactive companies stay selectable only for vehicles already leased from them
+  const selectableCompanies = (currentId?: string) =>
+    companies.filter(c => c.active || String(c.id) === currentId);
+
   const createMutation = useMutation({
     mutationFn: api.createVehicle,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
       setIsCreateOpen(false);
-      setFormData({ vehicleNumber: "", qrCode: "", company: "PMV", purchasedDate: new Date().toISOString().split('T')[0], droppedDate: "" });
+      setFormData({ vehicleNumber: "", qrCode: "", companyId: "", purchasedDate: new Date().toISOString().split('T')[0], droppedDate: "" });
       toast({ title: "Success", description: "Vehicle created successfully" });
     },
     onError: () => {
@@ -94,10 +112,14 @@ export default function VehiclesPage() {
   });
 
   const handleCreate = () => {
+    if (!formData.companyId) {
+      toast({ title: "Error", description: "Select the leasing company", variant: "destructive" });
+      return;
+    }
     const dataToSend = {
       vehicleNumber: formData.vehicleNumber,
       qrCode: formData.qrCode || undefined,
-      company: formData.company,
+      companyId: Number(formData.companyId),
       purchasedDate: formData.purchasedDate,
     };
     createMutation.mutate(dataToSend);
@@ -108,7 +130,7 @@ export default function VehiclesPage() {
     setFormData({
       vehicleNumber: vehicle.vehicleNumber,
       qrCode: vehicle.qrCode || "",
-      company: vehicle.company,
+      companyId: String(vehicle.companyId),
       purchasedDate: vehicle.purchasedDate,
       droppedDate: vehicle.droppedDate || "",
     });
@@ -125,6 +147,7 @@ export default function VehiclesPage() {
     if (editingVehicle) {
       const dataToSend = {
         ...formData,
+        companyId: Number(formData.companyId),
         qrCode: formData.qrCode || undefined,
         droppedDate: formData.droppedDate || null,
       };
@@ -179,13 +202,14 @@ export default function VehiclesPage() {
                   </div>
                   <div>
                     <Label htmlFor="company">Company</Label>
-                    <Select value={formData.company} onValueChange={(value: "PMV" | "Letzryd") => setFormData({ ...formData, company: value })}>
-                      <SelectTrigger>
-                        <SelectValue />
+                    <Select value={formData.companyId} onValueChange={(value) => setFormData({ ...formData, companyId: value })}>
+                      <SelectTrigger data-testid="select-vehicle-company">
+                        <SelectValue placeholder="Select company" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="PMV">PMV</SelectItem>
-                        <SelectItem value="Letzryd">Letzryd</SelectItem>
+                        {selectableCompanies().map((company) => (
+                          <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -223,6 +247,7 @@ export default function VehiclesPage() {
                       <TableHead>Company</TableHead>
                       <TableHead>Purchased</TableHead>
                       <TableHead>Dropped</TableHead>
+                      <TableHead>Compliance</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -231,11 +256,48 @@ export default function VehiclesPage() {
                       <TableRow key={vehicle.id}>
                         <TableCell className="font-medium">{vehicle.vehicleNumber}</TableCell>
                         <TableCell className="text-blue-600 font-mono">{vehicle.qrCode || "Not Set"}</TableCell>
-                        <TableCell>{vehicle.company}</TableCell>
+                        <TableCell>{vehicle.companyName ?? "—"}</TableCell>
                         <TableCell>{vehicle.purchasedDate ? new Date(vehicle.purchasedDate).toLocaleDateString() : "-"}</TableCell>
                         <TableCell>{vehicle.droppedDate ? new Date(vehicle.droppedDate).toLocaleDateString() : "-"}</TableCell>
+                        <TableCell>
+                          {(() => {
+                            const status = compliance.find((c) => c.vehicleId === vehicle.id);
+                            if (!status) return "-";
+                            const flagged = status.documents.filter((d) => d.status !== "valid").length;
+                            return (
+                              <button
+                                type="button"
+                                onClick={() => setDocumentsVehicle(vehicle)}
+                                className="flex items-center gap-2"
+                                title="Documents"
+                                data-testid={`button-compliance-${vehicle.id}`}
+                              >
+                                <ComplianceBadge status={status.status} />
+                                {flagged > 0 && <span className="text-xs text-gray-500">{flagged} of {status.documents.length}</span>}
+                              </button>
+                            );
+                          })()}
+                        </TableCell>
                         <TableCell>
                           <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setDocumentsVehicle(vehicle)}
+                              title="Documents"
+                              data-testid={`button-documents-${vehicle.id}`}
+                            >
+                              <FileText className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setMaintenanceVehicle(vehicle)}
+                              title="Maintenance"
+                              data-testid={`button-maintenance-${vehicle.id}`}
+                            >
+                              <Wrench className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -288,13 +350,14 @@ export default function VehiclesPage() {
                 </div>
                 <div>
                   <Label htmlFor="editCompany">Company</Label>
-                  <Select value={formData.company} onValueChange={(value: "PMV" | "Letzryd") => setFormData({ ...formData, company: value })}>
+                  <Select value={formData.companyId} onValueChange={(value) => setFormData({ ...formData, companyId: value })}>
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue placeholder="Select company" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="PMV">PMV</SelectItem>
-                      <SelectItem value="Letzryd">Letzryd</SelectItem>
+                      {selectableCompanies(formData.companyId).map((company) => (
+                        <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -366,6 +429,16 @@ export default function VehiclesPage() {
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
+
+          <MaintenanceDialog
+            vehicle={maintenanceVehicle}
+            onOpenChange={(open) => !open && setMaintenanceVehicle(null)}
+          />
+
+          <VehicleDocumentsDialog
+            vehicle={documentsVehicle}
+            onOpenChange={(open) => !open && setDocumentsVehicle(null)}
+          />
         </div>
       </main>
     </div>
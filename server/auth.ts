@@ -0,0 +1,175 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { loginSchema, type User, type PublicUser, type UserRole } from "@shared/schema";
+import { canAccessApi } from "@shared/permissions";
+import { requestContextMiddleware } from "./requestContext";
+
+const scryptAsync = promisify(scrypt);
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // one week
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const hashBuffer = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return hashBuffer.length === derived.length && timingSafeEqual(hashBuffer, derived);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash, ...rest } = user;
+  return rest;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret. Sessions will not survive a restart.");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Create the first owner account from ADMIN_USERNAME / ADMIN_PASSWORD when the
+ * users table is empty, so a fresh install can be logged into.
+ */
+async function ensureOwnerAccount() {
+  const existing = await storage.getAllUsers();
+  if (existing.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn("No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first owner account.");
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    passwordHash: await hashPassword(password),
+    displayName: "Owner",
+    role: "owner",
+  });
+  console.log(`Created owner account "${username}"`);
+}
+
+export async function setupAuth(app: Express) {
+  const PgStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    store: new PgStore({
+      pool,
+      tableName: "sessions",
+      createTableIfMissing: false,
+      ttl: SESSION_TTL_MS / 1000,
+    }),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(requestContextMiddleware);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !user.active || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deactivated user is logged out on their next request
+      done(null, user && user.active ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureOwnerAccount();
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+    req.body = parsed.data;
+
+    passport.authenticate("local", (error: any, user: PublicUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        await storage.updateUser(user.id, { lastLoginAt: new Date() });
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out" });
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+
+  // Everything else under /api needs a session and a role allowed for the route group
+  app.use("/api", requireRouteAccess);
+}
+
+function requireRouteAccess(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  if (!canAccessApi(req.user.role as UserRole, req.method, req.originalUrl.split("?")[0])) {
+    return res.status(403).json({ message: "You do not have permission to do this" });
+  }
+  next();
+}
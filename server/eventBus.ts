@@ -4,6 +4,15 @@ export type AppEventType =
   | "triplogs:changed"
   | "weeklysummary:changed"
   | "settlements:changed"
+  | "ledger:changed"
+  | "maintenance:changed"
+  | "documents:changed"
+  | "incidents:changed"
+  | "fuel:changed"
+  | "roster:changed"
+  | "leave:changed"
+  | "substitutes:changed"
+  | "compliance:warning"
   | "investments:changed";
 
 type AppEvent = { type: AppEventType; payload?: any };
@@ -1,6 +1,7 @@
 import { readFileSync } from 'fs';
 import { storage } from './storage.js';
 import { pool } from './db.js';
+import { ensureDefaultCompanies } from './utils/seedCompanies.js';
 
 async function importData() {
   try {
@@ -24,11 +25,14 @@ async function importData() {
     await pool.query('ALTER SEQUENCE driver_rent_logs_id_seq RESTART WITH 1');
     
     // Create some vehicles first
+    await ensureDefaultCompanies();
+    const pmv = (await storage.getCompanyByName('PMV'))!;
+    const letzryd = (await storage.getCompanyByName('Letzryd'))!;
     const vehicles = [
-      { vehicleNumber: 'KA01AB1234', company: 'PMV' as const },
-      { vehicleNumber: 'KA02CD5678', company: 'Letzryd' as const },
-      { vehicleNumber: 'KA03EF9012', company: 'PMV' as const },
-      { vehicleNumber: 'KA04GH3456', company: 'Letzryd' as const }
+      { vehicleNumber: 'KA01AB1234', companyId: pmv.id },
+      { vehicleNumber: 'KA02CD5678', companyId: letzryd.id },
+      { vehicleNumber: 'KA03EF9012', companyId: pmv.id },
+      { vehicleNumber: 'KA04GH3456', companyId: letzryd.id }
     ];
     
     for (const vehicle of vehicles) {
@@ -40,8 +44,7 @@ async function importData() {
     for (const driver of driversData) {
       await storage.createDriver({
         name: driver.name,
-        phone: driver.phone,
-        hasAccommodation: driver.has_accommodation
+        phone: driver.phone
       });
     }
     
@@ -1,5 +1,7 @@
 import { db } from "./db.js";
 import { vehicles, drivers, vehicleDriverAssignments, trips, driverRentLogs, substituteDrivers } from "../shared/schema.js";
+import { storage } from "./storage.js";
+import { ensureDefaultCompanies } from "./utils/seedCompanies.js";
 import fs from 'fs';
 import path from 'path';
 
@@ -24,12 +26,19 @@ async function importUserData() {
     await db.delete(vehicles);
     console.log('Cleared existing data');
 
-    // Import vehicles
+    // Import vehicles, leasing companies are matched by name
+    await ensureDefaultCompanies();
+    const companyIds = new Map((await storage.getAllCompanies()).map(c => [c.name, c.id]));
     for (const vehicle of vehiclesData) {
+      let companyId = companyIds.get(vehicle.company);
+      if (!companyId) {
+        companyId = (await storage.createCompany({ name: vehicle.company, settlementDay: "monday", walletDeduction: 0 })).id;
+        companyIds.set(vehicle.company, companyId);
+      }
       await db.insert(vehicles).values({
         id: vehicle.id,
         vehicleNumber: vehicle.vehicle_number,
-        company: vehicle.company as "PMV" | "Letzryd"
+        companyId
       });
     }
     console.log(`Imported ${vehiclesData.length} vehicles`);
@@ -39,8 +48,7 @@ async function importUserData() {
       await db.insert(drivers).values({
         id: driver.id,
         name: driver.name,
-        phone: driver.phone,
-        hasAccommodation: driver.has_accommodation
+        phone: driver.phone
       });
     }
     console.log(`Imported ${driversData.length} drivers`);
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+
+interface RequestContext {
+  req: Request;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Keeps the current request reachable from code that has no `req` in scope
+ * (storage), so writes can be attributed to the logged-in user.
+ */
+export function requestContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  requestContext.run({ req }, next);
+}
+
+/** The user making the current request, or null outside a request (scripts, background jobs). */
+export function getCurrentActor(): { id: number; name: string } | null {
+  const user = requestContext.getStore()?.req.user;
+  return user ? { id: user.id, name: user.displayName || user.username } : null;
+}
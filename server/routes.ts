@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
@@ -6,12 +6,51 @@ import {
   insertVehicleSchema, updateVehicleSchema, insertDriverSchema, updateDriverSchema, insertVehicleDriverAssignmentSchema,
   insertDriverRentLogSchema, insertSubstituteDriverSchema,
   upsertWeeklySummarySchema, insertInvestmentSchema, updateInvestmentSchema,
-  insertInvestmentReturnSchema, updateInvestmentReturnSchema
+  insertInvestmentReturnSchema, updateInvestmentReturnSchema, upsertSlabScheduleSchema,
+  insertCompanySchema, updateCompanySchema, insertUserSchema, updateUserSchema, auditLogQuerySchema,
+  weekLockSchema, insertDriverAdjustmentSchema, driverLedgerQuerySchema,
+  insertDriverPayoutSchema, voidDriverPayoutSchema, driverPayoutQuerySchema, insertDriverAdvanceSchema,
+  upsertDriverDepositSchema, insertDepositDeductionSchema,
+  insertAccommodationSchema, insertAccommodationAssignmentSchema, endAccommodationAssignmentSchema,
+  insertMaintenanceRecordSchema, upsertServiceIntervalSchema, insertVehicleDocumentSchema, DRIVER_DOCUMENT_KINDS,
+  insertIncidentSchema, incidentQuerySchema, insertFuelEntrySchema, fuelQuerySchema,
+  odometerReadingsSchema, handoverQuerySchema, odometerQuerySchema,
+  insertRosterEntrySchema, rosterQuerySchema, copyRosterWeekSchema,
+  insertDriverLeaveSchema, leaveQuerySchema,
+  insertSubstituteSchema, substituteQuerySchema, linkSubstituteShiftsSchema,
+  upsertSubstituteRateCardSchema, insertHolidaySchema, substituteQuoteQuerySchema, type UpsertSubstituteRateCard,
+  saveStatementColumnsSchema, statementImportSchema, tripImportPreviewSchema, tripImportCommitSchema,
+  insertDriverAliasSchema, insertVehicleAliasSchema, exportQuerySchema, importJobQuerySchema, IMPORT_KINDS,
+  type Driver, type UpsertWeeklySummary
 } from "@shared/schema";
-import { getRentalInfo, getAllSlabs, getDriverRent, getRentalRate } from "./services/rentalCalculator";
+import { getRentalInfo, getAllSlabs, getDriverRent, getRentalRate, getSettlementTerms } from "./services/rentalCalculator";
 import { calculateWeeklySettlement, processWeeklySettlement, processAllVehicleSettlements, generateDailyRentLogs } from "./services/settlementProcessor";
 import { resetAllSequences, checkSequenceSync } from "./utils/resetSequences";
+import { ensureDefaultCompanies } from "./utils/seedCompanies";
+import { ensureDefaultSubstituteRateCard } from "./utils/seedSubstituteRates";
+import { findClosedWeek, closedWeekContaining, closedWeekError } from "./services/weekLock";
+import { buildDriverLedger } from "./services/driverLedger";
+import { buildFinalSettlement } from "./services/finalSettlement";
+import { withSchedule, lastInstalmentDate, advanceDeductionsForRange } from "./services/driverAdvances";
+import { OPEN_ENDED, leaseRange, stayRange, changedCostRanges } from "./services/accommodation";
+import { buildServiceSchedule } from "./services/maintenance";
+import { buildComplianceReport, vehicleCompliance, startComplianceWatch } from "./services/vehicleCompliance";
+import { uploadBody, readUpload, saveUpload, removeUpload, resolveUpload } from "./services/uploads";
+import { licenceError, buildExpiringDocumentsReport } from "./services/driverKyc";
+import { resolveResponsibility, incidentValues, incidentChargesForRange } from "./services/incidents";
+import { fuelEntryValues, odometerError, buildFuelReport } from "./services/fuel";
+import { checkHandover, handoverContext, buildOdometerReport } from "./services/odometer";
+import { rosterConflicts, rosterDriverError, rosterClash, copyRosterWeek } from "./services/roster";
+import { leaveOverlap, leaveDaysForRange, buildIdleVehicleReport } from "./services/leave";
+import { quoteSubstituteCharge } from "./services/substituteRates";
+import { readStatementRows, type StatementWeekRow } from "./services/statementImport";
+import { planTripImport, tripImportWrites } from "./services/tripImport";
+import { readWorkbook, spreadsheetBody, writeWorkbook, XLSX_TYPE } from "./services/spreadsheets";
+import { buildExport } from "./services/exports";
+import { loadMatchers, normaliseDriverName, normaliseVehicleNumber, type NameMatchCandidate } from "./services/nameMatching";
+import { STATEMENT_PROFILES, STATEMENT_PROFILE_IDS, resolveStatementColumns } from "@shared/statementProfiles";
 import { bus, broadcast } from "./eventBus";
+import { setupAuth, hashPassword, toPublicUser } from "./auth";
 
 // Validation schemas
 const vehicleIdSchema = z.object({
@@ -32,7 +71,19 @@ function getWeekStart(date: Date): Date {
   return new Date(d.setDate(diff));
 }
 
+// Why a rate card's company or vehicle cannot be used, or null if they can
+async function rateCardScopeError(card: UpsertSubstituteRateCard): Promise<string | null> {
+  if (card.companyId && !(await storage.getCompany(card.companyId))) return "Unknown company";
+  if (card.vehicleId && !(await storage.getVehicle(card.vehicleId))) return "Unknown vehicle";
+  return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  await setupAuth(app);
+  await ensureDefaultCompanies();
+  await ensureDefaultSubstituteRateCard();
+  startComplianceWatch();
+
   // Server-Sent Events for real-time updates
   app.get("/api/events", (req, res) => {
     res.setHeader("Content-Type", "text/event-stream");
@@ -52,6 +103,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // User management routes
+  app.get("/api/users", async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch users", error: error.message });
+    }
+  });
+
+  app.post("/api/users", async (req, res) => {
+    try {
+      const { password, ...userData } = insertUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: "Username already exists", error: `A user named "${userData.username}" already exists.` });
+      }
+
+      const user = await storage.createUser({ ...userData, passwordHash: await hashPassword(password) });
+      res.status(201).json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid user data", error: error.message });
+    }
+  });
+
+  app.put("/api/users/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const { password, ...userData } = updateUserSchema.parse(req.body);
+
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Never leave the dashboard without an active owner
+      const losesOwner = existing.role === "owner" && existing.active &&
+        ((userData.role !== undefined && userData.role !== "owner") || userData.active === false);
+      if (losesOwner && (await storage.countActiveOwners()) <= 1) {
+        return res.status(400).json({ message: "Cannot remove the last owner", error: "Promote another user to owner first." });
+      }
+
+      const user = await storage.updateUser(id, {
+        ...userData,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update user", error: error.message });
+    }
+  });
+
+  app.delete("/api/users/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      if (req.user?.id === id) {
+        return res.status(400).json({ message: "Cannot delete your own account" });
+      }
+      const existing = await storage.getUser(id);
+      if (existing?.role === "owner" && existing.active && (await storage.countActiveOwners()) <= 1) {
+        return res.status(400).json({ message: "Cannot remove the last owner", error: "Promote another user to owner first." });
+      }
+
+      await storage.deleteUser(id);
+      res.json({ message: "User deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete user", error: error.message });
+    }
+  });
+
+  // Company routes
+  app.get("/api/companies", async (req, res) => {
+    try {
+      const companies = await storage.getAllCompanies();
+      res.json(companies);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch companies", error: error.message });
+    }
+  });
+
+  app.get("/api/companies/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const company = await storage.getCompany(id);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json(company);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid company ID", error: error.message });
+    }
+  });
+
+  app.post("/api/companies", async (req, res) => {
+    try {
+      const companyData = insertCompanySchema.parse(req.body);
+
+      if (await storage.getCompanyByName(companyData.name)) {
+        return res.status(400).json({ message: "Company already exists", error: `A company named "${companyData.name}" already exists.` });
+      }
+
+      const company = await storage.createCompany(companyData);
+      res.status(201).json(company);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid company data", error: error.message });
+    }
+  });
+
+  app.put("/api/companies/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const companyData = updateCompanySchema.parse(req.body);
+
+      if (companyData.name) {
+        const existing = await storage.getCompanyByName(companyData.name);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ message: "Company already exists", error: `A company named "${companyData.name}" already exists.` });
+        }
+      }
+
+      const company = await storage.updateCompany(id, companyData);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json(company);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update company", error: error.message });
+    }
+  });
+
+  app.delete("/api/companies/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      const vehicleCount = await storage.countVehiclesByCompany(id);
+      if (vehicleCount > 0) {
+        return res.status(400).json({
+          message: "Company is in use",
+          error: `${vehicleCount} vehicle(s) are leased from this company. Move them to another company or mark the company inactive instead.`
+        });
+      }
+
+      await storage.deleteCompany(id);
+      res.json({ message: "Company deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete company", error: error.message });
+    }
+  });
+
   // Vehicle routes
   app.get("/api/vehicles", async (req, res) => {
     try {
@@ -67,6 +268,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Creating vehicle with data:", req.body);
       const vehicleData = insertVehicleSchema.parse(req.body);
       console.log("Parsed vehicle data:", vehicleData);
+
+      if (!(await storage.getCompany(vehicleData.companyId))) {
+        return res.status(400).json({ message: "Invalid vehicle data", error: "Unknown company" });
+      }
       
       // Check QR code uniqueness if provided
       if (vehicleData.qrCode && vehicleData.qrCode.trim()) {
@@ -91,6 +296,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = vehicleIdSchema.parse(req.params);
       const vehicleData = updateVehicleSchema.parse(req.body);
+
+      if (vehicleData.companyId !== undefined && !(await storage.getCompany(vehicleData.companyId))) {
+        return res.status(400).json({ message: "Failed to update vehicle", error: "Unknown company" });
+      }
       
       // Check QR code uniqueness if provided (excluding current vehicle)
       if (vehicleData.qrCode && vehicleData.qrCode.trim()) {
@@ -223,213 +432,1643 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Vehicle-Driver assignment routes
-  app.post("/api/vehicle-assignments", async (req, res) => {
+  // Driver KYC documents (photo, licence, badge, ID proof), uploaded as the raw request body
+  app.get("/api/drivers/:id/documents", async (req, res) => {
     try {
-      const assignmentData = insertVehicleDriverAssignmentSchema.parse(req.body);
-      const assignment = await storage.createVehicleDriverAssignment(assignmentData);
-      res.status(201).json(assignment);
-    } catch (error) {
-      res.status(400).json({ message: "Invalid assignment data", error: error.message });
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documents = await storage.getDriverDocuments(id);
+      res.json(documents);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch driver documents", error: error.message });
     }
   });
 
-  app.get("/api/vehicles/:id/assignment", async (req, res) => {
+  app.post("/api/drivers/:id/documents", uploadBody, async (req, res) => {
     try {
       const { id } = vehicleIdSchema.parse(req.params);
-      const assignment = await storage.getVehicleDriverAssignment(id);
-      if (!assignment) {
-        return res.status(404).json({ message: "Assignment not found" });
+      const kind = z.enum(DRIVER_DOCUMENT_KINDS).parse(req.query.kind);
+
+      if (!(await storage.getDriver(id))) {
+        return res.status(404).json({ message: "Driver not found" });
       }
-      res.json(assignment);
-    } catch (error) {
-      res.status(400).json({ message: "Invalid vehicle ID", error: error.message });
+
+      const file = readUpload(req);
+      const filePath = await saveUpload(`driver-documents/${id}`, file);
+      const document = await storage.createDriverDocument(id, kind, { fileName: file.fileName, filePath, fileType: file.fileType });
+      res.status(201).json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to upload driver document", error: error.message });
     }
   });
 
-  // Driver rent log routes
-  app.post("/api/driver-rent-logs", async (req, res) => {
+  app.get("/api/drivers/:id/documents/:documentId/file", async (req, res) => {
     try {
-      // Convert date strings to Date objects before validation
-      const body = {
-        ...req.body,
-        date: new Date(req.body.date),
-        weekStart: new Date(req.body.weekStart),
-        weekEnd: new Date(req.body.weekEnd)
-      };
-      const rentLogData = insertDriverRentLogSchema.parse(body);
-      const rentLog = await storage.createDriverRentLog(rentLogData);
-      res.status(201).json(rentLog);
-    } catch (error) {
-      console.error("Driver rent log creation error:", error);
-      console.error("Request body:", req.body);
-      res.status(400).json({ message: "Invalid rent log data", error: error.message });
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentId = Number(req.params.documentId);
+
+      const document = await storage.getDriverDocument(documentId);
+      if (!document || document.driverId !== id) {
+        return res.status(404).json({ message: "Driver document not found" });
+      }
+
+      res.type(document.fileType);
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(document.fileName)}`);
+      res.sendFile(resolveUpload(document.filePath));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch driver document", error: error.message });
     }
   });
 
-  app.put("/api/driver-rent-logs/:id", async (req, res) => {
+  app.delete("/api/drivers/:id/documents/:documentId", async (req, res) => {
     try {
       const { id } = vehicleIdSchema.parse(req.params);
-      const body = {
-        ...req.body,
-      };
-      if (req.body.date) {
-        body.date = new Date(req.body.date);
-      }
-      if (req.body.weekStart) {
-        body.weekStart = new Date(req.body.weekStart);
-      }
-      if (req.body.weekEnd) {
-        body.weekEnd = new Date(req.body.weekEnd);
+      const documentId = Number(req.params.documentId);
+
+      const existing = await storage.getDriverDocument(documentId);
+      if (!existing || existing.driverId !== id) {
+        return res.status(404).json({ message: "Driver document not found" });
       }
-      const rentLog = await storage.updateDriverRentLog(id, body);
-      res.json(rentLog);
-    } catch (error) {
-      console.error("Driver rent log update error:", error);
-      res.status(400).json({ message: "Failed to update rent log", error: error.message });
+
+      await storage.deleteDriverDocument(documentId);
+      await removeUpload(existing.filePath);
+      res.json({ message: "Driver document deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete driver document", error: error.message });
     }
   });
 
-
-
-  app.get("/api/driver-rent-logs", async (req, res) => {
+  // Driver licences and badges plus vehicle documents that have expired or expire within ?days= (default 30)
+  app.get("/api/reports/expiring-documents", async (req, res) => {
     try {
-      const allRentLogs = await storage.getAllDriverRentLogs();
-      res.json(allRentLogs);
+      const { days } = z.object({ days: z.coerce.number().int().min(0).max(365).optional() }).parse(req.query);
+      const report = await buildExpiringDocumentsReport(days);
+      res.json(report);
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch all driver rent logs", error: error.message });
+      res.status(400).json({ message: "Failed to build expiring documents report", error: error.message });
     }
   });
 
-  // Alternative endpoint path for all rent logs
-  app.get("/api/driver-rent-logs/all", async (req, res) => {
+  // Accommodation routes
+  app.get("/api/accommodations", async (req, res) => {
     try {
-      const allRentLogs = await storage.getAllDriverRentLogs();
-      res.json(allRentLogs);
+      const accommodations = await storage.getAccommodations();
+      res.json(accommodations);
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch all driver rent logs", error: error.message });
+      res.status(500).json({ message: "Failed to fetch accommodations", error: error.message });
     }
   });
 
-  // Recent rent logs endpoint
-  app.get("/api/driver-rent-logs/recent/:limit", async (req, res) => {
+  app.post("/api/accommodations", async (req, res) => {
     try {
-      const limit = parseInt(req.params.limit) || 10;
-      const rentLogs = await storage.getRecentRentLogs(limit);
-      res.json(rentLogs);
+      const accommodationData = insertAccommodationSchema.parse(req.body);
+
+      if (await storage.getAccommodationByName(accommodationData.name)) {
+        return res.status(400).json({ message: "Accommodation already exists", error: `An accommodation named "${accommodationData.name}" already exists.` });
+      }
+
+      // The room's rent counts towards the weekly room cost of every week it is leased for
+      const closedWeek = await findClosedWeek(...leaseRange({ leaseStart: accommodationData.leaseStart, leaseEnd: accommodationData.leaseEnd ?? null }));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      const accommodation = await storage.createAccommodation(accommodationData);
+      broadcast("settlements:changed", {});
+      res.status(201).json(accommodation);
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch recent rent logs", error: error.message });
+      res.status(400).json({ message: "Invalid accommodation data", error: error.message });
     }
   });
 
-  // Vehicle weekly summary route
-  app.get("/api/vehicles/:id/weekly-summary", async (req, res) => {
+  app.put("/api/accommodations/:id", async (req, res) => {
     try {
       const { id } = vehicleIdSchema.parse(req.params);
-      
-      const vehicle = await storage.getVehicle(id);
-      if (!vehicle) {
-        return res.status(404).json({ message: "Vehicle not found" });
-      }
-
-      // Get weekly settlement data for profit calculation (current week)
-      const weekStartDate = req.query.weekStart ? new Date(req.query.weekStart as string) : new Date();
-      const weekStart = new Date(weekStartDate);
-      weekStart.setDate(weekStart.getDate() - weekStart.getDay() + 1); // Get Monday of current week
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6); // Get Sunday of current week
-      
-      // Get all rent logs and filter for this vehicle and week
-      const allRentLogs = await storage.getAllDriverRentLogs();
-      const weeklyRentLogs = allRentLogs.filter(log => {
-        const logDate = new Date(log.date);
-        return log.vehicleId === id && logDate >= weekStart && logDate <= weekEnd;
-      });
-      
-      // Get substitute drivers for this specific vehicle in this week
-      const weeklySubstituteDrivers = await storage.getSubstituteDriversByVehicleAndDateRange(id, weekStart, weekEnd);
-      
-      // Calculate total trips from rent logs + substitute driver trips (current week only)
-      const regularTrips = weeklyRentLogs.length;
-      const substituteTrips = weeklySubstituteDrivers.reduce((sum, sub) => sum + (sub.tripCount || 1), 0);
-      const totalTrips = regularTrips + substituteTrips;
+      const accommodationData = insertAccommodationSchema.parse(req.body);
 
-      
-      // Calculate total driver rent for this vehicle from rent logs
-      const totalActualDriverRent = weeklyRentLogs.reduce((sum, log) => sum + log.rent, 0);
-      
-      // Calculate total substitute charges for this vehicle
-      const totalSubstituteCharges = weeklySubstituteDrivers.reduce((sum, sub) => sum + sub.charge, 0);
-      
-      // Calculate total income for this vehicle = driver rent + substitute charges
-      const totalIncome = totalActualDriverRent + totalSubstituteCharges;
-      
-      // Calculate company rent based on total trips
-      const rentalRate = getRentalRate(vehicle.company as "PMV" | "Letzryd", totalTrips);
-      const totalRentToCompany = rentalRate * 7; // Weekly rent
-      
-      // Calculate actual profit: Total Income - Company Rent
-      const actualProfit = totalIncome - totalRentToCompany;
-      
-      // Use total trips for rental info calculation
-      const rentalInfo = getRentalInfo(vehicle.company as "PMV" | "Letzryd", totalTrips);
-      const assignment = await storage.getVehicleDriverAssignment(id);
-      
-      let morningDriver = null;
-      let eveningDriver = null;
-      
-      if (assignment?.morningDriverId) {
-        morningDriver = await storage.getDriver(assignment.morningDriverId);
+      const existing = await storage.getAccommodation(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Accommodation not found" });
       }
-      
-      if (assignment?.eveningDriverId) {
-        eveningDriver = await storage.getDriver(assignment.eveningDriverId);
+      const sameName = await storage.getAccommodationByName(accommodationData.name);
+      if (sameName && sameName.id !== id) {
+        return res.status(400).json({ message: "Accommodation already exists", error: `An accommodation named "${accommodationData.name}" already exists.` });
       }
 
-      const summary = {
-        vehicle,
-        totalTrips, // Current week trips only
-        rentalRate: rentalRate,
-        totalRentToCompany: totalRentToCompany,
-        totalDriverRent: totalActualDriverRent,
-        totalSubstituteCharges: totalSubstituteCharges,
-        totalIncome: totalIncome,
-        profit: actualProfit, // Use actual profit based on real rent logs
-        rentalInfo,
-        morningDriver,
-        eveningDriver,
-        weekStart: weekStart,
-        weekEnd: weekEnd,
-      };
+      for (const [start, end] of changedCostRanges(existing, accommodationData)) {
+        const closedWeek = await findClosedWeek(start, end);
+        if (closedWeek) {
+          return res.status(409).json(closedWeekError(closedWeek));
+        }
+      }
 
-      res.json(summary);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch vehicle summary", error: error.message });
+      const accommodation = await storage.updateAccommodation(id, accommodationData);
+      broadcast("settlements:changed", {});
+      res.json(accommodation);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update accommodation", error: error.message });
     }
   });
 
-  // Rental slab information route
-  app.get("/api/rental-slabs/:company", async (req, res) => {
+  app.delete("/api/accommodations/:id", async (req, res) => {
     try {
-      const company = req.params.company as "PMV" | "Letzryd";
-      if (company !== "PMV" && company !== "Letzryd") {
-        return res.status(400).json({ message: "Invalid company. Must be PMV or Letzryd" });
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      const existing = await storage.getAccommodation(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Accommodation not found" });
       }
-      
-      const slabs = getAllSlabs(company);
-      res.json(slabs);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch rental slabs", error: error.message });
+      const occupants = await storage.getAccommodationAssignments({ accommodationId: id });
+      if (occupants.length > 0) {
+        return res.status(400).json({
+          message: "Accommodation is in use",
+          error: `${occupants.length} driver assignment(s) reference this accommodation. End the lease instead so its history is kept.`
+        });
+      }
+      const closedWeek = await findClosedWeek(...leaseRange(existing));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      await storage.deleteAccommodation(id);
+      broadcast("settlements:changed", {});
+      res.json({ message: "Accommodation deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete accommodation", error: error.message });
     }
   });
 
-  // Weekly settlement routes
-  app.get("/api/settlements", async (req, res) => {
+  app.post("/api/accommodations/:id/assignments", async (req, res) => {
     try {
-      const items = await storage.listWeeklySettlements();
-      res.json({ items });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch settlements", error: error.message });
+      const { id } = vehicleIdSchema.parse(req.params);
+      const assignmentData = insertAccommodationAssignmentSchema.parse(req.body);
+      const endDate = assignmentData.endDate ?? null;
+
+      const accommodation = await storage.getAccommodation(id);
+      if (!accommodation) {
+        return res.status(404).json({ message: "Accommodation not found" });
+      }
+      if (!(await storage.getDriver(assignmentData.driverId))) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+
+      const [leaseStart, leaseEnd] = leaseRange(accommodation);
+      if (assignmentData.startDate < leaseStart || (endDate ?? OPEN_ENDED) > leaseEnd) {
+        return res.status(400).json({
+          message: "Outside the lease",
+          error: `${accommodation.name} is leased from ${leaseStart}${accommodation.leaseEnd ? ` to ${accommodation.leaseEnd}` : ""}; the stay must fall within it.`
+        });
+      }
+
+      const [driverStay] = await storage.findOverlappingAccommodationAssignments({ driverId: assignmentData.driverId }, assignmentData.startDate, endDate);
+      if (driverStay) {
+        return res.status(409).json({
+          message: "Driver already housed",
+          error: `The driver already has a room from ${driverStay.startDate}${driverStay.endDate ? ` to ${driverStay.endDate}` : ""}. End that stay first.`
+        });
+      }
+
+      const occupants = await storage.findOverlappingAccommodationAssignments({ accommodationId: id }, assignmentData.startDate, endDate);
+      if (occupants.length >= accommodation.capacity) {
+        return res.status(409).json({
+          message: "Accommodation is full",
+          error: `${accommodation.name} sleeps ${accommodation.capacity} and already has ${occupants.length} occupant(s) during this period.`
+        });
+      }
+
+      // The stay changes the driver's daily rent and the room cost of every week it covers
+      const closedWeek = await findClosedWeek(...stayRange(assignmentData));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      const assignment = await storage.createAccommodationAssignment(id, assignmentData);
+      res.status(201).json(assignment);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid accommodation assignment", error: error.message });
+    }
+  });
+
+  app.patch("/api/accommodations/:id/assignments/:assignmentId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const assignmentId = Number(req.params.assignmentId);
+      const { endDate } = endAccommodationAssignmentSchema.parse(req.body);
+
+      const existing = await storage.getAccommodationAssignment(assignmentId);
+      if (!existing || existing.accommodationId !== id) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      if (endDate < existing.startDate) {
+        return res.status(400).json({ message: "Invalid end date", error: "The stay cannot end before it starts." });
+      }
+      // Only shorten stays; a longer one could clash with later occupants, so it is re-added instead
+      if (existing.endDate && endDate > existing.endDate) {
+        return res.status(400).json({ message: "Invalid end date", error: `The stay already ends on ${existing.endDate}.` });
+      }
+      // Only the days between the new and the old end date change
+      const closedWeek = await findClosedWeek(endDate, stayRange(existing)[1]);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      const assignment = await storage.endAccommodationAssignment(assignmentId, endDate);
+      res.json(assignment);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to end accommodation assignment", error: error.message });
+    }
+  });
+
+  app.delete("/api/accommodations/:id/assignments/:assignmentId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const assignmentId = Number(req.params.assignmentId);
+
+      const existing = await storage.getAccommodationAssignment(assignmentId);
+      if (!existing || existing.accommodationId !== id) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      const closedWeek = await findClosedWeek(...stayRange(existing));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      await storage.deleteAccommodationAssignment(assignmentId);
+      res.json({ message: "Assignment deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete accommodation assignment", error: error.message });
+    }
+  });
+
+  // Driver ledger routes
+  app.get("/api/drivers/:id/ledger", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const { from, to } = driverLedgerQuerySchema.parse(req.query);
+      if (from && to && from > to) {
+        return res.status(400).json({ message: "'from' must be on or before 'to'" });
+      }
+      const ledger = await buildDriverLedger(id, from, to);
+      if (!ledger) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      res.json(ledger);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to build driver ledger", error: error.message });
+    }
+  });
+
+  app.get("/api/drivers/:id/adjustments", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const adjustments = await storage.getDriverAdjustments(id);
+      res.json(adjustments);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch adjustments", error: error.message });
+    }
+  });
+
+  app.post("/api/drivers/:id/adjustments", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const adjustmentData = insertDriverAdjustmentSchema.parse(req.body);
+      const driver = await storage.getDriver(id);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      const closedWeek = await findClosedWeek(adjustmentData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const adjustment = await storage.createDriverAdjustment(id, adjustmentData);
+      broadcast("ledger:changed", { driverId: id });
+      res.status(201).json(adjustment);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid adjustment data", error: error.message });
+    }
+  });
+
+  app.delete("/api/drivers/:id/adjustments/:adjustmentId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const adjustmentId = Number(req.params.adjustmentId);
+      const adjustment = await storage.getDriverAdjustment(adjustmentId);
+      if (!adjustment || adjustment.driverId !== id) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      const closedWeek = await findClosedWeek(adjustment.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      await storage.deleteDriverAdjustment(adjustmentId);
+      broadcast("ledger:changed", { driverId: id });
+      res.json({ message: "Adjustment deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete adjustment", error: error.message });
+    }
+  });
+
+  // Driver deposit routes
+  app.get("/api/drivers/:id/deposit", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const [deposit, deductions] = await Promise.all([
+        storage.getDriverDeposit(id),
+        storage.getDepositDeductions(id),
+      ]);
+      const deducted = deductions.reduce((sum, deduction) => sum + deduction.amount, 0);
+      res.json({ deposit: deposit ?? null, deductions, balance: (deposit?.amount ?? 0) - deducted });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch deposit", error: error.message });
+    }
+  });
+
+  app.put("/api/drivers/:id/deposit", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const depositData = upsertDriverDepositSchema.parse(req.body);
+      const driver = await storage.getDriver(id);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      // The deposit counts towards the driver's balance from the day it was collected, before and after the change
+      const existing = await storage.getDriverDeposit(id);
+      const collectedDates = existing ? [existing.collectedDate, depositData.collectedDate] : [depositData.collectedDate];
+      for (const collectedDate of collectedDates) {
+        const closedWeek = await findClosedWeek(collectedDate);
+        if (closedWeek) {
+          return res.status(409).json(closedWeekError(closedWeek));
+        }
+      }
+      const deposit = await storage.upsertDriverDeposit(id, depositData);
+      res.json(deposit);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid deposit data", error: error.message });
+    }
+  });
+
+  app.post("/api/drivers/:id/deposit/deductions", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const deductionData = insertDepositDeductionSchema.parse(req.body);
+      const deposit = await storage.getDriverDeposit(id);
+      if (!deposit) {
+        return res.status(400).json({ message: "No deposit recorded for this driver" });
+      }
+      const closedWeek = await findClosedWeek(deductionData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const deduction = await storage.createDepositDeduction(id, deductionData);
+      broadcast("ledger:changed", { driverId: id });
+      res.status(201).json(deduction);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid deduction data", error: error.message });
+    }
+  });
+
+  app.delete("/api/drivers/:id/deposit/deductions/:deductionId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const deductionId = Number(req.params.deductionId);
+      const deduction = await storage.getDepositDeduction(deductionId);
+      if (!deduction || deduction.driverId !== id) {
+        return res.status(404).json({ message: "Deduction not found" });
+      }
+      const closedWeek = await findClosedWeek(deduction.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      await storage.deleteDepositDeduction(deductionId);
+      broadcast("ledger:changed", { driverId: id });
+      res.json({ message: "Deduction deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete deduction", error: error.message });
+    }
+  });
+
+  app.get("/api/drivers/:id/final-settlement", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const driver = await storage.getDriver(id);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      if (!driver.dismissDate) {
+        return res.status(400).json({ message: "The driver has no dismiss date; a final settlement is only produced for dismissed drivers" });
+      }
+      const settlement = await buildFinalSettlement(id);
+      res.json(settlement);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to build final settlement", error: error.message });
+    }
+  });
+
+  // Vehicle-Driver assignment routes
+  app.post("/api/vehicle-assignments", async (req, res) => {
+    try {
+      const assignmentData = insertVehicleDriverAssignmentSchema.parse(req.body);
+      const assignment = await storage.createVehicleDriverAssignment(assignmentData);
+      res.status(201).json(assignment);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid assignment data", error: error.message });
+    }
+  });
+
+  app.get("/api/vehicles/:id/assignment", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const assignment = await storage.getVehicleDriverAssignment(id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      res.json(assignment);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid vehicle ID", error: error.message });
+    }
+  });
+
+  // Driver rent log routes
+  app.post("/api/driver-rent-logs", async (req, res) => {
+    try {
+      // Convert date strings to Date objects before validation
+      const body = {
+        ...req.body,
+        date: new Date(req.body.date),
+        weekStart: new Date(req.body.weekStart),
+        weekEnd: new Date(req.body.weekEnd)
+      };
+      const rentLogData = insertDriverRentLogSchema.parse(body);
+      const closedWeek = await findClosedWeek(rentLogData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const driver = await storage.getDriver(rentLogData.driverId);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      const licenceProblem = licenceError(driver, rentLogData.date.toISOString().split('T')[0]);
+      if (licenceProblem) {
+        return res.status(400).json({ message: "Driver licence expired", error: licenceProblem });
+      }
+      const handover = await checkHandover({
+        vehicleId: rentLogData.vehicleId,
+        date: rentLogData.date.toISOString().split('T')[0],
+        shift: rentLogData.shift,
+        startOdometer: rentLogData.startOdometer,
+        endOdometer: rentLogData.endOdometer,
+      });
+      if (handover.error) {
+        return res.status(400).json({ message: "Odometer reading does not match", error: handover.error });
+      }
+      const rentLog = await storage.createDriverRentLog(rentLogData);
+      res.status(201).json({ ...rentLog, handoverWarning: handover.warning });
+    } catch (error) {
+      console.error("Driver rent log creation error:", error);
+      console.error("Request body:", req.body);
+      res.status(400).json({ message: "Invalid rent log data", error: error.message });
+    }
+  });
+
+  app.put("/api/driver-rent-logs/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const body = {
+        ...req.body,
+      };
+      if (req.body.date) {
+        body.date = new Date(req.body.date);
+      }
+      if (req.body.weekStart) {
+        body.weekStart = new Date(req.body.weekStart);
+      }
+      if (req.body.weekEnd) {
+        body.weekEnd = new Date(req.body.weekEnd);
+      }
+      // Neither the week the trip is in nor the week it moves to may be closed
+      const existing = await storage.getDriverRentLog(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rent log not found" });
+      }
+      const closedWeek = await findClosedWeek(existing.date) || (body.date ? await findClosedWeek(body.date) : undefined);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      // Moving the trip to another driver or day needs a licence valid on that day
+      if (body.driverId !== undefined || body.date) {
+        const driver = await storage.getDriver(body.driverId ?? existing.driverId);
+        if (!driver) {
+          return res.status(404).json({ message: "Driver not found" });
+        }
+        const licenceProblem = licenceError(driver, new Date(body.date ?? existing.date).toISOString().split('T')[0]);
+        if (licenceProblem) {
+          return res.status(400).json({ message: "Driver licence expired", error: licenceProblem });
+        }
+      }
+      // Readings are checked against the shifts either side of where the trip ends up
+      const handover = await checkHandover({
+        vehicleId: body.vehicleId ?? existing.vehicleId,
+        date: new Date(body.date ?? existing.date).toISOString().split('T')[0],
+        shift: body.shift ?? existing.shift,
+        startOdometer: body.startOdometer !== undefined ? body.startOdometer : existing.startOdometer,
+        endOdometer: body.endOdometer !== undefined ? body.endOdometer : existing.endOdometer,
+        exclude: { substitute: false, id },
+      });
+      if (handover.error) {
+        return res.status(400).json({ message: "Odometer reading does not match", error: handover.error });
+      }
+      const rentLog = await storage.updateDriverRentLog(id, body);
+      res.json({ ...rentLog, handoverWarning: handover.warning });
+    } catch (error) {
+      console.error("Driver rent log update error:", error);
+      res.status(400).json({ message: "Failed to update rent log", error: error.message });
+    }
+  });
+
+
+
+  app.get("/api/driver-rent-logs", async (req, res) => {
+    try {
+      const allRentLogs = await storage.getAllDriverRentLogs();
+      res.json(allRentLogs);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch all driver rent logs", error: error.message });
+    }
+  });
+
+  // Alternative endpoint path for all rent logs
+  app.get("/api/driver-rent-logs/all", async (req, res) => {
+    try {
+      const allRentLogs = await storage.getAllDriverRentLogs();
+      res.json(allRentLogs);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch all driver rent logs", error: error.message });
+    }
+  });
+
+  // Recent rent logs endpoint
+  app.get("/api/driver-rent-logs/recent/:limit", async (req, res) => {
+    try {
+      const limit = parseInt(req.params.limit) || 10;
+      const rentLogs = await storage.getRecentRentLogs(limit);
+      res.json(rentLogs);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch recent rent logs", error: error.message });
+    }
+  });
+
+  // Vehicle weekly summary route
+  app.get("/api/vehicles/:id/weekly-summary", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      
+      const vehicle = await storage.getVehicle(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      // Get weekly settlement data for profit calculation (current week)
+      const weekStartDate = req.query.weekStart ? new Date(req.query.weekStart as string) : new Date();
+      const weekStart = new Date(weekStartDate);
+      weekStart.setDate(weekStart.getDate() - weekStart.getDay() + 1); // Get Monday of current week
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekEnd.getDate() + 6); // Get Sunday of current week
+      
+      // Get all rent logs and filter for this vehicle and week
+      const allRentLogs = await storage.getAllDriverRentLogs();
+      const weeklyRentLogs = allRentLogs.filter(log => {
+        const logDate = new Date(log.date);
+        return log.vehicleId === id && logDate >= weekStart && logDate <= weekEnd;
+      });
+      
+      // Get substitute drivers for this specific vehicle in this week
+      const weeklySubstituteDrivers = await storage.getSubstituteDriversByVehicleAndDateRange(id, weekStart, weekEnd);
+      
+      // Calculate total trips from rent logs + substitute driver trips (current week only)
+      const regularTrips = weeklyRentLogs.length;
+      const substituteTrips = weeklySubstituteDrivers.reduce((sum, sub) => sum + (sub.tripCount || 1), 0);
+      const totalTrips = regularTrips + substituteTrips;
+
+      
+      // Calculate total driver rent for this vehicle from rent logs
+      const totalActualDriverRent = weeklyRentLogs.reduce((sum, log) => sum + log.rent, 0);
+      
+      // Calculate total substitute charges for this vehicle
+      const totalSubstituteCharges = weeklySubstituteDrivers.reduce((sum, sub) => sum + sub.charge, 0);
+      
+      // Calculate total income for this vehicle = driver rent + substitute charges
+      const totalIncome = totalActualDriverRent + totalSubstituteCharges;
+      
+      // Calculate company rent based on total trips, using the slab schedule in force that week
+      const rentalRate = await getRentalRate(vehicle.companyId, totalTrips, weekStart);
+      const totalRentToCompany = rentalRate * 7; // Weekly rent
+      const { walletDeduction, settlementDate } = await getSettlementTerms(vehicle.companyId, weekEnd);
+      
+      // Servicing and repairs dated in the week
+      const maintenanceCost = await storage.getMaintenanceCost(id, weekStart.toISOString().split('T')[0], weekEnd.toISOString().split('T')[0]);
+
+      // Calculate actual profit: Total Income - Company Rent - wallet deduction - Maintenance
+      const actualProfit = totalIncome - totalRentToCompany - walletDeduction - maintenanceCost;
+      
+      // Use total trips for rental info calculation
+      const rentalInfo = await getRentalInfo(vehicle.companyId, totalTrips, weekStart);
+      const assignment = await storage.getVehicleDriverAssignment(id);
+      
+      let morningDriver = null;
+      let eveningDriver = null;
+      
+      if (assignment?.morningDriverId) {
+        morningDriver = await storage.getDriver(assignment.morningDriverId);
+      }
+      
+      if (assignment?.eveningDriverId) {
+        eveningDriver = await storage.getDriver(assignment.eveningDriverId);
+      }
+
+      const summary = {
+        vehicle,
+        totalTrips, // Current week trips only
+        rentalRate: rentalRate,
+        totalRentToCompany: totalRentToCompany,
+        walletDeduction,
+        settlementDate,
+        totalDriverRent: totalActualDriverRent,
+        totalSubstituteCharges: totalSubstituteCharges,
+        totalIncome: totalIncome,
+        maintenanceCost,
+        profit: actualProfit, // Use actual profit based on real rent logs
+        rentalInfo,
+        morningDriver,
+        eveningDriver,
+        weekStart: weekStart,
+        weekEnd: weekEnd,
+      };
+
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch vehicle summary", error: error.message });
+    }
+  });
+
+  // Maintenance routes
+  app.get("/api/maintenance/due", async (req, res) => {
+    try {
+      const schedule = await buildServiceSchedule();
+      res.json(schedule.filter((service) => service.status !== "ok"));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch service schedule", error: error.message });
+    }
+  });
+
+  app.get("/api/vehicles/:id/maintenance", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const records = await storage.getMaintenanceRecords({ vehicleId: id });
+      res.json(records);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch maintenance records", error: error.message });
+    }
+  });
+
+  app.post("/api/vehicles/:id/maintenance", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const recordData = insertMaintenanceRecordSchema.parse(req.body);
+
+      if (!(await storage.getVehicle(id))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const record = await storage.createMaintenanceRecord(id, recordData);
+      broadcast("maintenance:changed", { vehicleId: id });
+      res.status(201).json(record);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid maintenance record", error: error.message });
+    }
+  });
+
+  app.put("/api/vehicles/:id/maintenance/:recordId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const recordId = Number(req.params.recordId);
+      const recordData = insertMaintenanceRecordSchema.parse(req.body);
+
+      const existing = await storage.getMaintenanceRecord(recordId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+
+      const record = await storage.updateMaintenanceRecord(recordId, recordData);
+      broadcast("maintenance:changed", { vehicleId: id });
+      res.json(record);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update maintenance record", error: error.message });
+    }
+  });
+
+  app.delete("/api/vehicles/:id/maintenance/:recordId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const recordId = Number(req.params.recordId);
+
+      const existing = await storage.getMaintenanceRecord(recordId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+
+      await storage.deleteMaintenanceRecord(recordId);
+      broadcast("maintenance:changed", { vehicleId: id });
+      res.json({ message: "Maintenance record deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete maintenance record", error: error.message });
+    }
+  });
+
+  // Service intervals with when each next falls due
+  app.get("/api/vehicles/:id/service-intervals", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const schedule = await buildServiceSchedule(id);
+      res.json(schedule);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch service intervals", error: error.message });
+    }
+  });
+
+  app.put("/api/vehicles/:id/service-intervals", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const intervalData = upsertServiceIntervalSchema.parse(req.body);
+
+      if (!(await storage.getVehicle(id))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const interval = await storage.upsertServiceInterval(id, intervalData);
+      broadcast("maintenance:changed", { vehicleId: id });
+      res.json(interval);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid service interval", error: error.message });
+    }
+  });
+
+  app.delete("/api/vehicles/:id/service-intervals/:intervalId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const intervalId = Number(req.params.intervalId);
+
+      const existing = await storage.getServiceInterval(intervalId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Service interval not found" });
+      }
+
+      await storage.deleteServiceInterval(intervalId);
+      broadcast("maintenance:changed", { vehicleId: id });
+      res.json({ message: "Service interval deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete service interval", error: error.message });
+    }
+  });
+
+  // Vehicle documents and compliance
+  app.get("/api/vehicle-compliance", async (req, res) => {
+    try {
+      const report = await buildComplianceReport();
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch vehicle compliance", error: error.message });
+    }
+  });
+
+  app.get("/api/vehicles/:id/documents", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const vehicle = await storage.getVehicle(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const documents = await storage.getVehicleDocuments(id);
+      res.json({ documents, compliance: vehicleCompliance(vehicle, documents) });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch vehicle documents", error: error.message });
+    }
+  });
+
+  app.post("/api/vehicles/:id/documents", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentData = insertVehicleDocumentSchema.parse(req.body);
+
+      if (!(await storage.getVehicle(id))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const document = await storage.createVehicleDocument(id, documentData);
+      broadcast("documents:changed", { vehicleId: id });
+      res.status(201).json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid vehicle document", error: error.message });
+    }
+  });
+
+  app.put("/api/vehicles/:id/documents/:documentId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentId = Number(req.params.documentId);
+      const documentData = insertVehicleDocumentSchema.parse(req.body);
+
+      const existing = await storage.getVehicleDocument(documentId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Vehicle document not found" });
+      }
+
+      const document = await storage.updateVehicleDocument(documentId, documentData);
+      broadcast("documents:changed", { vehicleId: id });
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update vehicle document", error: error.message });
+    }
+  });
+
+  app.delete("/api/vehicles/:id/documents/:documentId", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentId = Number(req.params.documentId);
+
+      const existing = await storage.getVehicleDocument(documentId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Vehicle document not found" });
+      }
+
+      await storage.deleteVehicleDocument(documentId);
+      await removeUpload(existing.filePath);
+      broadcast("documents:changed", { vehicleId: id });
+      res.json({ message: "Vehicle document deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete vehicle document", error: error.message });
+    }
+  });
+
+  // Scanned copy of a document, sent as the raw request body (see services/uploads)
+  app.put("/api/vehicles/:id/documents/:documentId/file", uploadBody, async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentId = Number(req.params.documentId);
+
+      const existing = await storage.getVehicleDocument(documentId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Vehicle document not found" });
+      }
+
+      const file = readUpload(req);
+      const filePath = await saveUpload(`vehicle-documents/${id}`, file);
+      const document = await storage.setVehicleDocumentFile(documentId, { fileName: file.fileName, filePath, fileType: file.fileType });
+      await removeUpload(existing.filePath);
+      broadcast("documents:changed", { vehicleId: id });
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to upload document file", error: error.message });
+    }
+  });
+
+  app.get("/api/vehicles/:id/documents/:documentId/file", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentId = Number(req.params.documentId);
+
+      const document = await storage.getVehicleDocument(documentId);
+      if (!document || document.vehicleId !== id || !document.filePath) {
+        return res.status(404).json({ message: "Document file not found" });
+      }
+
+      res.type(document.fileType ?? "application/octet-stream");
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(document.fileName ?? "document")}`);
+      res.sendFile(resolveUpload(document.filePath));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch document file", error: error.message });
+    }
+  });
+
+  app.delete("/api/vehicles/:id/documents/:documentId/file", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const documentId = Number(req.params.documentId);
+
+      const existing = await storage.getVehicleDocument(documentId);
+      if (!existing || existing.vehicleId !== id) {
+        return res.status(404).json({ message: "Vehicle document not found" });
+      }
+
+      const document = await storage.setVehicleDocumentFile(documentId, null);
+      await removeUpload(existing.filePath);
+      broadcast("documents:changed", { vehicleId: id });
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to remove document file", error: error.message });
+    }
+  });
+
+  // Incidents: challans and damage charged to the driver who had the vehicle
+  // A charge posted to a driver may not be added to, or moved out of, a closed week
+  const closedChargeWeek = (incident: { chargeToDriver: boolean; driverId?: number | null; chargeDate: string }) =>
+    incident.chargeToDriver && incident.driverId ? findClosedWeek(incident.chargeDate) : Promise.resolve(undefined);
+
+  app.get("/api/incidents", async (req, res) => {
+    try {
+      const query = incidentQuerySchema.parse(req.query);
+      const incidents = await storage.getIncidents(query);
+      res.json(incidents);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch incidents", error: error.message });
+    }
+  });
+
+  // Who had the vehicle at the time, for the incident form to show before saving
+  app.get("/api/incidents/resolve", async (req, res) => {
+    try {
+      const { vehicleId, date, time } = z.object({
+        vehicleId: z.coerce.number().int().positive(),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+        time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM").optional(),
+      }).parse(req.query);
+      const resolution = await resolveResponsibility(vehicleId, date, time);
+      res.json(resolution);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to resolve driver", error: error.message });
+    }
+  });
+
+  app.post("/api/incidents", async (req, res) => {
+    try {
+      const incidentData = insertIncidentSchema.parse(req.body);
+
+      if (!(await storage.getVehicle(incidentData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      if (incidentData.driverId && !(await storage.getDriver(incidentData.driverId))) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+
+      const values = await incidentValues(incidentData, new Date().toISOString().split('T')[0]);
+      const closedWeek = await closedChargeWeek(values);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      const incident = await storage.createIncident(values);
+      broadcast("incidents:changed", { driverId: incident.driverId });
+      res.status(201).json(incident);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid incident", error: error.message });
+    }
+  });
+
+  app.put("/api/incidents/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const incidentData = insertIncidentSchema.parse(req.body);
+
+      const existing = await storage.getIncident(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      if (!(await storage.getVehicle(incidentData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      if (incidentData.driverId && !(await storage.getDriver(incidentData.driverId))) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+
+      // An edit keeps the incident in the week it was charged unless a new date is given
+      const values = await incidentValues({ ...incidentData, chargeDate: incidentData.chargeDate ?? existing.chargeDate }, existing.chargeDate);
+      const closedWeek = await closedChargeWeek(existing) || await closedChargeWeek(values);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      const incident = await storage.updateIncident(id, values);
+      broadcast("incidents:changed", { driverId: incident.driverId });
+      res.json(incident);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update incident", error: error.message });
+    }
+  });
+
+  app.delete("/api/incidents/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      const existing = await storage.getIncident(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      const closedWeek = await closedChargeWeek(existing);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
+      await storage.deleteIncident(id);
+      await removeUpload(existing.evidencePath);
+      broadcast("incidents:changed", { driverId: existing.driverId });
+      res.json({ message: "Incident deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete incident", error: error.message });
+    }
+  });
+
+  // Photo or scan of the challan or damage, sent as the raw request body (see services/uploads)
+  app.put("/api/incidents/:id/evidence", uploadBody, async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      const existing = await storage.getIncident(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+
+      const file = readUpload(req);
+      const filePath = await saveUpload(`incidents/${id}`, file);
+      const incident = await storage.setIncidentEvidence(id, { fileName: file.fileName, filePath, fileType: file.fileType });
+      await removeUpload(existing.evidencePath);
+      broadcast("incidents:changed", { driverId: incident.driverId });
+      res.json(incident);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to upload evidence", error: error.message });
+    }
+  });
+
+  app.get("/api/incidents/:id/evidence", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      const incident = await storage.getIncident(id);
+      if (!incident || !incident.evidencePath) {
+        return res.status(404).json({ message: "Evidence not found" });
+      }
+
+      res.type(incident.evidenceType ?? "application/octet-stream");
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(incident.evidenceFileName ?? "evidence")}`);
+      res.sendFile(resolveUpload(incident.evidencePath));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch evidence", error: error.message });
+    }
+  });
+
+  // Fuel entries and per-vehicle fuel analytics
+  app.get("/api/fuel-entries", async (req, res) => {
+    try {
+      const query = fuelQuerySchema.parse(req.query);
+      const entries = await storage.getFuelEntries(query);
+      res.json(entries);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch fuel entries", error: error.message });
+    }
+  });
+
+  app.post("/api/fuel-entries", async (req, res) => {
+    try {
+      const entryData = insertFuelEntrySchema.parse(req.body);
+
+      if (!(await storage.getVehicle(entryData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const odometerProblem = await odometerError(entryData.vehicleId, entryData.date, entryData.odometer);
+      if (odometerProblem) {
+        return res.status(400).json({ message: "Invalid odometer reading", error: odometerProblem });
+      }
+
+      const entry = await storage.createFuelEntry(fuelEntryValues(entryData));
+      broadcast("fuel:changed", { vehicleId: entry.vehicleId });
+      res.status(201).json(entry);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid fuel entry", error: error.message });
+    }
+  });
+
+  app.put("/api/fuel-entries/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const entryData = insertFuelEntrySchema.parse(req.body);
+
+      const existing = await storage.getFuelEntry(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Fuel entry not found" });
+      }
+      if (!(await storage.getVehicle(entryData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const odometerProblem = await odometerError(entryData.vehicleId, entryData.date, entryData.odometer, id);
+      if (odometerProblem) {
+        return res.status(400).json({ message: "Invalid odometer reading", error: odometerProblem });
+      }
+
+      const entry = await storage.updateFuelEntry(id, fuelEntryValues(entryData));
+      broadcast("fuel:changed", { vehicleId: entry.vehicleId });
+      res.json(entry);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update fuel entry", error: error.message });
+    }
+  });
+
+  app.delete("/api/fuel-entries/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const existing = await storage.getFuelEntry(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Fuel entry not found" });
+      }
+
+      await storage.deleteFuelEntry(id);
+      broadcast("fuel:changed", { vehicleId: existing.vehicleId });
+      res.json({ message: "Fuel entry deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete fuel entry", error: error.message });
+    }
+  });
+
+  app.get("/api/reports/fuel", async (req, res) => {
+    try {
+      const query = fuelQuerySchema.parse(req.query);
+      const report = await buildFuelReport(query);
+      res.json(report);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to build fuel report", error: error.message });
+    }
+  });
+
+  // Odometer readings either side of a shift, to prefill the handover reading
+  app.get("/api/odometer/handover", async (req, res) => {
+    try {
+      const query = handoverQuerySchema.parse(req.query);
+      res.json(await handoverContext(query));
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch handover readings", error: error.message });
+    }
+  });
+
+  app.get("/api/reports/odometer", async (req, res) => {
+    try {
+      const query = odometerQuerySchema.parse(req.query);
+      const report = await buildOdometerReport(query);
+      res.json(report);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to build odometer report", error: error.message });
+    }
+  });
+
+  // Shift roster: the dated plan of who drives which vehicle each shift
+  app.get("/api/roster", async (req, res) => {
+    try {
+      const query = rosterQuerySchema.parse(req.query);
+      const entries = await storage.getRosterEntries(query);
+      res.json({ entries, conflicts: rosterConflicts(entries) });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch roster", error: error.message });
+    }
+  });
+
+  // Plans a driver into a slot, replacing whoever was planned there
+  app.post("/api/roster", async (req, res) => {
+    try {
+      const entryData = insertRosterEntrySchema.parse(req.body);
+      const [vehicle, driver] = await Promise.all([
+        storage.getVehicle(entryData.vehicleId),
+        storage.getDriver(entryData.driverId),
+      ]);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      const driverProblem = rosterDriverError(driver, entryData.date);
+      if (driverProblem) {
+        return res.status(400).json({ message: "Driver not available", error: driverProblem });
+      }
+      const existing = await storage.getRosterEntryForSlot(entryData.vehicleId, entryData.date, entryData.shift);
+      const clash = await rosterClash(entryData, existing?.id);
+      if (clash) {
+        return res.status(409).json({ message: "Roster conflict", error: clash });
+      }
+
+      const entry = existing
+        ? await storage.updateRosterEntry(existing.id, entryData)
+        : (await storage.createRosterEntries([entryData]))[0];
+      broadcast("roster:changed", { date: entry.date });
+      res.status(existing ? 200 : 201).json(entry);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid roster entry", error: error.message });
+    }
+  });
+
+  // Moves an entry to another slot or changes its driver
+  app.put("/api/roster/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const entryData = insertRosterEntrySchema.parse(req.body);
+      if (!(await storage.getRosterEntry(id))) {
+        return res.status(404).json({ message: "Roster entry not found" });
+      }
+      const driver = await storage.getDriver(entryData.driverId);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      const driverProblem = rosterDriverError(driver, entryData.date);
+      if (driverProblem) {
+        return res.status(400).json({ message: "Driver not available", error: driverProblem });
+      }
+      const occupant = await storage.getRosterEntryForSlot(entryData.vehicleId, entryData.date, entryData.shift);
+      if (occupant && occupant.id !== id) {
+        return res.status(409).json({ message: "Slot already planned", error: `Another driver is planned for this ${entryData.shift} shift; remove them first` });
+      }
+      const clash = await rosterClash(entryData, id);
+      if (clash) {
+        return res.status(409).json({ message: "Roster conflict", error: clash });
+      }
+
+      const entry = await storage.updateRosterEntry(id, entryData);
+      broadcast("roster:changed", { date: entry.date });
+      res.json(entry);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update roster entry", error: error.message });
+    }
+  });
+
+  app.delete("/api/roster/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const existing = await storage.getRosterEntry(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Roster entry not found" });
+      }
+      await storage.deleteRosterEntry(id);
+      broadcast("roster:changed", { date: existing.date });
+      res.json({ message: "Roster entry deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete roster entry", error: error.message });
+    }
+  });
+
+  app.post("/api/roster/copy-week", async (req, res) => {
+    try {
+      const { fromWeekStart, toWeekStart } = copyRosterWeekSchema.parse(req.body);
+      const result = await copyRosterWeek(fromWeekStart, toWeekStart);
+      broadcast("roster:changed", { weekStart: toWeekStart });
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to copy roster week", error: error.message });
+    }
+  });
+
+  // Driver leave, recorded by hand or picked up from trip log imports
+  app.get("/api/driver-leaves", async (req, res) => {
+    try {
+      const query = leaveQuerySchema.parse(req.query);
+      const leaves = await storage.getDriverLeaves(query);
+      res.json(leaves);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch driver leave", error: error.message });
+    }
+  });
+
+  app.post("/api/driver-leaves", async (req, res) => {
+    try {
+      const leaveData = insertDriverLeaveSchema.parse(req.body);
+      if (!(await storage.getDriver(leaveData.driverId))) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      if (leaveData.vehicleId && !(await storage.getVehicle(leaveData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const overlap = await leaveOverlap(leaveData);
+      if (overlap) {
+        return res.status(409).json({ message: "Leave overlaps", error: overlap });
+      }
+      const closedWeek = await findClosedWeek(leaveData.startDate, leaveData.endDate);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const leave = await storage.createDriverLeave({ ...leaveData, source: "manual" });
+      broadcast("leave:changed", { driverId: leave.driverId });
+      res.status(201).json(leave);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid leave data", error: error.message });
+    }
+  });
+
+  app.put("/api/driver-leaves/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const leaveData = insertDriverLeaveSchema.parse(req.body);
+      const existing = await storage.getDriverLeave(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Leave not found" });
+      }
+      if (!(await storage.getDriver(leaveData.driverId))) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      if (leaveData.vehicleId && !(await storage.getVehicle(leaveData.vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const overlap = await leaveOverlap(leaveData, id);
+      if (overlap) {
+        return res.status(409).json({ message: "Leave overlaps", error: overlap });
+      }
+      // Both the days the leave covered and the days it will cover count towards weekly figures
+      for (const { startDate, endDate } of [existing, leaveData]) {
+        const closedWeek = await findClosedWeek(startDate, endDate);
+        if (closedWeek) {
+          return res.status(409).json(closedWeekError(closedWeek));
+        }
+      }
+      const leave = await storage.updateDriverLeave(id, { ...leaveData, source: existing.source });
+      broadcast("leave:changed", { driverId: leave.driverId });
+      res.json(leave);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update leave", error: error.message });
+    }
+  });
+
+  app.delete("/api/driver-leaves/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const existing = await storage.getDriverLeave(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Leave not found" });
+      }
+      const closedWeek = await findClosedWeek(existing.startDate, existing.endDate);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      await storage.deleteDriverLeave(id);
+      broadcast("leave:changed", { driverId: existing.driverId });
+      res.json({ message: "Leave deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete leave", error: error.message });
+    }
+  });
+
+  app.get("/api/reports/idle-vehicles", async (req, res) => {
+    try {
+      const query = leaveQuerySchema.pick({ from: true, to: true }).parse(req.query);
+      const report = await buildIdleVehicleReport(query);
+      res.json(report);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to build idle vehicle report", error: error.message });
+    }
+  });
+
+  // Rental slab information route (slabs in force for the given week, default current week)
+  app.get("/api/rental-slabs/:companyId", async (req, res) => {
+    try {
+      const companyId = Number(req.params.companyId);
+      if (isNaN(companyId)) {
+        return res.status(400).json({ message: "Invalid company ID" });
+      }
+      if (!(await storage.getCompany(companyId))) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      const weekStart = req.query.weekStart ? String(req.query.weekStart) : new Date();
+      
+      const slabs = await getAllSlabs(companyId, weekStart);
+      res.json(slabs);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch rental slabs", error: error.message });
+    }
+  });
+
+  // Rental slab schedule routes
+  app.get("/api/slab-schedules", async (req, res) => {
+    try {
+      const companyId = req.query.companyId ? Number(req.query.companyId) : undefined;
+      const schedules = await storage.getSlabSchedules(companyId);
+      res.json(schedules);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch slab schedules", error: error.message });
+    }
+  });
+
+  app.get("/api/slab-schedules/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const schedule = await storage.getSlabSchedule(id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Slab schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid slab schedule ID", error: error.message });
+    }
+  });
+
+  app.post("/api/slab-schedules", async (req, res) => {
+    try {
+      const scheduleData = upsertSlabScheduleSchema.parse(req.body);
+
+      const company = await storage.getCompany(scheduleData.companyId);
+      if (!company) {
+        return res.status(400).json({ message: "Invalid slab schedule data", error: "Unknown company" });
+      }
+
+      const overlapping = await storage.findOverlappingSlabSchedule(
+        scheduleData.companyId,
+        scheduleData.effectiveFrom,
+        scheduleData.effectiveTo ?? null
+      );
+      if (overlapping) {
+        return res.status(400).json({
+          message: "Overlapping slab schedule",
+          error: `${company.name} already has a schedule in force from ${overlapping.effectiveFrom}${overlapping.effectiveTo ? ` to ${overlapping.effectiveTo}` : ""}. Close it before adding a new one.`
+        });
+      }
+
+      const schedule = await storage.createSlabSchedule(scheduleData);
+      res.status(201).json(schedule);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid slab schedule data", error: error.message });
+    }
+  });
+
+  app.put("/api/slab-schedules/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const scheduleData = upsertSlabScheduleSchema.parse(req.body);
+
+      const existing = await storage.getSlabSchedule(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Slab schedule not found" });
+      }
+
+      const company = await storage.getCompany(scheduleData.companyId);
+      if (!company) {
+        return res.status(400).json({ message: "Failed to update slab schedule", error: "Unknown company" });
+      }
+
+      const overlapping = await storage.findOverlappingSlabSchedule(
+        scheduleData.companyId,
+        scheduleData.effectiveFrom,
+        scheduleData.effectiveTo ?? null,
+        id
+      );
+      if (overlapping) {
+        return res.status(400).json({
+          message: "Overlapping slab schedule",
+          error: `${company.name} already has a schedule in force from ${overlapping.effectiveFrom}${overlapping.effectiveTo ? ` to ${overlapping.effectiveTo}` : ""}.`
+        });
+      }
+
+      const schedule = await storage.updateSlabSchedule(id, scheduleData);
+      res.json(schedule);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update slab schedule", error: error.message });
+    }
+  });
+
+  app.delete("/api/slab-schedules/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+
+      const existing = await storage.getSlabSchedule(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Slab schedule not found" });
+      }
+      // Weeks priced with the schedule would be left without rates
+      const closedWeek = await findClosedWeek(existing.effectiveFrom, existing.effectiveTo ?? OPEN_ENDED);
+      if (closedWeek) {
+        return res.status(409).json({
+          ...closedWeekError(closedWeek),
+          error: "The schedule prices a closed week. Set an end date on it instead.",
+        });
+      }
+      const rentLogCount = await storage.countCompanyRentLogs(existing.companyId, existing.effectiveFrom, existing.effectiveTo);
+      if (rentLogCount > 0) {
+        return res.status(400).json({
+          message: "Slab schedule is in use",
+          error: `${rentLogCount} trip log(s) fall within this schedule. Set an end date on it instead so those weeks keep their rates.`
+        });
+      }
+
+      await storage.deleteSlabSchedule(id);
+      res.json({ message: "Slab schedule deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete slab schedule", error: error.message });
+    }
+  });
+
+  // Substitute rate cards: hours bands and premiums for substitute shifts
+  app.get("/api/substitute-rates", async (req, res) => {
+    try {
+      const [cards, holidayList] = await Promise.all([storage.getSubstituteRateCards(), storage.getHolidays()]);
+      res.json({ cards, holidays: holidayList });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch substitute rates", error: error.message });
+    }
+  });
+
+  // The charge for a substitute shift, as POST /api/substitute-drivers will expect it
+  app.get("/api/substitute-rates/quote", async (req, res) => {
+    try {
+      const query = substituteQuoteQuerySchema.parse(req.query);
+      res.json(await quoteSubstituteCharge(query));
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to price substitute shift", error: error.message });
+    }
+  });
+
+  app.post("/api/substitute-rates/cards", async (req, res) => {
+    try {
+      const cardData = upsertSubstituteRateCardSchema.parse(req.body);
+      const scopeError = await rateCardScopeError(cardData);
+      if (scopeError) {
+        return res.status(400).json({ message: "Invalid rate card", error: scopeError });
+      }
+      if (await storage.findSubstituteRateCard(cardData.companyId ?? null, cardData.vehicleId ?? null)) {
+        return res.status(409).json({ message: "Rate card already exists", error: "There is already a rate card for this company or vehicle; edit it instead" });
+      }
+      const card = await storage.createSubstituteRateCard(cardData);
+      res.status(201).json(card);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid rate card", error: error.message });
+    }
+  });
+
+  app.put("/api/substitute-rates/cards/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const cardData = upsertSubstituteRateCardSchema.parse(req.body);
+      const existing = await storage.getSubstituteRateCard(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rate card not found" });
+      }
+      const wasDefault = !existing.companyId && !existing.vehicleId;
+      if (wasDefault && (cardData.companyId || cardData.vehicleId)) {
+        return res.status(400).json({ message: "Invalid rate card", error: "The fleet-wide rate card cannot be turned into an override" });
+      }
+      const scopeError = await rateCardScopeError(cardData);
+      if (scopeError) {
+        return res.status(400).json({ message: "Invalid rate card", error: scopeError });
+      }
+      const other = await storage.findSubstituteRateCard(cardData.companyId ?? null, cardData.vehicleId ?? null);
+      if (other && other.id !== id) {
+        return res.status(409).json({ message: "Rate card already exists", error: "There is already a rate card for this company or vehicle" });
+      }
+      const card = await storage.updateSubstituteRateCard(id, cardData);
+      res.json(card);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update rate card", error: error.message });
+    }
+  });
+
+  app.delete("/api/substitute-rates/cards/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const existing = await storage.getSubstituteRateCard(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rate card not found" });
+      }
+      if (!existing.companyId && !existing.vehicleId) {
+        return res.status(400).json({ message: "Failed to delete rate card", error: "The fleet-wide rate card cannot be deleted" });
+      }
+      await storage.deleteSubstituteRateCard(id);
+      res.json({ message: "Rate card deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete rate card", error: error.message });
+    }
+  });
+
+  app.post("/api/substitute-rates/holidays", async (req, res) => {
+    try {
+      const holidayData = insertHolidaySchema.parse(req.body);
+      const existing = await storage.getHolidayByDate(holidayData.date);
+      if (existing) {
+        return res.status(409).json({ message: "Holiday already exists", error: `${holidayData.date} is already ${existing.name}` });
+      }
+      const holiday = await storage.createHoliday(holidayData);
+      res.status(201).json(holiday);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid holiday", error: error.message });
+    }
+  });
+
+  app.delete("/api/substitute-rates/holidays/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      await storage.deleteHoliday(id);
+      res.json({ message: "Holiday deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete holiday", error: error.message });
+    }
+  });
+
+  // Weekly settlement routes
+  app.get("/api/settlements", async (req, res) => {
+    try {
+      const items = await storage.listWeeklySettlements();
+      res.json({ items });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settlements", error: error.message });
     }
   });
 
@@ -439,6 +2078,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!weekStart || !weekEnd) {
         return res.status(400).json({ error: "weekStart and weekEnd required" });
       }
+      const closedWeek = await findClosedWeek(weekStart, weekEnd);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
       await storage.upsertWeeklySettlement({
         weekStart,
         weekEnd,
@@ -459,6 +2102,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!weekStart || !weekEnd) {
         return res.status(400).json({ error: "weekStart and weekEnd required" });
       }
+      const closedWeek = await findClosedWeek(weekStart, weekEnd);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
       await storage.deleteWeeklySettlement(weekStart, weekEnd);
       const items = await storage.listWeeklySettlements();
       res.json({ ok: true, items });
@@ -468,6 +2115,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/settlements/closed-weeks", async (req, res) => {
+    try {
+      const weeks = await storage.getClosedWeeks();
+      res.json(weeks);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch closed weeks", error: error.message });
+    }
+  });
+
+  app.post("/api/settlements/close", async (req, res) => {
+    try {
+      const { weekStart, weekEnd, reason } = weekLockSchema.parse(req.body);
+      const closedWeek = await findClosedWeek(weekStart, weekEnd);
+      if (closedWeek) {
+        return res.status(409).json({ message: `The week ${closedWeek.weekStart} to ${closedWeek.weekEnd} is already closed` });
+      }
+      const week = await storage.closeWeek(weekStart, weekEnd, reason);
+      res.json(week);
+      broadcast("settlements:changed", { weekStart, weekEnd });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to close week", error: error.message });
+    }
+  });
+
+  // Owner-only (see ROUTE_GROUPS): reopening unlocks the week's trips and summaries for editing
+  app.post("/api/settlements/reopen", async (req, res) => {
+    try {
+      const { weekStart, weekEnd, reason } = weekLockSchema.parse(req.body);
+      const closedWeek = await findClosedWeek(weekStart, weekEnd);
+      if (!closedWeek || closedWeek.weekStart !== weekStart || closedWeek.weekEnd !== weekEnd) {
+        return res.status(400).json({ message: "This week is not closed" });
+      }
+      const week = await storage.reopenWeek(weekStart, weekEnd, reason);
+      res.json(week);
+      broadcast("settlements:changed", { weekStart, weekEnd });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to reopen week", error: error.message });
+    }
+  });
+
   // QR Code validation endpoint
   app.get("/api/validate-qr-code", async (req, res) => {
     try {
@@ -502,6 +2189,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           profit: settlement.profit,
           rent: settlement.rent,
           wallet: settlement.wallet,
+          walletDeduction: settlement.walletDeduction,
           companyRent: settlement.companyRent,
           companyWallet: settlement.companyWallet,
           roomRent: settlement.roomRent,
@@ -518,9 +2206,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/substitute-drivers", async (req, res) => {
     try {
       const substituteData = insertSubstituteDriverSchema.parse(req.body);
+      if (substituteData.substituteId) {
+        const person = await storage.getSubstitute(substituteData.substituteId);
+        if (!person) {
+          return res.status(404).json({ message: "Substitute not found" });
+        }
+        substituteData.name = person.name;
+      }
+      const quote = await quoteSubstituteCharge({
+        vehicleId: substituteData.vehicleId,
+        date: substituteData.date.toISOString().split('T')[0],
+        shiftHours: substituteData.shiftHours,
+        substituteId: substituteData.substituteId ?? undefined,
+      });
+      if (substituteData.charge !== quote.charge) {
+        return res.status(400).json({
+          message: "Charge does not match the rate card",
+          error: `A ${substituteData.shiftHours} hour shift on this vehicle and date is charged ₹${quote.charge}, not ₹${substituteData.charge}`,
+        });
+      }
+      const closedWeek = await findClosedWeek(substituteData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const handover = await checkHandover({
+        vehicleId: substituteData.vehicleId,
+        date: substituteData.date.toISOString().split('T')[0],
+        shift: substituteData.shift,
+        startOdometer: substituteData.startOdometer,
+        endOdometer: substituteData.endOdometer,
+      });
+      if (handover.error) {
+        return res.status(400).json({ message: "Odometer reading does not match", error: handover.error });
+      }
       const substitute = await storage.createSubstituteDriver(substituteData);
       
-      res.status(201).json(substitute);
+      res.status(201).json({ ...substitute, handoverWarning: handover.warning });
     } catch (error: any) {
       res.status(400).json({ message: "Invalid substitute driver data", error: error.message });
     }
@@ -540,6 +2261,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         charge: parseInt(charge)
       };
       
+      const closedWeek = await findClosedWeek(substituteData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
       const newSubstitute = await storage.createSubstituteDriver(substituteData);
       res.status(201).json(newSubstitute);
     } catch (error) {
@@ -576,6 +2301,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/substitute-drivers", async (req, res) => {
     try {
       const substituteData = insertSubstituteDriverSchema.parse(req.body);
+      const closedWeek = await findClosedWeek(substituteData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
       const substitute = await storage.createSubstituteDriver(substituteData);
       res.status(201).json(substitute);
     } catch (error) {
@@ -583,20 +2312,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete substitute driver
-  app.delete("/api/substitute-drivers/:id", async (req, res) => {
+  // Record a substitute shift's handover readings
+  app.put("/api/substitute-drivers/:id/odometer", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const readings = odometerReadingsSchema.parse(req.body);
+      const substitute = await storage.getSubstituteDriver(id);
+      if (!substitute) {
+        return res.status(404).json({ message: "Substitute driver not found" });
+      }
+      const closedWeek = await findClosedWeek(substitute.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const handover = await checkHandover({
+        vehicleId: substitute.vehicleId,
+        date: substitute.date.toISOString().split('T')[0],
+        shift: substitute.shift,
+        ...readings,
+        exclude: { substitute: true, id },
+      });
+      if (handover.error) {
+        return res.status(400).json({ message: "Odometer reading does not match", error: handover.error });
+      }
+      const updated = await storage.updateSubstituteOdometer(id, readings);
+      res.json({ ...updated, handoverWarning: handover.warning });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to record odometer readings", error: error.message });
+    }
+  });
+
+  // Delete substitute driver
+  app.delete("/api/substitute-drivers/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const substitute = await storage.getSubstituteDriver(id);
+      
+      if (!substitute) {
+        return res.status(404).json({ message: "Substitute driver not found" });
+      }
+
+      const closedWeek = await findClosedWeek(substitute.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      
+      await storage.deleteSubstituteDriver(id);
+      res.json({ message: "Substitute driver deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete substitute driver", error: error.message });
+    }
+  });
+
+  // Substitute registry: the people behind substitute shifts, with what they covered and were paid
+  app.get("/api/substitutes", async (req, res) => {
+    try {
+      const query = substituteQuerySchema.parse(req.query);
+      const [people, totals] = await Promise.all([
+        storage.getSubstitutes(),
+        storage.getSubstituteShiftTotals(query),
+      ]);
+      const totalsById = new Map(totals.map((row) => [row.substituteId, row]));
+      res.json(people.map((person) => {
+        const total = totalsById.get(person.id);
+        return {
+          ...person,
+          shifts: total?.shifts ?? 0,
+          trips: total?.trips ?? 0,
+          paid: total?.paid ?? 0,
+          lastShift: total?.lastShift ?? null,
+        };
+      }));
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch substitutes", error: error.message });
+    }
+  });
+
+  // Names on shifts recorded before the registry, waiting to be linked to a person
+  app.get("/api/substitutes/unlinked", async (req, res) => {
+    try {
+      res.json(await storage.getUnlinkedSubstituteNames());
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch unlinked substitute names", error: error.message });
+    }
+  });
+
+  app.post("/api/substitutes", async (req, res) => {
+    try {
+      const substituteData = insertSubstituteSchema.parse(req.body);
+      const existing = await storage.findSubstituteByName(substituteData.name);
+      if (existing) {
+        return res.status(409).json({ message: "Substitute already exists", error: `${existing.name} is already in the registry` });
+      }
+      const substitute = await storage.createSubstitute(substituteData);
+      broadcast("substitutes:changed", { substituteId: substitute.id });
+      res.status(201).json(substitute);
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid substitute data", error: error.message });
+    }
+  });
+
+  app.put("/api/substitutes/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const substituteData = insertSubstituteSchema.parse(req.body);
+      if (!(await storage.getSubstitute(id))) {
+        return res.status(404).json({ message: "Substitute not found" });
+      }
+      const existing = await storage.findSubstituteByName(substituteData.name, id);
+      if (existing) {
+        return res.status(409).json({ message: "Substitute already exists", error: `${existing.name} is already in the registry` });
+      }
+      const substitute = await storage.updateSubstitute(id, substituteData);
+      broadcast("substitutes:changed", { substituteId: id });
+      res.json(substitute);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to update substitute", error: error.message });
+    }
+  });
+
+  // Only people with no shifts can be removed; mark the rest inactive instead
+  app.delete("/api/substitutes/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      if (!(await storage.getSubstitute(id))) {
+        return res.status(404).json({ message: "Substitute not found" });
+      }
+      const shifts = await storage.getSubstituteShifts(id, {});
+      if (shifts.length > 0) {
+        return res.status(409).json({ message: "Substitute has shifts", error: `${shifts.length} shift${shifts.length === 1 ? "" : "s"} recorded; mark the substitute inactive instead` });
+      }
+      await storage.deleteSubstitute(id);
+      broadcast("substitutes:changed", { substituteId: id });
+      res.json({ message: "Substitute deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete substitute", error: error.message });
+    }
+  });
+
+  app.get("/api/substitutes/:id/shifts", async (req, res) => {
     try {
       const { id } = vehicleIdSchema.parse(req.params);
-      const substitute = await storage.getSubstituteDriver(id);
-      
+      const query = substituteQuerySchema.parse(req.query);
+      const substitute = await storage.getSubstitute(id);
       if (!substitute) {
-        return res.status(404).json({ message: "Substitute driver not found" });
+        return res.status(404).json({ message: "Substitute not found" });
       }
-      
-      await storage.deleteSubstituteDriver(id);
-      res.json({ message: "Substitute driver deleted successfully" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete substitute driver", error: error.message });
+      const shifts = await storage.getSubstituteShifts(id, query);
+      res.json({
+        substitute,
+        shifts,
+        totals: {
+          shifts: shifts.length,
+          trips: shifts.reduce((sum, shift) => sum + shift.tripCount, 0),
+          paid: shifts.reduce((sum, shift) => sum + shift.charge, 0),
+        },
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch substitute shifts", error: error.message });
+    }
+  });
+
+  app.post("/api/substitutes/:id/link", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const { names } = linkSubstituteShiftsSchema.parse(req.body);
+      if (!(await storage.getSubstitute(id))) {
+        return res.status(404).json({ message: "Substitute not found" });
+      }
+      const linked = await storage.linkSubstituteShifts(id, names);
+      broadcast("substitutes:changed", { substituteId: id });
+      res.json({ linked });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to link substitute shifts", error: error.message });
     }
   });
 
@@ -613,6 +2501,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         String(startDate),
         String(endDate)
       );
+      const payoutTotals = await storage.getPayoutTotalsForDateRange(String(startDate), String(endDate));
+      const payoutByDriver = new Map(payoutTotals.map((row) => [row.driverId, row.total]));
+      const advanceDeductions = advanceDeductionsForRange(await storage.getDriverAdvances(), String(startDate), String(endDate));
+      const incidentCharges = await incidentChargesForRange(String(startDate), String(endDate));
+      const leaveDays = await leaveDaysForRange(String(startDate), String(endDate));
 
       // Fetch saved summaries for each driver (may span multiple weeks)
       const results = await Promise.all(
@@ -633,9 +2526,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
               refund: acc.refund + (summary.refund || 0),
               expenses: acc.expenses + (summary.expenses || 0),
               dues: acc.dues + (summary.dues || 0),
-              payout: acc.payout + (summary.payout || 0),
+              tolls: acc.tolls + (summary.tolls || 0),
+              tips: acc.tips + (summary.tips || 0),
+              incentives: acc.incentives + (summary.incentives || 0),
+              platformFees: acc.platformFees + (summary.platformFees || 0),
             }),
-            { trips: 0, totalEarnings: 0, cash: 0, refund: 0, expenses: 0, dues: 0, payout: 0 }
+            { trips: 0, totalEarnings: 0, cash: 0, refund: 0, expenses: 0, dues: 0, tolls: 0, tips: 0, incentives: 0, platformFees: 0 }
           );
 
           // If no saved summaries exist, use computed trip count; otherwise use saved values
@@ -653,7 +2549,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             refund: totals.refund,
             expenses: totals.expenses,
             dues: totals.dues,
-            payout: totals.payout,
+            tolls: totals.tolls, // statement breakdown, already inside the totals above
+            tips: totals.tips,
+            incentives: totals.incentives,
+            platformFees: totals.platformFees,
+            payout: payoutByDriver.get(aggregate.driverId) ?? 0, // recorded payouts dated in the range
+            advanceDeduction: advanceDeductions.get(aggregate.driverId) ?? 0, // advance instalments due in the range
+            incidentCharge: incidentCharges.get(aggregate.driverId) ?? 0, // challans and damage charged in the range
+            leaveDays: leaveDays.get(aggregate.driverId) ?? 0, // days of leave in the range, not counting no-vehicle days
           };
         })
       );
@@ -667,6 +2570,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/weekly-summary", async (req, res) => {
     try {
       const summaryData = upsertWeeklySummarySchema.parse(req.body);
+      const closedWeek = await findClosedWeek(summaryData.startDate, summaryData.endDate);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
       
       // First, clear any overlapping summaries to avoid duplicates with different date ranges
       await storage.clearWeeklySummary(
@@ -684,6 +2591,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Driver payout routes
+  app.get("/api/payouts", async (req, res) => {
+    try {
+      const query = driverPayoutQuerySchema.parse(req.query);
+      const payouts = await storage.getDriverPayouts(query);
+      res.json(payouts);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch payouts", error: error.message });
+    }
+  });
+
+  app.post("/api/payouts", async (req, res) => {
+    try {
+      const payoutData = insertDriverPayoutSchema.parse(req.body);
+      const driver = await storage.getDriver(payoutData.driverId);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      const closedWeek = await findClosedWeek(payoutData.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const payout = await storage.createDriverPayout(payoutData);
+      res.status(201).json(payout);
+      broadcast("weeklysummary:changed", { range: { start: payout.date, end: payout.date } });
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid payout data", error: error.message });
+    }
+  });
+
+  app.post("/api/payouts/:id/void", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const { reason } = voidDriverPayoutSchema.parse(req.body);
+      const payout = await storage.getDriverPayout(id);
+      if (!payout) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      if (payout.voidedAt) {
+        return res.status(409).json({ message: "Payout is already voided" });
+      }
+      const closedWeek = await findClosedWeek(payout.date);
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const voided = await storage.voidDriverPayout(id, reason);
+      res.json(voided);
+      broadcast("weeklysummary:changed", { range: { start: payout.date, end: payout.date } });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to void payout", error: error.message });
+    }
+  });
+
+  // Driver advance routes
+  app.get("/api/advances", async (req, res) => {
+    try {
+      const driverId = req.query.driverId ? Number(req.query.driverId) : undefined;
+      const advances = await storage.getDriverAdvances(driverId);
+      res.json(advances.map((advance) => withSchedule(advance)));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch advances", error: error.message });
+    }
+  });
+
+  app.get("/api/advances/outstanding", async (req, res) => {
+    try {
+      const advances = await storage.getDriverAdvances();
+      const outstanding = new Map<number, number>();
+      for (const advance of advances) {
+        const { outstanding: amount } = withSchedule(advance);
+        if (amount > 0) outstanding.set(advance.driverId, (outstanding.get(advance.driverId) ?? 0) + amount);
+      }
+      res.json(Array.from(outstanding.entries()).map(([driverId, amount]) => ({ driverId, outstanding: amount })));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch outstanding advances", error: error.message });
+    }
+  });
+
+  app.post("/api/advances", async (req, res) => {
+    try {
+      const advanceData = insertDriverAdvanceSchema.parse(req.body);
+      const driver = await storage.getDriver(advanceData.driverId);
+      if (!driver) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      // The advance and every instalment it deducts must fall in open weeks
+      const closedWeek = await findClosedWeek(advanceData.issuedDate, lastInstalmentDate(advanceData));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      const advance = await storage.createDriverAdvance(advanceData);
+      res.status(201).json(withSchedule(advance));
+      broadcast("weeklysummary:changed", { range: { start: advance.firstInstalmentDate, end: lastInstalmentDate(advance) } });
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid advance data", error: error.message });
+    }
+  });
+
+  app.delete("/api/advances/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      const advance = await storage.getDriverAdvance(id);
+      if (!advance) {
+        return res.status(404).json({ message: "Advance not found" });
+      }
+      const closedWeek = await findClosedWeek(advance.issuedDate, lastInstalmentDate(advance));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+      await storage.deleteDriverAdvance(id);
+      res.json({ message: "Advance deleted successfully" });
+      broadcast("weeklysummary:changed", { range: { start: advance.firstInstalmentDate, end: lastInstalmentDate(advance) } });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete advance", error: error.message });
+    }
+  });
+
   app.delete("/api/weekly-summary", async (req, res) => {
     try {
       const { driverId, startDate, endDate } = req.query;
@@ -692,6 +2716,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "driverId, startDate, and endDate are required" });
       }
 
+      const closedWeek = await findClosedWeek(String(startDate), String(endDate));
+      if (closedWeek) {
+        return res.status(409).json(closedWeekError(closedWeek));
+      }
+
       await storage.clearWeeklySummary(
         Number(driverId),
         String(startDate),
@@ -705,141 +2734,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/weekly-summary", async (req, res) => {
+  // Statement formats the weekly summary import understands, each with its saved column mapping
+  app.get("/api/import/weekly-summary/profiles", async (req, res) => {
     try {
-      const { csvData, confirmOverwrite } = req.body;
+      const saved = new Map((await storage.getStatementColumnMappings()).map((mapping) => [mapping.profile, mapping.columns]));
+      res.json(STATEMENT_PROFILE_IDS.map((id) => ({ ...STATEMENT_PROFILES[id], savedColumns: saved.get(id) ?? null })));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch statement formats", error: error.message });
+    }
+  });
 
-      if (!csvData || !Array.isArray(csvData)) {
-        return res.status(400).json({ message: "csvData array is required" });
+  app.put("/api/import/weekly-summary/profiles/:profile", async (req, res) => {
+    try {
+      const profile = z.enum(STATEMENT_PROFILE_IDS).parse(req.params.profile);
+      const { columns } = saveStatementColumnsSchema.parse(req.body);
+      if (!columns.driver) {
+        return res.status(400).json({ message: "Invalid column mapping", error: "Map a column to the driver's name" });
       }
+      const mapping = await storage.saveStatementColumnMapping(profile, columns);
+      res.json(mapping);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to save column mapping", error: error.message });
+    }
+  });
 
-      // Helper function to get Monday of the week for a given date
-      const getMondayOfWeek = (date: Date): Date => {
-        const d = new Date(date);
-        const day = d.getDay();
-        const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-        const monday = new Date(d.setDate(diff));
-        monday.setHours(0, 0, 0, 0);
-        return monday;
-      };
-
-      // Helper function to get Sunday of the week for a given date
-      const getSundayOfWeek = (date: Date): Date => {
-        const monday = getMondayOfWeek(date);
-        const sunday = new Date(monday);
-        sunday.setDate(monday.getDate() + 6);
-        sunday.setHours(23, 59, 59, 999);
-        return sunday;
-      };
+  app.post("/api/import/weekly-summary", async (req, res) => {
+    try {
+      const { profile: profileId, columns: requestedColumns, csvData, weekStart, confirmOverwrite, driverMatches, fileName, sheetName } = statementImportSchema.parse(req.body);
+      const profile = STATEMENT_PROFILES[profileId];
+
+      // Columns sent with the import win; otherwise the saved mapping, then the profile's known headers
+      const headers = Array.from(new Set(csvData.flatMap((row) => Object.keys(row))));
+      const saved = (await storage.getStatementColumnMappings()).find((mapping) => mapping.profile === profileId);
+      const columns = requestedColumns ?? resolveStatementColumns(profile, headers, saved?.columns);
+      if (!columns.driver) {
+        return res.status(400).json({ message: `No driver column found for the ${profile.name} format`, error: "Map a column to the driver's name" });
+      }
+      if (!columns.date && !weekStart) {
+        return res.status(400).json({ message: "The statement has no date column", error: "Pick the week the statement covers" });
+      }
+      const missing = Object.values(columns).filter((header): header is string => !!header && !headers.includes(header));
+      if (missing.length > 0) {
+        return res.status(400).json({ message: "Mapped columns are not in the file", error: missing.join(", ") });
+      }
 
+      const matchers = await loadMatchers({ drivers: driverMatches });
+      const { weeks, errors } = readStatementRows(csvData, columns, weekStart, (name) => matchers.drivers.match(name)?.id ?? null);
       const results = {
         success: 0,
         skipped: 0,
-        errors: [] as string[],
+        errors,
         driversNotFound: [] as string[],
+        driverCandidates: {} as Record<string, NameMatchCandidate[]>, // close drivers for names that matched none
       };
 
       // Track existing data for duplicate detection
       const existingData: Array<{ driverName: string; weekStart: string; weekEnd: string }> = [];
 
       // Group rows by week and driver
-      const weeklyData = new Map<string, Map<number, any>>();
-
-      // Process each CSV row
-      for (let i = 0; i < csvData.length; i++) {
-        const row = csvData[i];
-        
-        try {
-          // Validate Date field
-          if (!row.Date || typeof row.Date !== 'string' || !row.Date.trim()) {
-            results.errors.push(`Row ${i + 2}: Missing or invalid Date`);
-            continue;
-          }
-
-          // Parse date (supports DD/MM/YYYY and other formats)
-          const dateParts = row.Date.trim().split('/');
-          let rowDate: Date;
-          if (dateParts.length === 3) {
-            // DD/MM/YYYY format
-            rowDate = new Date(parseInt(dateParts[2]), parseInt(dateParts[1]) - 1, parseInt(dateParts[0]));
-          } else {
-            rowDate = new Date(row.Date.trim());
-          }
-
-          if (isNaN(rowDate.getTime())) {
-            results.errors.push(`Row ${i + 2}: Invalid date format`);
-            continue;
-          }
-
-          // Calculate week range
-          const weekStart = getMondayOfWeek(rowDate);
-          const weekEnd = getSundayOfWeek(rowDate);
-          const weekKey = `${weekStart.toISOString().split('T')[0]}_${weekEnd.toISOString().split('T')[0]}`;
-
-          // Validate required fields
-          if (!row.Driver || typeof row.Driver !== 'string' || !row.Driver.trim()) {
-            results.errors.push(`Row ${i + 2}: Missing or invalid driver name`);
-            continue;
-          }
-
-          const driverName = row.Driver.trim();
-
-          // Parse numeric fields (handle case variations)
-          const trips = row.Trips || row.trips ? parseInt(String(row.Trips || row.trips)) : 0;
-          const totalEarnings = row['Total earnings'] || row['Total Earnings'] || row['total earnings'] ? 
-            Math.round(parseFloat(String(row['Total earnings'] || row['Total Earnings'] || row['total earnings']))) : 0;
-          const cash = row['Cash collected'] || row['Cash Collected'] || row['cash collected'] ? 
-            Math.round(Math.abs(parseFloat(String(row['Cash collected'] || row['Cash Collected'] || row['cash collected'])))) : 0;
-          const refund = row.Refunds || row.Refund || row.refunds || row.refund ? 
-            Math.round(parseFloat(String(row.Refunds || row.Refund || row.refunds || row.refund))) : 0;
-
-          // Validate parsed numbers
-          if (isNaN(trips) || isNaN(totalEarnings) || isNaN(cash) || isNaN(refund)) {
-            results.errors.push(`Row ${i + 2}: Invalid numeric values for ${driverName}`);
-            continue;
-          }
-
-          // Store data grouped by week
-          if (!weeklyData.has(weekKey)) {
-            weeklyData.set(weekKey, new Map());
-          }
-
-          weeklyData.get(weekKey)!.set(driverName.toUpperCase(), {
-            driverName,
-            weekStart: weekStart.toISOString().split('T')[0],
-            weekEnd: weekEnd.toISOString().split('T')[0],
-            trips,
-            totalEarnings,
-            cash,
-            refund,
-          });
-        } catch (error: any) {
-          results.errors.push(`Row ${i + 2}: ${error.message}`);
+      const weeklyData = new Map<string, Map<string, StatementWeekRow>>();
+      for (const week of weeks) {
+        const weekKey = `${week.weekStart}_${week.weekEnd}`;
+        if (!weeklyData.has(weekKey)) {
+          weeklyData.set(weekKey, new Map());
         }
+        weeklyData.get(weekKey)!.set(week.driverId !== null ? `#${week.driverId}` : week.driverName.toUpperCase(), week);
       }
 
-      // Now process each week's data
-      for (const [weekKey, driversMap] of weeklyData.entries()) {
-        const firstDriver = driversMap.values().next().value;
-        const weekStart = firstDriver.weekStart;
-        const weekEnd = firstDriver.weekEnd;
+      // Rows in closed weeks are reported and left out of the import
+      const closedWeeks = await storage.getClosedWeeks();
+      for (const [weekKey, driversMap] of Array.from(weeklyData.entries())) {
+        const { weekStart } = driversMap.values().next().value!;
+        const closedWeek = closedWeekContaining(closedWeeks, weekStart);
+        if (closedWeek) {
+          results.errors.push(`${driversMap.size} row(s) for ${closedWeek.weekStart} to ${closedWeek.weekEnd} not imported: the week is closed`);
+          results.skipped += driversMap.size;
+          weeklyData.delete(weekKey);
+        }
+      }
 
-        // Get aggregates for this week to validate drivers
+      // Drivers are matched against those with trips in the week
+      const driverMaps = new Map<string, Map<number, { driverId: number; driverName: string; tripCount: number }>>();
+      for (const [weekKey, driversMap] of Array.from(weeklyData.entries())) {
+        const { weekStart, weekEnd } = driversMap.values().next().value!;
         const aggregates = await storage.getDriverAggregatesForDateRange(weekStart, weekEnd);
+        driverMaps.set(weekKey, new Map(aggregates.map((agg) => [
+          agg.driverId,
+          { driverId: agg.driverId, driverName: agg.driverName, tripCount: agg.tripCount },
+        ])));
+      }
 
-        // Create driver map for this week
-        const driverMap = new Map<string, { driverId: number; driverName: string }>();
-        aggregates.forEach(agg => {
-          driverMap.set(agg.driverName.toUpperCase(), {
-            driverId: agg.driverId,
-            driverName: agg.driverName
-          });
-        });
-
-        // Check for existing data if not confirming overwrite
-        if (!confirmOverwrite) {
-          for (const [driverNameUpper, data] of driversMap.entries()) {
-            const driverInfo = driverMap.get(driverNameUpper);
+      // Check for existing data if not confirming overwrite
+      if (!confirmOverwrite) {
+        for (const [weekKey, driversMap] of weeklyData.entries()) {
+          const driverMap = driverMaps.get(weekKey)!;
+          for (const data of driversMap.values()) {
+            const driverInfo = data.driverId !== null ? driverMap.get(data.driverId) : undefined;
             if (!driverInfo) continue;
 
             // Check if this driver already has data for this week
@@ -849,7 +2839,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               data.weekEnd
             );
 
-            if (existingSummary && (existingSummary.trips > 0 || existingSummary.totalEarnings > 0 || existingSummary.cash > 0 || existingSummary.refund > 0)) {
+            if (existingSummary && (existingSummary.trips > 0 || existingSummary.totalEarnings > 0 || existingSummary.cash > 0 || existingSummary.refund > 0
+              || existingSummary.tolls > 0 || existingSummary.tips > 0 || existingSummary.incentives > 0 || existingSummary.platformFees > 0)) {
               existingData.push({
                 driverName: driverInfo.driverName,
                 weekStart: data.weekStart,
@@ -870,63 +2861,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Proceed with import (either no duplicates or confirmed overwrite)
+      const summaries: UpsertWeeklySummary[] = [];
       for (const [weekKey, driversMap] of weeklyData.entries()) {
-        const firstDriver = driversMap.values().next().value;
-        const weekStart = firstDriver.weekStart;
-        const weekEnd = firstDriver.weekEnd;
-
-        // Get aggregates for this week to validate drivers
-        const aggregates = await storage.getDriverAggregatesForDateRange(weekStart, weekEnd);
-
-        // Create driver map for this week
-        const driverMap = new Map<string, { driverId: number; driverName: string }>();
-        aggregates.forEach(agg => {
-          driverMap.set(agg.driverName.toUpperCase(), {
-            driverId: agg.driverId,
-            driverName: agg.driverName
-          });
-        });
+        const driverMap = driverMaps.get(weekKey)!;
 
         // Save data for each driver in this week
-        for (const [driverNameUpper, data] of driversMap.entries()) {
-          const driverInfo = driverMap.get(driverNameUpper);
+        for (const data of driversMap.values()) {
+          const driverInfo = data.driverId !== null ? driverMap.get(data.driverId) : undefined;
 
           if (!driverInfo) {
             // Driver not found in computed weekly summary for this week
             if (!results.driversNotFound.includes(data.driverName)) {
               results.driversNotFound.push(data.driverName);
+              if (data.driverId === null) results.driverCandidates[data.driverName] = matchers.drivers.suggest(data.driverName);
             }
             results.skipped++;
             continue;
           }
 
-          // Update weekly summary for this driver
-          await storage.upsertWeeklySummary({
+          // Expenses and dues are not on platform statements; they stay as entered
+          const existingSummary = await storage.getWeeklySummary(driverInfo.driverId, data.weekStart, data.weekEnd);
+          summaries.push({
             driverId: driverInfo.driverId,
             startDate: data.weekStart,
             endDate: data.weekEnd,
-            trips: data.trips,
+            trips: data.trips ?? driverInfo.tripCount, // statements without trips keep the logged count
             totalEarnings: data.totalEarnings,
             cash: data.cash,
             refund: data.refund,
-            expenses: 0, // Not provided in CSV
-            dues: 0,     // Not provided in CSV
-            payout: 0,   // Not provided in CSV
+            expenses: existingSummary?.expenses ?? 0,
+            dues: existingSummary?.dues ?? 0,
+            tolls: data.tolls,
+            tips: data.tips,
+            incentives: data.incentives,
+            platformFees: data.platformFees,
           });
 
           results.success++;
         }
+      }
 
+      // Every summary is written in one transaction, tagged to the import job
+      const job = await storage.applyStatementImport(summaries, {
+        fileName: fileName ?? null,
+        options: { profile: profileId, columns, weekStart, confirmOverwrite, sheetName, driverMatches },
+        counts: {
+          imported: results.success,
+          skipped: results.skipped,
+          errors: results.errors.length,
+          driversNotFound: results.driversNotFound.length,
+        },
+      });
+      for (const driversMap of Array.from(weeklyData.values())) {
+        const { weekStart, weekEnd } = driversMap.values().next().value!;
         broadcast("weeklysummary:changed", { range: { start: weekStart, end: weekEnd } });
       }
 
       res.json({
         message: "Import completed",
+        jobId: job.id,
+        profile: profileId,
+        columns,
         ...results
       });
     } catch (error: any) {
       console.error("Weekly summary import error:", error);
-      res.status(500).json({ message: "Failed to import weekly summary data", error: error.message });
+      res.status(400).json({ message: "Failed to import weekly summary data", error: error.message });
     }
   });
 
@@ -1043,6 +3043,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit log routes
+  app.get("/api/audit-log", async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const entries = await storage.getAuditLog(query);
+      res.json(entries);
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to fetch audit log", error: error.message });
+    }
+  });
+
   // Meta routes
   app.get("/api/meta/first-trip-date", async (req, res) => {
     try {
@@ -1053,306 +3064,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export routes
+  // Export routes; ?format=xlsx gives an Excel workbook instead of JSON
   app.get("/api/export/:type", async (req, res) => {
     try {
-      const { type } = req.params;
-      let data: any[] = [];
-      let filename = "";
-
-      switch (type) {
-        case "settlements":
-          data = await storage.listWeeklySettlements();
-          filename = "settlements_export.json";
-          break;
-        case "trips":
-          data = await storage.getRecentRentLogs(1000); // Get last 1000 rent logs
-          filename = "trips_export.json";
-          break;
-        case "drivers":
-          data = await storage.getAllDrivers();
-          filename = "drivers_export.json";
-          break;
-        case "vehicles":
-          data = await storage.getAllVehicles();
-          filename = "vehicles_export.json";
-          break;
-        default:
-          return res.status(400).json({ message: "Invalid export type" });
-      }
-
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      const query = exportQuerySchema.safeParse({ ...req.query, type: req.params.type });
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid export type", error: query.error.message });
+      }
+      const { type, format: fileFormat, startDate, endDate } = query.data;
+      const { sheetName, columns, rows } = await buildExport(type, { startDate, endDate });
+
+      res.setHeader('Content-Disposition', `attachment; filename="${type}_export.${fileFormat}"`);
+      if (fileFormat === "xlsx") {
+        res.setHeader('Content-Type', XLSX_TYPE);
+        return res.send(await writeWorkbook(sheetName, columns, rows));
+      }
       res.setHeader('Content-Type', 'application/json');
-      res.json(data);
+      res.json(rows);
     } catch (error: any) {
       res.status(500).json({ message: "Failed to export data", error: error.message });
     }
   });
 
-  // Import route for bulk trip log data
-  app.post("/api/import/trip-logs", async (req, res) => {
+  // Excel workbooks for the importers, read into header-keyed rows per sheet like a parsed CSV
+  const readSheets = async (req: Request, res: Response) => {
     try {
-      const { csvData } = req.body;
-      
-      if (!csvData || !Array.isArray(csvData)) {
-        return res.status(400).json({ message: "Invalid CSV data format" });
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Upload an Excel (.xlsx) file" });
       }
+      res.json({ sheets: await readWorkbook(req.body) });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to read workbook", error: error.message });
+    }
+  };
+  app.post("/api/import/trip-logs/sheets", spreadsheetBody, readSheets);
+  app.post("/api/import/weekly-summary/sheets", spreadsheetBody, readSheets);
 
-      // STEP 1: Pre-validate CSV file for internal duplicates
-      const driverDateMap = new Map<string, Set<string>>();
-      const duplicates: Array<{ driver: string; date: string; rows: number[] }> = [];
-      
-      for (let i = 0; i < csvData.length; i++) {
-        const rawRow = csvData[i];
-        
-        // Normalize field names
-        let driverName = '';
-        let dateStr = '';
-        
-        for (const [key, value] of Object.entries(rawRow)) {
-          const normalizedKey = key.trim().toLowerCase();
-          if (normalizedKey === 'driver' && value && typeof value === 'string') {
-            driverName = value.toString().trim().toUpperCase();
-          }
-          if (normalizedKey === 'date' && value && typeof value === 'string') {
-            dateStr = value.toString().trim();
-          }
-        }
-        
-        // Skip if no driver or date (will be caught later as validation error)
-        if (!driverName || !dateStr) continue;
-        
-        // Skip "No Vehicle" and "Leave" entries
-        let shift = '';
-        let vehicle = '';
-        for (const [key, value] of Object.entries(rawRow)) {
-          const normalizedKey = key.trim().toLowerCase();
-          if (normalizedKey === 'shift') shift = value?.toString().toLowerCase() || '';
-          if (normalizedKey === 'vehicle') vehicle = value?.toString().toLowerCase() || '';
-        }
-        
-        if (vehicle.includes('no vechicle') || shift === 'leave' || shift.includes('no vechicle')) {
-          continue;
-        }
-        
-        // Check for duplicates
-        const key = `${driverName}|${dateStr}`;
-        if (!driverDateMap.has(key)) {
-          driverDateMap.set(key, new Set([i.toString()]));
-        } else {
-          const existingRows = driverDateMap.get(key)!;
-          existingRows.add(i.toString());
-          
-          // Check if we already recorded this duplicate
-          const existing = duplicates.find(d => d.driver === driverName && d.date === dateStr);
-          if (!existing) {
-            duplicates.push({
-              driver: driverName,
-              date: dateStr,
-              rows: Array.from(existingRows).map(r => parseInt(r) + 2) // +2 for Excel row numbers (header + 0-index)
-            });
-          } else {
-            existing.rows = Array.from(existingRows).map(r => parseInt(r) + 2);
-          }
-        }
-      }
-      
-      // If duplicates found, reject the entire file
-      if (duplicates.length > 0) {
-        const duplicateMessages = duplicates.map(d => 
-          `Driver "${d.driver}" on ${d.date} (rows: ${d.rows.join(', ')})`
-        );
-        
-        return res.status(400).json({
-          message: "CSV file contains duplicate driver entries on the same day. Please fix these duplicates and try again.",
-          duplicates: duplicateMessages,
-          rejected: true
+  // Trip log import, in two steps: preview what the file would do, then commit exactly that
+  app.post("/api/import/trip-logs/preview", async (req, res) => {
+    try {
+      const { csvData, defaultCompanyId, driverMatches, vehicleMatches } = tripImportPreviewSchema.parse(req.body);
+      res.json(await planTripImport(csvData, defaultCompanyId, { drivers: driverMatches, vehicles: vehicleMatches }));
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to preview import", error: error.message });
+    }
+  });
+
+  app.post("/api/import/trip-logs/commit", async (req, res) => {
+    try {
+      const { csvData, defaultCompanyId, driverMatches, vehicleMatches, fingerprint, driverPhones, fileName, sheetName } = tripImportCommitSchema.parse(req.body);
+      // The file is planned again; if the fleet's data changed since the preview nothing is written
+      const plan = await planTripImport(csvData, defaultCompanyId, { drivers: driverMatches, vehicles: vehicleMatches });
+      if (plan.fingerprint !== fingerprint) {
+        return res.status(409).json({
+          message: "Trip data changed since the preview",
+          error: "Preview the file again and check the rows before importing",
+          plan,
         });
       }
-
-      const results = {
-        success: 0,
-        skipped: 0,
-        errors: [] as string[],
+      const created = await storage.applyTripImport(tripImportWrites(plan, driverPhones), {
+        fileName: fileName ?? null,
+        options: { sheetName, defaultCompanyId, driverMatches, vehicleMatches },
+        counts: { ...plan.counts, driversCreated: plan.newDrivers.length, vehiclesCreated: plan.newVehicles.length },
+      });
+      res.json({
+        message: "Import completed",
+        jobId: created.jobId,
+        counts: plan.counts,
         details: {
-          vehiclesCreated: [] as string[],
-          driversCreated: [] as string[],
-          rentLogsCreated: 0,
-        }
-      };
-
-      // Get all existing vehicles and drivers
-      const allVehicles = await storage.getAllVehicles();
-      const allDrivers = await storage.getAllDrivers();
-      
-      const vehicleMap = new Map(allVehicles.map(v => [v.vehicleNumber.toUpperCase(), v]));
-      const driverMap = new Map(allDrivers.map(d => [d.name.toUpperCase(), d]));
-
-      // Process each row
-      for (let i = 0; i < csvData.length; i++) {
-        const rawRow = csvData[i];
-        
-        try {
-          // Normalize field names to be case-insensitive
-          const row: any = {};
-          for (const [key, value] of Object.entries(rawRow)) {
-            const normalizedKey = key.trim().toLowerCase();
-            if (normalizedKey === 'date') row.Date = value;
-            else if (normalizedKey === 'vehicle') row.Vehicle = value;
-            else if (normalizedKey === 'driver') row.Driver = value;
-            else if (normalizedKey === 'shift') row.Shift = value;
-            else if (normalizedKey === 'rent') row.Rent = value;
-            else if (normalizedKey === 'fuel') row.Fuel = value;
-            // For Collection, take the first non-empty value
-            else if (normalizedKey === 'collection' && !row.Collection) row.Collection = value;
-          }
-          
-          // Validate required fields exist
-          if (!row.Date || typeof row.Date !== 'string' || !row.Date.trim()) {
-            results.errors.push(`Row ${i + 2}: Missing or invalid date`);
-            continue;
-          }
-
-          if (!row.Vehicle || typeof row.Vehicle !== 'string' || !row.Vehicle.trim()) {
-            results.errors.push(`Row ${i + 2}: Missing or invalid vehicle`);
-            continue;
-          }
-
-          if (!row.Driver || typeof row.Driver !== 'string' || !row.Driver.trim()) {
-            results.errors.push(`Row ${i + 2}: Missing or invalid driver`);
-            continue;
-          }
-
-          // Skip rows with "No Vechicle", "Leave", or empty vehicle/driver
-          if (row.Vehicle.toLowerCase().includes('no vechicle') || 
-              row.Shift?.toLowerCase() === 'leave' ||
-              row.Shift?.toLowerCase().includes('no vechicle')) {
-            results.skipped++;
-            continue;
-          }
-
-          // Parse date (DD/MM/YYYY format)
-          const dateParts = row.Date.trim().split('/');
-          if (dateParts.length !== 3) {
-            results.errors.push(`Row ${i + 2}: Invalid date format (expected DD/MM/YYYY)`);
-            continue;
-          }
+          vehiclesCreated: plan.newVehicles.map((vehicle) => vehicle.vehicleNumber),
+          driversCreated: plan.newDrivers.map((driver) => driver.name),
+          rentLogsCreated: created.rentLogIds.length,
+          leavesRecorded: created.leaveIds.length,
+        },
+      });
+      if (created.rentLogIds.length > 0) {
+        broadcast("triplogs:changed");
+      }
+      for (const driverId of Array.from(new Set(plan.rows.filter((row) => row.action === "leave").map((row) => row.driverId!)))) {
+        broadcast("leave:changed", { driverId });
+      }
+    } catch (error: any) {
+      console.error("Import error:", error);
+      res.status(400).json({ message: "Failed to import data", error: error.message });
+    }
+  });
 
-          const [day, month, year] = dateParts.map((p: string) => parseInt(p.trim()));
-          
-          if (isNaN(day) || isNaN(month) || isNaN(year)) {
-            results.errors.push(`Row ${i + 2}: Invalid date values`);
-            continue;
-          }
+  // Each run of an importer, with undo; under each importer's path so its permissions apply
+  for (const kind of IMPORT_KINDS) {
+    app.get(`/api/import/${kind}/jobs`, async (req, res) => {
+      try {
+        const query = importJobQuerySchema.parse(req.query);
+        res.json(await storage.getImportJobs(kind, query));
+      } catch (error: any) {
+        res.status(400).json({ message: "Failed to fetch import history", error: error.message });
+      }
+    });
 
-          const tripDate = new Date(year, month - 1, day);
-          
-          if (isNaN(tripDate.getTime()) || tripDate.getFullYear() !== year || 
-              tripDate.getMonth() !== month - 1 || tripDate.getDate() !== day) {
-            results.errors.push(`Row ${i + 2}: Invalid date (${row.Date})`);
-            continue;
-          }
+    app.post(`/api/import/${kind}/jobs/:id/undo`, async (req, res) => {
+      try {
+        const id = z.coerce.number().int().positive().parse(req.params.id);
+        const job = await storage.getImportJob(id);
+        if (!job || job.kind !== kind) {
+          return res.status(404).json({ message: "Import not found" });
+        }
+        if (job.undoneAt) {
+          return res.status(409).json({ message: "The import has already been undone", error: `Undone by ${job.undoneBy}` });
+        }
+        const result = await storage.undoImportJob(id, await storage.getClosedWeeks());
+        res.json(result);
+        if (result.removed.driverRentLog) broadcast("triplogs:changed");
+        if (result.removed.driverLeave) broadcast("leave:changed", {});
+        if (result.removed.weeklySummary || result.restored > 0) broadcast("weeklysummary:changed", {});
+      } catch (error: any) {
+        res.status(400).json({ message: "Failed to undo import", error: error.message });
+      }
+    });
+  }
 
-          // Get or create vehicle
-          let vehicle = vehicleMap.get(row.Vehicle.toUpperCase());
-          if (!vehicle) {
-            // Create new vehicle
-            vehicle = await storage.createVehicle({
-              vehicleNumber: row.Vehicle,
-              company: "PMV", // Default company
-              purchasedDate: tripDate.toISOString().split('T')[0],
-            });
-            vehicleMap.set(row.Vehicle.toUpperCase(), vehicle);
-            results.details.vehiclesCreated.push(row.Vehicle);
-          }
+  // Other names imports use for drivers and vehicles
+  app.get("/api/import-aliases/drivers", async (req, res) => {
+    try {
+      res.json(await storage.getDriverAliases());
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch driver aliases", error: error.message });
+    }
+  });
 
-          // Get or create driver
-          let driver = driverMap.get(row.Driver.toUpperCase());
-          if (!driver) {
-            // Create new driver
-            driver = await storage.createDriver({
-              name: row.Driver,
-              phone: "0000000000", // Placeholder phone
-              hasAccommodation: false,
-              joinedDate: tripDate.toISOString().split('T')[0],
-            });
-            driverMap.set(row.Driver.toUpperCase(), driver);
-            results.details.driversCreated.push(row.Driver);
-          }
+  app.post("/api/import-aliases/drivers", async (req, res) => {
+    try {
+      const { driverId, alias } = insertDriverAliasSchema.parse(req.body);
+      const drivers = await storage.getAllDrivers();
+      if (!drivers.some((d) => d.id === driverId)) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      const key = normaliseDriverName(alias);
+      if (!key) {
+        return res.status(400).json({ message: "Invalid alias", error: "An alias needs letters or digits" });
+      }
+      const namesake = drivers.find((d) => normaliseDriverName(d.name) === key);
+      if (namesake) {
+        return res.status(400).json({ message: "Invalid alias", error: `${alias} is the name of driver ${namesake.name}` });
+      }
+      res.status(201).json(await storage.saveDriverAlias({ driverId, alias: key }));
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid driver alias", error: error.message });
+    }
+  });
 
-          // Parse shift
-          const shift = row.Shift?.toLowerCase() === 'evening' ? 'evening' : 'morning';
-
-          // Parse rent, collection, fuel (default to 0 if empty or invalid)
-          const parseNumber = (value: any): number => {
-            if (!value || value === '') return 0;
-            const str = value.toString().trim();
-            // Handle non-numeric values like "X"
-            if (str.toLowerCase() === 'x' || str === '-') return 0;
-            const num = parseFloat(str);
-            return isNaN(num) ? 0 : num;
-          };
-          
-          const rent = parseNumber(row.Rent);
-          const amountCollected = parseNumber(row.Collection);
-          const fuel = parseNumber(row.Fuel);
-
-          // Calculate week boundaries
-          const weekStart = new Date(tripDate);
-          const day2 = weekStart.getDay();
-          const diff = weekStart.getDate() - day2 + (day2 === 0 ? -6 : 1);
-          weekStart.setDate(diff);
-          weekStart.setHours(0, 0, 0, 0);
-          
-          const weekEnd = new Date(weekStart);
-          weekEnd.setDate(weekStart.getDate() + 6);
-          weekEnd.setHours(23, 59, 59, 999);
-
-          // Check if driver already has an entry for this date
-          const startOfDay = new Date(tripDate.getFullYear(), tripDate.getMonth(), tripDate.getDate());
-          const endOfDay = new Date(tripDate.getFullYear(), tripDate.getMonth(), tripDate.getDate() + 1);
-          const existingLogs = await storage.getDriverRentLogsByDateRange(driver.id, startOfDay, endOfDay);
-          
-          if (existingLogs.length > 0) {
-            // Skip this entry - driver already has a rent log for this date
-            results.skipped++;
-            continue;
-          }
+  app.delete("/api/import-aliases/drivers/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      await storage.deleteDriverAlias(id);
+      res.json({ message: "Driver alias deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: "Failed to delete driver alias", error: error.message });
+    }
+  });
 
-          // Create rent log
-          const rentLog = await storage.createDriverRentLog({
-            driverId: driver.id,
-            vehicleId: vehicle.id,
-            date: tripDate,
-            shift,
-            rent: Math.round(rent),
-            amountCollected: Math.round(amountCollected),
-            fuel: Math.round(fuel),
-            weekStart: weekStart,
-            weekEnd: weekEnd,
-          });
-          results.details.rentLogsCreated++;
+  app.get("/api/import-aliases/vehicles", async (req, res) => {
+    try {
+      res.json(await storage.getVehicleAliases());
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch vehicle aliases", error: error.message });
+    }
+  });
 
-          results.success++;
-        } catch (error: any) {
-          // Handle duplicate key errors more gracefully
-          if (error.message && error.message.includes('duplicate key value violates unique constraint')) {
-            results.skipped++;
-          } else {
-            results.errors.push(`Row ${i + 2}: ${error.message}`);
-          }
-        }
+  app.post("/api/import-aliases/vehicles", async (req, res) => {
+    try {
+      const { vehicleId, alias } = insertVehicleAliasSchema.parse(req.body);
+      const vehicles = await storage.getAllVehicles();
+      if (!vehicles.some((v) => v.id === vehicleId)) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
+      const key = normaliseVehicleNumber(alias);
+      if (!key) {
+        return res.status(400).json({ message: "Invalid alias", error: "An alias needs letters or digits" });
+      }
+      const namesake = vehicles.find((v) => normaliseVehicleNumber(v.vehicleNumber) === key);
+      if (namesake) {
+        return res.status(400).json({ message: "Invalid alias", error: `${alias} is the number of vehicle ${namesake.vehicleNumber}` });
+      }
+      res.status(201).json(await storage.saveVehicleAlias({ vehicleId, alias: key }));
+    } catch (error: any) {
+      res.status(400).json({ message: "Invalid vehicle alias", error: error.message });
+    }
+  });
 
-      broadcast("triplogs:changed");
-
-      res.json({
-        message: "Import completed",
-        ...results
-      });
+  app.delete("/api/import-aliases/vehicles/:id", async (req, res) => {
+    try {
+      const { id } = vehicleIdSchema.parse(req.params);
+      await storage.deleteVehicleAlias(id);
+      res.json({ message: "Vehicle alias deleted successfully" });
     } catch (error: any) {
-      console.error("Import error:", error);
-      res.status(500).json({ message: "Failed to import data", error: error.message });
+      res.status(400).json({ message: "Failed to delete vehicle alias", error: error.message });
     }
   });
 
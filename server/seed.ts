@@ -1,44 +1,62 @@
 import { storage } from "./storage";
+import { ensureDefaultCompanies } from "./utils/seedCompanies";
 
 async function seedDatabase() {
   try {
     console.log("Starting database seeding...");
 
+    await ensureDefaultCompanies();
+    const pmv = (await storage.getCompanyByName("PMV"))!;
+    const letzryd = (await storage.getCompanyByName("Letzryd"))!;
+
     // Create sample vehicles
     const vehicle1 = await storage.createVehicle({
       vehicleNumber: "KA01AB1234",
-      company: "PMV"
+      companyId: pmv.id
     });
 
     const vehicle2 = await storage.createVehicle({
       vehicleNumber: "KA02CD5678", 
-      company: "Letzryd"
+      companyId: letzryd.id
     });
 
     // Create sample drivers
     const driver1 = await storage.createDriver({
       name: "Rajesh Kumar",
-      phone: "+91-9876543210",
-      hasAccommodation: true
+      phone: "+91-9876543210"
     });
 
     const driver2 = await storage.createDriver({
       name: "Suresh Reddy", 
-      phone: "+91-9876543211",
-      hasAccommodation: false
+      phone: "+91-9876543211"
     });
 
     const driver3 = await storage.createDriver({
       name: "Mahesh Singh",
-      phone: "+91-9876543212", 
-      hasAccommodation: true
+      phone: "+91-9876543212"
     });
 
     const driver4 = await storage.createDriver({
       name: "Ramesh Gupta",
-      phone: "+91-9876543213",
-      hasAccommodation: false
+      phone: "+91-9876543213"
+    });
+
+    // House drivers 1 and 3 in the staff room
+    const room = await storage.createAccommodation({
+      name: "Staff Room",
+      address: "Near the vehicle depot",
+      monthlyRent: 20000,
+      capacity: 4,
+      occupantDailyRent: 100,
+      leaseStart: new Date().toISOString().split("T")[0],
+      notes: null,
     });
+    for (const driver of [driver1, driver3]) {
+      await storage.createAccommodationAssignment(room.id, {
+        driverId: driver.id,
+        startDate: room.leaseStart,
+      });
+    }
 
     // Create vehicle-driver assignments
     await storage.createVehicleDriverAssignment({
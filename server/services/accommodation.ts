@@ -0,0 +1,43 @@
+import type { Accommodation, InsertAccommodation } from "@shared/schema";
+
+// Stand-in end date for leases and assignments that are still running
+export const OPEN_ENDED = "9999-12-31";
+
+type LeaseTerms = Pick<Accommodation, "monthlyRent" | "leaseStart" | "leaseEnd">;
+
+function ordered(a: string, b: string): [string, string] {
+  return a <= b ? [a, b] : [b, a];
+}
+
+/** The whole period a room's rent is charged for. */
+export function leaseRange(lease: Pick<LeaseTerms, "leaseStart" | "leaseEnd">): [string, string] {
+  return [lease.leaseStart, lease.leaseEnd ?? OPEN_ENDED];
+}
+
+/** The days a driver's stay adds the room charge to their rent. */
+export function stayRange(stay: { startDate: string; endDate?: string | null }): [string, string] {
+  return [stay.startDate, stay.endDate ?? OPEN_ENDED];
+}
+
+/**
+ * Date ranges whose weekly room cost changes when a room's lease terms go from
+ * `before` to `after`. A rent change affects every day of either lease; moving
+ * a lease date only affects the days between the old and new date, so a lease
+ * can be ended or extended without touching weeks that were already closed.
+ */
+export function changedCostRanges(before: LeaseTerms, after: Pick<InsertAccommodation, "monthlyRent" | "leaseStart" | "leaseEnd">): Array<[string, string]> {
+  const afterEnd = after.leaseEnd ?? null;
+  if (before.monthlyRent !== after.monthlyRent) {
+    const [beforeStart, beforeEnd] = leaseRange(before);
+    const [afterStart, afterEndOrOpen] = leaseRange({ leaseStart: after.leaseStart, leaseEnd: afterEnd });
+    return [[beforeStart, beforeEnd], [afterStart, afterEndOrOpen]];
+  }
+  const ranges: Array<[string, string]> = [];
+  if (before.leaseStart !== after.leaseStart) {
+    ranges.push(ordered(before.leaseStart, after.leaseStart));
+  }
+  if (before.leaseEnd !== afterEnd) {
+    ranges.push(ordered(before.leaseEnd ?? OPEN_ENDED, afterEnd ?? OPEN_ENDED));
+  }
+  return ranges;
+}
@@ -0,0 +1,67 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { DriverAdvance } from "@shared/schema";
+
+export interface AdvanceInstalment {
+  number: number;  // 1-based
+  dueDate: string; // YYYY-MM-DD
+  amount: number;
+}
+
+type AdvanceTerms = Pick<DriverAdvance, "principal" | "instalmentAmount" | "instalmentCount" | "firstInstalmentDate">;
+
+export interface AdvanceWithSchedule extends DriverAdvance {
+  instalments: AdvanceInstalment[];
+  recovered: number;
+  outstanding: number;
+}
+
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+/**
+ * Weekly instalments for an advance. Each one is the instalment amount or
+ * whatever principal is left, so the schedule stops once the advance is
+ * recovered even if the count allowed for more.
+ */
+export function instalmentSchedule(advance: AdvanceTerms): AdvanceInstalment[] {
+  const instalments: AdvanceInstalment[] = [];
+  const first = parseISO(advance.firstInstalmentDate);
+  let remaining = advance.principal;
+  for (let i = 0; i < advance.instalmentCount && remaining > 0; i++) {
+    const amount = Math.min(advance.instalmentAmount, remaining);
+    instalments.push({ number: i + 1, dueDate: format(addDays(first, i * 7), "yyyy-MM-dd"), amount });
+    remaining -= amount;
+  }
+  return instalments;
+}
+
+/** Instalments are deducted automatically once their due date arrives. */
+export function dueInstalments(advance: AdvanceTerms, asOf: string = today()): AdvanceInstalment[] {
+  return instalmentSchedule(advance).filter((instalment) => instalment.dueDate <= asOf);
+}
+
+export function withSchedule(advance: DriverAdvance, asOf: string = today()): AdvanceWithSchedule {
+  const instalments = instalmentSchedule(advance);
+  const recovered = dueInstalments(advance, asOf).reduce((sum, instalment) => sum + instalment.amount, 0);
+  return { ...advance, instalments, recovered, outstanding: advance.principal - recovered };
+}
+
+/** Last date an instalment of the advance falls on. */
+export function lastInstalmentDate(advance: AdvanceTerms): string {
+  const instalments = instalmentSchedule(advance);
+  return instalments.length > 0 ? instalments[instalments.length - 1].dueDate : advance.firstInstalmentDate;
+}
+
+/** Total instalments due per driver between `startDate` and `endDate`, inclusive. */
+export function advanceDeductionsForRange(advances: DriverAdvance[], startDate: string, endDate: string): Map<number, number> {
+  const deductions = new Map<number, number>();
+  for (const advance of advances) {
+    for (const instalment of instalmentSchedule(advance)) {
+      if (instalment.dueDate >= startDate && instalment.dueDate <= endDate) {
+        deductions.set(advance.driverId, (deductions.get(advance.driverId) ?? 0) + instalment.amount);
+      }
+    }
+  }
+  return deductions;
+}
@@ -0,0 +1,78 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import { EXPIRY_WARNING_DAYS, buildComplianceReport } from "./vehicleCompliance";
+import type { Driver, VehicleDocumentType } from "@shared/schema";
+
+/**
+ * Why a driver may not be put on a trip on `date`, or null if they may. Only a
+ * licence expiry that is on file and has passed blocks them; drivers whose
+ * licence has not been entered yet show up as missing on the drivers page.
+ */
+export function licenceError(driver: Pick<Driver, "name" | "licenceExpiry">, date: string): string | null {
+  if (driver.licenceExpiry && driver.licenceExpiry < date) {
+    return `${driver.name}'s driving licence expired on ${driver.licenceExpiry}; update it before logging trips from ${date}`;
+  }
+  return null;
+}
+
+export interface ExpiringDocument {
+  subject: "driver" | "vehicle";
+  subjectId: number;
+  subjectName: string;            // driver name or vehicle number
+  document: "licence" | "badge" | VehicleDocumentType;
+  documentNumber: string | null;
+  expiryDate: string;
+  daysLeft: number;               // negative once expired
+  status: "expired" | "expiring";
+}
+
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+/**
+ * Driver licences and badges, and the vehicle documents in force, that have
+ * expired or expire within `withinDays`, soonest first. Dismissed drivers are
+ * left out, as are vehicles no longer in the fleet.
+ */
+export async function buildExpiringDocumentsReport(
+  withinDays: number = EXPIRY_WARNING_DAYS,
+  asOf: string = today(),
+): Promise<ExpiringDocument[]> {
+  const [drivers, vehicles] = await Promise.all([storage.getAllDrivers(), buildComplianceReport(asOf)]);
+  const rows: ExpiringDocument[] = [];
+
+  const add = (row: Omit<ExpiringDocument, "daysLeft" | "status">) => {
+    const daysLeft = differenceInCalendarDays(parseISO(row.expiryDate), parseISO(asOf));
+    if (daysLeft <= withinDays) {
+      rows.push({ ...row, daysLeft, status: daysLeft < 0 ? "expired" : "expiring" });
+    }
+  };
+
+  for (const driver of drivers) {
+    if (driver.dismissDate && driver.dismissDate < asOf) continue;
+    const subject = { subject: "driver" as const, subjectId: driver.id, subjectName: driver.name };
+    if (driver.licenceExpiry) {
+      add({ ...subject, document: "licence", documentNumber: driver.licenceNumber, expiryDate: driver.licenceExpiry });
+    }
+    if (driver.badgeExpiry) {
+      add({ ...subject, document: "badge", documentNumber: driver.badgeNumber, expiryDate: driver.badgeExpiry });
+    }
+  }
+
+  for (const vehicle of vehicles) {
+    for (const document of vehicle.documents) {
+      if (!document.expiryDate) continue;
+      add({
+        subject: "vehicle",
+        subjectId: vehicle.vehicleId,
+        subjectName: vehicle.vehicleNumber,
+        document: document.type,
+        documentNumber: document.documentNumber,
+        expiryDate: document.expiryDate,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.daysLeft - b.daysLeft || a.subjectName.localeCompare(b.subjectName));
+}
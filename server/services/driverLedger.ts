@@ -0,0 +1,171 @@
+import { storage } from "../storage";
+import { instalmentSchedule, dueInstalments } from "./driverAdvances";
+import { weeklyWallet } from "@shared/schema";
+
+export type LedgerSource = "rent" | "collection" | "wallet" | "dues" | "payout" | "advance" | "incident" | "deposit" | "adjustment";
+
+export interface LedgerEntry {
+  date: string; // YYYY-MM-DD
+  source: LedgerSource;
+  description: string;
+  debit: number;   // owed by the driver
+  credit: number;  // owed to the driver
+  balance: number; // running balance after this entry; positive means the fleet owes the driver
+  refId: string;   // id of the row the entry came from (weekly summaries use driverId:startDate:endDate)
+}
+
+export interface DriverLedger {
+  driverId: number;
+  driverName: string;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  entries: LedgerEntry[];
+}
+
+type UnbalancedEntry = Omit<LedgerEntry, "balance">;
+
+// Same-day entries are listed in this order so a week's summary follows its trips
+const SOURCE_ORDER: LedgerSource[] = ["rent", "collection", "wallet", "dues", "payout", "advance", "incident", "deposit", "adjustment"];
+
+function signedEntry(entry: Omit<UnbalancedEntry, "debit" | "credit">, amount: number): UnbalancedEntry {
+  return { ...entry, debit: amount < 0 ? -amount : 0, credit: amount > 0 ? amount : 0 };
+}
+
+async function collectEntries(driverId: number): Promise<UnbalancedEntry[]> {
+  const [rentLogs, summaries, payouts, advances, incidents, deductions, adjustments] = await Promise.all([
+    storage.getRentLogsForDriver(driverId),
+    storage.getWeeklySummariesForDriver(driverId),
+    storage.getDriverPayouts({ driverId, includeVoided: false }),
+    storage.getDriverAdvances(driverId),
+    storage.getIncidents({ driverId }),
+    storage.getDepositDeductions(driverId),
+    storage.getDriverAdjustments(driverId),
+  ]);
+
+  const entries: UnbalancedEntry[] = [];
+
+  for (const log of rentLogs) {
+    const date = log.date.toISOString().split("T")[0];
+    const refId = String(log.id);
+    if (log.rent) {
+      entries.push(signedEntry({ date, source: "rent", description: `Rent (${log.shift} shift)`, refId }, -log.rent));
+    }
+    if (log.amountCollected) {
+      entries.push(signedEntry({ date, source: "collection", description: `Collection (${log.shift} shift)`, refId }, log.amountCollected));
+    }
+  }
+
+  for (const summary of summaries) {
+    const date = summary.endDate;
+    const refId = `${summary.driverId}:${summary.startDate}:${summary.endDate}`;
+    const week = `${summary.startDate} to ${summary.endDate}`;
+    entries.push(signedEntry({ date, source: "wallet", description: `Wallet, week ${week}`, refId }, weeklyWallet(summary)));
+    if (summary.dues) {
+      entries.push(signedEntry({ date, source: "dues", description: `Dues, week ${week}`, refId }, summary.dues));
+    }
+  }
+
+  for (const payout of payouts) {
+    const reference = payout.reference ? ` ${payout.reference}` : "";
+    entries.push(signedEntry({
+      date: payout.date,
+      source: "payout",
+      description: `Payout (${payout.method}${reference})`,
+      refId: String(payout.id),
+    }, -payout.amount));
+  }
+
+  // An advance is a separate loan; only its instalments pass through the
+  // driver's account, deducted on their due dates
+  for (const advance of advances) {
+    const count = instalmentSchedule(advance).length;
+    for (const instalment of dueInstalments(advance)) {
+      entries.push(signedEntry({
+        date: instalment.dueDate,
+        source: "advance",
+        description: `Advance instalment ${instalment.number}/${count} (issued ${advance.issuedDate})`,
+        refId: String(advance.id),
+      }, -instalment.amount));
+    }
+  }
+
+  for (const incident of incidents) {
+    if (!incident.chargeToDriver) continue;
+    const reference = incident.reference ? ` ${incident.reference}` : "";
+    entries.push(signedEntry({
+      date: incident.chargeDate,
+      source: "incident",
+      description: `${incident.type === "challan" ? "Challan" : "Incident"}${reference}, ${incident.vehicleNumber} on ${incident.date}`,
+      refId: String(incident.id),
+    }, -incident.amount));
+  }
+
+  // Dues recovered from the security deposit; damage and other deductions are
+  // charges outside the driver's account
+  for (const deduction of deductions) {
+    if (deduction.reason !== "unpaid_dues") continue;
+    entries.push(signedEntry({
+      date: deduction.date,
+      source: "deposit",
+      description: `Dues recovered from deposit: ${deduction.description}`,
+      refId: String(deduction.id),
+    }, deduction.amount));
+  }
+
+  for (const adjustment of adjustments) {
+    entries.push(signedEntry({
+      date: adjustment.date,
+      source: "adjustment",
+      description: adjustment.description,
+      refId: String(adjustment.id),
+    }, adjustment.amount));
+  }
+
+  return entries.sort((a, b) =>
+    a.date.localeCompare(b.date) || SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source)
+  );
+}
+
+/**
+ * Dated debit/credit statement for one driver. Everything before `from` is
+ * rolled into the opening balance; `from` and `to` are inclusive and either
+ * may be omitted.
+ */
+export async function buildDriverLedger(driverId: number, from?: string, to?: string): Promise<DriverLedger | undefined> {
+  const driver = await storage.getDriver(driverId);
+  if (!driver) return undefined;
+
+  const all = await collectEntries(driverId);
+
+  let openingBalance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const entries: LedgerEntry[] = [];
+
+  for (const entry of all) {
+    if (to && entry.date > to) break;
+    if (from && entry.date < from) {
+      openingBalance += entry.credit - entry.debit;
+      continue;
+    }
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    entries.push({ ...entry, balance: openingBalance + totalCredit - totalDebit });
+  }
+
+  return {
+    driverId,
+    driverName: driver.name,
+    from: from ?? null,
+    to: to ?? null,
+    openingBalance,
+    totalDebit,
+    totalCredit,
+    closingBalance: openingBalance + totalCredit - totalDebit,
+    entries,
+  };
+}
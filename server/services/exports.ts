@@ -0,0 +1,81 @@
+import { storage } from "../storage";
+import type { SpreadsheetColumn } from "./spreadsheets";
+import type { ExportType } from "@shared/schema";
+
+export interface ExportData {
+  sheetName: string;
+  columns: SpreadsheetColumn[]; // what the xlsx export shows; the JSON export has every field
+  rows: Array<Record<string, unknown>>;
+}
+
+const text = (header: string, key: string, width?: number): SpreadsheetColumn => ({ header, key, kind: "text", width });
+const money = (header: string, key: string): SpreadsheetColumn => ({ header, key, kind: "money" });
+const number = (header: string, key: string): SpreadsheetColumn => ({ header, key, kind: "number" });
+const date = (header: string, key: string): SpreadsheetColumn => ({ header, key, kind: "date" });
+
+/** The rows and spreadsheet columns of an export. Weekly summaries can be limited to weeks overlapping a range. */
+export async function buildExport(type: ExportType, range: { startDate?: string; endDate?: string } = {}): Promise<ExportData> {
+  switch (type) {
+    case "settlements":
+      return {
+        sheetName: "Settlements",
+        columns: [
+          date("Week start", "weekStart"), date("Week end", "weekEnd"),
+          money("Rent", "rent"), money("Wallet", "wallet"),
+          money("Company rent", "companyRent"), money("Company wallet", "companyWallet"),
+          money("Wallet deduction", "walletDeduction"), money("Room rent", "roomRent"), money("Profit", "profit"),
+        ],
+        rows: await storage.listWeeklySettlements(),
+      };
+    case "trips":
+      return {
+        sheetName: "Trips",
+        columns: [
+          date("Date", "date"), text("Driver", "driverName", 24), text("Vehicle", "vehicleNumber", 16), text("Shift", "shift"),
+          money("Rent", "rent"), money("Collection", "amountCollected"), money("Fuel", "fuel"),
+        ],
+        rows: await storage.getRecentRentLogs(1000), // the last 1000 rent logs
+      };
+    case "drivers":
+      return {
+        sheetName: "Drivers",
+        columns: [
+          text("Name", "name", 24), text("Phone", "phone", 16), text("QR code", "qrCode"),
+          date("Joined", "joinedDate"), date("Dismissed", "dismissDate"),
+          text("Licence number", "licenceNumber", 20), date("Licence expiry", "licenceExpiry"),
+          text("Badge number", "badgeNumber"), date("Badge expiry", "badgeExpiry"),
+          text("Accommodation", "accommodationName", 20), money("Room rent per day", "dailyRent"),
+        ],
+        rows: await storage.getAllDrivers(),
+      };
+    case "vehicles":
+      return {
+        sheetName: "Vehicles",
+        columns: [
+          text("Vehicle number", "vehicleNumber", 16), text("Company", "companyName", 20), text("QR code", "qrCode"),
+          date("Purchased", "purchasedDate"), date("Dropped", "droppedDate"),
+        ],
+        rows: await storage.getAllVehicles(),
+      };
+    case "weekly-summaries":
+      return {
+        sheetName: "Weekly Summaries",
+        columns: [
+          date("Week start", "startDate"), date("Week end", "endDate"), text("Driver", "driverName", 24),
+          number("Trips", "trips"), money("Total earnings", "totalEarnings"), money("Cash", "cash"),
+          money("Refund", "refund"), money("Expenses", "expenses"), money("Dues", "dues"),
+          money("Tolls", "tolls"), money("Tips", "tips"), money("Incentives", "incentives"), money("Platform fees", "platformFees"),
+        ],
+        rows: await storage.getWeeklySummariesWithDrivers(range.startDate, range.endDate),
+      };
+    case "investments":
+      return {
+        sheetName: "Investments",
+        columns: [
+          text("Investor", "investorName", 24), money("Amount invested", "amountInvested"), date("Given on", "paymentGivenDate"),
+          text("Payment method", "paymentMethod", 16), money("Returned", "totalReturned"), money("Balance", "balance"),
+        ],
+        rows: await storage.getAllInvestments(),
+      };
+  }
+}
@@ -0,0 +1,53 @@
+import { storage } from "../storage";
+import { buildDriverLedger } from "./driverLedger";
+import { withSchedule } from "./driverAdvances";
+import type { DriverDeposit, DepositDeduction } from "@shared/schema";
+
+export interface FinalSettlement {
+  driverId: number;
+  driverName: string;
+  joinedDate: string;
+  dismissDate: string;
+  deposit: DriverDeposit | null;
+  deductions: DepositDeduction[];
+  depositBalance: number;     // deposit less deductions
+  ledgerBalance: number;      // positive means the fleet owes the driver
+  outstandingAdvance: number; // principal not yet recovered through instalments
+  netPayable: number;         // positive: refund the driver; negative: recover from the driver
+}
+
+/**
+ * Settlement for a dismissed driver: the deposit left after deductions, netted
+ * against everything in the driver's ledger and any advance still outstanding.
+ * Uses the whole ledger rather than stopping at the dismiss date, so dues
+ * recovered from the deposit and the final refund payout, both recorded after
+ * dismissal, are counted and the net drops to zero once the driver is paid.
+ */
+export async function buildFinalSettlement(driverId: number): Promise<FinalSettlement | undefined> {
+  const driver = await storage.getDriver(driverId);
+  if (!driver || !driver.dismissDate) return undefined;
+
+  const [deposit, deductions, ledger, advances] = await Promise.all([
+    storage.getDriverDeposit(driverId),
+    storage.getDepositDeductions(driverId),
+    buildDriverLedger(driverId),
+    storage.getDriverAdvances(driverId),
+  ]);
+
+  const depositBalance = (deposit?.amount ?? 0) - deductions.reduce((sum, deduction) => sum + deduction.amount, 0);
+  const ledgerBalance = ledger?.closingBalance ?? 0;
+  const outstandingAdvance = advances.reduce((sum, advance) => sum + withSchedule(advance).outstanding, 0);
+
+  return {
+    driverId,
+    driverName: driver.name,
+    joinedDate: driver.joinedDate,
+    dismissDate: driver.dismissDate,
+    deposit: deposit ?? null,
+    deductions,
+    depositBalance,
+    ledgerBalance,
+    outstandingAdvance,
+    netPayable: depositBalance + ledgerBalance - outstandingAdvance,
+  };
+}
@@ -0,0 +1,271 @@
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { storage } from "../storage";
+import type { FuelEntry, FuelEntryValues, FuelType, InsertFuelEntry } from "@shared/schema";
+
+// A shift is flagged when its fuel spend is more than this fraction above or below the vehicle's median
+export const OUTLIER_RATIO = 0.5;
+// Fewer fuelled shifts than this in the period is too little history for a norm
+export const MIN_SHIFTS_FOR_NORM = 5;
+export const DEFAULT_REPORT_WEEKS = 8;
+// How far before the period to look for the full-tank fill its first efficiency point starts from
+const EFFICIENCY_LOOKBACK_DAYS = 60;
+
+type Shift = "morning" | "evening";
+
+/** Fuel entry columns for a create or update; the amount defaults to quantity × price. */
+export function fuelEntryValues(input: InsertFuelEntry): FuelEntryValues {
+  return {
+    ...input,
+    quantity: input.quantity.toFixed(2),
+    pricePerUnit: input.pricePerUnit.toFixed(2),
+    amount: input.amount ?? Math.round(input.quantity * input.pricePerUnit),
+    odometer: input.odometer ?? null,
+  };
+}
+
+/**
+ * Why an odometer reading does not fit the vehicle's other fuel entries, or
+ * null if it does: readings may not fall below an earlier fill's or above a
+ * later one's.
+ */
+export async function odometerError(vehicleId: number, date: string, odometer: number | null | undefined, excludeId?: number): Promise<string | null> {
+  if (odometer === null || odometer === undefined) return null;
+  const entries = await storage.getFuelEntries({ vehicleId });
+  for (const entry of entries) {
+    if (entry.id === excludeId || entry.odometer === null) continue;
+    if (entry.date < date && entry.odometer > odometer) {
+      return `Odometer ${odometer} km is below the ${entry.odometer} km recorded on ${entry.date}`;
+    }
+    if (entry.date > date && entry.odometer < odometer) {
+      return `Odometer ${odometer} km is above the ${entry.odometer} km recorded on ${entry.date}`;
+    }
+  }
+  return null;
+}
+
+export interface FuelShift {
+  date: string;
+  shift: Shift;
+  driverName: string | null;       // regular driver or substitute on the shift, if logged
+  substitute: boolean;
+  trips: number;
+  spend: number;
+  source: "entries" | "trip_log"; // fuel entries when there are any, else the trip log's fuel figure
+  deviation: number | null;        // fraction above (+) or below (-) the vehicle's median
+  outlier: boolean;
+}
+
+export interface FuelEfficiencyPoint {
+  date: string;
+  fuelType: FuelType;
+  odometer: number;
+  distanceKm: number;
+  quantity: number;   // fuel used over the distance, including partial top-ups in between
+  kmPerUnit: number;  // km per litre, kg or kWh
+  costPerKm: number;
+}
+
+export interface FuelWeek {
+  weekStart: string;
+  weekEnd: string;
+  spend: number;
+  quantity: number;
+  trips: number;
+  costPerTrip: number | null;
+}
+
+export interface VehicleFuelReport {
+  vehicleId: number;
+  vehicleNumber: string;
+  fuelType: FuelType | null; // fuel most spent on in the period
+  spend: number;
+  quantity: number;
+  trips: number;
+  costPerTrip: number | null;
+  kmPerUnit: number | null;  // for the main fuel type, over the period's full-tank fills
+  medianShiftSpend: number | null;
+  outliers: number;
+  weeks: FuelWeek[];
+  efficiency: FuelEfficiencyPoint[];
+  shifts: FuelShift[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const shiftKey = (vehicleId: number, date: string, shift: string) => `${vehicleId}|${date}|${shift}`;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Distance and fuel between consecutive full-tank fills of the same fuel type.
+ * Fuel from partial top-ups since the previous full fill counts towards the
+ * next one; the first full fill only sets the starting odometer.
+ */
+export function efficiencyPoints(entries: FuelEntry[]): FuelEfficiencyPoint[] {
+  const ordered = [...entries].sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.odometer ?? 0) - (b.odometer ?? 0) || a.id - b.id);
+  const chains = new Map<string, { odometer: number | null; quantity: number; cost: number }>();
+  const points: FuelEfficiencyPoint[] = [];
+
+  for (const entry of ordered) {
+    const chain = chains.get(entry.fuelType) ?? { odometer: null, quantity: 0, cost: 0 };
+    chain.quantity += Number(entry.quantity);
+    chain.cost += entry.amount;
+
+    if (entry.fullTank && entry.odometer !== null) {
+      if (chain.odometer !== null && entry.odometer > chain.odometer && chain.quantity > 0) {
+        const distanceKm = entry.odometer - chain.odometer;
+        points.push({
+          date: entry.date,
+          fuelType: entry.fuelType as FuelType,
+          odometer: entry.odometer,
+          distanceKm,
+          quantity: round2(chain.quantity),
+          kmPerUnit: round2(distanceKm / chain.quantity),
+          costPerKm: round2(chain.cost / distanceKm),
+        });
+      }
+      chain.odometer = entry.odometer;
+      chain.quantity = 0;
+      chain.cost = 0;
+    }
+    chains.set(entry.fuelType, chain);
+  }
+  return points;
+}
+
+function defaultRange(): { from: string; to: string } {
+  const to = new Date();
+  return {
+    from: format(addDays(startOfWeek(to, { weekStartsOn: 1 }), -7 * (DEFAULT_REPORT_WEEKS - 1)), "yyyy-MM-dd"),
+    to: format(to, "yyyy-MM-dd"),
+  };
+}
+
+/**
+ * Fuel spend, efficiency and cost per trip for each vehicle with fuel or
+ * trips in the period, by settlement week (Monday to Sunday). Each shift's
+ * spend is compared with the vehicle's median over the period's fuelled
+ * shifts, and those far from it are flagged.
+ */
+export async function buildFuelReport(query: { vehicleId?: number; from?: string; to?: string }): Promise<VehicleFuelReport[]> {
+  const range = defaultRange();
+  const from = query.from ?? range.from;
+  const to = query.to ?? range.to;
+  const [vehicles, entries, history, shifts] = await Promise.all([
+    storage.getAllVehicles(),
+    storage.getFuelEntries({ vehicleId: query.vehicleId, from, to }),
+    storage.getFuelEntries({ vehicleId: query.vehicleId, from: format(addDays(parseISO(from), -EFFICIENCY_LOOKBACK_DAYS), "yyyy-MM-dd"), to }),
+    storage.getVehicleShiftsForDateRange(from, to, query.vehicleId),
+  ]);
+
+  const reports: VehicleFuelReport[] = [];
+  for (const vehicle of vehicles) {
+    if (query.vehicleId && vehicle.id !== query.vehicleId) continue;
+    const vehicleEntries = entries.filter((e) => e.vehicleId === vehicle.id);
+    const vehicleShifts = shifts.filter((s) => s.vehicleId === vehicle.id);
+    if (vehicleEntries.length === 0 && vehicleShifts.length === 0) continue;
+
+    // One row per shift driven or fuelled
+    const byShift = new Map<string, FuelShift & { entrySpend: number; logFuel: number; hasEntries: boolean }>();
+    const rowFor = (date: string, shift: string) => {
+      const key = shiftKey(vehicle.id, date, shift);
+      let row = byShift.get(key);
+      if (!row) {
+        row = {
+          date, shift: shift as Shift, driverName: null, substitute: false, trips: 0, spend: 0,
+          source: "trip_log", deviation: null, outlier: false, entrySpend: 0, logFuel: 0, hasEntries: false,
+        };
+        byShift.set(key, row);
+      }
+      return row;
+    };
+    for (const s of vehicleShifts) {
+      const row = rowFor(s.date, s.shift);
+      // A substitute drove in place of the regular driver, so they take the shift
+      if (!row.driverName || s.substitute) {
+        row.driverName = s.driverName;
+        row.substitute = s.substitute;
+      }
+      row.trips += s.trips;
+      row.logFuel += s.fuel;
+    }
+    for (const entry of vehicleEntries) {
+      const row = rowFor(entry.date, entry.shift);
+      row.entrySpend += entry.amount;
+      row.hasEntries = true;
+    }
+
+    const rows: FuelShift[] = Array.from(byShift.values()).map(({ entrySpend, logFuel, hasEntries, ...row }) => ({
+      ...row,
+      spend: hasEntries ? entrySpend : logFuel,
+      source: hasEntries ? "entries" : "trip_log",
+    }));
+
+    const fuelled = rows.filter((row) => row.spend > 0).map((row) => row.spend);
+    const norm = fuelled.length >= MIN_SHIFTS_FOR_NORM ? median(fuelled) : null;
+    if (norm) {
+      for (const row of rows) {
+        if (row.spend <= 0) continue;
+        row.deviation = round2((row.spend - norm) / norm);
+        row.outlier = Math.abs(row.deviation) > OUTLIER_RATIO;
+      }
+    }
+    rows.sort((a, b) => b.date.localeCompare(a.date) || b.shift.localeCompare(a.shift));
+
+    const weeks = new Map<string, FuelWeek>();
+    for (const row of rows) {
+      const monday = startOfWeek(parseISO(row.date), { weekStartsOn: 1 });
+      const weekStart = format(monday, "yyyy-MM-dd");
+      const week = weeks.get(weekStart) ?? {
+        weekStart, weekEnd: format(addDays(monday, 6), "yyyy-MM-dd"), spend: 0, quantity: 0, trips: 0, costPerTrip: null,
+      };
+      week.spend += row.spend;
+      week.trips += row.trips;
+      weeks.set(weekStart, week);
+    }
+    for (const entry of vehicleEntries) {
+      const week = weeks.get(format(startOfWeek(parseISO(entry.date), { weekStartsOn: 1 }), "yyyy-MM-dd"));
+      if (week) week.quantity = round2(week.quantity + Number(entry.quantity));
+    }
+    for (const week of Array.from(weeks.values())) {
+      week.costPerTrip = week.trips > 0 ? Math.round(week.spend / week.trips) : null;
+    }
+
+    const spendByType = new Map<FuelType, number>();
+    for (const entry of vehicleEntries) {
+      const type = entry.fuelType as FuelType;
+      spendByType.set(type, (spendByType.get(type) ?? 0) + entry.amount);
+    }
+    const fuelType = Array.from(spendByType.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+    const efficiency = efficiencyPoints(history.filter((e) => e.vehicleId === vehicle.id))
+      .filter((point) => point.date >= from);
+    const main = efficiency.filter((point) => point.fuelType === fuelType);
+    const mainDistance = main.reduce((sum, point) => sum + point.distanceKm, 0);
+    const mainQuantity = main.reduce((sum, point) => sum + point.quantity, 0);
+
+    const spend = rows.reduce((sum, row) => sum + row.spend, 0);
+    const trips = rows.reduce((sum, row) => sum + row.trips, 0);
+    reports.push({
+      vehicleId: vehicle.id,
+      vehicleNumber: vehicle.vehicleNumber,
+      fuelType,
+      spend,
+      quantity: round2(vehicleEntries.reduce((sum, entry) => sum + Number(entry.quantity), 0)),
+      trips,
+      costPerTrip: trips > 0 ? Math.round(spend / trips) : null,
+      kmPerUnit: mainQuantity > 0 ? round2(mainDistance / mainQuantity) : null,
+      medianShiftSpend: norm,
+      outliers: rows.filter((row) => row.outlier).length,
+      weeks: Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+      efficiency,
+      shifts: rows,
+    });
+  }
+
+  return reports.sort((a, b) => a.vehicleNumber.localeCompare(b.vehicleNumber));
+}
@@ -0,0 +1,106 @@
+import { addDays, format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import type { IncidentResolution, IncidentValues, InsertIncident } from "@shared/schema";
+
+// Shift boundaries as labelled on the trip forms: morning 6 AM - 2 PM, evening 2 PM - 10 PM
+const MORNING_START_HOUR = 6;
+const EVENING_START_HOUR = 14;
+
+export type Shift = "morning" | "evening";
+
+/** Shift an incident at `time` on `date` falls in; the small hours belong to the previous evening. */
+export function shiftAt(date: string, time: string): { shiftDate: string; shift: Shift } {
+  const hour = Number(time.slice(0, 2));
+  if (hour < MORNING_START_HOUR) {
+    return { shiftDate: format(addDays(parseISO(date), -1), "yyyy-MM-dd"), shift: "evening" };
+  }
+  return { shiftDate: date, shift: hour < EVENING_START_HOUR ? "morning" : "evening" };
+}
+
+export interface IncidentResponsibility {
+  shiftDate: string;
+  shift: Shift | null;
+  driverId: number | null;
+  driverName: string | null;
+  substituteDriverId: number | null;
+  substituteName: string | null;
+  resolvedBy: IncidentResolution | null;
+  note: string; // how the driver was worked out, or why not
+}
+
+/**
+ * Who had the vehicle when an incident happened. A substitute shift on the
+ * vehicle takes precedence over the trip log for the same shift, since the
+ * substitute drove in place of the regular driver. Without a time the
+ * incident can only be resolved if a single person drove the vehicle that day.
+ */
+export async function resolveResponsibility(vehicleId: number, date: string, time?: string | null): Promise<IncidentResponsibility> {
+  const { shiftDate, shift } = time ? shiftAt(date, time) : { shiftDate: date, shift: null };
+  const [rentLogs, substitutes] = await Promise.all([
+    storage.getRentLogsForVehicleOnDate(vehicleId, shiftDate),
+    storage.getSubstituteDriversForVehicleOnDate(vehicleId, shiftDate),
+  ]);
+  const unresolved = { shiftDate, shift, driverId: null, driverName: null, substituteDriverId: null, substituteName: null, resolvedBy: null };
+
+  const shiftSubstitutes = shift ? substitutes.filter((s) => s.shift === shift) : substitutes;
+  const shiftLogs = shift ? rentLogs.filter((log) => log.shift === shift) : rentLogs;
+  const people = shiftSubstitutes.length + new Set(shiftLogs.map((log) => log.driverId)).size;
+  const when = shift ? `the ${shift} shift on ${shiftDate}` : shiftDate;
+
+  if (people === 0) {
+    return { ...unresolved, note: `Nobody is logged on this vehicle for ${when}; choose the driver to charge` };
+  }
+  if (shift === null && people > 1) {
+    return { ...unresolved, note: `${people} people drove this vehicle on ${shiftDate}; add the time or choose the driver to charge` };
+  }
+
+  const substitute = shiftSubstitutes[0];
+  if (substitute) {
+    return {
+      ...unresolved,
+      shift: substitute.shift as Shift,
+      substituteDriverId: substitute.id,
+      substituteName: substitute.name,
+      resolvedBy: "substitute",
+      note: `Substitute ${substitute.name} drove ${when}; substitutes have no settlement, so choose a driver to charge if it should be recovered`,
+    };
+  }
+
+  const log = shiftLogs[0];
+  return {
+    ...unresolved,
+    shift: log.shift as Shift,
+    driverId: log.driverId,
+    driverName: log.driverName,
+    resolvedBy: "rent_log",
+    note: `${log.driverName} drove the ${log.shift} shift on ${shiftDate}`,
+  };
+}
+
+/**
+ * Incident columns for a create or update. A driver chosen by hand overrides
+ * the resolution; the charge goes in the settlement week of chargeDate, which
+ * defaults to the day the incident is entered so closed weeks stay untouched.
+ */
+export async function incidentValues(input: InsertIncident, today: string): Promise<IncidentValues> {
+  const { driverId, chargeDate, time, ...rest } = input;
+  const resolution = await resolveResponsibility(input.vehicleId, input.date, time);
+  const manual = driverId !== null && driverId !== undefined;
+
+  return {
+    ...rest,
+    time: time ?? null,
+    shiftDate: resolution.shiftDate,
+    shift: resolution.shift,
+    driverId: manual ? driverId : resolution.driverId,
+    substituteDriverId: resolution.substituteDriverId,
+    resolvedBy: manual ? "manual" : resolution.resolvedBy,
+    chargeDate: chargeDate ?? today,
+  };
+}
+
+/** Total charged per driver for incidents whose charge date falls in the range. */
+export async function incidentChargesForRange(startDate: string, endDate: string): Promise<Map<number, number>> {
+  const totals = await storage.getIncidentChargeTotalsForDateRange(startDate, endDate);
+  return new Map(totals.map((row) => [row.driverId, row.total]));
+}
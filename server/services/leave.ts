@@ -0,0 +1,164 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import type { DriverLeaveWithNames, InsertDriverLeave, LeaveType, RosterEntryWithNames, VehicleDriverAssignment } from "@shared/schema";
+
+// Leave nobody planned around, so the driver's vehicle may have stood idle
+const UNPLANNED_LEAVE_TYPES: LeaveType[] = ["unplanned", "sick"];
+export const DEFAULT_REPORT_DAYS = 30;
+
+const later = (a: string, b: string) => (a > b ? a : b);
+const earlier = (a: string, b: string) => (a < b ? a : b);
+
+/** Why a driver's leave clashes with leave already on record, or null if it does not. */
+export async function leaveOverlap(
+  leave: Pick<InsertDriverLeave, "driverId" | "startDate" | "endDate">,
+  excludeId?: number,
+): Promise<string | null> {
+  const overlapping = await storage.findOverlappingDriverLeaves(leave.driverId, leave.startDate, leave.endDate, excludeId);
+  if (!overlapping.length) return null;
+  const periods = overlapping.map((other) =>
+    other.startDate === other.endDate ? other.startDate : `${other.startDate} to ${other.endDate}`);
+  return `Driver is already on leave ${periods.join(", ")}`;
+}
+
+/**
+ * Days of leave each driver took within the range. "No vehicle" days are the
+ * fleet's doing, not the driver's, so they are left out.
+ */
+export async function leaveDaysForRange(startDate: string, endDate: string): Promise<Map<number, number>> {
+  const leaves = await storage.getDriverLeaves({ from: startDate, to: endDate });
+  const days = new Map<number, number>();
+  for (const leave of leaves) {
+    if (leave.type === "no_vehicle") continue;
+    const count = differenceInCalendarDays(
+      parseISO(earlier(leave.endDate, endDate)),
+      parseISO(later(leave.startDate, startDate)),
+    ) + 1;
+    days.set(leave.driverId, (days.get(leave.driverId) ?? 0) + count);
+  }
+  return days;
+}
+
+export interface IdleVehicleShift {
+  date: string;
+  shift: string | null;     // null when the driver has no usual shift on the vehicle
+  vehicleId: number;
+  vehicleNumber: string;
+  driverId: number;
+  driverName: string;
+  leaveId: number;
+  leaveType: string;
+  basis: "roster" | "leave" | "assignment"; // where the vehicle and shift came from
+}
+
+export interface IdleVehicleSummary {
+  vehicleId: number;
+  vehicleNumber: string;
+  idleShifts: number;
+}
+
+export interface IdleVehicleReport {
+  from: string;
+  to: string;
+  shifts: IdleVehicleShift[];
+  vehicles: IdleVehicleSummary[];
+}
+
+interface PlannedSlot {
+  vehicleId: number;
+  shift: string | null;
+  basis: IdleVehicleShift["basis"];
+}
+
+/**
+ * The vehicle and shift a driver would have worked on a day: their roster
+ * entries, else the vehicle noted on the leave, else their standing
+ * assignment.
+ */
+function plannedSlots(
+  leave: DriverLeaveWithNames,
+  date: string,
+  roster: RosterEntryWithNames[],
+  assignments: VehicleDriverAssignment[],
+): PlannedSlot[] {
+  const rostered = roster.filter((entry) => entry.driverId === leave.driverId && entry.date === date);
+  if (rostered.length) {
+    return rostered.map((entry) => ({ vehicleId: entry.vehicleId, shift: entry.shift, basis: "roster" }));
+  }
+
+  const standing = assignments.flatMap((assignment) => [
+    ...(assignment.morningDriverId === leave.driverId ? [{ vehicleId: assignment.vehicleId, shift: "morning" }] : []),
+    ...(assignment.eveningDriverId === leave.driverId ? [{ vehicleId: assignment.vehicleId, shift: "evening" }] : []),
+  ]);
+  if (leave.vehicleId) {
+    const onVehicle = standing.filter((slot) => slot.vehicleId === leave.vehicleId);
+    return onVehicle.length
+      ? onVehicle.map((slot) => ({ ...slot, basis: "leave" }))
+      : [{ vehicleId: leave.vehicleId, shift: null, basis: "leave" }];
+  }
+  return standing.map((slot) => ({ ...slot, basis: "assignment" }));
+}
+
+/**
+ * Shifts a vehicle went undriven because its driver was on unplanned or sick
+ * leave: the driver's planned slot has no rent log or substitute against it.
+ */
+export async function buildIdleVehicleReport(query: { from?: string; to?: string }): Promise<IdleVehicleReport> {
+  const today = new Date();
+  const from = query.from ?? format(addDays(today, -DEFAULT_REPORT_DAYS), "yyyy-MM-dd");
+  const to = query.to ?? format(today, "yyyy-MM-dd");
+  const [leaves, roster, assignments, vehicles, driven] = await Promise.all([
+    storage.getDriverLeaves({ from, to }),
+    storage.getRosterEntries({ from, to }),
+    storage.getAllVehicleDriverAssignments(),
+    storage.getAllVehicles(),
+    storage.getVehicleShiftsForDateRange(from, to),
+  ]);
+  const vehiclesById = new Map(vehicles.map((vehicle) => [vehicle.id, vehicle]));
+  const drivenSlots = new Set(driven.map((s) => `${s.vehicleId}|${s.date}|${s.shift}`));
+  const drivenDays = new Set(driven.map((s) => `${s.vehicleId}|${s.date}`));
+
+  const shifts = new Map<string, IdleVehicleShift>();
+  for (const leave of leaves) {
+    if (!UNPLANNED_LEAVE_TYPES.includes(leave.type as LeaveType)) continue;
+    const last = earlier(leave.endDate, to);
+    for (let day = parseISO(later(leave.startDate, from)); format(day, "yyyy-MM-dd") <= last; day = addDays(day, 1)) {
+      const date = format(day, "yyyy-MM-dd");
+      for (const slot of plannedSlots(leave, date, roster, assignments)) {
+        const vehicle = vehiclesById.get(slot.vehicleId);
+        if (!vehicle || date < vehicle.purchasedDate || (vehicle.droppedDate && date >= vehicle.droppedDate)) continue;
+        const idle = slot.shift
+          ? !drivenSlots.has(`${slot.vehicleId}|${date}|${slot.shift}`)
+          : !drivenDays.has(`${slot.vehicleId}|${date}`);
+        const key = `${slot.vehicleId}|${date}|${slot.shift ?? "day"}`;
+        if (!idle || shifts.has(key)) continue;
+        shifts.set(key, {
+          date,
+          shift: slot.shift,
+          vehicleId: slot.vehicleId,
+          vehicleNumber: vehicle.vehicleNumber,
+          driverId: leave.driverId,
+          driverName: leave.driverName,
+          leaveId: leave.id,
+          leaveType: leave.type,
+          basis: slot.basis,
+        });
+      }
+    }
+  }
+
+  const rows = Array.from(shifts.values())
+    .sort((a, b) => b.date.localeCompare(a.date) || a.vehicleNumber.localeCompare(b.vehicleNumber));
+  const summary = new Map<number, IdleVehicleSummary>();
+  for (const row of rows) {
+    const entry = summary.get(row.vehicleId) ?? { vehicleId: row.vehicleId, vehicleNumber: row.vehicleNumber, idleShifts: 0 };
+    entry.idleShifts += 1;
+    summary.set(row.vehicleId, entry);
+  }
+  return {
+    from,
+    to,
+    shifts: rows,
+    vehicles: Array.from(summary.values()).sort((a, b) => b.idleShifts - a.idleShifts || a.vehicleNumber.localeCompare(b.vehicleNumber)),
+  };
+}
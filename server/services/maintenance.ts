@@ -0,0 +1,108 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import type { MaintenanceCategory, MaintenanceRecord, ServiceInterval } from "@shared/schema";
+
+// A service is flagged as upcoming this many days or km before it falls due
+export const UPCOMING_DAYS = 14;
+export const UPCOMING_KM = 1000;
+
+export type ServiceStatus = "overdue" | "upcoming" | "ok";
+
+export interface ServiceDue {
+  intervalId: number;
+  vehicleId: number;
+  vehicleNumber: string;
+  category: MaintenanceCategory;
+  intervalDays: number | null;
+  intervalKm: number | null;
+  lastDate: string | null;      // last record of this category, if any
+  lastOdometer: number | null;
+  dueDate: string | null;
+  dueKm: number | null;
+  currentOdometer: number | null; // highest reading noted on any record for the vehicle
+  daysLeft: number | null;        // negative once overdue
+  kmLeft: number | null;
+  status: ServiceStatus;
+}
+
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+/**
+ * When an interval next falls due. Days count from the last record of the
+ * category, or from the purchase date if there is none; km count from the last
+ * record's odometer reading, so a km interval has no due reading until a
+ * record with one exists.
+ */
+export function serviceDue(
+  interval: ServiceInterval,
+  vehicle: { vehicleNumber: string; purchasedDate: string },
+  records: MaintenanceRecord[],
+  asOf: string = today(),
+): ServiceDue {
+  const last = records
+    .filter((record) => record.category === interval.category && record.date <= asOf)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id)[0];
+  const readings = records.map((record) => record.odometer).filter((odometer): odometer is number => odometer !== null);
+  const currentOdometer = readings.length > 0 ? Math.max(...readings) : null;
+
+  const dueDate = interval.intervalDays
+    ? format(addDays(parseISO(last?.date ?? vehicle.purchasedDate), interval.intervalDays), "yyyy-MM-dd")
+    : null;
+  const dueKm = interval.intervalKm && last?.odometer != null ? last.odometer + interval.intervalKm : null;
+  const daysLeft = dueDate ? differenceInCalendarDays(parseISO(dueDate), parseISO(asOf)) : null;
+  const kmLeft = dueKm !== null && currentOdometer !== null ? dueKm - currentOdometer : null;
+
+  let status: ServiceStatus = "ok";
+  if ((daysLeft !== null && daysLeft < 0) || (kmLeft !== null && kmLeft <= 0)) {
+    status = "overdue";
+  } else if ((daysLeft !== null && daysLeft <= UPCOMING_DAYS) || (kmLeft !== null && kmLeft <= UPCOMING_KM)) {
+    status = "upcoming";
+  }
+
+  return {
+    intervalId: interval.id,
+    vehicleId: interval.vehicleId,
+    vehicleNumber: vehicle.vehicleNumber,
+    category: interval.category as MaintenanceCategory,
+    intervalDays: interval.intervalDays,
+    intervalKm: interval.intervalKm,
+    lastDate: last?.date ?? null,
+    lastOdometer: last?.odometer ?? null,
+    dueDate,
+    dueKm,
+    currentOdometer,
+    daysLeft,
+    kmLeft,
+    status,
+  };
+}
+
+const STATUS_ORDER: Record<ServiceStatus, number> = { overdue: 0, upcoming: 1, ok: 2 };
+
+/**
+ * Due state of every service interval, for one vehicle or for all vehicles
+ * still in the fleet, most urgent first.
+ */
+export async function buildServiceSchedule(vehicleId?: number, asOf: string = today()): Promise<ServiceDue[]> {
+  const [vehicles, intervals, records] = await Promise.all([
+    storage.getAllVehicles(),
+    storage.getServiceIntervals(vehicleId),
+    storage.getMaintenanceRecords({ vehicleId }),
+  ]);
+
+  const schedule: ServiceDue[] = [];
+  for (const interval of intervals) {
+    const vehicle = vehicles.find((v) => v.id === interval.vehicleId);
+    if (!vehicle) continue;
+    if (vehicleId === undefined && vehicle.droppedDate && vehicle.droppedDate < asOf) continue;
+    schedule.push(serviceDue(interval, vehicle, records.filter((record) => record.vehicleId === vehicle.id), asOf));
+  }
+
+  return schedule.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+      || (a.daysLeft ?? Number.MAX_SAFE_INTEGER) - (b.daysLeft ?? Number.MAX_SAFE_INTEGER)
+      || (a.kmLeft ?? Number.MAX_SAFE_INTEGER) - (b.kmLeft ?? Number.MAX_SAFE_INTEGER)
+  );
+}
@@ -0,0 +1,183 @@
+import { storage } from "../storage";
+import type { Driver, DriverAliasWithDriver, Vehicle, VehicleAliasWithVehicle } from "@shared/schema";
+
+// How a name in an import was tied to a record; "confirmed" is a match the user picked for that import
+export type MatchSource = "name" | "alias" | "phone" | "qrCode" | "confirmed";
+
+export interface NameMatch {
+  id: number;
+  name: string; // the driver's name or vehicle number on record
+  by: MatchSource;
+}
+
+export interface NameMatchCandidate {
+  id: number;
+  name: string;
+  distance: number; // edits between the normalised names; lower is closer
+}
+
+export interface NameMatcher {
+  match(text: string): NameMatch | null;
+  suggest(text: string): NameMatchCandidate[];
+}
+
+const MAX_CANDIDATES = 3;
+
+/** Upper case with punctuation dropped and single spaces: "anil  k." reads as "ANIL K". */
+export function normaliseDriverName(name: string): string {
+  return name.toUpperCase().replace(/[.,'-]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** Letters and digits only: "KA 05 AP-7645" reads as "KA05AP7645". */
+export function normaliseVehicleNumber(vehicleNumber: string): string {
+  return vehicleNumber.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/** Levenshtein distance: the single-character inserts, deletes and swaps that turn one string into the other. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// "ANIL K" and "ANIL KUMAR": the same number of words, each word of one starting the same word of the other
+function abbreviates(a: string, b: string): boolean {
+  const wordsA = a.split(" ");
+  const wordsB = b.split(" ");
+  if (wordsA.length !== wordsB.length || a === b) return false;
+  return wordsA.every((word, i) => wordsB[i].startsWith(word) || word.startsWith(wordsB[i]));
+}
+
+function closest<T extends { id: number }>(
+  records: T[],
+  score: (record: T) => number | null,
+  label: (record: T) => string,
+): NameMatchCandidate[] {
+  return records
+    .map((record) => ({ id: record.id, name: label(record), distance: score(record) }))
+    .filter((candidate): candidate is NameMatchCandidate => candidate.distance !== null)
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, MAX_CANDIDATES);
+}
+
+function confirmedIds(confirmed: Record<string, number>, normalise: (text: string) => string): Map<string, number> {
+  return new Map(Object.entries(confirmed).map(([text, id]) => [normalise(text), id]));
+}
+
+/**
+ * Ties driver names in an import to drivers: a match the user confirmed,
+ * then the exact name, a remembered alias, the driver's phone number or QR
+ * code. Names that match nothing get the closest drivers as suggestions.
+ */
+export function driverMatcher(
+  drivers: Driver[],
+  aliases: DriverAliasWithDriver[],
+  confirmed: Record<string, number> = {},
+): NameMatcher {
+  const byId = new Map(drivers.map((d) => [d.id, d]));
+  const byName = new Map(drivers.map((d) => [normaliseDriverName(d.name), d]));
+  const byAlias = new Map(aliases.map((a) => [a.alias, a.driverId]));
+  const byConfirmed = confirmedIds(confirmed, normaliseDriverName);
+  for (const [text, id] of Array.from(byConfirmed.entries())) {
+    if (!byId.has(id)) throw new Error(`The driver chosen for ${text} does not exist`);
+  }
+  const found = (driver: Driver | undefined, by: MatchSource): NameMatch | null =>
+    driver ? { id: driver.id, name: driver.name, by } : null;
+  const lastDigits = (text: string) => text.replace(/\D/g, "").slice(-10);
+
+  return {
+    match(text) {
+      const key = normaliseDriverName(text);
+      if (!key) return null;
+      const confirmedId = byConfirmed.get(key);
+      if (confirmedId) return found(byId.get(confirmedId), "confirmed");
+      if (byName.has(key)) return found(byName.get(key), "name");
+      const aliasId = byAlias.get(key);
+      if (aliasId && byId.has(aliasId)) return found(byId.get(aliasId), "alias");
+      // A phone number in place of the name, written with or without the country code
+      if (/^[+\d\s-]+$/.test(text) && lastDigits(text).length === 10) {
+        const withPhone = drivers.filter((d) => lastDigits(d.phone) === lastDigits(text));
+        if (withPhone.length === 1) return found(withPhone[0], "phone");
+      }
+      return found(drivers.find((d) => d.qrCode && d.qrCode.trim().toUpperCase() === text.trim().toUpperCase()), "qrCode");
+    },
+    suggest(text) {
+      const key = normaliseDriverName(text);
+      const limit = Math.max(2, Math.floor(key.length * 0.3));
+      return closest(drivers, (driver) => {
+        const name = normaliseDriverName(driver.name);
+        const distance = editDistance(key, name);
+        return distance <= limit || abbreviates(key, name) ? distance : null;
+      }, (driver) => driver.name);
+    },
+  };
+}
+
+/**
+ * Ties vehicle numbers in an import to vehicles: a match the user confirmed,
+ * then the number ignoring spaces and dashes, then a remembered alias.
+ * Numbers that match nothing get the closest vehicles as suggestions,
+ * including those whose number ends in the digits given.
+ */
+export function vehicleMatcher(
+  vehicles: Vehicle[],
+  aliases: VehicleAliasWithVehicle[],
+  confirmed: Record<string, number> = {},
+): NameMatcher {
+  const byId = new Map(vehicles.map((v) => [v.id, v]));
+  const byNumber = new Map(vehicles.map((v) => [normaliseVehicleNumber(v.vehicleNumber), v]));
+  const byAlias = new Map(aliases.map((a) => [a.alias, a.vehicleId]));
+  const byConfirmed = confirmedIds(confirmed, normaliseVehicleNumber);
+  for (const [text, id] of Array.from(byConfirmed.entries())) {
+    if (!byId.has(id)) throw new Error(`The vehicle chosen for ${text} does not exist`);
+  }
+  const found = (vehicle: Vehicle | undefined, by: MatchSource): NameMatch | null =>
+    vehicle ? { id: vehicle.id, name: vehicle.vehicleNumber, by } : null;
+
+  return {
+    match(text) {
+      const key = normaliseVehicleNumber(text);
+      if (!key) return null;
+      const confirmedId = byConfirmed.get(key);
+      if (confirmedId) return found(byId.get(confirmedId), "confirmed");
+      if (byNumber.has(key)) return found(byNumber.get(key), "name");
+      const aliasId = byAlias.get(key);
+      return aliasId ? found(byId.get(aliasId), "alias") : null;
+    },
+    suggest(text) {
+      const key = normaliseVehicleNumber(text);
+      return closest(vehicles, (vehicle) => {
+        const number = normaliseVehicleNumber(vehicle.vehicleNumber);
+        if (/^\d{4,}$/.test(key) && number.endsWith(key)) return number.length - key.length;
+        const distance = editDistance(key, number);
+        return distance <= 2 ? distance : null;
+      }, (vehicle) => vehicle.vehicleNumber);
+    },
+  };
+}
+
+/** Matchers over every driver and vehicle and the remembered aliases. */
+export async function loadMatchers(
+  confirmed: { drivers?: Record<string, number>; vehicles?: Record<string, number> } = {},
+): Promise<{ drivers: NameMatcher; vehicles: NameMatcher }> {
+  const [drivers, vehicles, driverAliases, vehicleAliases] = await Promise.all([
+    storage.getAllDrivers(),
+    storage.getAllVehicles(),
+    storage.getDriverAliases(),
+    storage.getVehicleAliases(),
+  ]);
+  return {
+    drivers: driverMatcher(drivers, driverAliases, confirmed.drivers),
+    vehicles: vehicleMatcher(vehicles, vehicleAliases, confirmed.vehicles),
+  };
+}
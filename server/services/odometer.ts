@@ -0,0 +1,227 @@
+import { addDays, format, parseISO } from "date-fns";
+import { storage, type VehicleShift } from "../storage";
+
+// Readings this close at a handover are put down to rounding or a run to the fuel pump
+export const HANDOVER_TOLERANCE_KM = 2;
+// How far either side of a shift to look for the vehicle's previous and next shifts
+const HANDOVER_WINDOW_DAYS = 30;
+export const DEFAULT_REPORT_DAYS = 30;
+
+const SHIFT_ORDER: Record<string, number> = { morning: 0, evening: 1 };
+
+// Sorts shifts by date, morning before evening
+const slotKey = (s: { date: string; shift: string }) => `${s.date}#${SHIFT_ORDER[s.shift] ?? 0}`;
+
+function compareShifts(a: VehicleShift, b: VehicleShift): number {
+  return slotKey(a).localeCompare(slotKey(b)) || (a.startOdometer ?? 0) - (b.startOdometer ?? 0);
+}
+
+const describeShift = (s: VehicleShift) => `${s.driverName}'s ${s.shift} shift on ${s.date}`;
+
+export interface HandoverReading {
+  date: string;
+  shift: string;
+  driverName: string;
+  substitute: boolean;
+  startOdometer: number | null;
+  endOdometer: number | null;
+}
+
+export interface HandoverContext {
+  previous: HandoverReading | null; // shift the vehicle was handed over from
+  next: HandoverReading | null;     // shift it was handed over to, when already logged
+}
+
+export interface HandoverCheck {
+  vehicleId: number;
+  date: string;
+  shift: string;
+  startOdometer?: number | null;
+  endOdometer?: number | null;
+  exclude?: { substitute: boolean; id: number }; // the entry being edited
+}
+
+function toReading(s: VehicleShift): HandoverReading {
+  return {
+    date: s.date,
+    shift: s.shift,
+    driverName: s.driverName,
+    substitute: s.substitute,
+    startOdometer: s.startOdometer,
+    endOdometer: s.endOdometer,
+  };
+}
+
+async function neighbouringShifts(check: HandoverCheck): Promise<{ previous: VehicleShift | null; next: VehicleShift | null }> {
+  const day = parseISO(check.date);
+  const shifts = await storage.getVehicleShiftsForDateRange(
+    format(addDays(day, -HANDOVER_WINDOW_DAYS), "yyyy-MM-dd"),
+    format(addDays(day, HANDOVER_WINDOW_DAYS), "yyyy-MM-dd"),
+    check.vehicleId,
+  );
+  // Another entry in the same slot is a substitute covering the shift, not a handover
+  const slot = slotKey(check);
+  const others = shifts
+    .filter((s) => !(check.exclude && s.substitute === check.exclude.substitute && s.id === check.exclude.id))
+    .sort(compareShifts);
+  const before = others.filter((s) => slotKey(s) < slot);
+  const after = others.filter((s) => slotKey(s) > slot);
+  return { previous: before[before.length - 1] ?? null, next: after[0] ?? null };
+}
+
+/** The vehicle's shifts either side of a slot, for prefilling the start reading. */
+export async function handoverContext(check: HandoverCheck): Promise<HandoverContext> {
+  const { previous, next } = await neighbouringShifts(check);
+  return { previous: previous && toReading(previous), next: next && toReading(next) };
+}
+
+/**
+ * Checks a shift's readings against the shifts either side of it on the
+ * same vehicle. Readings that run backwards are an error; a start above the
+ * previous shift's end, or an end below the next shift's start, means the
+ * car was driven between shifts and comes back as a warning.
+ */
+export async function checkHandover(check: HandoverCheck): Promise<{ error: string | null; warning: string | null }> {
+  const start = check.startOdometer ?? null;
+  const end = check.endOdometer ?? null;
+  if (start === null && end === null) return { error: null, warning: null };
+  if (start !== null && end !== null && end < start) {
+    return { error: `End reading ${end} km is below the start reading ${start} km`, warning: null };
+  }
+
+  const { previous, next } = await neighbouringShifts(check);
+  const warnings: string[] = [];
+  if (start !== null && previous?.endOdometer != null) {
+    if (start < previous.endOdometer) {
+      return { error: `Start reading ${start} km is below the ${previous.endOdometer} km at the end of ${describeShift(previous)}`, warning: null };
+    }
+    if (start - previous.endOdometer > HANDOVER_TOLERANCE_KM) {
+      warnings.push(`${start - previous.endOdometer} km unaccounted for since the end of ${describeShift(previous)}`);
+    }
+  }
+  if (end !== null && next?.startOdometer != null) {
+    if (end > next.startOdometer) {
+      return { error: `End reading ${end} km is above the ${next.startOdometer} km at the start of ${describeShift(next)}`, warning: null };
+    }
+    if (next.startOdometer - end > HANDOVER_TOLERANCE_KM) {
+      warnings.push(`${next.startOdometer - end} km unaccounted for before the start of ${describeShift(next)}`);
+    }
+  }
+  return { error: null, warning: warnings.length ? warnings.join("; ") : null };
+}
+
+export interface OdometerGap {
+  vehicleId: number;
+  vehicleNumber: string;
+  fromDate: string;
+  fromShift: string;
+  toDate: string;
+  toShift: string;
+  lastHeldBy: string;       // driver or substitute the vehicle was with between the two readings
+  substitute: boolean;
+  endOdometer: number;
+  startOdometer: number;
+  km: number;               // negative when the reading went backwards
+}
+
+export interface DriverOdometerRow {
+  driverId: number | null;  // null for substitutes, who are matched by name
+  driverName: string;
+  substitute: boolean;
+  shifts: number;           // shifts with both readings
+  km: number;
+  trips: number;            // trips on those shifts
+  kmPerTrip: number | null;
+  gaps: number;
+  gapKm: number;
+}
+
+export interface OdometerReport {
+  from: string;
+  to: string;
+  toleranceKm: number;
+  gaps: OdometerGap[];
+  drivers: DriverOdometerRow[];
+}
+
+/**
+ * Kilometre gaps between consecutive shifts on each vehicle, charged to
+ * whoever last had the car, and km driven per trip by each driver over
+ * shifts with both readings noted.
+ */
+export async function buildOdometerReport(query: { vehicleId?: number; from?: string; to?: string }): Promise<OdometerReport> {
+  const today = new Date();
+  const from = query.from ?? format(addDays(today, -DEFAULT_REPORT_DAYS), "yyyy-MM-dd");
+  const to = query.to ?? format(today, "yyyy-MM-dd");
+  const [vehicles, shifts] = await Promise.all([
+    storage.getAllVehicles(),
+    storage.getVehicleShiftsForDateRange(from, to, query.vehicleId),
+  ]);
+  const vehicleNumbers = new Map(vehicles.map((v) => [v.id, v.vehicleNumber]));
+
+  const drivers = new Map<string, DriverOdometerRow>();
+  const rowFor = (s: VehicleShift) => {
+    const key = s.substitute ? `sub:${s.driverName.toLowerCase()}` : `driver:${s.driverId}`;
+    let row = drivers.get(key);
+    if (!row) {
+      row = {
+        driverId: s.driverId, driverName: s.driverName, substitute: s.substitute,
+        shifts: 0, km: 0, trips: 0, kmPerTrip: null, gaps: 0, gapKm: 0,
+      };
+      drivers.set(key, row);
+    }
+    return row;
+  };
+
+  for (const s of shifts) {
+    if (s.startOdometer === null || s.endOdometer === null) continue;
+    const row = rowFor(s);
+    row.shifts += 1;
+    row.km += s.endOdometer - s.startOdometer;
+    row.trips += s.trips;
+  }
+
+  const gaps: OdometerGap[] = [];
+  const byVehicle = new Map<number, VehicleShift[]>();
+  for (const s of shifts) {
+    byVehicle.set(s.vehicleId, [...(byVehicle.get(s.vehicleId) ?? []), s]);
+  }
+  for (const [vehicleId, vehicleShifts] of Array.from(byVehicle.entries())) {
+    const ordered = vehicleShifts.sort(compareShifts);
+    for (let i = 1; i < ordered.length; i++) {
+      const prev = ordered[i - 1];
+      const cur = ordered[i];
+      if (prev.endOdometer === null || cur.startOdometer === null) continue;
+      const km = cur.startOdometer - prev.endOdometer;
+      if (Math.abs(km) <= HANDOVER_TOLERANCE_KM) continue;
+      gaps.push({
+        vehicleId,
+        vehicleNumber: vehicleNumbers.get(vehicleId) ?? `#${vehicleId}`,
+        fromDate: prev.date,
+        fromShift: prev.shift,
+        toDate: cur.date,
+        toShift: cur.shift,
+        lastHeldBy: prev.driverName,
+        substitute: prev.substitute,
+        endOdometer: prev.endOdometer,
+        startOdometer: cur.startOdometer,
+        km,
+      });
+      const row = rowFor(prev);
+      row.gaps += 1;
+      row.gapKm += km;
+    }
+  }
+
+  const rows = Array.from(drivers.values()).map((row) => ({
+    ...row,
+    kmPerTrip: row.trips > 0 ? Math.round((row.km / row.trips) * 10) / 10 : null,
+  }));
+  return {
+    from,
+    to,
+    toleranceKm: HANDOVER_TOLERANCE_KM,
+    gaps: gaps.sort((a, b) => b.toDate.localeCompare(a.toDate) || a.vehicleNumber.localeCompare(b.vehicleNumber)),
+    drivers: rows.sort((a, b) => b.gapKm - a.gapKm || a.driverName.localeCompare(b.driverName)),
+  };
+}
@@ -1,3 +1,6 @@
+import { storage } from "../storage";
+import { SETTLEMENT_DAYS } from "@shared/schema";
+
 export interface RentalSlab {
   minTrips: number;
   maxTrips: number | null;
@@ -14,45 +17,76 @@ export interface RentalInfo {
   optimizationTip: string;
 }
 
-const LETZRYD_SLABS: RentalSlab[] = [
-  { minTrips: 140, maxTrips: null, rate: 260 },
-  { minTrips: 125, maxTrips: 139, rate: 380 },
-  { minTrips: 110, maxTrips: 124, rate: 470 },
-  { minTrips: 80, maxTrips: 109, rate: 600 },
-  { minTrips: 65, maxTrips: 79, rate: 710 },
-  { minTrips: 0, maxTrips: 64, rate: 950 },
-];
-
-const PMV_SLABS: RentalSlab[] = [
-  { minTrips: 140, maxTrips: null, rate: 150 },
-  { minTrips: 135, maxTrips: 139, rate: 249 },
-  { minTrips: 120, maxTrips: 134, rate: 444 },
-  { minTrips: 80, maxTrips: 119, rate: 640 },
-  { minTrips: 65, maxTrips: 79, rate: 750 },
-  { minTrips: 0, maxTrips: 64, rate: 949 },
-];
-
-export function getRentalRate(company: "PMV" | "Letzryd", tripCount: number): number {
-  const slabs = company === "PMV" ? PMV_SLABS : LETZRYD_SLABS;
-  
+export interface SettlementTerms {
+  walletDeduction: number; // taken from the company wallet for each vehicle, per week
+  settlementDate: string;  // YYYY-MM-DD the company settles the week on
+}
+
+// Schedules in force before slab schedules moved into the database, keyed by
+// company name. Used only to seed the companies registry and slab_schedules.
+export const DEFAULT_SLABS: Record<string, RentalSlab[]> = {
+  Letzryd: [
+    { minTrips: 140, maxTrips: null, rate: 260 },
+    { minTrips: 125, maxTrips: 139, rate: 380 },
+    { minTrips: 110, maxTrips: 124, rate: 470 },
+    { minTrips: 80, maxTrips: 109, rate: 600 },
+    { minTrips: 65, maxTrips: 79, rate: 710 },
+    { minTrips: 0, maxTrips: 64, rate: 950 },
+  ],
+  PMV: [
+    { minTrips: 140, maxTrips: null, rate: 150 },
+    { minTrips: 135, maxTrips: 139, rate: 249 },
+    { minTrips: 120, maxTrips: 134, rate: 444 },
+    { minTrips: 80, maxTrips: 119, rate: 640 },
+    { minTrips: 65, maxTrips: 79, rate: 750 },
+    { minTrips: 0, maxTrips: 64, rate: 949 },
+  ],
+};
+
+function toDateString(asOf: Date | string): string {
+  return typeof asOf === "string" ? asOf : asOf.toISOString().split("T")[0];
+}
+
+/**
+ * Slabs of the schedule in force for the company on `asOf` (normally the week
+ * start), ordered from the highest trip band down.
+ */
+export async function getAllSlabs(companyId: number, asOf: Date | string = new Date()): Promise<RentalSlab[]> {
+  const schedule = await storage.getSlabScheduleInForce(companyId, toDateString(asOf));
+  if (!schedule) {
+    const company = await storage.getCompany(companyId);
+    throw new Error(`No rental slab schedule in force for ${company?.name ?? `company ${companyId}`} on ${toDateString(asOf)}`);
+  }
+
+  return schedule.rows
+    .map(({ minTrips, maxTrips, rate }) => ({ minTrips, maxTrips, rate }))
+    .sort((a, b) => b.minTrips - a.minTrips);
+}
+
+export function rateForTrips(slabs: RentalSlab[], tripCount: number): number {
   for (const slab of slabs) {
     if (tripCount >= slab.minTrips && (slab.maxTrips === null || tripCount <= slab.maxTrips)) {
       return slab.rate;
     }
   }
-  
+
   // Fallback to highest rate if no slab matches
   return slabs[slabs.length - 1].rate;
 }
 
-export function getRentalInfo(company: "PMV" | "Letzryd", tripCount: number): RentalInfo {
-  const slabs = company === "PMV" ? PMV_SLABS : LETZRYD_SLABS;
-  const currentRate = getRentalRate(company, tripCount);
+export async function getRentalRate(companyId: number, tripCount: number, asOf: Date | string = new Date()): Promise<number> {
+  const slabs = await getAllSlabs(companyId, asOf);
+  return rateForTrips(slabs, tripCount);
+}
+
+export async function getRentalInfo(companyId: number, tripCount: number, asOf: Date | string = new Date()): Promise<RentalInfo> {
+  const slabs = await getAllSlabs(companyId, asOf);
+  const currentRate = rateForTrips(slabs, tripCount);
   const weeklyCost = currentRate * 7;
-  
+
   // Find next better slab (lower rate with higher trip requirement)
   let nextBetterSlab = null;
-  
+
   for (const slab of slabs) {
     if (slab.rate < currentRate && tripCount < slab.minTrips) {
       const tripsNeeded = slab.minTrips - tripCount;
@@ -63,7 +97,7 @@ export function getRentalInfo(company: "PMV" | "Letzryd", tripCount: number): Re
       break;
     }
   }
-  
+
   // Generate optimization tip
   let optimizationTip = "";
   if (nextBetterSlab) {
@@ -80,19 +114,25 @@ export function getRentalInfo(company: "PMV" | "Letzryd", tripCount: number): Re
   };
 }
 
-export function getDriverRent(hasAccommodation: boolean): number {
-  return hasAccommodation ? 600 : 500;
-}
+/**
+ * The company's wallet rules for a week ending on `weekEnd`: its weekly
+ * deduction per vehicle, and the first of its settlement days after the week.
+ */
+export async function getSettlementTerms(companyId: number, weekEnd: Date | string): Promise<SettlementTerms> {
+  const company = await storage.getCompany(companyId);
+  if (!company) throw new Error(`Company ${companyId} not found`);
 
-export function getSubstituteDriverCharge(shiftHours: 6 | 8 | 12): number {
-  const rates = {
-    6: 250,
-    8: 350,
-    12: 500,
-  };
-  return rates[shiftHours];
+  const settlementDate = new Date(`${toDateString(weekEnd)}T00:00:00Z`);
+  // SETTLEMENT_DAYS starts on Monday; getUTCDay() counts from Sunday
+  const weekday = (SETTLEMENT_DAYS.indexOf(company.settlementDay as typeof SETTLEMENT_DAYS[number]) + 1) % 7;
+  do {
+    settlementDate.setUTCDate(settlementDate.getUTCDate() + 1);
+  } while (settlementDate.getUTCDay() !== weekday);
+
+  return { walletDeduction: company.walletDeduction, settlementDate: toDateString(settlementDate) };
 }
 
-export function getAllSlabs(company: "PMV" | "Letzryd"): RentalSlab[] {
-  return company === "PMV" ? PMV_SLABS : LETZRYD_SLABS;
+/** Daily rent for a driver on a date (YYYY-MM-DD): the base vehicle rent plus the charge for any room they stayed in. */
+export async function getDriverRent(driverId: number, date: string): Promise<number> {
+  return await storage.getDriverDailyRent(driverId, date);
 }
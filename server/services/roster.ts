@@ -0,0 +1,116 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import type { Driver, InsertRosterEntry, RosterEntryWithNames } from "@shared/schema";
+
+export interface RosterConflict {
+  kind: "double_booked" | "double_shift"; // same shift on two vehicles, or both shifts of one day
+  driverId: number;
+  driverName: string;
+  date: string;
+  entryIds: number[];
+  message: string;
+}
+
+/**
+ * Drivers planned on two vehicles for the same shift, which the roster routes
+ * refuse, and drivers planned for both shifts of a day, which is allowed but
+ * worth a second look.
+ */
+export function rosterConflicts(entries: RosterEntryWithNames[]): RosterConflict[] {
+  const byDriverDate = new Map<string, RosterEntryWithNames[]>();
+  for (const entry of entries) {
+    const key = `${entry.driverId}|${entry.date}`;
+    byDriverDate.set(key, [...(byDriverDate.get(key) ?? []), entry]);
+  }
+
+  const conflicts: RosterConflict[] = [];
+  for (const day of Array.from(byDriverDate.values())) {
+    if (day.length < 2) continue;
+    const { driverId, driverName, date } = day[0];
+    for (const shift of ["morning", "evening"]) {
+      const same = day.filter((entry) => entry.shift === shift);
+      if (same.length > 1) {
+        conflicts.push({
+          kind: "double_booked", driverId, driverName, date,
+          entryIds: same.map((entry) => entry.id),
+          message: `${driverName} is on ${same.map((entry) => entry.vehicleNumber).join(" and ")} for the ${shift} shift on ${date}`,
+        });
+      }
+    }
+    if (day.some((entry) => entry.shift === "morning") && day.some((entry) => entry.shift === "evening")) {
+      conflicts.push({
+        kind: "double_shift", driverId, driverName, date,
+        entryIds: day.map((entry) => entry.id),
+        message: `${driverName} is rostered for both shifts on ${date}`,
+      });
+    }
+  }
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.driverName.localeCompare(b.driverName));
+}
+
+/** Why a driver cannot be rostered on a date, or null if they can. */
+export function rosterDriverError(driver: Pick<Driver, "name" | "joinedDate" | "dismissDate">, date: string): string | null {
+  if (date < driver.joinedDate) {
+    return `${driver.name} joins on ${driver.joinedDate}`;
+  }
+  if (driver.dismissDate && date >= driver.dismissDate) {
+    return `${driver.name} was dismissed on ${driver.dismissDate}`;
+  }
+  return null;
+}
+
+/**
+ * Why an entry clashes with the rest of the roster, or null if it does not:
+ * the driver may only be on one vehicle per shift.
+ */
+export async function rosterClash(entry: InsertRosterEntry, excludeId?: number): Promise<string | null> {
+  const sameDay = await storage.getRosterEntries({ driverId: entry.driverId, from: entry.date, to: entry.date });
+  const clash = sameDay.find((other) =>
+    other.id !== excludeId && other.shift === entry.shift && other.vehicleId !== entry.vehicleId);
+  return clash
+    ? `${clash.driverName} is already on ${clash.vehicleNumber} for the ${entry.shift} shift on ${entry.date}`
+    : null;
+}
+
+/**
+ * Copies a week's plan onto another week, day for day. Slots already planned
+ * in the target week are left alone, as are drivers who would clash or are no
+ * longer with the fleet on the day.
+ */
+export async function copyRosterWeek(fromWeekStart: string, toWeekStart: string): Promise<{ created: number; skipped: string[] }> {
+  const offset = differenceInCalendarDays(parseISO(toWeekStart), parseISO(fromWeekStart));
+  const shiftDate = (date: string) => format(addDays(parseISO(date), offset), "yyyy-MM-dd");
+  const toWeekEnd = format(addDays(parseISO(toWeekStart), 6), "yyyy-MM-dd");
+
+  const [source, target, drivers] = await Promise.all([
+    storage.getRosterEntries({ from: fromWeekStart, to: format(addDays(parseISO(fromWeekStart), 6), "yyyy-MM-dd") }),
+    storage.getRosterEntries({ from: toWeekStart, to: toWeekEnd }),
+    storage.getAllDrivers(),
+  ]);
+  const driversById = new Map(drivers.map((driver) => [driver.id, driver]));
+  const filledSlots = new Set(target.map((entry) => `${entry.vehicleId}|${entry.date}|${entry.shift}`));
+  const busyDrivers = new Set(target.map((entry) => `${entry.driverId}|${entry.date}|${entry.shift}`));
+
+  const entries: InsertRosterEntry[] = [];
+  const skipped: string[] = [];
+  for (const entry of source) {
+    const date = shiftDate(entry.date);
+    const slot = `${entry.vehicleId}|${date}|${entry.shift}`;
+    const busy = `${entry.driverId}|${date}|${entry.shift}`;
+    if (filledSlots.has(slot)) continue;
+    const driver = driversById.get(entry.driverId);
+    const problem = !driver
+      ? `${entry.driverName} no longer exists`
+      : rosterDriverError(driver, date) ?? (busyDrivers.has(busy) ? `${entry.driverName} is already planned for the ${entry.shift} shift on ${date}` : null);
+    if (problem) {
+      skipped.push(`${entry.vehicleNumber} ${entry.shift} ${date}: ${problem}`);
+      continue;
+    }
+    entries.push({ vehicleId: entry.vehicleId, driverId: entry.driverId, date, shift: entry.shift as InsertRosterEntry["shift"], notes: entry.notes });
+    filledSlots.add(slot);
+    busyDrivers.add(busy);
+  }
+
+  const created = await storage.createRosterEntries(entries);
+  return { created: created.length, skipped };
+}
@@ -1,6 +1,6 @@
 import { storage } from "../storage";
-import { getRentalRate, getDriverRent } from "./rentalCalculator";
-import { startOfWeek, endOfWeek, addDays } from "date-fns";
+import { getRentalRate, getDriverRent, getSettlementTerms } from "./rentalCalculator";
+import { startOfWeek, endOfWeek, addDays, format } from "date-fns";
 
 export interface WeeklySettlementData {
   vehicleId: number;
@@ -9,6 +9,8 @@ export interface WeeklySettlementData {
   totalTrips: number;
   rentalRate: number;
   totalRentToCompany: number;
+  walletDeduction: number; // the company's weekly deduction for the vehicle
+  settlementDate: string;  // when the company settles the week
   drivers: Array<{ id: number; name: string; rent: number; daysWorked: number }>;
   substitutes: Array<{ id: number; name: string; charge: number }>;
   totalDriverRent: number;
@@ -36,9 +38,10 @@ export async function calculateWeeklySettlement(vehicleId: number, weekStartDate
   const substituteTrips = weeklySubstituteDrivers.reduce((sum, sub) => sum + (sub.tripCount || 1), 0); // Use actual trip count from substitutes
   const totalTrips = regularTrips + substituteTrips;
   
-  // Get rental rate based on company and trip count
-  const rentalRate = getRentalRate(vehicle.company as "PMV" | "Letzryd", totalTrips);
+  // Get rental rate based on company, trip count and the slab schedule in force that week
+  const rentalRate = await getRentalRate(vehicle.companyId, totalTrips, weekStart);
   const totalRentToCompany = rentalRate * 7;
+  const { walletDeduction, settlementDate } = await getSettlementTerms(vehicle.companyId, weekEnd);
 
   // Calculate total expected rent from all drivers who actually drove the vehicle
   const driverRentMap = new Map<number, { driver: any, daysWorked: Set<string> }>();
@@ -62,17 +65,21 @@ export async function calculateWeeklySettlement(vehicleId: number, weekStartDate
 
   // Calculate income from regular drivers based on actual days worked
   let totalRegularDriverRent = 0;
-  const drivers = Array.from(driverRentMap.entries()).map(([driverId, data]) => {
-    const dailyRent = getDriverRent(data.driver.hasAccommodation);
-    const actualRent = dailyRent * data.daysWorked.size; // Pay only for actual days worked
+  const drivers = [];
+  for (const [driverId, data] of Array.from(driverRentMap.entries())) {
+    // Pay only for actual days worked, at the rent for the room the driver had that day
+    let actualRent = 0;
+    for (const day of Array.from(data.daysWorked)) {
+      actualRent += await getDriverRent(driverId, day);
+    }
     totalRegularDriverRent += actualRent;
-    return {
+    drivers.push({
       id: data.driver.id,
       name: data.driver.name,
       rent: actualRent,
       daysWorked: data.daysWorked.size
-    };
-  });
+    });
+  }
 
   // Calculate income from substitute drivers (already fetched above)
   let totalSubstituteCharges = 0;
@@ -89,8 +96,8 @@ export async function calculateWeeklySettlement(vehicleId: number, weekStartDate
   const totalDriverRent = totalRegularDriverRent;
   const totalIncome = totalRegularDriverRent + totalSubstituteCharges;
 
-  // Calculate profit: Total Income - Company Rent
-  const profit = totalIncome - totalRentToCompany;
+  // Calculate profit: Total Income - Company Rent - the company's wallet deduction
+  const profit = totalIncome - totalRentToCompany - walletDeduction;
 
   return {
     vehicleId,
@@ -99,6 +106,8 @@ export async function calculateWeeklySettlement(vehicleId: number, weekStartDate
     totalTrips,
     rentalRate,
     totalRentToCompany,
+    walletDeduction,
+    settlementDate,
     drivers,
     substitutes,
     totalDriverRent,
@@ -199,7 +208,7 @@ export async function generateDailyRentLogs(
 
   // Only create rent log if one doesn't already exist for this date and shift
   if (existingForShift.length === 0) {
-    const dailyRent = rent !== undefined ? rent : getDriverRent(driver.hasAccommodation);
+    const dailyRent = rent !== undefined ? rent : await getDriverRent(driverId, format(normalizedDate, "yyyy-MM-dd"));
     
     // Calculate week start and end for the date
     function getWeekStart(date: Date): Date {
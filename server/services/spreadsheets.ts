@@ -0,0 +1,155 @@
+import express from "express";
+import ExcelJS from "exceljs";
+import { MAX_UPLOAD_BYTES } from "./uploads";
+
+export const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** Body parser for workbook uploads; the client sends the .xlsx file itself as the request body. */
+export const spreadsheetBody = express.raw({ type: XLSX_TYPE, limit: MAX_UPLOAD_BYTES });
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  rows: Array<Record<string, string | number>>; // keyed by header, as the CSV importers receive them
+}
+
+export type SpreadsheetColumnKind = "text" | "number" | "money" | "date";
+
+export interface SpreadsheetColumn {
+  header: string;
+  key: string;
+  kind: SpreadsheetColumnKind;
+  width?: number;
+}
+
+const NUMBER_FORMATS: Record<SpreadsheetColumnKind, string | undefined> = {
+  text: undefined,
+  number: "0",
+  money: "#,##0",
+  date: "dd/mm/yyyy",
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Excel stores dates without a time zone; exceljs reads them as UTC midnight
+function cellValue(value: ExcelJS.CellValue): string | number {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return `${pad(value.getUTCDate())}/${pad(value.getUTCMonth() + 1)}/${value.getUTCFullYear()}`;
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "boolean") return String(value);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("").trim();
+  if ("result" in value) return value.result === undefined ? "" : cellValue(value.result as ExcelJS.CellValue);
+  if ("text" in value) return String(value.text).trim();
+  return ""; // error cells
+}
+
+// A merged cell's other cells read as its first (master) cell
+const isMergeSlave = (cell: ExcelJS.Cell) => cell.isMerged && cell.master.address !== cell.address;
+const spansColumns = (cell: ExcelJS.Cell, row: ExcelJS.Row) =>
+  cell.isMerged && Number(cell.master.row) === row.number && (isMergeSlave(cell) || row.getCell(Number(cell.col) + 1).master.address === cell.address);
+
+/**
+ * Reads every sheet of a workbook into header-keyed rows. The header is the
+ * first row with two or more distinct cells, so title rows above it are
+ * skipped. When header cells are merged across columns, the row beneath
+ * names the columns in each group and the two are joined as "Group:Column".
+ * Date cells read as DD/MM/YYYY, and cells merged down a column repeat
+ * their value on every row. Empty rows are left out.
+ */
+export async function readWorkbook(data: Buffer): Promise<SpreadsheetSheet[]> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs reads an ArrayBuffer; the Buffer may be a view into a larger pooled one
+  await workbook.xlsx.load(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+  const sheets: SpreadsheetSheet[] = [];
+
+  for (const worksheet of workbook.worksheets) {
+    const columnCount = worksheet.columnCount;
+    const columns = Array.from({ length: columnCount }, (_, i) => i + 1);
+    let headerRow: ExcelJS.Row | undefined;
+    for (let r = 1; r <= worksheet.rowCount && !headerRow; r++) {
+      const row = worksheet.getRow(r);
+      const distinct = columns.filter((c) => !isMergeSlave(row.getCell(c)) && cellValue(row.getCell(c).value) !== "");
+      if (distinct.length >= 2) headerRow = row;
+    }
+    if (!headerRow) continue;
+
+    const grouped = columns.some((c) => spansColumns(headerRow!.getCell(c), headerRow!));
+    const subRow = grouped ? worksheet.getRow(headerRow.number + 1) : undefined;
+    const seen = new Map<string, number>();
+    const headers = columns.map((c) => {
+      const top = String(cellValue(headerRow!.getCell(c).value));
+      const subCell = subRow?.getCell(c);
+      const sub = subCell && !isMergeSlave(subCell) ? String(cellValue(subCell.value)) : "";
+      let header = top;
+      if (top && sub && spansColumns(headerRow!.getCell(c), headerRow!)) header = `${top}:${sub}`;
+      else if (!top) header = sub;
+      if (!header) return "";
+      // Repeated headers get a suffix, as Papaparse gives them in CSV files
+      const count = seen.get(header) ?? 0;
+      seen.set(header, count + 1);
+      return count === 0 ? header : `${header}_${count}`;
+    });
+
+    const rows: SpreadsheetSheet["rows"] = [];
+    for (let r = headerRow.number + (subRow ? 2 : 1); r <= worksheet.rowCount; r++) {
+      const row = worksheet.getRow(r);
+      const record: Record<string, string | number> = {};
+      let empty = true;
+      columns.forEach((c, i) => {
+        if (!headers[i]) return;
+        const value = cellValue(row.getCell(c).value);
+        if (value !== "") empty = false;
+        record[headers[i]] = value;
+      });
+      if (!empty) rows.push(record);
+    }
+    sheets.push({ name: worksheet.name, headers: headers.filter(Boolean), rows });
+  }
+
+  if (sheets.length === 0) throw new Error("The workbook has no sheet with a header row");
+  return sheets;
+}
+
+// Dates are written as the calendar day they fall on here, whatever their time
+function toExcelDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) return null;
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+/** Writes rows to a one-sheet workbook, with a bold frozen header and number and date formats per column. */
+export async function writeWorkbook(
+  sheetName: string,
+  columns: SpreadsheetColumn[],
+  rows: Array<Record<string, unknown>>,
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const worksheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", ySplit: 1 }] });
+  worksheet.columns = columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: column.width ?? Math.max(12, column.header.length + 2),
+    style: NUMBER_FORMATS[column.kind] ? { numFmt: NUMBER_FORMATS[column.kind] } : {},
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  for (const row of rows) {
+    worksheet.addRow(Object.fromEntries(columns.map((column) => {
+      const value = row[column.key];
+      if (column.kind === "date") return [column.key, toExcelDate(value)];
+      if (column.kind === "number" || column.kind === "money") {
+        return [column.key, value === null || value === undefined || value === "" ? null : Number(value)];
+      }
+      return [column.key, value === null || value === undefined ? "" : String(value)];
+    })));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,121 @@
+import { addDays, format, isValid, parse, startOfWeek } from "date-fns";
+import { STATEMENT_AMOUNT_FIELDS, type StatementColumns } from "@shared/statementProfiles";
+
+type AmountField = typeof STATEMENT_AMOUNT_FIELDS[number];
+
+export interface StatementWeekRow extends Record<AmountField, number> {
+  driverName: string;
+  driverId: number | null; // null when the name matched no driver
+  weekStart: string;
+  weekEnd: string;
+  trips: number | null; // null when the statement has no trips column
+}
+
+const DATE_FORMATS = ["dd/MM/yyyy", "d/M/yyyy", "dd-MM-yyyy", "yyyy-MM-dd", "dd MMM yyyy", "d MMM yyyy"];
+
+/** Parses a statement date, day first as the platforms write them. */
+export function parseStatementDate(value: string): Date | null {
+  const text = value.trim();
+  for (const pattern of DATE_FORMATS) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  const fallback = new Date(text);
+  return isValid(fallback) ? fallback : null;
+}
+
+/**
+ * Parses a statement amount to whole rupees. Currency symbols and thousands
+ * separators are dropped and "(120)" reads as -120; blank reads as 0.
+ */
+export function parseStatementAmount(value: unknown): number | null {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === "number") return Number.isFinite(value) ? Math.round(value) : null;
+  const text = String(value).trim();
+  if (!text || text === "-") return 0;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  const amount = parseFloat(text.replace(/[^0-9.]/g, ""));
+  if (isNaN(amount)) return null;
+  return Math.round(negative ? -amount : amount);
+}
+
+const cell = (row: Record<string, unknown>, header: string | null | undefined) =>
+  header ? row[header] : undefined;
+
+/**
+ * Reads statement rows through a column mapping and totals them per driver
+ * per Monday–Sunday week, with `driverIdOf` tying names to drivers so that
+ * two spellings of one driver add up. Rows without a date fall in the week of
+ * `fallbackWeekStart`. Platforms print cash collected and fees as negative
+ * amounts, so every amount but total earnings is taken as its size.
+ */
+export function readStatementRows(
+  rows: Array<Record<string, unknown>>,
+  columns: StatementColumns,
+  fallbackWeekStart?: string,
+  driverIdOf: (name: string) => number | null = () => null,
+): { weeks: StatementWeekRow[]; errors: string[] } {
+  const errors: string[] = [];
+  const weeks = new Map<string, StatementWeekRow>();
+
+  rows.forEach((row, index) => {
+    const line = `Row ${index + 2}`;
+    const dateText = cell(row, columns.date);
+    let date: Date | null;
+    if (dateText !== undefined && String(dateText).trim()) {
+      date = parseStatementDate(String(dateText));
+      if (!date) {
+        errors.push(`${line}: Invalid date format`);
+        return;
+      }
+    } else {
+      date = fallbackWeekStart ? parseStatementDate(fallbackWeekStart) : null;
+      if (!date) {
+        errors.push(`${line}: Missing date`);
+        return;
+      }
+    }
+
+    const driverName = [cell(row, columns.driver), cell(row, columns.driverSurname)]
+      .map((part) => (part === undefined || part === null ? "" : String(part).trim()))
+      .filter(Boolean)
+      .join(" ");
+    if (!driverName) {
+      errors.push(`${line}: Missing driver name`);
+      return;
+    }
+
+    const amounts = {} as Record<AmountField, number>;
+    for (const field of STATEMENT_AMOUNT_FIELDS) {
+      const amount = parseStatementAmount(cell(row, columns[field]));
+      if (amount === null) {
+        errors.push(`${line}: Invalid ${field} amount for ${driverName}`);
+        return;
+      }
+      amounts[field] = field === "totalEarnings" ? amount : Math.abs(amount);
+    }
+    let trips: number | null = null;
+    if (columns.trips) {
+      trips = parseInt(String(cell(row, columns.trips) ?? "0").replace(/[^0-9-]/g, "") || "0");
+      if (isNaN(trips)) {
+        errors.push(`${line}: Invalid trips for ${driverName}`);
+        return;
+      }
+    }
+
+    const monday = startOfWeek(date, { weekStartsOn: 1 });
+    const weekStart = format(monday, "yyyy-MM-dd");
+    const driverId = driverIdOf(driverName);
+    const key = `${weekStart}|${driverId !== null ? `#${driverId}` : driverName.toUpperCase()}`;
+    const week = weeks.get(key);
+    if (!week) {
+      weeks.set(key, { driverName, driverId, weekStart, weekEnd: format(addDays(monday, 6), "yyyy-MM-dd"), trips, ...amounts });
+      return;
+    }
+    // A statement with a row per day or per trip adds up to the week
+    week.trips = trips === null ? week.trips : (week.trips ?? 0) + trips;
+    for (const field of STATEMENT_AMOUNT_FIELDS) week[field] += amounts[field];
+  });
+
+  return { weeks: Array.from(weeks.values()), errors };
+}
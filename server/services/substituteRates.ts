@@ -0,0 +1,84 @@
+import { getDay, parseISO } from "date-fns";
+import { storage } from "../storage";
+import type { Substitute, SubstituteQuoteQuery, SubstituteRateCardWithBands } from "@shared/schema";
+
+// The rates substitute shifts were charged at before the rate card existed
+export const DEFAULT_SUBSTITUTE_BANDS = [
+  { maxHours: 6, charge: 250 },
+  { maxHours: 8, charge: 350 },
+  { maxHours: 12, charge: 500 },
+];
+
+export interface SubstituteQuote {
+  charge: number;
+  baseCharge: number;          // the band's charge, or the substitute's agreed rate
+  premium: number;
+  premiumReason: string | null; // "Weekend", or the holiday's name
+  bandHours: number;           // the band the shift fell in
+  source: "substitute" | "vehicle" | "company" | "default"; // where the base charge came from
+  rateCardId: number;
+}
+
+/** The card that prices a vehicle's substitute shifts: its own, else its company's, else the fleet's. */
+export function rateCardFor(
+  cards: SubstituteRateCardWithBands[],
+  vehicle: { id: number; companyId: number },
+): { card: SubstituteRateCardWithBands; source: "vehicle" | "company" | "default" } | null {
+  const own = cards.find((card) => card.vehicleId === vehicle.id);
+  if (own) return { card: own, source: "vehicle" };
+  const company = cards.find((card) => card.companyId === vehicle.companyId && !card.vehicleId);
+  if (company) return { card: company, source: "company" };
+  const fleet = cards.find((card) => !card.companyId && !card.vehicleId);
+  return fleet ? { card: fleet, source: "default" } : null;
+}
+
+// A substitute's agreed rates are for shifts up to 6 hours, up to 8, and longer
+function agreedRate(substitute: Substitute | undefined, shiftHours: number): number | null {
+  if (!substitute) return null;
+  if (shiftHours <= 6) return substitute.rate6h;
+  if (shiftHours <= 8) return substitute.rate8h;
+  return substitute.rate12h;
+}
+
+/**
+ * Prices a substitute shift. The hours fall in the smallest band that covers
+ * them on the vehicle's rate card, unless the substitute has an agreed rate;
+ * the card's holiday premium is added on holidays and its weekend premium on
+ * Saturdays and Sundays. Throws when the card has no band long enough.
+ */
+export async function quoteSubstituteCharge(query: SubstituteQuoteQuery): Promise<SubstituteQuote> {
+  const [vehicle, cards, holiday, substitute] = await Promise.all([
+    storage.getVehicle(query.vehicleId),
+    storage.getSubstituteRateCards(),
+    storage.getHolidayByDate(query.date),
+    query.substituteId ? storage.getSubstitute(query.substituteId) : Promise.resolve(undefined),
+  ]);
+  if (!vehicle) {
+    throw new Error("Vehicle not found");
+  }
+  const resolved = rateCardFor(cards, vehicle);
+  if (!resolved) {
+    throw new Error("No substitute rate card is set up");
+  }
+  const { card } = resolved;
+  const band = card.bands.find((b) => b.maxHours >= query.shiftHours);
+  if (!band) {
+    const longest = card.bands[card.bands.length - 1]?.maxHours ?? 0;
+    throw new Error(`The rate card only covers shifts up to ${longest} hours`);
+  }
+
+  const agreed = agreedRate(substitute, query.shiftHours);
+  const weekday = getDay(parseISO(query.date));
+  const weekend = weekday === 0 || weekday === 6;
+  const premium = holiday ? card.holidayPremium : weekend ? card.weekendPremium : 0;
+  const baseCharge = agreed ?? band.charge;
+  return {
+    charge: baseCharge + premium,
+    baseCharge,
+    premium,
+    premiumReason: premium > 0 ? (holiday ? holiday.name : "Weekend") : null,
+    bandHours: band.maxHours,
+    source: agreed !== null ? "substitute" : resolved.source,
+    rateCardId: card.id,
+  };
+}
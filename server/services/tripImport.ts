@@ -0,0 +1,336 @@
+import { createHash } from "crypto";
+import { format } from "date-fns";
+import { storage } from "../storage";
+import { closedWeekContaining } from "./weekLock";
+import { licenceError } from "./driverKyc";
+import { loadMatchers, normaliseDriverName, normaliseVehicleNumber, type NameMatch, type NameMatchCandidate } from "./nameMatching";
+import type { LeaveType, TripImportWrite } from "@shared/schema";
+
+export const TRIP_IMPORT_ACTIONS = ["new_log", "duplicate", "leave", "skipped_leave", "error"] as const;
+export type TripImportAction = typeof TRIP_IMPORT_ACTIONS[number];
+
+// New drivers get this number until someone enters theirs
+export const PLACEHOLDER_PHONE = "0000000000";
+
+export interface TripImportChange {
+  field: "vehicle" | "shift" | "rent" | "amountCollected" | "fuel";
+  existing: string | number;
+  incoming: string | number;
+}
+
+export interface TripImportRow {
+  row: number;                 // line in the file, counting the header
+  action: TripImportAction;
+  date: string | null;
+  driverName: string | null;
+  driverId: number | null;     // null for a driver the import creates
+  vehicleNumber: string | null;
+  vehicleId: number | null;
+  driverMatch: NameMatch | null;  // the driver on record the name was tied to, and how
+  vehicleMatch: NameMatch | null;
+  driverCandidates: NameMatchCandidate[];  // close drivers, for a name that matched none
+  vehicleCandidates: NameMatchCandidate[];
+  shift: "morning" | "evening" | null;
+  rent: number;
+  amountCollected: number;
+  fuel: number;
+  leaveType: LeaveType | null;
+  newDriver: boolean;          // this row introduces a driver the import creates
+  newVehicle: boolean;
+  message: string | null;      // why the row is an error or skipped
+  existingLogId: number | null; // the log already on record for a duplicate
+  changes: TripImportChange[]; // how a duplicate differs from the log on record
+}
+
+// Matches the user confirmed for one import, from the name or number in the file to the record's id
+export interface TripImportMatches {
+  drivers?: Record<string, number>;
+  vehicles?: Record<string, number>;
+}
+
+export interface TripImportPlan {
+  rows: TripImportRow[];
+  newDrivers: Array<{ name: string; joinedDate: string }>;
+  newVehicles: Array<{ vehicleNumber: string; companyId: number; companyName: string; purchasedDate: string }>;
+  counts: Record<TripImportAction, number>;
+  fingerprint: string; // the commit must be given the same one
+}
+
+type RawRow = Record<string, unknown>;
+
+// Column names are matched ignoring case; of several Collection columns the first non-empty wins
+function normaliseRow(rawRow: RawRow): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rawRow)) {
+    const name = key.trim().toLowerCase();
+    const text = value === undefined || value === null ? "" : String(value).trim();
+    if (["date", "vehicle", "driver", "shift", "rent", "fuel", "company"].includes(name)) row[name] = text;
+    else if (/^collection(_\d+)?$/.test(name) && !row.collection) row.collection = text; // repeats read as Collection_1, ...
+  }
+  return row;
+}
+
+// Rent, collection and fuel; blanks and placeholders like "X" or "-" count as 0
+function parseAmount(value: string | undefined): number {
+  if (!value || value.toLowerCase() === "x" || value === "-") return 0;
+  const num = parseFloat(value);
+  return isNaN(num) ? 0 : Math.round(num);
+}
+
+function leaveTypeOf(row: Record<string, string>): LeaveType | null {
+  const shift = (row.shift ?? "").toLowerCase();
+  if (shift === "leave") return "unplanned";
+  if ((row.vehicle ?? "").toLowerCase().includes("no vechicle") || shift.includes("no vechicle")) return "no_vehicle";
+  return null;
+}
+
+// DD/MM/YYYY, rejecting dates that roll over such as 31/02
+function parseTripDate(value: string): Date | null {
+  const parts = value.split("/").map((part) => parseInt(part.trim()));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+  const [day, month, year] = parts;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+const dateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+function weekBounds(date: Date): { weekStart: Date; weekEnd: Date } {
+  const weekStart = new Date(date);
+  const day = weekStart.getDay();
+  weekStart.setDate(weekStart.getDate() - day + (day === 0 ? -6 : 1));
+  weekStart.setHours(0, 0, 0, 0);
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekStart.getDate() + 6);
+  weekEnd.setHours(23, 59, 59, 999);
+  return { weekStart, weekEnd };
+}
+
+/**
+ * Works out what importing a trip log file would do, without writing
+ * anything: each row becomes a new rent log, a duplicate of a log already on
+ * record (with the differences), a leave day, leave already on record, or an
+ * error. Drivers and vehicles the file names but the fleet lacks are listed
+ * for creation, with the closest records on file as suggestions. Names are
+ * tied to records through the matches the user confirmed, aliases, phone
+ * numbers and QR codes (see nameMatching.ts). A driver named twice on one
+ * date in the file is an error on every such row.
+ */
+export async function planTripImport(
+  csvData: RawRow[],
+  defaultCompanyId?: number | null,
+  matches: TripImportMatches = {},
+): Promise<TripImportPlan> {
+  const [companies, vehicles, drivers, closedWeeks, matchers] = await Promise.all([
+    storage.getAllCompanies(),
+    storage.getAllVehicles(),
+    storage.getAllDrivers(),
+    storage.getClosedWeeks(),
+    loadMatchers(matches),
+  ]);
+  const companyMap = new Map(companies.map((c) => [c.name.toLowerCase(), c]));
+  const defaultCompany = defaultCompanyId ? companies.find((c) => c.id === defaultCompanyId) : undefined;
+  if (defaultCompanyId && !defaultCompany) {
+    throw new Error("Unknown company selected for new vehicles");
+  }
+  const driverById = new Map(drivers.map((d) => [d.id, d]));
+  const vehicleNumbers = new Map(vehicles.map((v) => [v.id, v.vehicleNumber]));
+
+  const rowsData = csvData.map(normaliseRow);
+  const driverMatches = rowsData.map((row) => (row.driver ? matchers.drivers.match(row.driver) : null));
+  const vehicleMatches = rowsData.map((row) => (row.vehicle ? matchers.vehicles.match(row.vehicle) : null));
+  // Drivers on record by id, the rest by their normalised name
+  const driverKey = (index: number) => {
+    const match = driverMatches[index];
+    return match ? `#${match.id}` : normaliseDriverName(rowsData[index].driver);
+  };
+
+  // Trip rows naming the same driver on the same date
+  const tripRowsByDriverDate = new Map<string, number[]>();
+  rowsData.forEach((row, index) => {
+    if (!row.driver || !row.date || leaveTypeOf(row)) return;
+    const key = `${driverKey(index)}|${row.date}`;
+    tripRowsByDriverDate.set(key, [...(tripRowsByDriverDate.get(key) ?? []), index + 2]);
+  });
+
+  const plan: TripImportPlan = {
+    rows: [],
+    newDrivers: [],
+    newVehicles: [],
+    counts: { new_log: 0, duplicate: 0, leave: 0, skipped_leave: 0, error: 0 },
+    fingerprint: "",
+  };
+  const plannedLeaves = new Set<string>();
+
+  for (let i = 0; i < rowsData.length; i++) {
+    const row = rowsData[i];
+    const entry: TripImportRow = {
+      row: i + 2,
+      action: "error",
+      date: null,
+      driverName: row.driver || null,
+      driverId: null,
+      vehicleNumber: row.vehicle || null,
+      vehicleId: null,
+      driverMatch: driverMatches[i],
+      vehicleMatch: vehicleMatches[i],
+      driverCandidates: [],
+      vehicleCandidates: [],
+      shift: null,
+      rent: parseAmount(row.rent),
+      amountCollected: parseAmount(row.collection),
+      fuel: parseAmount(row.fuel),
+      leaveType: leaveTypeOf(row),
+      newDriver: false,
+      newVehicle: false,
+      message: null,
+      existingLogId: null,
+      changes: [],
+    };
+    const fail = (message: string) => {
+      entry.message = message;
+      plan.rows.push(entry);
+    };
+
+    if (!row.date) { fail("Missing or invalid date"); continue; }
+    if (!row.vehicle) { fail("Missing or invalid vehicle"); continue; }
+    if (!row.driver) { fail("Missing or invalid driver"); continue; }
+    if (!entry.driverMatch) entry.driverCandidates = matchers.drivers.suggest(row.driver);
+    const tripDate = parseTripDate(row.date);
+    if (!tripDate) { fail(`Invalid date (${row.date}); expected DD/MM/YYYY`); continue; }
+    entry.date = dateString(tripDate);
+    const closedWeek = closedWeekContaining(closedWeeks, tripDate);
+
+    // "Leave" and "No Vechicle" rows are the driver's day off, recorded as leave rather than a trip
+    if (entry.leaveType) {
+      if (!entry.driverMatch) { fail(`Driver ${row.driver} does not exist; leave is only recorded for known drivers`); continue; }
+      if (closedWeek) { fail(`The week ${closedWeek.weekStart} to ${closedWeek.weekEnd} is closed`); continue; }
+      entry.driverId = entry.driverMatch.id;
+      entry.vehicleId = entry.vehicleMatch?.id ?? null;
+      const key = `${entry.driverId}|${entry.date}`;
+      const onRecord = plannedLeaves.has(key)
+        || (await storage.findOverlappingDriverLeaves(entry.driverId, entry.date, entry.date)).length > 0;
+      entry.action = onRecord ? "skipped_leave" : "leave";
+      entry.message = onRecord ? "Leave already on record" : null;
+      plannedLeaves.add(key);
+      plan.rows.push(entry);
+      continue;
+    }
+
+    const sameDay = tripRowsByDriverDate.get(`${driverKey(i)}|${row.date}`) ?? [];
+    if (sameDay.length > 1) { fail(`Driver ${row.driver} appears more than once on ${row.date} (rows ${sameDay.join(", ")})`); continue; }
+
+    if (closedWeek) { fail(`The week ${closedWeek.weekStart} to ${closedWeek.weekEnd} is closed`); continue; }
+
+    entry.shift = row.shift?.toLowerCase() === "evening" ? "evening" : "morning";
+    if (!entry.vehicleMatch) entry.vehicleCandidates = matchers.vehicles.suggest(row.vehicle);
+
+    const driver = entry.driverMatch ? driverById.get(entry.driverMatch.id) : undefined;
+    if (driver) {
+      entry.driverId = driver.id;
+      const licenceProblem = licenceError(driver, entry.date);
+      if (licenceProblem) { fail(licenceProblem); continue; }
+      const startOfDay = new Date(tripDate.getFullYear(), tripDate.getMonth(), tripDate.getDate());
+      const endOfDay = new Date(tripDate.getFullYear(), tripDate.getMonth(), tripDate.getDate() + 1);
+      const [existing] = await storage.getDriverRentLogsByDateRange(driver.id, startOfDay, endOfDay);
+      if (existing) {
+        entry.action = "duplicate";
+        entry.existingLogId = existing.id;
+        entry.vehicleId = entry.vehicleMatch?.id ?? null;
+        entry.message = "Driver already has a trip log on this date";
+        const existingVehicle = vehicleNumbers.get(existing.vehicleId) ?? `#${existing.vehicleId}`;
+        const compare: Array<[TripImportChange["field"], string | number, string | number]> = [
+          ["vehicle", existingVehicle.toUpperCase(), (entry.vehicleMatch?.name ?? row.vehicle).toUpperCase()],
+          ["shift", existing.shift, entry.shift],
+          ["rent", existing.rent, entry.rent],
+          ["amountCollected", existing.amountCollected, entry.amountCollected],
+          ["fuel", existing.fuel, entry.fuel],
+        ];
+        entry.changes = compare
+          .filter(([, before, after]) => before !== after)
+          .map(([field, before, after]) => ({ field, existing: before, incoming: after }));
+        plan.rows.push(entry);
+        continue;
+      }
+    }
+
+    if (entry.vehicleMatch) {
+      entry.vehicleId = entry.vehicleMatch.id;
+    } else if (!plan.newVehicles.some((v) => normaliseVehicleNumber(v.vehicleNumber) === normaliseVehicleNumber(row.vehicle))) {
+      const company = row.company ? companyMap.get(row.company.toLowerCase()) : defaultCompany;
+      if (!company) {
+        fail(row.company
+          ? `Unknown company "${row.company}"`
+          : `Vehicle ${row.vehicle} does not exist; choose a company for new vehicles or add a Company column`);
+        continue;
+      }
+      plan.newVehicles.push({ vehicleNumber: row.vehicle, companyId: company.id, companyName: company.name, purchasedDate: entry.date });
+      entry.newVehicle = true;
+    }
+
+    if (!driver && !plan.newDrivers.some((d) => normaliseDriverName(d.name) === normaliseDriverName(row.driver))) {
+      plan.newDrivers.push({ name: row.driver, joinedDate: entry.date });
+      entry.newDriver = true;
+    }
+
+    entry.action = "new_log";
+    plan.rows.push(entry);
+  }
+
+  for (const entry of plan.rows) plan.counts[entry.action]++;
+  plan.fingerprint = createHash("sha256")
+    .update(JSON.stringify([plan.rows, plan.newDrivers, plan.newVehicles]))
+    .digest("hex");
+  return plan;
+}
+
+/**
+ * The writes that carry out a plan. Rows refer to drivers and vehicles the
+ * import creates by their upper-cased name or number, and to the rest by id.
+ */
+export function tripImportWrites(plan: TripImportPlan, driverPhones: Record<string, string> = {}): TripImportWrite {
+  const phones = new Map(Object.entries(driverPhones).map(([name, phone]) => [name.toUpperCase(), phone.trim()]));
+  const writes: TripImportWrite = {
+    drivers: plan.newDrivers.map((d) => ({
+      name: d.name,
+      phone: phones.get(d.name.toUpperCase()) || PLACEHOLDER_PHONE,
+      joinedDate: d.joinedDate,
+    })),
+    vehicles: plan.newVehicles.map((v) => ({ vehicleNumber: v.vehicleNumber, companyId: v.companyId, purchasedDate: v.purchasedDate })),
+    rentLogs: [],
+    leaves: [],
+  };
+  // Rows may spell a new driver or vehicle differently from the row that introduced it
+  const newDriverKey = (name: string) =>
+    (plan.newDrivers.find((d) => normaliseDriverName(d.name) === normaliseDriverName(name))?.name ?? name).toUpperCase();
+  const newVehicleKey = (vehicleNumber: string) =>
+    (plan.newVehicles.find((v) => normaliseVehicleNumber(v.vehicleNumber) === normaliseVehicleNumber(vehicleNumber))?.vehicleNumber ?? vehicleNumber).toUpperCase();
+  for (const entry of plan.rows) {
+    if (entry.action === "new_log") {
+      const [year, month, day] = entry.date!.split("-").map(Number);
+      const tripDate = new Date(year, month - 1, day);
+      writes.rentLogs.push({
+        driverId: entry.driverId ?? newDriverKey(entry.driverName!),
+        vehicleId: entry.vehicleId ?? newVehicleKey(entry.vehicleNumber!),
+        date: tripDate,
+        shift: entry.shift!,
+        rent: entry.rent,
+        amountCollected: entry.amountCollected,
+        fuel: entry.fuel,
+        ...weekBounds(tripDate),
+      });
+    } else if (entry.action === "leave") {
+      writes.leaves.push({
+        driverId: entry.driverId!,
+        vehicleId: entry.vehicleId,
+        startDate: entry.date!,
+        endDate: entry.date!,
+        type: entry.leaveType!,
+        reason: null,
+        source: "import",
+      });
+    }
+  }
+  return writes;
+}
@@ -0,0 +1,52 @@
+import express, { type Request } from "express";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+// Uploaded document copies are kept on local disk, outside the served client build
+export const UPLOAD_ROOT = path.resolve(process.cwd(), "uploads");
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const UPLOAD_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/webp"];
+
+/**
+ * Body parser for upload routes. The client sends the file itself as the
+ * request body with its content type, and its name in the X-File-Name header.
+ */
+export const uploadBody = express.raw({ type: UPLOAD_TYPES, limit: MAX_UPLOAD_BYTES });
+
+export interface UploadedFile {
+  fileName: string;
+  fileType: string;
+  data: Buffer;
+}
+
+export function readUpload(req: Request): UploadedFile {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new Error("Upload a PDF, JPEG, PNG or WebP file");
+  }
+  const header = req.get("X-File-Name");
+  const fileName = header ? decodeURIComponent(header) : "document";
+  return { fileName, fileType: req.get("Content-Type")!.split(";")[0], data: req.body };
+}
+
+export function resolveUpload(relativePath: string): string {
+  const absolute = path.resolve(UPLOAD_ROOT, relativePath);
+  if (!absolute.startsWith(UPLOAD_ROOT + path.sep)) {
+    throw new Error("Invalid upload path");
+  }
+  return absolute;
+}
+
+/** Writes a file under `folder` and returns its path relative to the upload root. */
+export async function saveUpload(folder: string, file: UploadedFile): Promise<string> {
+  const safeName = path.basename(file.fileName).replace(/[^\w.-]+/g, "_").slice(-100) || "document";
+  const relativePath = path.posix.join(folder, `${Date.now()}-${safeName}`);
+  const absolute = resolveUpload(relativePath);
+  await fs.mkdir(path.dirname(absolute), { recursive: true });
+  await fs.writeFile(absolute, file.data);
+  return relativePath;
+}
+
+export async function removeUpload(relativePath: string | null): Promise<void> {
+  if (!relativePath) return;
+  await fs.rm(resolveUpload(relativePath), { force: true });
+}
@@ -0,0 +1,112 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { storage } from "../storage";
+import { broadcast } from "../eventBus";
+import { VEHICLE_DOCUMENT_TYPES, type VehicleDocument, type VehicleDocumentType } from "@shared/schema";
+
+// Documents are flagged as expiring this many days before their expiry date
+export const EXPIRY_WARNING_DAYS = 30;
+// Local hour of day the expiry warnings go out
+export const COMPLIANCE_CHECK_HOUR = 9;
+
+export type ComplianceStatus = "expired" | "missing" | "expiring" | "valid";
+
+export interface DocumentCompliance {
+  type: VehicleDocumentType;
+  documentId: number | null;      // latest document of the type, if any
+  documentNumber: string | null;
+  expiryDate: string | null;
+  daysLeft: number | null;        // negative once expired
+  status: ComplianceStatus;
+}
+
+export interface VehicleCompliance {
+  vehicleId: number;
+  vehicleNumber: string;
+  status: ComplianceStatus;       // worst status across the document types
+  documents: DocumentCompliance[];
+}
+
+const STATUS_ORDER: Record<ComplianceStatus, number> = { expired: 0, missing: 1, expiring: 2, valid: 3 };
+
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+export function expiryStatus(expiryDate: string, asOf: string = today()): { daysLeft: number; status: ComplianceStatus } {
+  const daysLeft = differenceInCalendarDays(parseISO(expiryDate), parseISO(asOf));
+  if (daysLeft < 0) return { daysLeft, status: "expired" };
+  return { daysLeft, status: daysLeft <= EXPIRY_WARNING_DAYS ? "expiring" : "valid" };
+}
+
+/**
+ * Where a vehicle stands on each required document. Renewals are separate
+ * rows, so the document with the latest expiry of each type is the one that
+ * counts; a type with no document at all is missing.
+ */
+export function vehicleCompliance(
+  vehicle: { id: number; vehicleNumber: string },
+  documents: VehicleDocument[],
+  asOf: string = today(),
+): VehicleCompliance {
+  const perType = VEHICLE_DOCUMENT_TYPES.map((type): DocumentCompliance => {
+    const latest = documents
+      .filter((document) => document.type === type)
+      .sort((a, b) => b.expiryDate.localeCompare(a.expiryDate) || b.id - a.id)[0];
+    if (!latest) {
+      return { type, documentId: null, documentNumber: null, expiryDate: null, daysLeft: null, status: "missing" };
+    }
+    return {
+      type,
+      documentId: latest.id,
+      documentNumber: latest.documentNumber,
+      expiryDate: latest.expiryDate,
+      ...expiryStatus(latest.expiryDate, asOf),
+    };
+  });
+
+  const status = perType.reduce<ComplianceStatus>(
+    (worst, document) => (STATUS_ORDER[document.status] < STATUS_ORDER[worst] ? document.status : worst),
+    "valid",
+  );
+  return { vehicleId: vehicle.id, vehicleNumber: vehicle.vehicleNumber, status, documents: perType };
+}
+
+/** Compliance of every vehicle still in the fleet, worst first. */
+export async function buildComplianceReport(asOf: string = today()): Promise<VehicleCompliance[]> {
+  const [vehicles, documents] = await Promise.all([storage.getAllVehicles(), storage.getVehicleDocuments()]);
+  return vehicles
+    .filter((vehicle) => !vehicle.droppedDate || vehicle.droppedDate >= asOf)
+    .map((vehicle) => vehicleCompliance(vehicle, documents.filter((document) => document.vehicleId === vehicle.id), asOf))
+    .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.vehicleNumber.localeCompare(b.vehicleNumber));
+}
+
+/** Broadcasts a warning listing every document that has expired or is about to. */
+export async function broadcastExpiryWarnings(asOf: string = today()): Promise<void> {
+  const report = await buildComplianceReport(asOf);
+  const documents = report.flatMap((vehicle) => vehicle.documents
+    .filter((document) => document.status === "expired" || document.status === "expiring")
+    .map((document) => ({ vehicleId: vehicle.vehicleId, vehicleNumber: vehicle.vehicleNumber, ...document })));
+  if (documents.length > 0) {
+    broadcast("compliance:warning", { asOf, documents });
+  }
+}
+
+function msUntilNextCheck(now: Date = new Date()): number {
+  const next = new Date(now);
+  next.setHours(COMPLIANCE_CHECK_HOUR, 0, 0, 0);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next.getTime() - now.getTime();
+}
+
+/** Schedules the daily expiry warning for as long as the server runs. */
+export function startComplianceWatch(): void {
+  const run = async () => {
+    try {
+      await broadcastExpiryWarnings();
+    } catch (error) {
+      console.error("Failed to check vehicle document expiries:", error);
+    }
+    setTimeout(run, msUntilNextCheck()).unref();
+  };
+  setTimeout(run, msUntilNextCheck()).unref();
+}
@@ -0,0 +1,34 @@
+import { storage } from "../storage";
+import type { WeeklySettlement } from "@shared/schema";
+
+// Dates arrive as Date objects, ISO timestamps or plain YYYY-MM-DD strings
+function toDateString(value: Date | string): string {
+  return typeof value === "string" ? value.slice(0, 10) : value.toISOString().split("T")[0];
+}
+
+/** The closed week overlapping `start`..`end` (a single day when `end` is omitted), if any. */
+export async function findClosedWeek(start: Date | string, end: Date | string = start): Promise<WeeklySettlement | undefined> {
+  return storage.findClosedWeek(toDateString(start), toDateString(end));
+}
+
+/**
+ * Same check against a list loaded once with storage.getClosedWeeks(), for
+ * imports that test many rows.
+ */
+export function closedWeekContaining(closedWeeks: WeeklySettlement[], date: Date | string): WeeklySettlement | undefined {
+  const day = toDateString(date);
+  return closedWeeks.find(week => week.weekStart <= day && week.weekEnd >= day);
+}
+
+export function closedWeekMessage(week: WeeklySettlement): string {
+  const reason = week.closeReason ? ` (${week.closeReason})` : "";
+  return `The week ${week.weekStart} to ${week.weekEnd} is closed${reason}. An owner must reopen it before it can be changed.`;
+}
+
+/** 409 response body for a write rejected because of a closed week. */
+export function closedWeekError(week: WeeklySettlement) {
+  return {
+    message: closedWeekMessage(week),
+    closedWeek: { weekStart: week.weekStart, weekEnd: week.weekEnd },
+  };
+}
@@ -1,29 +1,91 @@
 import { 
-  vehicles, drivers, vehicleDriverAssignments, driverRentLogs, 
-  weeklySettlements, substituteDrivers, weeklySummaries, investments, investmentReturns,
-  type Vehicle, type Driver, type VehicleDriverAssignment, 
-  type DriverRentLog, type WeeklySettlement, type SubstituteDriver, type WeeklySummary, type Investment, type InvestmentReturn,
+  users, companies, vehicles, drivers, vehicleDriverAssignments, driverRentLogs, 
+  weeklySettlements, substitutes, substituteDrivers, weeklySummaries, investments, investmentReturns,
+  driverPayouts, driverAdvances, driverDeposits, depositDeductions, driverAdjustments, accommodations, accommodationAssignments, maintenanceRecords, serviceIntervals, vehicleDocuments, driverDocuments, incidents, fuelEntries, rosterEntries, driverLeaves, slabSchedules, slabScheduleRows, substituteRateCards, substituteRateBands, holidays, statementColumnMappings, driverAliases, vehicleAliases, importJobs, importJobRecords, auditLog,
+  type User, type Company, type InsertCompany, type UpdateCompany,
+  type Vehicle, type VehicleWithCompany, type Driver, type DriverWithAccommodation, type VehicleDriverAssignment, 
+  type DriverRentLog, type WeeklySettlement, type WeekLockState, type SubstituteDriver, type WeeklySummary, type Investment, type InvestmentReturn,
   type InsertVehicle, type InsertDriver, type InsertVehicleDriverAssignment, 
   type InsertDriverRentLog, type UpsertWeeklySettlementInput, 
   type InsertSubstituteDriver, type UpsertWeeklySummary, type InsertInvestment, type UpdateInvestment,
-  type InsertInvestmentReturn, type UpdateInvestmentReturn
+  type InsertInvestmentReturn, type UpdateInvestmentReturn,
+  type DriverAdjustment, type InsertDriverAdjustment,
+  type DriverPayout, type InsertDriverPayout, type DriverPayoutQuery,
+  type DriverAdvance, type InsertDriverAdvance,
+  type DriverDeposit, type UpsertDriverDeposit, type DepositDeduction, type InsertDepositDeduction,
+  type MaintenanceRecord, type InsertMaintenanceRecord, type ServiceInterval, type UpsertServiceInterval,
+  type VehicleDocument, type InsertVehicleDocument, type DriverDocument, type DriverDocumentKind,
+  type Incident, type IncidentValues, type IncidentWithNames, type IncidentQuery,
+  type FuelEntry, type FuelEntryValues, type FuelEntryWithVehicle, type FuelQuery, type OdometerReadings,
+  type RosterEntry, type InsertRosterEntry, type RosterEntryWithNames, type RosterQuery,
+  type DriverLeave, type DriverLeaveValues, type DriverLeaveWithNames, type LeaveQuery,
+  type Substitute, type InsertSubstitute, type SubstituteQuery, type UnlinkedSubstituteName,
+  type Accommodation, type InsertAccommodation, type AccommodationWithOccupancy,
+  type AccommodationAssignment, type AccommodationAssignmentWithNames, type InsertAccommodationAssignment,
+  BASE_DRIVER_RENT, WEEKLY_WALLET_FEE,
+  type SlabSchedule, type SlabScheduleWithRows, type UpsertSlabSchedule,
+  type SubstituteRateCard, type SubstituteRateCardWithBands, type UpsertSubstituteRateCard, type Holiday, type InsertHoliday,
+  type StatementColumnMapping, type TripImportWrite, type TripImportCreated,
+  type DriverAlias, type DriverAliasWithDriver, type InsertDriverAlias, type VehicleAlias, type VehicleAliasWithVehicle, type InsertVehicleAlias,
+  type ImportKind, type ImportRecordEntity, type ImportJob, type ImportJobQuery, type ImportJobDetails, type ImportJobWithRecords, type ImportUndoResult,
+  type AuditLogEntry, type AuditEntity, type AuditAction, type AuditLogQuery
 } from "@shared/schema";
+import type { StatementColumns, StatementProfileId } from "@shared/statementProfiles";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
 import { db } from "./db";
-import { eq, and, or, gte, lte, desc, asc, ne, sql } from "drizzle-orm";
+import { getCurrentActor } from "./requestContext";
+import { getSettlementTerms } from "./services/rentalCalculator";
+import { eq, and, or, gte, lte, desc, asc, ne, sql, inArray, isNull, isNotNull, getTableColumns, ilike, like, type SQL } from "drizzle-orm";
+
+// A rent log or substitute entry as one shift driven on a vehicle
+export interface VehicleShift {
+  id: number;              // rent log or substitute entry id
+  vehicleId: number;
+  date: string;
+  shift: string;
+  driverId: number | null; // null for substitutes
+  driverName: string;
+  substitute: boolean;
+  trips: number;
+  fuel: number;
+  startOdometer: number | null;
+  endOdometer: number | null;
+}
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
+  // User operations
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  createUser(user: { username: string; passwordHash: string; displayName: string; role: string; active?: boolean }): Promise<User>;
+  updateUser(id: number, user: Partial<{ passwordHash: string; displayName: string; role: string; active: boolean; lastLoginAt: Date }>): Promise<User>;
+  deleteUser(id: number): Promise<void>;
+  countActiveOwners(): Promise<number>;
+
+  // Company operations
+  createCompany(company: InsertCompany): Promise<Company>;
+  getCompany(id: number): Promise<Company | undefined>;
+  getCompanyByName(name: string): Promise<Company | undefined>;
+  getAllCompanies(): Promise<Company[]>;
+  updateCompany(id: number, company: UpdateCompany): Promise<Company>;
+  deleteCompany(id: number): Promise<void>;
+  countVehiclesByCompany(companyId: number): Promise<number>;
+  countCompanyRentLogs(companyId: number, from: string, to: string | null): Promise<number>;
+
   // Vehicle operations
   createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
-  getVehicle(id: number): Promise<Vehicle | undefined>;
-  getAllVehicles(): Promise<Vehicle[]>;
-  getVehicleByNumber(vehicleNumber: string): Promise<Vehicle | undefined>;
+  getVehicle(id: number): Promise<VehicleWithCompany | undefined>;
+  getAllVehicles(): Promise<VehicleWithCompany[]>;
+  getVehicleByNumber(vehicleNumber: string): Promise<VehicleWithCompany | undefined>;
   updateVehicle(id: number, vehicle: Partial<InsertVehicle>): Promise<Vehicle>;
   deleteVehicle(id: number): Promise<void>;
 
   // Driver operations
   createDriver(driver: InsertDriver): Promise<Driver>;
-  getDriver(id: number): Promise<Driver | undefined>;
-  getAllDrivers(): Promise<Driver[]>;
+  getDriver(id: number): Promise<DriverWithAccommodation | undefined>;
+  getAllDrivers(): Promise<DriverWithAccommodation[]>;
   updateDriver(id: number, driver: Partial<InsertDriver>): Promise<Driver>;
   deleteDriver(id: number): Promise<void>;
 
@@ -31,6 +93,7 @@ export interface IStorage {
   createVehicleDriverAssignment(assignment: InsertVehicleDriverAssignment): Promise<VehicleDriverAssignment>;
   getVehicleDriverAssignment(vehicleId: number): Promise<VehicleDriverAssignment | undefined>;
   updateVehicleDriverAssignment(vehicleId: number, assignment: Partial<InsertVehicleDriverAssignment>): Promise<VehicleDriverAssignment>;
+  getAllVehicleDriverAssignments(): Promise<VehicleDriverAssignment[]>;
 
   // Driver rent log operations
   getRecentRentLogs(limit: number): Promise<Array<DriverRentLog & { driverName: string; vehicleNumber: string }>>;
@@ -49,33 +112,56 @@ export interface IStorage {
     weekEnd: string;
     rent: number;
     wallet: number;
+    walletDeduction: number;
+    settlementDates: string[];
     companyRent: number | null;
     companyWallet: number | null;
     roomRent: number;
     profit: number | null;
+    lock: WeekLockState;
   }>;
   listWeeklySettlements(): Promise<Array<{
     weekStart: string;
     weekEnd: string;
     rent: number;
     wallet: number;
+    walletDeduction: number;
+    settlementDates: string[];
     companyRent: number | null;
     companyWallet: number | null;
     roomRent: number;
     profit: number | null;
+    lock: WeekLockState;
   }>>;
   upsertWeeklySettlement(input: {weekStart: string; weekEnd: string; companyRent: number | null; companyWallet: number | null}): Promise<void>;
   deleteWeeklySettlement(weekStart: string, weekEnd: string): Promise<void>;
+  getClosedWeeks(): Promise<WeeklySettlement[]>;
+  findClosedWeek(startDate: string, endDate: string): Promise<WeeklySettlement | undefined>;
+  closeWeek(weekStart: string, weekEnd: string, reason: string): Promise<WeeklySettlement>;
+  reopenWeek(weekStart: string, weekEnd: string, reason: string): Promise<WeeklySettlement>;
 
   // Substitute driver operations
   createSubstituteDriver(substitute: InsertSubstituteDriver): Promise<SubstituteDriver>;
   getSubstituteDriver(id: number): Promise<SubstituteDriver | undefined>;
   getSubstituteDriversByVehicleAndDate(vehicleId: number, date: Date): Promise<SubstituteDriver[]>;
+  updateSubstituteOdometer(id: number, readings: OdometerReadings): Promise<SubstituteDriver>;
   getSubstituteDriversByVehicle(vehicleId: number): Promise<Array<SubstituteDriver & { vehicleNumber: string }>>;
   getSubstituteDriversByVehicleAndDateRange(vehicleId: number, startDate: Date, endDate: Date): Promise<Array<SubstituteDriver & { vehicleNumber: string }>>;
   getAllSubstituteDrivers(): Promise<Array<SubstituteDriver & { vehicleNumber: string }>>;
   deleteSubstituteDriver(id: number): Promise<void>;
 
+  // Substitute registry operations
+  getSubstitutes(): Promise<Substitute[]>;
+  getSubstitute(id: number): Promise<Substitute | undefined>;
+  findSubstituteByName(name: string, excludeId?: number): Promise<Substitute | undefined>;
+  createSubstitute(substitute: InsertSubstitute): Promise<Substitute>;
+  updateSubstitute(id: number, substitute: InsertSubstitute): Promise<Substitute>;
+  deleteSubstitute(id: number): Promise<void>;
+  getSubstituteShiftTotals(query: SubstituteQuery): Promise<Array<{ substituteId: number; shifts: number; trips: number; paid: number; lastShift: string | null }>>;
+  getSubstituteShifts(substituteId: number, query: SubstituteQuery): Promise<Array<SubstituteDriver & { vehicleNumber: string }>>;
+  getUnlinkedSubstituteNames(): Promise<UnlinkedSubstituteName[]>;
+  linkSubstituteShifts(substituteId: number, names: string[]): Promise<number>;
+
   // QR Code validation operations
   checkQrCodeExists(qrCode: string, excludeVehicleId?: number, excludeDriverId?: number): Promise<{ exists: boolean; type: 'vehicle' | 'driver' | null; name: string | null }>;
 
@@ -92,6 +178,113 @@ export interface IStorage {
   getWeeklySummary(driverId: number, startDate: string, endDate: string): Promise<WeeklySummary | undefined>;
   getWeeklySummariesOverlappingRange(driverId: number, startDate: string, endDate: string): Promise<WeeklySummary[]>;
   clearWeeklySummary(driverId: number, startDate: string, endDate: string): Promise<void>;
+
+  // Driver payout operations
+  getDriverPayouts(query: DriverPayoutQuery): Promise<DriverPayout[]>;
+  getDriverPayout(id: number): Promise<DriverPayout | undefined>;
+  getPayoutTotalsForDateRange(startDate: string, endDate: string): Promise<Array<{ driverId: number; total: number }>>;
+  createDriverPayout(payout: InsertDriverPayout): Promise<DriverPayout>;
+  voidDriverPayout(id: number, reason: string): Promise<DriverPayout>;
+
+  // Driver advance operations
+  getDriverAdvances(driverId?: number): Promise<DriverAdvance[]>;
+  getDriverAdvance(id: number): Promise<DriverAdvance | undefined>;
+  createDriverAdvance(advance: InsertDriverAdvance): Promise<DriverAdvance>;
+  deleteDriverAdvance(id: number): Promise<void>;
+
+  // Driver deposit operations
+  getDriverDeposit(driverId: number): Promise<DriverDeposit | undefined>;
+  upsertDriverDeposit(driverId: number, deposit: UpsertDriverDeposit): Promise<DriverDeposit>;
+  getDepositDeductions(driverId: number): Promise<DepositDeduction[]>;
+  getDepositDeduction(id: number): Promise<DepositDeduction | undefined>;
+  createDepositDeduction(driverId: number, deduction: InsertDepositDeduction): Promise<DepositDeduction>;
+  deleteDepositDeduction(id: number): Promise<void>;
+
+  // Maintenance operations
+  getMaintenanceRecords(filter: { vehicleId?: number; from?: string; to?: string }): Promise<MaintenanceRecord[]>;
+  getMaintenanceRecord(id: number): Promise<MaintenanceRecord | undefined>;
+  createMaintenanceRecord(vehicleId: number, record: InsertMaintenanceRecord): Promise<MaintenanceRecord>;
+  updateMaintenanceRecord(id: number, record: InsertMaintenanceRecord): Promise<MaintenanceRecord>;
+  deleteMaintenanceRecord(id: number): Promise<void>;
+  getMaintenanceCost(vehicleId: number, startDate: string, endDate: string): Promise<number>;
+  getServiceIntervals(vehicleId?: number): Promise<ServiceInterval[]>;
+  getServiceInterval(id: number): Promise<ServiceInterval | undefined>;
+  upsertServiceInterval(vehicleId: number, interval: UpsertServiceInterval): Promise<ServiceInterval>;
+  deleteServiceInterval(id: number): Promise<void>;
+
+  // Vehicle document operations
+  getVehicleDocuments(vehicleId?: number): Promise<VehicleDocument[]>;
+  getVehicleDocument(id: number): Promise<VehicleDocument | undefined>;
+  createVehicleDocument(vehicleId: number, document: InsertVehicleDocument): Promise<VehicleDocument>;
+  updateVehicleDocument(id: number, document: InsertVehicleDocument): Promise<VehicleDocument>;
+  setVehicleDocumentFile(id: number, file: { fileName: string; filePath: string; fileType: string } | null): Promise<VehicleDocument>;
+  deleteVehicleDocument(id: number): Promise<void>;
+
+  // Driver document operations
+  getDriverDocuments(driverId: number): Promise<DriverDocument[]>;
+  getDriverDocument(id: number): Promise<DriverDocument | undefined>;
+  createDriverDocument(driverId: number, kind: DriverDocumentKind, file: { fileName: string; filePath: string; fileType: string }): Promise<DriverDocument>;
+  deleteDriverDocument(id: number): Promise<void>;
+
+  // Incident operations
+  getIncidents(query: IncidentQuery): Promise<IncidentWithNames[]>;
+  getIncident(id: number): Promise<Incident | undefined>;
+  createIncident(incident: IncidentValues): Promise<Incident>;
+  updateIncident(id: number, incident: IncidentValues): Promise<Incident>;
+  setIncidentEvidence(id: number, file: { fileName: string; filePath: string; fileType: string } | null): Promise<Incident>;
+  deleteIncident(id: number): Promise<void>;
+  getIncidentChargeTotalsForDateRange(startDate: string, endDate: string): Promise<Array<{ driverId: number; total: number }>>;
+  getRentLogsForVehicleOnDate(vehicleId: number, date: string): Promise<Array<DriverRentLog & { driverName: string }>>;
+  getSubstituteDriversForVehicleOnDate(vehicleId: number, date: string): Promise<SubstituteDriver[]>;
+
+  // Fuel operations
+  getFuelEntries(query: FuelQuery): Promise<FuelEntryWithVehicle[]>;
+  getFuelEntry(id: number): Promise<FuelEntry | undefined>;
+  createFuelEntry(entry: FuelEntryValues): Promise<FuelEntry>;
+  updateFuelEntry(id: number, entry: FuelEntryValues): Promise<FuelEntry>;
+  deleteFuelEntry(id: number): Promise<void>;
+  getVehicleShiftsForDateRange(startDate: string, endDate: string, vehicleId?: number): Promise<VehicleShift[]>;
+
+  // Roster operations
+  getRosterEntries(query: RosterQuery): Promise<RosterEntryWithNames[]>;
+  getRosterEntry(id: number): Promise<RosterEntry | undefined>;
+  getRosterEntryForSlot(vehicleId: number, date: string, shift: string): Promise<RosterEntry | undefined>;
+  createRosterEntries(entries: InsertRosterEntry[]): Promise<RosterEntry[]>;
+  updateRosterEntry(id: number, entry: InsertRosterEntry): Promise<RosterEntry>;
+  deleteRosterEntry(id: number): Promise<void>;
+
+  // Driver leave operations
+  getDriverLeaves(query: LeaveQuery): Promise<DriverLeaveWithNames[]>;
+  getDriverLeave(id: number): Promise<DriverLeave | undefined>;
+  findOverlappingDriverLeaves(driverId: number, startDate: string, endDate: string, excludeId?: number): Promise<DriverLeave[]>;
+  createDriverLeave(leave: DriverLeaveValues): Promise<DriverLeave>;
+  updateDriverLeave(id: number, leave: DriverLeaveValues): Promise<DriverLeave>;
+  deleteDriverLeave(id: number): Promise<void>;
+
+  // Accommodation operations
+  getAccommodations(): Promise<AccommodationWithOccupancy[]>;
+  getAccommodation(id: number): Promise<Accommodation | undefined>;
+  getAccommodationByName(name: string): Promise<Accommodation | undefined>;
+  createAccommodation(accommodation: InsertAccommodation): Promise<Accommodation>;
+  updateAccommodation(id: number, accommodation: InsertAccommodation): Promise<Accommodation>;
+  deleteAccommodation(id: number): Promise<void>;
+  getAccommodationAssignments(filter: { accommodationId?: number; driverId?: number }): Promise<AccommodationAssignmentWithNames[]>;
+  getAccommodationAssignment(id: number): Promise<AccommodationAssignment | undefined>;
+  findOverlappingAccommodationAssignments(filter: { accommodationId?: number; driverId?: number }, startDate: string, endDate: string | null, excludeId?: number): Promise<AccommodationAssignment[]>;
+  createAccommodationAssignment(accommodationId: number, assignment: InsertAccommodationAssignment): Promise<AccommodationAssignment>;
+  endAccommodationAssignment(id: number, endDate: string): Promise<AccommodationAssignment>;
+  deleteAccommodationAssignment(id: number): Promise<void>;
+  getDriverDailyRent(driverId: number, date: string): Promise<number>;
+  getRoomCostForRange(startDate: string, endDate: string): Promise<number>;
+
+  // Driver ledger operations
+  getRentLogsForDriver(driverId: number): Promise<DriverRentLog[]>;
+  getWeeklySummariesForDriver(driverId: number): Promise<WeeklySummary[]>;
+  getWeeklySummariesWithDrivers(startDate?: string, endDate?: string): Promise<Array<WeeklySummary & { driverName: string }>>;
+  getDriverAdjustments(driverId: number): Promise<DriverAdjustment[]>;
+  getDriverAdjustment(id: number): Promise<DriverAdjustment | undefined>;
+  createDriverAdjustment(driverId: number, adjustment: InsertDriverAdjustment): Promise<DriverAdjustment>;
+  deleteDriverAdjustment(id: number): Promise<void>;
   
   // Investment operations
   createInvestment(investment: InsertInvestment): Promise<Investment>;
@@ -108,74 +301,324 @@ export interface IStorage {
   updateInvestmentReturn(id: number, investmentReturn: UpdateInvestmentReturn): Promise<InvestmentReturn>;
   deleteInvestmentReturn(id: number): Promise<void>;
   
+  // Rental slab schedule operations
+  getSlabSchedules(companyId?: number): Promise<SlabScheduleWithRows[]>;
+  getSlabSchedule(id: number): Promise<SlabScheduleWithRows | undefined>;
+  getSlabScheduleInForce(companyId: number, asOf: string): Promise<SlabScheduleWithRows | undefined>;
+  findOverlappingSlabSchedule(companyId: number, effectiveFrom: string, effectiveTo: string | null, excludeId?: number): Promise<SlabSchedule | undefined>;
+  createSlabSchedule(schedule: UpsertSlabSchedule): Promise<SlabScheduleWithRows>;
+  updateSlabSchedule(id: number, schedule: UpsertSlabSchedule): Promise<SlabScheduleWithRows>;
+  deleteSlabSchedule(id: number): Promise<void>;
+
+  // Substitute rate card operations
+  getSubstituteRateCards(): Promise<SubstituteRateCardWithBands[]>;
+  getSubstituteRateCard(id: number): Promise<SubstituteRateCardWithBands | undefined>;
+  findSubstituteRateCard(companyId: number | null, vehicleId: number | null): Promise<SubstituteRateCard | undefined>;
+  createSubstituteRateCard(card: UpsertSubstituteRateCard): Promise<SubstituteRateCardWithBands>;
+  updateSubstituteRateCard(id: number, card: UpsertSubstituteRateCard): Promise<SubstituteRateCardWithBands>;
+  deleteSubstituteRateCard(id: number): Promise<void>;
+  getHolidays(): Promise<Holiday[]>;
+  getHolidayByDate(date: string): Promise<Holiday | undefined>;
+  createHoliday(holiday: InsertHoliday): Promise<Holiday>;
+  deleteHoliday(id: number): Promise<void>;
+
+  // Trip log import operations
+  applyTripImport(writes: TripImportWrite, job: ImportJobDetails): Promise<TripImportCreated>;
+
+  // Statement import operations
+  getStatementColumnMappings(): Promise<StatementColumnMapping[]>;
+  saveStatementColumnMapping(profile: StatementProfileId, columns: StatementColumns): Promise<StatementColumnMapping>;
+
+  // Import alias operations
+  getDriverAliases(): Promise<DriverAliasWithDriver[]>;
+  saveDriverAlias(alias: InsertDriverAlias): Promise<DriverAlias>;
+  deleteDriverAlias(id: number): Promise<void>;
+  getVehicleAliases(): Promise<VehicleAliasWithVehicle[]>;
+  saveVehicleAlias(alias: InsertVehicleAlias): Promise<VehicleAlias>;
+  deleteVehicleAlias(id: number): Promise<void>;
+
+  // Import job operations
+  getImportJobs(kind: ImportKind, query: ImportJobQuery): Promise<ImportJobWithRecords[]>;
+  getImportJob(id: number): Promise<ImportJob | undefined>;
+  applyStatementImport(summaries: UpsertWeeklySummary[], job: ImportJobDetails): Promise<ImportJob>;
+  undoImportJob(id: number, closedWeeks: WeeklySettlement[]): Promise<ImportUndoResult>;
+
+  // Audit log operations
+  getAuditLog(query: AuditLogQuery): Promise<AuditLogEntry[]>;
+
   // Meta operations
   getFirstTripDate(): Promise<string | null>;
 }
 
 export class DatabaseStorage implements IStorage {
+  // Audit log operations
+  /**
+   * Append a change record. Called with the transaction that made the change so
+   * the record is only kept if the change is.
+   */
+  private async recordAudit(executor: DbExecutor, entity: AuditEntity, entityId: string | number, action: AuditAction, before: unknown, after: unknown): Promise<void> {
+    const actor = getCurrentActor();
+    await executor.insert(auditLog).values({
+      entity,
+      entityId: String(entityId),
+      action,
+      before: redactAuditValue(before),
+      after: redactAuditValue(after),
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? "system",
+    });
+  }
+
+  async getAuditLog(query: AuditLogQuery): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (query.entity) conditions.push(eq(auditLog.entity, query.entity));
+    if (query.entityId) conditions.push(eq(auditLog.entityId, query.entityId));
+    if (query.entityIdPrefix) conditions.push(like(auditLog.entityId, `${query.entityIdPrefix}%`));
+    if (query.action) conditions.push(eq(auditLog.action, query.action));
+    if (query.actor) conditions.push(ilike(auditLog.actorName, `%${query.actor}%`));
+    if (query.from) conditions.push(sql`${auditLog.createdAt} >= ${query.from}::date`);
+    if (query.to) conditions.push(sql`${auditLog.createdAt} < ${query.to}::date + 1`);
+
+    return await db.select().from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit);
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [result] = await db.select().from(users).where(eq(users.id, id));
+    return result || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [result] = await db.select().from(users).where(eq(users.username, username.trim().toLowerCase()));
+    return result || undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async createUser(user: { username: string; passwordHash: string; displayName: string; role: string; active?: boolean }): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(users)
+        .values({ ...user, username: user.username.trim().toLowerCase() })
+        .returning();
+      await this.recordAudit(tx, "user", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateUser(id: number, user: Partial<{ passwordHash: string; displayName: string; role: string; active: boolean; lastLoginAt: Date }>): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id));
+      const [result] = await tx.update(users)
+        .set({ ...user, updatedAt: new Date() })
+        .where(eq(users.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "user", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(users).where(eq(users.id, id)).returning();
+      if (before) await this.recordAudit(tx, "user", id, "delete", before, null);
+    });
+  }
+
+  async countActiveOwners(): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`COUNT(*)::int` })
+      .from(users)
+      .where(and(eq(users.role, "owner"), eq(users.active, true)));
+    return Number(result?.count) || 0;
+  }
+
+  // Company operations
+  async createCompany(company: InsertCompany): Promise<Company> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(companies).values(company).returning();
+      await this.recordAudit(tx, "company", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async getCompany(id: number): Promise<Company | undefined> {
+    const [result] = await db.select().from(companies).where(eq(companies.id, id));
+    return result || undefined;
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const [result] = await db.select().from(companies)
+      .where(sql`LOWER(${companies.name}) = LOWER(${name.trim()})`);
+    return result || undefined;
+  }
+
+  async getAllCompanies(): Promise<Company[]> {
+    return await db.select().from(companies).orderBy(asc(companies.name));
+  }
+
+  async updateCompany(id: number, company: UpdateCompany): Promise<Company> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(companies).where(eq(companies.id, id));
+      const [result] = await tx.update(companies)
+        .set({ ...company, updatedAt: new Date() })
+        .where(eq(companies.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "company", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteCompany(id: number): Promise<void> {
+    const schedules = await this.getSlabSchedules(id);
+    await db.transaction(async (tx) => {
+      if (schedules.length > 0) {
+        await tx.delete(slabScheduleRows)
+          .where(inArray(slabScheduleRows.scheduleId, schedules.map(s => s.id)));
+        await tx.delete(slabSchedules).where(eq(slabSchedules.companyId, id));
+        for (const schedule of schedules) {
+          await this.recordAudit(tx, "slabSchedule", schedule.id, "delete", schedule, null);
+        }
+      }
+      const [before] = await tx.delete(companies).where(eq(companies.id, id)).returning();
+      if (before) await this.recordAudit(tx, "company", id, "delete", before, null);
+    });
+  }
+
+  async countVehiclesByCompany(companyId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`COUNT(*)::int` })
+      .from(vehicles)
+      .where(eq(vehicles.companyId, companyId));
+    return Number(result?.count) || 0;
+  }
+
+  async countCompanyRentLogs(companyId: number, from: string, to: string | null): Promise<number> {
+    const conditions = [
+      eq(vehicles.companyId, companyId),
+      sql`DATE(${driverRentLogs.date}) >= ${from}::date`,
+    ];
+    if (to) {
+      conditions.push(sql`DATE(${driverRentLogs.date}) <= ${to}::date`);
+    }
+    const [result] = await db.select({ count: sql<number>`COUNT(*)::int` })
+      .from(driverRentLogs)
+      .innerJoin(vehicles, eq(driverRentLogs.vehicleId, vehicles.id))
+      .where(and(...conditions));
+    return Number(result?.count) || 0;
+  }
+
   // Vehicle operations
+  private selectVehiclesWithCompany() {
+    return db.select({ ...getTableColumns(vehicles), companyName: companies.name })
+      .from(vehicles)
+      .leftJoin(companies, eq(vehicles.companyId, companies.id));
+  }
+
   async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
-    const [result] = await db.insert(vehicles).values(vehicle).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(vehicles).values(vehicle).returning();
+      await this.recordAudit(tx, "vehicle", result.id, "create", null, result);
+      return result;
+    });
   }
 
-  async getVehicle(id: number): Promise<Vehicle | undefined> {
-    const [result] = await db.select().from(vehicles).where(eq(vehicles.id, id));
+  async getVehicle(id: number): Promise<VehicleWithCompany | undefined> {
+    const [result] = await this.selectVehiclesWithCompany().where(eq(vehicles.id, id));
     return result || undefined;
   }
 
-  async getAllVehicles(): Promise<Vehicle[]> {
-    return await db.select().from(vehicles).orderBy(asc(vehicles.vehicleNumber));
+  async getAllVehicles(): Promise<VehicleWithCompany[]> {
+    return await this.selectVehiclesWithCompany().orderBy(asc(vehicles.vehicleNumber));
   }
 
-  async getVehicleByNumber(vehicleNumber: string): Promise<Vehicle | undefined> {
-    const [result] = await db.select().from(vehicles).where(eq(vehicles.vehicleNumber, vehicleNumber));
+  async getVehicleByNumber(vehicleNumber: string): Promise<VehicleWithCompany | undefined> {
+    const [result] = await this.selectVehiclesWithCompany().where(eq(vehicles.vehicleNumber, vehicleNumber));
     return result || undefined;
   }
 
   async updateVehicle(id: number, vehicle: Partial<InsertVehicle>): Promise<Vehicle> {
-    const [result] = await db.update(vehicles)
-      .set(vehicle)
-      .where(eq(vehicles.id, id))
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vehicles).where(eq(vehicles.id, id));
+      const [result] = await tx.update(vehicles)
+        .set(vehicle)
+        .where(eq(vehicles.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "vehicle", id, "update", before, result);
+      return result;
+    });
   }
 
   async deleteVehicle(id: number): Promise<void> {
-    await db.delete(vehicles).where(eq(vehicles.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(vehicles).where(eq(vehicles.id, id)).returning();
+      if (before) await this.recordAudit(tx, "vehicle", id, "delete", before, null);
+    });
   }
 
   // Driver operations
   async createDriver(driver: InsertDriver): Promise<Driver> {
-    const [result] = await db.insert(drivers).values(driver).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(drivers).values(driver).returning();
+      await this.recordAudit(tx, "driver", result.id, "create", null, result);
+      return result;
+    });
   }
 
-  async getDriver(id: number): Promise<Driver | undefined> {
-    const [result] = await db.select().from(drivers).where(eq(drivers.id, id));
+  // Drivers with the room they stay in today and the daily rent that implies
+  private selectDriversWithAccommodation() {
+    const today = new Date().toISOString().split("T")[0];
+    return db.select({
+      ...getTableColumns(drivers),
+      accommodationId: accommodations.id,
+      accommodationName: accommodations.name,
+      dailyRent: sql<number>`(${BASE_DRIVER_RENT} + COALESCE(${accommodations.occupantDailyRent}, 0))::int`,
+    })
+      .from(drivers)
+      .leftJoin(accommodationAssignments, and(
+        eq(accommodationAssignments.driverId, drivers.id),
+        this.assignmentCovers(today),
+      ))
+      .leftJoin(accommodations, eq(accommodationAssignments.accommodationId, accommodations.id));
+  }
+
+  async getDriver(id: number): Promise<DriverWithAccommodation | undefined> {
+    const [result] = await this.selectDriversWithAccommodation().where(eq(drivers.id, id));
     return result || undefined;
   }
 
-  async getAllDrivers(): Promise<Driver[]> {
-    return await db.select().from(drivers).orderBy(asc(drivers.name));
+  async getAllDrivers(): Promise<DriverWithAccommodation[]> {
+    return await this.selectDriversWithAccommodation().orderBy(asc(drivers.name));
   }
 
   async updateDriver(id: number, driver: Partial<InsertDriver>): Promise<Driver> {
-    const [result] = await db.update(drivers)
-      .set(driver)
-      .where(eq(drivers.id, id))
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(drivers).where(eq(drivers.id, id));
+      const [result] = await tx.update(drivers)
+        .set(driver)
+        .where(eq(drivers.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "driver", id, "update", before, result);
+      return result;
+    });
   }
 
   async deleteDriver(id: number): Promise<void> {
-    await db.delete(drivers).where(eq(drivers.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(drivers).where(eq(drivers.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driver", id, "delete", before, null);
+    });
   }
 
   // Vehicle-Driver assignments
   async createVehicleDriverAssignment(assignment: InsertVehicleDriverAssignment): Promise<VehicleDriverAssignment> {
-    const [result] = await db.insert(vehicleDriverAssignments).values(assignment).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(vehicleDriverAssignments).values(assignment).returning();
+      await this.recordAudit(tx, "vehicleDriverAssignment", result.id, "create", null, result);
+      return result;
+    });
   }
 
   async getVehicleDriverAssignment(vehicleId: number): Promise<VehicleDriverAssignment | undefined> {
@@ -184,11 +627,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateVehicleDriverAssignment(vehicleId: number, assignment: Partial<InsertVehicleDriverAssignment>): Promise<VehicleDriverAssignment> {
-    const [result] = await db.update(vehicleDriverAssignments)
-      .set(assignment)
-      .where(eq(vehicleDriverAssignments.vehicleId, vehicleId))
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vehicleDriverAssignments).where(eq(vehicleDriverAssignments.vehicleId, vehicleId));
+      const [result] = await tx.update(vehicleDriverAssignments)
+        .set(assignment)
+        .where(eq(vehicleDriverAssignments.vehicleId, vehicleId))
+        .returning();
+      if (before) await this.recordAudit(tx, "vehicleDriverAssignment", before.id, "update", before, result);
+      return result;
+    });
+  }
+
+  async getAllVehicleDriverAssignments(): Promise<VehicleDriverAssignment[]> {
+    return await db.select().from(vehicleDriverAssignments);
   }
 
   // Driver rent log operations
@@ -202,6 +653,8 @@ export class DatabaseStorage implements IStorage {
       rent: driverRentLogs.rent,
       amountCollected: driverRentLogs.amountCollected,
       fuel: driverRentLogs.fuel,
+      startOdometer: driverRentLogs.startOdometer,
+      endOdometer: driverRentLogs.endOdometer,
       weekStart: driverRentLogs.weekStart,
       weekEnd: driverRentLogs.weekEnd,
       createdAt: driverRentLogs.createdAt,
@@ -219,8 +672,11 @@ export class DatabaseStorage implements IStorage {
   
   // Driver rent log operations
   async createDriverRentLog(rentLog: InsertDriverRentLog): Promise<DriverRentLog> {
-    const [result] = await db.insert(driverRentLogs).values(rentLog).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(driverRentLogs).values(rentLog).returning();
+      await this.recordAudit(tx, "driverRentLog", result.id, "create", null, result);
+      return result;
+    });
   }
 
   async getDriverRentLog(id: number): Promise<DriverRentLog | undefined> {
@@ -239,15 +695,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateDriverRentLog(id: number, rentLog: Partial<InsertDriverRentLog>): Promise<DriverRentLog> {
-    const [result] = await db.update(driverRentLogs)
-      .set({ ...rentLog, updatedAt: new Date() })
-      .where(eq(driverRentLogs.id, id))
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(driverRentLogs).where(eq(driverRentLogs.id, id));
+      const [result] = await tx.update(driverRentLogs)
+        .set({ ...rentLog, updatedAt: new Date() })
+        .where(eq(driverRentLogs.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "driverRentLog", id, "update", before, result);
+      return result;
+    });
   }
 
   async deleteDriverRentLog(id: number): Promise<void> {
-    await db.delete(driverRentLogs).where(eq(driverRentLogs.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(driverRentLogs).where(eq(driverRentLogs.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driverRentLog", id, "delete", before, null);
+    });
   }
 
 
@@ -261,6 +724,8 @@ export class DatabaseStorage implements IStorage {
       rent: driverRentLogs.rent,
       amountCollected: driverRentLogs.amountCollected,
       fuel: driverRentLogs.fuel,
+      startOdometer: driverRentLogs.startOdometer,
+      endOdometer: driverRentLogs.endOdometer,
       vehicleId: driverRentLogs.vehicleId,
       weekStart: driverRentLogs.weekStart,
       weekEnd: driverRentLogs.weekEnd,
@@ -347,10 +812,13 @@ export class DatabaseStorage implements IStorage {
     weekEnd: string;
     rent: number;
     wallet: number;
+    walletDeduction: number;
+    settlementDates: string[];
     companyRent: number | null;
     companyWallet: number | null;
     roomRent: number;
     profit: number | null;
+    lock: WeekLockState;
   }> {
     // Get rent from driver_rent_logs
     const rentResult = await db.execute(sql`
@@ -362,31 +830,47 @@ export class DatabaseStorage implements IStorage {
 
     // Get wallet sum from weekly_summaries
     const walletResult = await db.execute(sql`
-      SELECT COALESCE(SUM(total_earnings - cash + refund - expenses - 100), 0)::int AS wallet_sum
+      SELECT COALESCE(SUM(total_earnings - cash + refund - expenses - ${WEEKLY_WALLET_FEE}), 0)::int AS wallet_sum
       FROM weekly_summaries
       WHERE start_date = ${weekStart}::date AND end_date = ${weekEnd}::date
     `);
     const wallet = Number(walletResult.rows?.[0]?.wallet_sum) || 0;
 
-    // Get company fields from weekly_settlements
-    const compResult = await db.execute(sql`
-      SELECT company_rent, company_wallet
-      FROM weekly_settlements
-      WHERE week_start = ${weekStart}::date AND week_end = ${weekEnd}::date
+    // Each company's wallet deduction for every vehicle that ran in the week, and the days they settle it
+    const vehicleResult = await db.execute(sql`
+      SELECT v.company_id, COUNT(DISTINCT v.id)::int AS vehicle_count
+      FROM driver_rent_logs l
+      INNER JOIN vehicles v ON v.id = l.vehicle_id
+      WHERE DATE(l.date) BETWEEN ${weekStart}::date AND ${weekEnd}::date
+      GROUP BY v.company_id
     `);
-    let companyRent: number | null = null;
-    let companyWallet: number | null = null;
-    const crow = compResult.rows?.[0];
-    if (crow) {
-      companyRent = crow.company_rent === null ? null : Number(crow.company_rent);
-      companyWallet = crow.company_wallet === null ? null : Number(crow.company_wallet);
+    let walletDeduction = 0;
+    const settlementDates = new Set<string>();
+    for (const row of vehicleResult.rows || []) {
+      const terms = await getSettlementTerms(Number(row.company_id), weekEnd);
+      walletDeduction += terms.walletDeduction * Number(row.vehicle_count);
+      settlementDates.add(terms.settlementDate);
     }
 
-    const ROOM_RENT = 4666;
+    // Get company fields and lock state from weekly_settlements
+    const [settlement] = await db.select().from(weeklySettlements)
+      .where(this.weeklySettlementKey(weekStart, weekEnd));
+    const companyRent = settlement?.companyRent ?? null;
+    const companyWallet = settlement?.companyWallet ?? null;
+    const lock: WeekLockState = {
+      closedAt: settlement?.closedAt ?? null,
+      closedBy: settlement?.closedBy ?? null,
+      closeReason: settlement?.closeReason ?? null,
+      reopenedAt: settlement?.reopenedAt ?? null,
+      reopenedBy: settlement?.reopenedBy ?? null,
+      reopenReason: settlement?.reopenReason ?? null,
+    };
+
+    const roomRent = await this.getRoomCostForRange(weekStart, weekEnd);
     const canCalc = companyRent !== null && companyWallet !== null;
-    const profit = canCalc ? (rent - wallet - (companyRent || 0) + (companyWallet || 0) - ROOM_RENT) : null;
+    const profit = canCalc ? (rent - wallet - (companyRent || 0) + (companyWallet || 0) - walletDeduction - roomRent) : null;
 
-    return { weekStart, weekEnd, rent, wallet, companyRent, companyWallet, roomRent: ROOM_RENT, profit };
+    return { weekStart, weekEnd, rent, wallet, walletDeduction, settlementDates: Array.from(settlementDates).sort(), companyRent, companyWallet, roomRent, profit, lock };
   }
 
   async listWeeklySettlements(): Promise<Array<{
@@ -394,10 +878,13 @@ export class DatabaseStorage implements IStorage {
     weekEnd: string;
     rent: number;
     wallet: number;
+    walletDeduction: number;
+    settlementDates: string[];
     companyRent: number | null;
     companyWallet: number | null;
     roomRent: number;
     profit: number | null;
+    lock: WeekLockState;
   }>> {
     const weeks = await this.listWeeklyWindows();
     const rows = [];
@@ -407,30 +894,100 @@ export class DatabaseStorage implements IStorage {
     return rows;
   }
 
+  private weeklySettlementKey(weekStart: string, weekEnd: string) {
+    return and(eq(weeklySettlements.weekStart, weekStart), eq(weeklySettlements.weekEnd, weekEnd));
+  }
+
   async upsertWeeklySettlement(input: {weekStart: string; weekEnd: string; companyRent: number | null; companyWallet: number | null}): Promise<void> {
     const now = new Date();
-    await db.execute(sql`
-      INSERT INTO weekly_settlements (week_start, week_end, company_rent, company_wallet, created_at, updated_at)
-      VALUES (${input.weekStart}::date, ${input.weekEnd}::date, ${input.companyRent}, ${input.companyWallet}, ${now}, ${now})
-      ON CONFLICT (week_start, week_end) 
-      DO UPDATE SET 
-        company_rent = ${input.companyRent},
-        company_wallet = ${input.companyWallet},
-        updated_at = ${now}
-    `);
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(weeklySettlements)
+        .where(this.weeklySettlementKey(input.weekStart, input.weekEnd));
+      await tx.execute(sql`
+        INSERT INTO weekly_settlements (week_start, week_end, company_rent, company_wallet, created_at, updated_at)
+        VALUES (${input.weekStart}::date, ${input.weekEnd}::date, ${input.companyRent}, ${input.companyWallet}, ${now}, ${now})
+        ON CONFLICT (week_start, week_end) 
+        DO UPDATE SET 
+          company_rent = ${input.companyRent},
+          company_wallet = ${input.companyWallet},
+          updated_at = ${now}
+      `);
+      const [after] = await tx.select().from(weeklySettlements)
+        .where(this.weeklySettlementKey(input.weekStart, input.weekEnd));
+      await this.recordAudit(tx, "weeklySettlement", `${input.weekStart}:${input.weekEnd}`, before ? "update" : "create", before ?? null, after);
+    });
   }
 
   async deleteWeeklySettlement(weekStart: string, weekEnd: string): Promise<void> {
-    await db.execute(sql`
-      DELETE FROM weekly_settlements 
-      WHERE week_start = ${weekStart}::date AND week_end = ${weekEnd}::date
-    `);
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(weeklySettlements)
+        .where(this.weeklySettlementKey(weekStart, weekEnd))
+        .returning();
+      if (before) await this.recordAudit(tx, "weeklySettlement", `${weekStart}:${weekEnd}`, "delete", before, null);
+    });
+  }
+
+  async getClosedWeeks(): Promise<WeeklySettlement[]> {
+    return await db.select().from(weeklySettlements)
+      .where(sql`${weeklySettlements.closedAt} IS NOT NULL`)
+      .orderBy(asc(weeklySettlements.weekStart));
+  }
+
+  async findClosedWeek(startDate: string, endDate: string): Promise<WeeklySettlement | undefined> {
+    // A closed week blocks the range if: week_start <= endDate AND week_end >= startDate
+    const [result] = await db.select().from(weeklySettlements)
+      .where(and(
+        sql`${weeklySettlements.closedAt} IS NOT NULL`,
+        sql`${weeklySettlements.weekStart} <= ${endDate}::date`,
+        sql`${weeklySettlements.weekEnd} >= ${startDate}::date`
+      ))
+      .limit(1);
+    return result || undefined;
+  }
+
+  async closeWeek(weekStart: string, weekEnd: string, reason: string): Promise<WeeklySettlement> {
+    const actor = getCurrentActor();
+    return await this.setWeekLock(weekStart, weekEnd, {
+      closedAt: new Date(),
+      closedBy: actor?.name ?? "system",
+      closeReason: reason,
+    });
+  }
+
+  async reopenWeek(weekStart: string, weekEnd: string, reason: string): Promise<WeeklySettlement> {
+    const actor = getCurrentActor();
+    return await this.setWeekLock(weekStart, weekEnd, {
+      closedAt: null,
+      reopenedAt: new Date(),
+      reopenedBy: actor?.name ?? "system",
+      reopenReason: reason,
+    });
+  }
+
+  private async setWeekLock(weekStart: string, weekEnd: string, lock: Partial<WeekLockState>): Promise<WeeklySettlement> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(weeklySettlements)
+        .where(this.weeklySettlementKey(weekStart, weekEnd));
+      // A week can be closed before its company figures are entered
+      const [result] = await tx.insert(weeklySettlements)
+        .values({ weekStart, weekEnd, ...lock })
+        .onConflictDoUpdate({
+          target: [weeklySettlements.weekStart, weeklySettlements.weekEnd],
+          set: { ...lock, updatedAt: new Date() },
+        })
+        .returning();
+      await this.recordAudit(tx, "weeklySettlement", `${weekStart}:${weekEnd}`, before ? "update" : "create", before ?? null, result);
+      return result;
+    });
   }
 
   // Substitute driver operations
   async createSubstituteDriver(substitute: InsertSubstituteDriver): Promise<SubstituteDriver> {
-    const [result] = await db.insert(substituteDrivers).values(substitute).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(substituteDrivers).values(substitute).returning();
+      await this.recordAudit(tx, "substituteDriver", result.id, "create", null, result);
+      return result;
+    });
   }
 
   async getSubstituteDriver(id: number): Promise<SubstituteDriver | undefined> {
@@ -438,6 +995,18 @@ export class DatabaseStorage implements IStorage {
     return result || undefined;
   }
 
+  async updateSubstituteOdometer(id: number, readings: OdometerReadings): Promise<SubstituteDriver> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(substituteDrivers).where(eq(substituteDrivers.id, id));
+      const [result] = await tx.update(substituteDrivers)
+        .set({ ...readings, updatedAt: new Date() })
+        .where(eq(substituteDrivers.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "substituteDriver", id, "update", before, result);
+      return result;
+    });
+  }
+
   async getSubstituteDriversByVehicleAndDate(vehicleId: number, date: Date): Promise<SubstituteDriver[]> {
     return await db.select().from(substituteDrivers)
       .where(and(
@@ -450,6 +1019,7 @@ export class DatabaseStorage implements IStorage {
   async getSubstituteDriversByVehicle(vehicleId: number): Promise<Array<SubstituteDriver & { vehicleNumber: string }>> {
     const result = await db.select({
       id: substituteDrivers.id,
+      substituteId: substituteDrivers.substituteId,
       name: substituteDrivers.name,
       vehicleId: substituteDrivers.vehicleId,
       date: substituteDrivers.date,
@@ -457,6 +1027,8 @@ export class DatabaseStorage implements IStorage {
       shiftHours: substituteDrivers.shiftHours,
       tripCount: substituteDrivers.tripCount,
       charge: substituteDrivers.charge,
+      startOdometer: substituteDrivers.startOdometer,
+      endOdometer: substituteDrivers.endOdometer,
       createdAt: substituteDrivers.createdAt,
       updatedAt: substituteDrivers.updatedAt,
       vehicleNumber: vehicles.vehicleNumber,
@@ -471,6 +1043,7 @@ export class DatabaseStorage implements IStorage {
   async getSubstituteDriversByVehicleAndDateRange(vehicleId: number, startDate: Date, endDate: Date): Promise<Array<SubstituteDriver & { vehicleNumber: string }>> {
     const result = await db.select({
       id: substituteDrivers.id,
+      substituteId: substituteDrivers.substituteId,
       name: substituteDrivers.name,
       vehicleId: substituteDrivers.vehicleId,
       date: substituteDrivers.date,
@@ -478,6 +1051,8 @@ export class DatabaseStorage implements IStorage {
       shiftHours: substituteDrivers.shiftHours,
       tripCount: substituteDrivers.tripCount,
       charge: substituteDrivers.charge,
+      startOdometer: substituteDrivers.startOdometer,
+      endOdometer: substituteDrivers.endOdometer,
       createdAt: substituteDrivers.createdAt,
       updatedAt: substituteDrivers.updatedAt,
       vehicleNumber: vehicles.vehicleNumber,
@@ -496,6 +1071,7 @@ export class DatabaseStorage implements IStorage {
   async getAllSubstituteDrivers(): Promise<Array<SubstituteDriver & { vehicleNumber: string }>> {
     const result = await db.select({
       id: substituteDrivers.id,
+      substituteId: substituteDrivers.substituteId,
       name: substituteDrivers.name,
       vehicleId: substituteDrivers.vehicleId,
       date: substituteDrivers.date,
@@ -503,6 +1079,8 @@ export class DatabaseStorage implements IStorage {
       shiftHours: substituteDrivers.shiftHours,
       tripCount: substituteDrivers.tripCount,
       charge: substituteDrivers.charge,
+      startOdometer: substituteDrivers.startOdometer,
+      endOdometer: substituteDrivers.endOdometer,
       createdAt: substituteDrivers.createdAt,
       updatedAt: substituteDrivers.updatedAt,
       vehicleNumber: vehicles.vehicleNumber,
@@ -514,7 +1092,127 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSubstituteDriver(id: number): Promise<void> {
-    await db.delete(substituteDrivers).where(eq(substituteDrivers.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(substituteDrivers).where(eq(substituteDrivers.id, id)).returning();
+      if (before) await this.recordAudit(tx, "substituteDriver", id, "delete", before, null);
+    });
+  }
+
+  // Substitute registry operations
+  async getSubstitutes(): Promise<Substitute[]> {
+    return await db.select().from(substitutes).orderBy(asc(substitutes.name));
+  }
+
+  async getSubstitute(id: number): Promise<Substitute | undefined> {
+    const [result] = await db.select().from(substitutes).where(eq(substitutes.id, id));
+    return result || undefined;
+  }
+
+  async findSubstituteByName(name: string, excludeId?: number): Promise<Substitute | undefined> {
+    const conditions: SQL[] = [sql`LOWER(TRIM(${substitutes.name})) = ${name.trim().toLowerCase()}`];
+    if (excludeId) conditions.push(ne(substitutes.id, excludeId));
+    const [result] = await db.select().from(substitutes).where(and(...conditions));
+    return result || undefined;
+  }
+
+  async createSubstitute(substitute: InsertSubstitute): Promise<Substitute> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(substitutes).values(substitute).returning();
+      await this.recordAudit(tx, "substitute", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  // Renaming a substitute renames their shifts too, so every row spells them the same way
+  async updateSubstitute(id: number, substitute: InsertSubstitute): Promise<Substitute> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(substitutes).where(eq(substitutes.id, id));
+      const [result] = await tx.update(substitutes)
+        .set({ ...substitute, updatedAt: new Date() })
+        .where(eq(substitutes.id, id))
+        .returning();
+      if (before && before.name !== result.name) {
+        await tx.update(substituteDrivers)
+          .set({ name: result.name, updatedAt: new Date() })
+          .where(eq(substituteDrivers.substituteId, id));
+      }
+      if (before) await this.recordAudit(tx, "substitute", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteSubstitute(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(substitutes).where(eq(substitutes.id, id)).returning();
+      if (before) await this.recordAudit(tx, "substitute", id, "delete", before, null);
+    });
+  }
+
+  async getSubstituteShiftTotals(query: SubstituteQuery): Promise<Array<{ substituteId: number; shifts: number; trips: number; paid: number; lastShift: string | null }>> {
+    const conditions: SQL[] = [isNotNull(substituteDrivers.substituteId)];
+    if (query.from) conditions.push(sql`DATE(${substituteDrivers.date}) >= ${query.from}`);
+    if (query.to) conditions.push(sql`DATE(${substituteDrivers.date}) <= ${query.to}`);
+    const rows = await db
+      .select({
+        substituteId: substituteDrivers.substituteId,
+        shifts: sql<number>`COUNT(*)::int`,
+        trips: sql<number>`COALESCE(SUM(${substituteDrivers.tripCount}), 0)::int`,
+        paid: sql<number>`COALESCE(SUM(${substituteDrivers.charge}), 0)::int`,
+        lastShift: sql<string | null>`TO_CHAR(MAX(${substituteDrivers.date}), 'YYYY-MM-DD')`,
+      })
+      .from(substituteDrivers)
+      .where(and(...conditions))
+      .groupBy(substituteDrivers.substituteId);
+    return rows.map((row) => ({ ...row, substituteId: row.substituteId! }));
+  }
+
+  async getSubstituteShifts(substituteId: number, query: SubstituteQuery): Promise<Array<SubstituteDriver & { vehicleNumber: string }>> {
+    const conditions: SQL[] = [eq(substituteDrivers.substituteId, substituteId)];
+    if (query.from) conditions.push(sql`DATE(${substituteDrivers.date}) >= ${query.from}`);
+    if (query.to) conditions.push(sql`DATE(${substituteDrivers.date}) <= ${query.to}`);
+    return await db.select({
+      ...getTableColumns(substituteDrivers),
+      vehicleNumber: vehicles.vehicleNumber,
+    }).from(substituteDrivers)
+      .innerJoin(vehicles, eq(substituteDrivers.vehicleId, vehicles.id))
+      .where(and(...conditions))
+      .orderBy(desc(substituteDrivers.date));
+  }
+
+  async getUnlinkedSubstituteNames(): Promise<UnlinkedSubstituteName[]> {
+    return await db
+      .select({
+        name: sql<string>`TRIM(${substituteDrivers.name})`,
+        shifts: sql<number>`COUNT(*)::int`,
+        paid: sql<number>`COALESCE(SUM(${substituteDrivers.charge}), 0)::int`,
+      })
+      .from(substituteDrivers)
+      .where(isNull(substituteDrivers.substituteId))
+      .groupBy(sql`TRIM(${substituteDrivers.name})`)
+      .orderBy(sql`TRIM(${substituteDrivers.name})`);
+  }
+
+  // Attaches older free-text shifts to a registry entry, adopting its spelling
+  async linkSubstituteShifts(substituteId: number, names: string[]): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [substitute] = await tx.select().from(substitutes).where(eq(substitutes.id, substituteId));
+      if (!substitute) return 0;
+      const before = await tx.select().from(substituteDrivers)
+        .where(and(
+          isNull(substituteDrivers.substituteId),
+          inArray(sql`TRIM(${substituteDrivers.name})`, names.map((name) => name.trim())),
+        ));
+      if (!before.length) return 0;
+      const linked = await tx.update(substituteDrivers)
+        .set({ substituteId, name: substitute.name, updatedAt: new Date() })
+        .where(inArray(substituteDrivers.id, before.map((row) => row.id)))
+        .returning();
+      const beforeById = new Map(before.map((row) => [row.id, row]));
+      for (const row of linked) {
+        await this.recordAudit(tx, "substituteDriver", row.id, "update", beforeById.get(row.id) ?? null, row);
+      }
+      return linked.length;
+    });
   }
 
   // QR Code validation operations
@@ -595,7 +1293,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async upsertWeeklySummary(summary: UpsertWeeklySummary): Promise<WeeklySummary> {
-    const [result] = await db.insert(weeklySummaries)
+    return await db.transaction(async (tx) => (await this.writeWeeklySummary(tx, summary)).result);
+  }
+
+  private async writeWeeklySummary(tx: DbExecutor, summary: UpsertWeeklySummary): Promise<{ before?: WeeklySummary; result: WeeklySummary }> {
+    const [before] = await tx.select().from(weeklySummaries)
+      .where(and(
+        eq(weeklySummaries.driverId, summary.driverId),
+        eq(weeklySummaries.startDate, summary.startDate),
+        eq(weeklySummaries.endDate, summary.endDate)
+      ));
+    const [result] = await tx.insert(weeklySummaries)
       .values({
         driverId: summary.driverId,
         startDate: summary.startDate,
@@ -606,7 +1314,10 @@ export class DatabaseStorage implements IStorage {
         refund: summary.refund || 0,
         expenses: summary.expenses || 0,
         dues: summary.dues || 0,
-        payout: summary.payout || 0,
+        tolls: summary.tolls || 0,
+        tips: summary.tips || 0,
+        incentives: summary.incentives || 0,
+        platformFees: summary.platformFees || 0,
         updatedAt: new Date(),
       })
       .onConflictDoUpdate({
@@ -618,13 +1329,16 @@ export class DatabaseStorage implements IStorage {
           refund: summary.refund || 0,
           expenses: summary.expenses || 0,
           dues: summary.dues || 0,
-          payout: summary.payout || 0,
+          tolls: summary.tolls || 0,
+          tips: summary.tips || 0,
+          incentives: summary.incentives || 0,
+          platformFees: summary.platformFees || 0,
           updatedAt: new Date(),
         },
       })
       .returning();
-
-    return result;
+    await this.recordAudit(tx, "weeklySummary", weeklySummaryAuditId(result), before ? "update" : "create", before ?? null, result);
+    return { before, result };
   }
 
   async getWeeklySummary(driverId: number, startDate: string, endDate: string): Promise<WeeklySummary | undefined> {
@@ -660,20 +1374,873 @@ export class DatabaseStorage implements IStorage {
   async clearWeeklySummary(driverId: number, startDate: string, endDate: string): Promise<void> {
     // Delete all weekly summaries for this driver that overlap with the selected date range
     // A week overlaps if: week_start <= endDate AND week_end >= startDate
-    await db.delete(weeklySummaries)
-      .where(
-        and(
-          eq(weeklySummaries.driverId, driverId),
-          sql`${weeklySummaries.startDate}::date <= ${endDate}::date`,
-          sql`${weeklySummaries.endDate}::date >= ${startDate}::date`
+    await db.transaction(async (tx) => {
+      const deleted = await tx.delete(weeklySummaries)
+        .where(
+          and(
+            eq(weeklySummaries.driverId, driverId),
+            sql`${weeklySummaries.startDate}::date <= ${endDate}::date`,
+            sql`${weeklySummaries.endDate}::date >= ${startDate}::date`
+          )
         )
-      );
+        .returning();
+      for (const row of deleted) {
+        await this.recordAudit(tx, "weeklySummary", weeklySummaryAuditId(row), "delete", row, null);
+      }
+    });
+  }
+
+  // Driver payout operations
+  async getDriverPayouts(query: DriverPayoutQuery): Promise<DriverPayout[]> {
+    const conditions: SQL[] = [];
+    if (query.driverId) conditions.push(eq(driverPayouts.driverId, query.driverId));
+    if (query.from) conditions.push(gte(driverPayouts.date, query.from));
+    if (query.to) conditions.push(lte(driverPayouts.date, query.to));
+    if (!query.includeVoided) conditions.push(sql`${driverPayouts.voidedAt} IS NULL`);
+
+    return await db.select().from(driverPayouts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(driverPayouts.date), asc(driverPayouts.id));
+  }
+
+  async getDriverPayout(id: number): Promise<DriverPayout | undefined> {
+    const [result] = await db.select().from(driverPayouts).where(eq(driverPayouts.id, id));
+    return result || undefined;
+  }
+
+  async getPayoutTotalsForDateRange(startDate: string, endDate: string): Promise<Array<{ driverId: number; total: number }>> {
+    return await db
+      .select({
+        driverId: driverPayouts.driverId,
+        total: sql<number>`COALESCE(SUM(${driverPayouts.amount}), 0)::int`,
+      })
+      .from(driverPayouts)
+      .where(and(
+        gte(driverPayouts.date, startDate),
+        lte(driverPayouts.date, endDate),
+        sql`${driverPayouts.voidedAt} IS NULL`
+      ))
+      .groupBy(driverPayouts.driverId);
+  }
+
+  async createDriverPayout(payout: InsertDriverPayout): Promise<DriverPayout> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(driverPayouts)
+        .values({ ...payout, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "driverPayout", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async voidDriverPayout(id: number, reason: string): Promise<DriverPayout> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(driverPayouts).where(eq(driverPayouts.id, id));
+      const [result] = await tx.update(driverPayouts)
+        .set({ voidedAt: new Date(), voidedBy: actor?.name ?? "system", voidReason: reason, updatedAt: new Date() })
+        .where(eq(driverPayouts.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "driverPayout", id, "update", before, result);
+      return result;
+    });
+  }
+
+  // Driver advance operations
+  async getDriverAdvances(driverId?: number): Promise<DriverAdvance[]> {
+    return await db.select().from(driverAdvances)
+      .where(driverId ? eq(driverAdvances.driverId, driverId) : undefined)
+      .orderBy(desc(driverAdvances.issuedDate), desc(driverAdvances.id));
+  }
+
+  async getDriverAdvance(id: number): Promise<DriverAdvance | undefined> {
+    const [result] = await db.select().from(driverAdvances).where(eq(driverAdvances.id, id));
+    return result || undefined;
+  }
+
+  async createDriverAdvance(advance: InsertDriverAdvance): Promise<DriverAdvance> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(driverAdvances)
+        .values({ ...advance, issuedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "driverAdvance", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async deleteDriverAdvance(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(driverAdvances).where(eq(driverAdvances.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driverAdvance", id, "delete", before, null);
+    });
+  }
+
+  // Driver deposit operations
+  async getDriverDeposit(driverId: number): Promise<DriverDeposit | undefined> {
+    const [result] = await db.select().from(driverDeposits).where(eq(driverDeposits.driverId, driverId));
+    return result || undefined;
+  }
+
+  async upsertDriverDeposit(driverId: number, deposit: UpsertDriverDeposit): Promise<DriverDeposit> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(driverDeposits).where(eq(driverDeposits.driverId, driverId));
+      const [result] = await tx.insert(driverDeposits)
+        .values({ ...deposit, driverId, recordedBy: actor?.name ?? "system" })
+        .onConflictDoUpdate({
+          target: driverDeposits.driverId,
+          set: { ...deposit, updatedAt: new Date() },
+        })
+        .returning();
+      await this.recordAudit(tx, "driverDeposit", result.id, before ? "update" : "create", before ?? null, result);
+      return result;
+    });
+  }
+
+  async getDepositDeductions(driverId: number): Promise<DepositDeduction[]> {
+    return await db.select().from(depositDeductions)
+      .where(eq(depositDeductions.driverId, driverId))
+      .orderBy(asc(depositDeductions.date), asc(depositDeductions.id));
+  }
+
+  async getDepositDeduction(id: number): Promise<DepositDeduction | undefined> {
+    const [result] = await db.select().from(depositDeductions).where(eq(depositDeductions.id, id));
+    return result || undefined;
+  }
+
+  async createDepositDeduction(driverId: number, deduction: InsertDepositDeduction): Promise<DepositDeduction> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(depositDeductions)
+        .values({ ...deduction, driverId, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "depositDeduction", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async deleteDepositDeduction(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(depositDeductions).where(eq(depositDeductions.id, id)).returning();
+      if (before) await this.recordAudit(tx, "depositDeduction", id, "delete", before, null);
+    });
+  }
+
+  // Maintenance operations
+  async getMaintenanceRecords(filter: { vehicleId?: number; from?: string; to?: string }): Promise<MaintenanceRecord[]> {
+    const conditions: SQL[] = [];
+    if (filter.vehicleId) conditions.push(eq(maintenanceRecords.vehicleId, filter.vehicleId));
+    if (filter.from) conditions.push(gte(maintenanceRecords.date, filter.from));
+    if (filter.to) conditions.push(lte(maintenanceRecords.date, filter.to));
+    return await db.select().from(maintenanceRecords)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(maintenanceRecords.date), desc(maintenanceRecords.id));
+  }
+
+  async getMaintenanceRecord(id: number): Promise<MaintenanceRecord | undefined> {
+    const [result] = await db.select().from(maintenanceRecords).where(eq(maintenanceRecords.id, id));
+    return result || undefined;
+  }
+
+  async createMaintenanceRecord(vehicleId: number, record: InsertMaintenanceRecord): Promise<MaintenanceRecord> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(maintenanceRecords)
+        .values({ ...record, vehicleId, odometer: record.odometer ?? null, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "maintenanceRecord", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateMaintenanceRecord(id: number, record: InsertMaintenanceRecord): Promise<MaintenanceRecord> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(maintenanceRecords).where(eq(maintenanceRecords.id, id));
+      const [result] = await tx.update(maintenanceRecords)
+        .set({ ...record, odometer: record.odometer ?? null, updatedAt: new Date() })
+        .where(eq(maintenanceRecords.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "maintenanceRecord", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteMaintenanceRecord(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(maintenanceRecords).where(eq(maintenanceRecords.id, id)).returning();
+      if (before) await this.recordAudit(tx, "maintenanceRecord", id, "delete", before, null);
+    });
+  }
+
+  async getMaintenanceCost(vehicleId: number, startDate: string, endDate: string): Promise<number> {
+    const [result] = await db.select({ total: sql<number>`COALESCE(SUM(${maintenanceRecords.cost}), 0)::int` })
+      .from(maintenanceRecords)
+      .where(and(
+        eq(maintenanceRecords.vehicleId, vehicleId),
+        gte(maintenanceRecords.date, startDate),
+        lte(maintenanceRecords.date, endDate),
+      ));
+    return Number(result?.total) || 0;
+  }
+
+  async getServiceIntervals(vehicleId?: number): Promise<ServiceInterval[]> {
+    return await db.select().from(serviceIntervals)
+      .where(vehicleId ? eq(serviceIntervals.vehicleId, vehicleId) : undefined)
+      .orderBy(asc(serviceIntervals.vehicleId), asc(serviceIntervals.category));
+  }
+
+  async getServiceInterval(id: number): Promise<ServiceInterval | undefined> {
+    const [result] = await db.select().from(serviceIntervals).where(eq(serviceIntervals.id, id));
+    return result || undefined;
+  }
+
+  async upsertServiceInterval(vehicleId: number, interval: UpsertServiceInterval): Promise<ServiceInterval> {
+    const values = { ...interval, intervalDays: interval.intervalDays ?? null, intervalKm: interval.intervalKm ?? null };
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(serviceIntervals)
+        .where(and(eq(serviceIntervals.vehicleId, vehicleId), eq(serviceIntervals.category, interval.category)));
+      const [result] = await tx.insert(serviceIntervals)
+        .values({ ...values, vehicleId })
+        .onConflictDoUpdate({
+          target: [serviceIntervals.vehicleId, serviceIntervals.category],
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning();
+      await this.recordAudit(tx, "serviceInterval", result.id, before ? "update" : "create", before ?? null, result);
+      return result;
+    });
+  }
+
+  async deleteServiceInterval(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(serviceIntervals).where(eq(serviceIntervals.id, id)).returning();
+      if (before) await this.recordAudit(tx, "serviceInterval", id, "delete", before, null);
+    });
+  }
+
+  // Vehicle document operations
+  async getVehicleDocuments(vehicleId?: number): Promise<VehicleDocument[]> {
+    return await db.select().from(vehicleDocuments)
+      .where(vehicleId ? eq(vehicleDocuments.vehicleId, vehicleId) : undefined)
+      .orderBy(asc(vehicleDocuments.vehicleId), asc(vehicleDocuments.type), desc(vehicleDocuments.expiryDate));
+  }
+
+  async getVehicleDocument(id: number): Promise<VehicleDocument | undefined> {
+    const [result] = await db.select().from(vehicleDocuments).where(eq(vehicleDocuments.id, id));
+    return result || undefined;
+  }
+
+  async createVehicleDocument(vehicleId: number, document: InsertVehicleDocument): Promise<VehicleDocument> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(vehicleDocuments)
+        .values({ ...document, vehicleId, issuedDate: document.issuedDate ?? null, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "vehicleDocument", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateVehicleDocument(id: number, document: InsertVehicleDocument): Promise<VehicleDocument> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vehicleDocuments).where(eq(vehicleDocuments.id, id));
+      const [result] = await tx.update(vehicleDocuments)
+        .set({ ...document, issuedDate: document.issuedDate ?? null, updatedAt: new Date() })
+        .where(eq(vehicleDocuments.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "vehicleDocument", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async setVehicleDocumentFile(id: number, file: { fileName: string; filePath: string; fileType: string } | null): Promise<VehicleDocument> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vehicleDocuments).where(eq(vehicleDocuments.id, id));
+      const [result] = await tx.update(vehicleDocuments)
+        .set({
+          fileName: file?.fileName ?? null,
+          filePath: file?.filePath ?? null,
+          fileType: file?.fileType ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(vehicleDocuments.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "vehicleDocument", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteVehicleDocument(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(vehicleDocuments).where(eq(vehicleDocuments.id, id)).returning();
+      if (before) await this.recordAudit(tx, "vehicleDocument", id, "delete", before, null);
+    });
+  }
+
+  // Driver document operations
+  async getDriverDocuments(driverId: number): Promise<DriverDocument[]> {
+    return await db.select().from(driverDocuments)
+      .where(eq(driverDocuments.driverId, driverId))
+      .orderBy(desc(driverDocuments.createdAt), desc(driverDocuments.id));
+  }
+
+  async getDriverDocument(id: number): Promise<DriverDocument | undefined> {
+    const [result] = await db.select().from(driverDocuments).where(eq(driverDocuments.id, id));
+    return result || undefined;
+  }
+
+  async createDriverDocument(driverId: number, kind: DriverDocumentKind, file: { fileName: string; filePath: string; fileType: string }): Promise<DriverDocument> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(driverDocuments)
+        .values({ ...file, driverId, kind, uploadedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "driverDocument", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async deleteDriverDocument(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(driverDocuments).where(eq(driverDocuments.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driverDocument", id, "delete", before, null);
+    });
+  }
+
+  // Incident operations
+  async getIncidents(query: IncidentQuery): Promise<IncidentWithNames[]> {
+    const conditions: SQL[] = [];
+    if (query.vehicleId) conditions.push(eq(incidents.vehicleId, query.vehicleId));
+    if (query.driverId) conditions.push(eq(incidents.driverId, query.driverId));
+    if (query.from) conditions.push(gte(incidents.date, query.from));
+    if (query.to) conditions.push(lte(incidents.date, query.to));
+    return await db.select({
+      ...getTableColumns(incidents),
+      vehicleNumber: vehicles.vehicleNumber,
+      driverName: drivers.name,
+      substituteName: substituteDrivers.name,
+    })
+      .from(incidents)
+      .innerJoin(vehicles, eq(incidents.vehicleId, vehicles.id))
+      .leftJoin(drivers, eq(incidents.driverId, drivers.id))
+      .leftJoin(substituteDrivers, eq(incidents.substituteDriverId, substituteDrivers.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(incidents.date), desc(incidents.id));
+  }
+
+  async getIncident(id: number): Promise<Incident | undefined> {
+    const [result] = await db.select().from(incidents).where(eq(incidents.id, id));
+    return result || undefined;
+  }
+
+  async createIncident(incident: IncidentValues): Promise<Incident> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(incidents)
+        .values({ ...incident, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "incident", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateIncident(id: number, incident: IncidentValues): Promise<Incident> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(incidents).where(eq(incidents.id, id));
+      const [result] = await tx.update(incidents)
+        .set({ ...incident, updatedAt: new Date() })
+        .where(eq(incidents.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "incident", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async setIncidentEvidence(id: number, file: { fileName: string; filePath: string; fileType: string } | null): Promise<Incident> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(incidents).where(eq(incidents.id, id));
+      const [result] = await tx.update(incidents)
+        .set({
+          evidenceFileName: file?.fileName ?? null,
+          evidencePath: file?.filePath ?? null,
+          evidenceType: file?.fileType ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(incidents.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "incident", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteIncident(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(incidents).where(eq(incidents.id, id)).returning();
+      if (before) await this.recordAudit(tx, "incident", id, "delete", before, null);
+    });
+  }
+
+  async getIncidentChargeTotalsForDateRange(startDate: string, endDate: string): Promise<Array<{ driverId: number; total: number }>> {
+    const rows = await db
+      .select({
+        driverId: incidents.driverId,
+        total: sql<number>`COALESCE(SUM(${incidents.amount}), 0)::int`,
+      })
+      .from(incidents)
+      .where(and(
+        gte(incidents.chargeDate, startDate),
+        lte(incidents.chargeDate, endDate),
+        eq(incidents.chargeToDriver, true),
+        sql`${incidents.driverId} IS NOT NULL`
+      ))
+      .groupBy(incidents.driverId);
+    return rows.map((row) => ({ driverId: row.driverId!, total: row.total }));
+  }
+
+  async getRentLogsForVehicleOnDate(vehicleId: number, date: string): Promise<Array<DriverRentLog & { driverName: string }>> {
+    return await db.select({ ...getTableColumns(driverRentLogs), driverName: drivers.name })
+      .from(driverRentLogs)
+      .innerJoin(drivers, eq(driverRentLogs.driverId, drivers.id))
+      .where(and(
+        eq(driverRentLogs.vehicleId, vehicleId),
+        sql`DATE(${driverRentLogs.date}) = ${date}`
+      ))
+      .orderBy(asc(driverRentLogs.shift));
+  }
+
+  async getSubstituteDriversForVehicleOnDate(vehicleId: number, date: string): Promise<SubstituteDriver[]> {
+    return await db.select().from(substituteDrivers)
+      .where(and(
+        eq(substituteDrivers.vehicleId, vehicleId),
+        sql`DATE(${substituteDrivers.date}) = ${date}`
+      ))
+      .orderBy(desc(substituteDrivers.createdAt));
+  }
+
+  // Fuel operations
+  async getFuelEntries(query: FuelQuery): Promise<FuelEntryWithVehicle[]> {
+    const conditions: SQL[] = [];
+    if (query.vehicleId) conditions.push(eq(fuelEntries.vehicleId, query.vehicleId));
+    if (query.from) conditions.push(gte(fuelEntries.date, query.from));
+    if (query.to) conditions.push(lte(fuelEntries.date, query.to));
+    return await db.select({ ...getTableColumns(fuelEntries), vehicleNumber: vehicles.vehicleNumber })
+      .from(fuelEntries)
+      .innerJoin(vehicles, eq(fuelEntries.vehicleId, vehicles.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(fuelEntries.date), desc(fuelEntries.shift), desc(fuelEntries.id));
+  }
+
+  async getFuelEntry(id: number): Promise<FuelEntry | undefined> {
+    const [result] = await db.select().from(fuelEntries).where(eq(fuelEntries.id, id));
+    return result || undefined;
+  }
+
+  async createFuelEntry(entry: FuelEntryValues): Promise<FuelEntry> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(fuelEntries)
+        .values({ ...entry, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "fuelEntry", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateFuelEntry(id: number, entry: FuelEntryValues): Promise<FuelEntry> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(fuelEntries).where(eq(fuelEntries.id, id));
+      const [result] = await tx.update(fuelEntries)
+        .set({ ...entry, updatedAt: new Date() })
+        .where(eq(fuelEntries.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "fuelEntry", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteFuelEntry(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(fuelEntries).where(eq(fuelEntries.id, id)).returning();
+      if (before) await this.recordAudit(tx, "fuelEntry", id, "delete", before, null);
+    });
+  }
+
+  async getVehicleShiftsForDateRange(startDate: string, endDate: string, vehicleId?: number): Promise<VehicleShift[]> {
+    const logDate = sql<string>`TO_CHAR(${driverRentLogs.date}, 'YYYY-MM-DD')`;
+    const rentLogs = await db
+      .select({
+        id: driverRentLogs.id,
+        vehicleId: driverRentLogs.vehicleId,
+        date: logDate,
+        shift: driverRentLogs.shift,
+        driverId: driverRentLogs.driverId,
+        driverName: drivers.name,
+        fuel: driverRentLogs.fuel,
+        startOdometer: driverRentLogs.startOdometer,
+        endOdometer: driverRentLogs.endOdometer,
+      })
+      .from(driverRentLogs)
+      .innerJoin(drivers, eq(driverRentLogs.driverId, drivers.id))
+      .where(and(
+        sql`DATE(${driverRentLogs.date}) BETWEEN ${startDate} AND ${endDate}`,
+        vehicleId ? eq(driverRentLogs.vehicleId, vehicleId) : undefined
+      ));
+
+    const substituteDate = sql<string>`TO_CHAR(${substituteDrivers.date}, 'YYYY-MM-DD')`;
+    const substitutes = await db
+      .select({
+        id: substituteDrivers.id,
+        vehicleId: substituteDrivers.vehicleId,
+        date: substituteDate,
+        shift: substituteDrivers.shift,
+        driverName: substituteDrivers.name,
+        trips: substituteDrivers.tripCount,
+        startOdometer: substituteDrivers.startOdometer,
+        endOdometer: substituteDrivers.endOdometer,
+      })
+      .from(substituteDrivers)
+      .where(and(
+        sql`DATE(${substituteDrivers.date}) BETWEEN ${startDate} AND ${endDate}`,
+        vehicleId ? eq(substituteDrivers.vehicleId, vehicleId) : undefined
+      ));
+
+    // A rent log is one trip, as in the vehicle profit summary; substitutes record their own count
+    return [
+      ...rentLogs.map((log) => ({ ...log, substitute: false, trips: 1 })),
+      ...substitutes.map((sub) => ({ ...sub, driverId: null, substitute: true, trips: sub.trips || 1, fuel: 0 })),
+    ];
+  }
+
+  // Roster operations
+  async getRosterEntries(query: RosterQuery): Promise<RosterEntryWithNames[]> {
+    const conditions: SQL[] = [gte(rosterEntries.date, query.from), lte(rosterEntries.date, query.to)];
+    if (query.vehicleId) conditions.push(eq(rosterEntries.vehicleId, query.vehicleId));
+    if (query.driverId) conditions.push(eq(rosterEntries.driverId, query.driverId));
+    return await db.select({
+      ...getTableColumns(rosterEntries),
+      vehicleNumber: vehicles.vehicleNumber,
+      driverName: drivers.name,
+    })
+      .from(rosterEntries)
+      .innerJoin(vehicles, eq(rosterEntries.vehicleId, vehicles.id))
+      .innerJoin(drivers, eq(rosterEntries.driverId, drivers.id))
+      .where(and(...conditions))
+      .orderBy(asc(rosterEntries.date), asc(rosterEntries.shift), asc(vehicles.vehicleNumber));
+  }
+
+  async getRosterEntry(id: number): Promise<RosterEntry | undefined> {
+    const [result] = await db.select().from(rosterEntries).where(eq(rosterEntries.id, id));
+    return result || undefined;
+  }
+
+  async getRosterEntryForSlot(vehicleId: number, date: string, shift: string): Promise<RosterEntry | undefined> {
+    const [result] = await db.select().from(rosterEntries).where(and(
+      eq(rosterEntries.vehicleId, vehicleId),
+      eq(rosterEntries.date, date),
+      eq(rosterEntries.shift, shift),
+    ));
+    return result || undefined;
+  }
+
+  async createRosterEntries(entries: InsertRosterEntry[]): Promise<RosterEntry[]> {
+    if (entries.length === 0) return [];
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const results = await tx.insert(rosterEntries)
+        .values(entries.map((entry) => ({ ...entry, createdBy: actor?.name ?? "system" })))
+        .returning();
+      for (const result of results) {
+        await this.recordAudit(tx, "rosterEntry", result.id, "create", null, result);
+      }
+      return results;
+    });
+  }
+
+  async updateRosterEntry(id: number, entry: InsertRosterEntry): Promise<RosterEntry> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(rosterEntries).where(eq(rosterEntries.id, id));
+      const [result] = await tx.update(rosterEntries)
+        .set({ ...entry, updatedAt: new Date() })
+        .where(eq(rosterEntries.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "rosterEntry", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteRosterEntry(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(rosterEntries).where(eq(rosterEntries.id, id)).returning();
+      if (before) await this.recordAudit(tx, "rosterEntry", id, "delete", before, null);
+    });
+  }
+
+  // Driver leave operations
+  async getDriverLeaves(query: LeaveQuery): Promise<DriverLeaveWithNames[]> {
+    const conditions: SQL[] = [];
+    if (query.driverId) conditions.push(eq(driverLeaves.driverId, query.driverId));
+    if (query.from) conditions.push(gte(driverLeaves.endDate, query.from));
+    if (query.to) conditions.push(lte(driverLeaves.startDate, query.to));
+    return await db.select({
+      ...getTableColumns(driverLeaves),
+      driverName: drivers.name,
+      vehicleNumber: vehicles.vehicleNumber,
+    })
+      .from(driverLeaves)
+      .innerJoin(drivers, eq(driverLeaves.driverId, drivers.id))
+      .leftJoin(vehicles, eq(driverLeaves.vehicleId, vehicles.id))
+      .where(and(...conditions))
+      .orderBy(desc(driverLeaves.startDate), asc(drivers.name));
+  }
+
+  async getDriverLeave(id: number): Promise<DriverLeave | undefined> {
+    const [result] = await db.select().from(driverLeaves).where(eq(driverLeaves.id, id));
+    return result || undefined;
+  }
+
+  async findOverlappingDriverLeaves(driverId: number, startDate: string, endDate: string, excludeId?: number): Promise<DriverLeave[]> {
+    const conditions: SQL[] = [
+      eq(driverLeaves.driverId, driverId),
+      lte(driverLeaves.startDate, endDate),
+      gte(driverLeaves.endDate, startDate),
+    ];
+    if (excludeId) conditions.push(ne(driverLeaves.id, excludeId));
+    return await db.select().from(driverLeaves).where(and(...conditions));
+  }
+
+  async createDriverLeave(leave: DriverLeaveValues): Promise<DriverLeave> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(driverLeaves)
+        .values({ ...leave, recordedBy: actor?.name ?? "system" })
+        .returning();
+      await this.recordAudit(tx, "driverLeave", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateDriverLeave(id: number, leave: DriverLeaveValues): Promise<DriverLeave> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(driverLeaves).where(eq(driverLeaves.id, id));
+      const [result] = await tx.update(driverLeaves)
+        .set({ ...leave, updatedAt: new Date() })
+        .where(eq(driverLeaves.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "driverLeave", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteDriverLeave(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(driverLeaves).where(eq(driverLeaves.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driverLeave", id, "delete", before, null);
+    });
+  }
+
+  // Accommodation operations
+  async getAccommodations(): Promise<AccommodationWithOccupancy[]> {
+    const rows = await db.select().from(accommodations).orderBy(asc(accommodations.name));
+    const assignments = await this.getAccommodationAssignments({});
+    return rows.map((accommodation) => ({
+      ...accommodation,
+      occupants: assignments.filter((a) => a.accommodationId === accommodation.id),
+    }));
+  }
+
+  async getAccommodation(id: number): Promise<Accommodation | undefined> {
+    const [result] = await db.select().from(accommodations).where(eq(accommodations.id, id));
+    return result || undefined;
+  }
+
+  async getAccommodationByName(name: string): Promise<Accommodation | undefined> {
+    const [result] = await db.select().from(accommodations)
+      .where(sql`LOWER(${accommodations.name}) = LOWER(${name.trim()})`);
+    return result || undefined;
+  }
+
+  async createAccommodation(accommodation: InsertAccommodation): Promise<Accommodation> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(accommodations).values(accommodation).returning();
+      await this.recordAudit(tx, "accommodation", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateAccommodation(id: number, accommodation: InsertAccommodation): Promise<Accommodation> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(accommodations).where(eq(accommodations.id, id));
+      const [result] = await tx.update(accommodations)
+        .set({ ...accommodation, leaseEnd: accommodation.leaseEnd ?? null, updatedAt: new Date() })
+        .where(eq(accommodations.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "accommodation", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteAccommodation(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(accommodations).where(eq(accommodations.id, id)).returning();
+      if (before) await this.recordAudit(tx, "accommodation", id, "delete", before, null);
+    });
+  }
+
+  // An assignment that includes `date`; open-ended assignments run indefinitely
+  private assignmentCovers(date: string): SQL {
+    return and(
+      lte(accommodationAssignments.startDate, date),
+      or(isNull(accommodationAssignments.endDate), gte(accommodationAssignments.endDate, date)),
+    )!;
+  }
+
+  async getAccommodationAssignments(filter: { accommodationId?: number; driverId?: number }): Promise<AccommodationAssignmentWithNames[]> {
+    const conditions: SQL[] = [];
+    if (filter.accommodationId) conditions.push(eq(accommodationAssignments.accommodationId, filter.accommodationId));
+    if (filter.driverId) conditions.push(eq(accommodationAssignments.driverId, filter.driverId));
+    return await db.select({
+      ...getTableColumns(accommodationAssignments),
+      driverName: drivers.name,
+      accommodationName: accommodations.name,
+    })
+      .from(accommodationAssignments)
+      .innerJoin(drivers, eq(accommodationAssignments.driverId, drivers.id))
+      .innerJoin(accommodations, eq(accommodationAssignments.accommodationId, accommodations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(accommodationAssignments.startDate), desc(accommodationAssignments.id));
+  }
+
+  async getAccommodationAssignment(id: number): Promise<AccommodationAssignment | undefined> {
+    const [result] = await db.select().from(accommodationAssignments).where(eq(accommodationAssignments.id, id));
+    return result || undefined;
+  }
+
+  async findOverlappingAccommodationAssignments(
+    filter: { accommodationId?: number; driverId?: number },
+    startDate: string,
+    endDate: string | null,
+    excludeId?: number,
+  ): Promise<AccommodationAssignment[]> {
+    const conditions: SQL[] = [
+      or(isNull(accommodationAssignments.endDate), gte(accommodationAssignments.endDate, startDate))!,
+    ];
+    if (endDate) conditions.push(lte(accommodationAssignments.startDate, endDate));
+    if (filter.accommodationId) conditions.push(eq(accommodationAssignments.accommodationId, filter.accommodationId));
+    if (filter.driverId) conditions.push(eq(accommodationAssignments.driverId, filter.driverId));
+    if (excludeId) conditions.push(ne(accommodationAssignments.id, excludeId));
+    return await db.select().from(accommodationAssignments).where(and(...conditions));
+  }
+
+  async createAccommodationAssignment(accommodationId: number, assignment: InsertAccommodationAssignment): Promise<AccommodationAssignment> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(accommodationAssignments)
+        .values({ ...assignment, accommodationId, endDate: assignment.endDate ?? null })
+        .returning();
+      await this.recordAudit(tx, "accommodationAssignment", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async endAccommodationAssignment(id: number, endDate: string): Promise<AccommodationAssignment> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(accommodationAssignments).where(eq(accommodationAssignments.id, id));
+      const [result] = await tx.update(accommodationAssignments)
+        .set({ endDate, updatedAt: new Date() })
+        .where(eq(accommodationAssignments.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "accommodationAssignment", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteAccommodationAssignment(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(accommodationAssignments).where(eq(accommodationAssignments.id, id)).returning();
+      if (before) await this.recordAudit(tx, "accommodationAssignment", id, "delete", before, null);
+    });
+  }
+
+  async getDriverDailyRent(driverId: number, date: string): Promise<number> {
+    const [room] = await db.select({ occupantDailyRent: accommodations.occupantDailyRent })
+      .from(accommodationAssignments)
+      .innerJoin(accommodations, eq(accommodationAssignments.accommodationId, accommodations.id))
+      .where(and(eq(accommodationAssignments.driverId, driverId), this.assignmentCovers(date)));
+    return BASE_DRIVER_RENT + (room?.occupantDailyRent ?? 0);
+  }
+
+  // Monthly rent is spread over 30-day months, so a full week of a ₹20,000 room
+  // costs ₹4,666; rooms leased for part of the range are charged for those days only.
+  async getRoomCostForRange(startDate: string, endDate: string): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT COALESCE(SUM(FLOOR(
+        monthly_rent * (LEAST(COALESCE(lease_end, ${endDate}::date), ${endDate}::date) - GREATEST(lease_start, ${startDate}::date) + 1) / 30.0
+      )), 0)::int AS room_cost
+      FROM accommodations
+      WHERE lease_start <= ${endDate}::date AND (lease_end IS NULL OR lease_end >= ${startDate}::date)
+    `);
+    return Number(result.rows?.[0]?.room_cost) || 0;
+  }
+
+  // Driver ledger operations
+  async getRentLogsForDriver(driverId: number): Promise<DriverRentLog[]> {
+    return await db.select().from(driverRentLogs)
+      .where(eq(driverRentLogs.driverId, driverId))
+      .orderBy(asc(driverRentLogs.date), asc(driverRentLogs.id));
+  }
+
+  async getWeeklySummariesForDriver(driverId: number): Promise<WeeklySummary[]> {
+    return await db.select().from(weeklySummaries)
+      .where(eq(weeklySummaries.driverId, driverId))
+      .orderBy(asc(weeklySummaries.endDate));
+  }
+
+  // Every driver's saved weeks, optionally those overlapping startDate..endDate
+  async getWeeklySummariesWithDrivers(startDate?: string, endDate?: string): Promise<Array<WeeklySummary & { driverName: string }>> {
+    const conditions: SQL[] = [];
+    if (startDate) conditions.push(gte(weeklySummaries.endDate, startDate));
+    if (endDate) conditions.push(lte(weeklySummaries.startDate, endDate));
+    return await db.select({ ...getTableColumns(weeklySummaries), driverName: drivers.name })
+      .from(weeklySummaries)
+      .innerJoin(drivers, eq(weeklySummaries.driverId, drivers.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(weeklySummaries.startDate), asc(drivers.name));
+  }
+
+  async getDriverAdjustments(driverId: number): Promise<DriverAdjustment[]> {
+    return await db.select().from(driverAdjustments)
+      .where(eq(driverAdjustments.driverId, driverId))
+      .orderBy(asc(driverAdjustments.date), asc(driverAdjustments.id));
+  }
+
+  async getDriverAdjustment(id: number): Promise<DriverAdjustment | undefined> {
+    const [result] = await db.select().from(driverAdjustments).where(eq(driverAdjustments.id, id));
+    return result || undefined;
+  }
+
+  async createDriverAdjustment(driverId: number, adjustment: InsertDriverAdjustment): Promise<DriverAdjustment> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(driverAdjustments).values({ ...adjustment, driverId }).returning();
+      await this.recordAudit(tx, "driverAdjustment", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async deleteDriverAdjustment(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(driverAdjustments).where(eq(driverAdjustments.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driverAdjustment", id, "delete", before, null);
+    });
   }
 
   // Investment operations
   async createInvestment(investment: InsertInvestment): Promise<Investment> {
-    const [result] = await db.insert(investments).values(investment).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(investments).values(investment).returning();
+      await this.recordAudit(tx, "investment", result.id, "create", null, result);
+      return result;
+    });
   }
 
   async getInvestment(id: number): Promise<Investment | undefined> {
@@ -758,21 +2325,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateInvestment(id: number, investment: UpdateInvestment): Promise<Investment> {
-    const [result] = await db.update(investments)
-      .set(investment)
-      .where(eq(investments.id, id))
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(investments).where(eq(investments.id, id));
+      const [result] = await tx.update(investments)
+        .set(investment)
+        .where(eq(investments.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "investment", id, "update", before, result);
+      return result;
+    });
   }
 
   async deleteInvestment(id: number): Promise<void> {
-    await db.delete(investments).where(eq(investments.id, id));
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(investments).where(eq(investments.id, id)).returning();
+      if (before) await this.recordAudit(tx, "investment", id, "delete", before, null);
+    });
   }
 
   // Investment return operations
   async createInvestmentReturn(investmentReturn: InsertInvestmentReturn): Promise<InvestmentReturn> {
-    const [result] = await db.insert(investmentReturns).values(investmentReturn).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(investmentReturns).values(investmentReturn).returning();
+      await this.recordAudit(tx, "investmentReturn", result.id, "create", null, result);
+      return result;
+    });
   }
 
   async getInvestmentReturn(id: number): Promise<InvestmentReturn | undefined> {
@@ -789,15 +2366,599 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateInvestmentReturn(id: number, investmentReturn: UpdateInvestmentReturn): Promise<InvestmentReturn> {
-    const [result] = await db.update(investmentReturns)
-      .set(investmentReturn)
-      .where(eq(investmentReturns.id, id))
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(investmentReturns).where(eq(investmentReturns.id, id));
+      const [result] = await tx.update(investmentReturns)
+        .set(investmentReturn)
+        .where(eq(investmentReturns.id, id))
+        .returning();
+      if (before) await this.recordAudit(tx, "investmentReturn", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteInvestmentReturn(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(investmentReturns).where(eq(investmentReturns.id, id)).returning();
+      if (before) await this.recordAudit(tx, "investmentReturn", id, "delete", before, null);
+    });
+  }
+
+  // Rental slab schedule operations
+  private async attachSlabRows(schedules: SlabSchedule[]): Promise<SlabScheduleWithRows[]> {
+    if (schedules.length === 0) return [];
+    const rows = await db.select().from(slabScheduleRows)
+      .where(inArray(slabScheduleRows.scheduleId, schedules.map(s => s.id)))
+      .orderBy(desc(slabScheduleRows.minTrips));
+    return schedules.map(schedule => ({
+      ...schedule,
+      rows: rows.filter(r => r.scheduleId === schedule.id),
+    }));
+  }
+
+  async getSlabSchedules(companyId?: number): Promise<SlabScheduleWithRows[]> {
+    const schedules = await db.select().from(slabSchedules)
+      .where(companyId ? eq(slabSchedules.companyId, companyId) : undefined)
+      .orderBy(asc(slabSchedules.companyId), desc(slabSchedules.effectiveFrom));
+    return this.attachSlabRows(schedules);
+  }
+
+  async getSlabSchedule(id: number): Promise<SlabScheduleWithRows | undefined> {
+    const [schedule] = await db.select().from(slabSchedules).where(eq(slabSchedules.id, id));
+    if (!schedule) return undefined;
+    const [result] = await this.attachSlabRows([schedule]);
+    return result;
+  }
+
+  async getSlabScheduleInForce(companyId: number, asOf: string): Promise<SlabScheduleWithRows | undefined> {
+    const [schedule] = await db.select().from(slabSchedules)
+      .where(and(
+        eq(slabSchedules.companyId, companyId),
+        sql`${slabSchedules.effectiveFrom} <= ${asOf}::date`,
+        sql`(${slabSchedules.effectiveTo} IS NULL OR ${slabSchedules.effectiveTo} >= ${asOf}::date)`
+      ))
+      .orderBy(desc(slabSchedules.effectiveFrom))
+      .limit(1);
+    if (!schedule) return undefined;
+    const [result] = await this.attachSlabRows([schedule]);
+    return result;
+  }
+
+  async findOverlappingSlabSchedule(companyId: number, effectiveFrom: string, effectiveTo: string | null, excludeId?: number): Promise<SlabSchedule | undefined> {
+    // Two periods overlap if: other_from <= this_to AND (other_to IS NULL OR other_to >= this_from)
+    const conditions = [
+      eq(slabSchedules.companyId, companyId),
+      sql`(${slabSchedules.effectiveTo} IS NULL OR ${slabSchedules.effectiveTo} >= ${effectiveFrom}::date)`,
+    ];
+    if (effectiveTo) {
+      conditions.push(sql`${slabSchedules.effectiveFrom} <= ${effectiveTo}::date`);
+    }
+    if (excludeId) {
+      conditions.push(ne(slabSchedules.id, excludeId));
+    }
+    const [result] = await db.select().from(slabSchedules).where(and(...conditions)).limit(1);
+    return result || undefined;
+  }
+
+  async createSlabSchedule(schedule: UpsertSlabSchedule): Promise<SlabScheduleWithRows> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(slabSchedules).values({
+        companyId: schedule.companyId,
+        effectiveFrom: schedule.effectiveFrom,
+        effectiveTo: schedule.effectiveTo ?? null,
+        notes: schedule.notes ?? null,
+      }).returning();
+      const rows = await tx.insert(slabScheduleRows)
+        .values(schedule.rows.map(r => ({ ...r, scheduleId: created.id })))
+        .returning();
+      const result = { ...created, rows };
+      await this.recordAudit(tx, "slabSchedule", created.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async updateSlabSchedule(id: number, schedule: UpsertSlabSchedule): Promise<SlabScheduleWithRows> {
+    const before = await this.getSlabSchedule(id);
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(slabSchedules)
+        .set({
+          companyId: schedule.companyId,
+          effectiveFrom: schedule.effectiveFrom,
+          effectiveTo: schedule.effectiveTo ?? null,
+          notes: schedule.notes ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(slabSchedules.id, id))
+        .returning();
+      // Slab rows are replaced wholesale; they have no identity of their own
+      await tx.delete(slabScheduleRows).where(eq(slabScheduleRows.scheduleId, id));
+      const rows = await tx.insert(slabScheduleRows)
+        .values(schedule.rows.map(r => ({ ...r, scheduleId: id })))
+        .returning();
+      const result = { ...updated, rows };
+      if (before) await this.recordAudit(tx, "slabSchedule", id, "update", before, result);
+      return result;
+    });
+  }
+
+  async deleteSlabSchedule(id: number): Promise<void> {
+    const before = await this.getSlabSchedule(id);
+    await db.transaction(async (tx) => {
+      await tx.delete(slabScheduleRows).where(eq(slabScheduleRows.scheduleId, id));
+      await tx.delete(slabSchedules).where(eq(slabSchedules.id, id));
+      if (before) await this.recordAudit(tx, "slabSchedule", id, "delete", before, null);
+    });
+  }
+
+  // Substitute rate card operations
+  private async attachRateBands(cards: SubstituteRateCard[]): Promise<SubstituteRateCardWithBands[]> {
+    if (cards.length === 0) return [];
+    const [bands, companyRows, vehicleRows] = await Promise.all([
+      db.select().from(substituteRateBands)
+        .where(inArray(substituteRateBands.rateCardId, cards.map((card) => card.id)))
+        .orderBy(asc(substituteRateBands.maxHours)),
+      db.select({ id: companies.id, name: companies.name }).from(companies),
+      db.select({ id: vehicles.id, vehicleNumber: vehicles.vehicleNumber }).from(vehicles),
+    ]);
+    const companyNames = new Map(companyRows.map((row) => [row.id, row.name]));
+    const vehicleNumbers = new Map(vehicleRows.map((row) => [row.id, row.vehicleNumber]));
+    return cards.map((card) => ({
+      ...card,
+      bands: bands.filter((band) => band.rateCardId === card.id),
+      companyName: card.companyId ? companyNames.get(card.companyId) ?? null : null,
+      vehicleNumber: card.vehicleId ? vehicleNumbers.get(card.vehicleId) ?? null : null,
+    }));
+  }
+
+  async getSubstituteRateCards(): Promise<SubstituteRateCardWithBands[]> {
+    const cards = await db.select().from(substituteRateCards).orderBy(asc(substituteRateCards.id));
+    return this.attachRateBands(cards);
+  }
+
+  async getSubstituteRateCard(id: number): Promise<SubstituteRateCardWithBands | undefined> {
+    const [card] = await db.select().from(substituteRateCards).where(eq(substituteRateCards.id, id));
+    if (!card) return undefined;
+    const [result] = await this.attachRateBands([card]);
+    return result;
+  }
+
+  async findSubstituteRateCard(companyId: number | null, vehicleId: number | null): Promise<SubstituteRateCard | undefined> {
+    const [result] = await db.select().from(substituteRateCards).where(and(
+      companyId ? eq(substituteRateCards.companyId, companyId) : isNull(substituteRateCards.companyId),
+      vehicleId ? eq(substituteRateCards.vehicleId, vehicleId) : isNull(substituteRateCards.vehicleId),
+    ));
+    return result || undefined;
+  }
+
+  async createSubstituteRateCard(card: UpsertSubstituteRateCard): Promise<SubstituteRateCardWithBands> {
+    const { bands, ...values } = card;
+    const created = await db.transaction(async (tx) => {
+      const [result] = await tx.insert(substituteRateCards).values({
+        ...values,
+        companyId: values.companyId ?? null,
+        vehicleId: values.vehicleId ?? null,
+      }).returning();
+      const rows = await tx.insert(substituteRateBands)
+        .values(bands.map((band) => ({ ...band, rateCardId: result.id })))
+        .returning();
+      await this.recordAudit(tx, "substituteRateCard", result.id, "create", null, { ...result, bands: rows });
+      return result;
+    });
+    return (await this.getSubstituteRateCard(created.id))!;
+  }
+
+  async updateSubstituteRateCard(id: number, card: UpsertSubstituteRateCard): Promise<SubstituteRateCardWithBands> {
+    const before = await this.getSubstituteRateCard(id);
+    const { bands, ...values } = card;
+    await db.transaction(async (tx) => {
+      const [updated] = await tx.update(substituteRateCards)
+        .set({
+          ...values,
+          companyId: values.companyId ?? null,
+          vehicleId: values.vehicleId ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(substituteRateCards.id, id))
+        .returning();
+      // Bands are replaced wholesale, like slab schedule rows
+      await tx.delete(substituteRateBands).where(eq(substituteRateBands.rateCardId, id));
+      const rows = await tx.insert(substituteRateBands)
+        .values(bands.map((band) => ({ ...band, rateCardId: id })))
+        .returning();
+      if (before) await this.recordAudit(tx, "substituteRateCard", id, "update", before, { ...updated, bands: rows });
+    });
+    return (await this.getSubstituteRateCard(id))!;
+  }
+
+  async deleteSubstituteRateCard(id: number): Promise<void> {
+    const before = await this.getSubstituteRateCard(id);
+    await db.transaction(async (tx) => {
+      await tx.delete(substituteRateBands).where(eq(substituteRateBands.rateCardId, id));
+      await tx.delete(substituteRateCards).where(eq(substituteRateCards.id, id));
+      if (before) await this.recordAudit(tx, "substituteRateCard", id, "delete", before, null);
+    });
+  }
+
+  async getHolidays(): Promise<Holiday[]> {
+    return await db.select().from(holidays).orderBy(asc(holidays.date));
+  }
+
+  async getHolidayByDate(date: string): Promise<Holiday | undefined> {
+    const [result] = await db.select().from(holidays).where(eq(holidays.date, date));
+    return result || undefined;
+  }
+
+  async createHoliday(holiday: InsertHoliday): Promise<Holiday> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(holidays).values(holiday).returning();
+      await this.recordAudit(tx, "holiday", result.id, "create", null, result);
+      return result;
+    });
+  }
+
+  async deleteHoliday(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(holidays).where(eq(holidays.id, id)).returning();
+      if (before) await this.recordAudit(tx, "holiday", id, "delete", before, null);
+    });
+  }
+
+  // Every write of a trip log import in one transaction with its import job, so a failure leaves nothing behind
+  async applyTripImport(writes: TripImportWrite, job: ImportJobDetails): Promise<TripImportCreated> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const created: Omit<TripImportCreated, "jobId"> = { driverIds: [], vehicleIds: [], rentLogIds: [], leaveIds: [] };
+      const newDriverIds = new Map<string, number>();
+      const newVehicleIds = new Map<string, number>();
+
+      for (const vehicle of writes.vehicles) {
+        const [result] = await tx.insert(vehicles).values(vehicle).returning();
+        await this.recordAudit(tx, "vehicle", result.id, "create", null, result);
+        newVehicleIds.set(vehicle.vehicleNumber.toUpperCase(), result.id);
+        created.vehicleIds.push(result.id);
+      }
+      for (const driver of writes.drivers) {
+        const [result] = await tx.insert(drivers).values(driver).returning();
+        await this.recordAudit(tx, "driver", result.id, "create", null, result);
+        newDriverIds.set(driver.name.toUpperCase(), result.id);
+        created.driverIds.push(result.id);
+      }
+
+      const resolve = (ref: number | string, ids: Map<string, number>) => {
+        if (typeof ref === "number") return ref;
+        const id = ids.get(ref);
+        if (id === undefined) throw new Error(`Import refers to ${ref}, which it does not create`);
+        return id;
+      };
+      for (const { driverId, vehicleId, ...rentLog } of writes.rentLogs) {
+        const [result] = await tx.insert(driverRentLogs)
+          .values({ ...rentLog, driverId: resolve(driverId, newDriverIds), vehicleId: resolve(vehicleId, newVehicleIds) })
+          .returning();
+        await this.recordAudit(tx, "driverRentLog", result.id, "create", null, result);
+        created.rentLogIds.push(result.id);
+      }
+      for (const leave of writes.leaves) {
+        const [result] = await tx.insert(driverLeaves)
+          .values({ ...leave, recordedBy: actor?.name ?? "system" })
+          .returning();
+        await this.recordAudit(tx, "driverLeave", result.id, "create", null, result);
+        created.leaveIds.push(result.id);
+      }
+
+      const { id: jobId } = await this.createImportJob(tx, "trip-logs", job, [
+        ...created.vehicleIds.map((id) => ({ entity: "vehicle" as const, recordId: id })),
+        ...created.driverIds.map((id) => ({ entity: "driver" as const, recordId: id })),
+        ...created.rentLogIds.map((id) => ({ entity: "driverRentLog" as const, recordId: id })),
+        ...created.leaveIds.map((id) => ({ entity: "driverLeave" as const, recordId: id })),
+      ]);
+      return { jobId, ...created };
+    });
+  }
+
+  async getStatementColumnMappings(): Promise<StatementColumnMapping[]> {
+    return await db.select().from(statementColumnMappings);
+  }
+
+  async saveStatementColumnMapping(profile: StatementProfileId, columns: StatementColumns): Promise<StatementColumnMapping> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(statementColumnMappings).where(eq(statementColumnMappings.profile, profile));
+      const [result] = await tx.insert(statementColumnMappings)
+        .values({ profile, columns, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: statementColumnMappings.profile,
+          set: { columns, updatedAt: new Date() },
+        })
+        .returning();
+      await this.recordAudit(tx, "statementColumnMapping", profile, before ? "update" : "create", before ?? null, result);
+      return result;
+    });
+  }
+
+  // Import alias operations
+  async getDriverAliases(): Promise<DriverAliasWithDriver[]> {
+    return await db.select({ ...getTableColumns(driverAliases), driverName: drivers.name })
+      .from(driverAliases)
+      .innerJoin(drivers, eq(driverAliases.driverId, drivers.id))
+      .orderBy(asc(driverAliases.alias));
+  }
+
+  // Saving an alias that exists points it at the given driver
+  async saveDriverAlias(alias: InsertDriverAlias): Promise<DriverAlias> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(driverAliases).where(eq(driverAliases.alias, alias.alias));
+      const [result] = await tx.insert(driverAliases)
+        .values({ ...alias, recordedBy: actor?.name ?? "system" })
+        .onConflictDoUpdate({
+          target: driverAliases.alias,
+          set: { driverId: alias.driverId, recordedBy: actor?.name ?? "system" },
+        })
+        .returning();
+      await this.recordAudit(tx, "driverAlias", result.id, before ? "update" : "create", before ?? null, result);
+      return result;
+    });
+  }
+
+  async deleteDriverAlias(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(driverAliases).where(eq(driverAliases.id, id)).returning();
+      if (before) await this.recordAudit(tx, "driverAlias", id, "delete", before, null);
+    });
+  }
+
+  async getVehicleAliases(): Promise<VehicleAliasWithVehicle[]> {
+    return await db.select({ ...getTableColumns(vehicleAliases), vehicleNumber: vehicles.vehicleNumber })
+      .from(vehicleAliases)
+      .innerJoin(vehicles, eq(vehicleAliases.vehicleId, vehicles.id))
+      .orderBy(asc(vehicleAliases.alias));
+  }
+
+  async saveVehicleAlias(alias: InsertVehicleAlias): Promise<VehicleAlias> {
+    const actor = getCurrentActor();
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vehicleAliases).where(eq(vehicleAliases.alias, alias.alias));
+      const [result] = await tx.insert(vehicleAliases)
+        .values({ ...alias, recordedBy: actor?.name ?? "system" })
+        .onConflictDoUpdate({
+          target: vehicleAliases.alias,
+          set: { vehicleId: alias.vehicleId, recordedBy: actor?.name ?? "system" },
+        })
+        .returning();
+      await this.recordAudit(tx, "vehicleAlias", result.id, before ? "update" : "create", before ?? null, result);
+      return result;
+    });
+  }
+
+  async deleteVehicleAlias(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [before] = await tx.delete(vehicleAliases).where(eq(vehicleAliases.id, id)).returning();
+      if (before) await this.recordAudit(tx, "vehicleAlias", id, "delete", before, null);
+    });
+  }
+
+  // Import job operations
+  async getImportJobs(kind: ImportKind, query: ImportJobQuery): Promise<ImportJobWithRecords[]> {
+    const jobs = await db.select().from(importJobs)
+      .where(eq(importJobs.kind, kind))
+      .orderBy(desc(importJobs.createdAt), desc(importJobs.id))
+      .limit(query.limit);
+    if (jobs.length === 0) return [];
+    const counts = await db.select({
+      jobId: importJobRecords.jobId,
+      entity: importJobRecords.entity,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(importJobRecords)
+      .where(inArray(importJobRecords.jobId, jobs.map((job) => job.id)))
+      .groupBy(importJobRecords.jobId, importJobRecords.entity);
+    return jobs.map((job) => ({
+      ...job,
+      records: Object.fromEntries(counts.filter((c) => c.jobId === job.id).map((c) => [c.entity, c.count])),
+    }));
+  }
+
+  async getImportJob(id: number): Promise<ImportJob | undefined> {
+    const [result] = await db.select().from(importJobs).where(eq(importJobs.id, id));
+    return result || undefined;
+  }
+
+  private async createImportJob(
+    tx: DbExecutor,
+    kind: ImportKind,
+    job: ImportJobDetails,
+    records: Array<{ entity: ImportRecordEntity; recordId: string | number; before?: unknown }>,
+  ): Promise<ImportJob> {
+    const actor = getCurrentActor();
+    const [result] = await tx.insert(importJobs)
+      .values({ ...job, kind, uploadedBy: actor?.name ?? "system" })
       .returning();
+    // In batches, to stay under Postgres' limit on parameters per statement
+    for (let i = 0; i < records.length; i += 1000) {
+      await tx.insert(importJobRecords).values(records.slice(i, i + 1000).map((record) => ({
+        jobId: result.id,
+        entity: record.entity,
+        recordId: String(record.recordId),
+        before: record.before ?? null,
+      })));
+    }
     return result;
   }
 
-  async deleteInvestmentReturn(id: number): Promise<void> {
-    await db.delete(investmentReturns).where(eq(investmentReturns.id, id));
+  // Every weekly summary a statement import writes, in one transaction with its import job
+  async applyStatementImport(summaries: UpsertWeeklySummary[], job: ImportJobDetails): Promise<ImportJob> {
+    return await db.transaction(async (tx) => {
+      const records: Array<{ entity: ImportRecordEntity; recordId: string; before: WeeklySummary | null }> = [];
+      for (const summary of summaries) {
+        const { before, result } = await this.writeWeeklySummary(tx, summary);
+        records.push({ entity: "weeklySummary", recordId: weeklySummaryAuditId(result), before: before ?? null });
+      }
+      return await this.createImportJob(tx, "weekly-summary", job, records);
+    });
+  }
+
+  // Names of the other records that use each of the given rows, by row id
+  private async findReferences(executor: DbExecutor, ids: number[], references: Array<[PgColumn, string]>): Promise<Map<number, string[]>> {
+    const found = new Map<number, string[]>();
+    if (ids.length === 0) return found;
+    for (const [column, label] of references) {
+      const rows = await executor.selectDistinct({ id: column })
+        .from(column.table as PgTable)
+        .where(inArray(column, ids));
+      for (const row of rows) {
+        const labels = found.get(Number(row.id)) ?? [];
+        if (!labels.includes(label)) found.set(Number(row.id), [...labels, label]);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Removes the rows an import wrote and puts back the weekly summaries it
+   * overwrote, in one transaction. Rows in closed weeks, summaries a later
+   * import wrote again, and drivers and vehicles other records still use are
+   * left in place and listed in the result.
+   */
+  async undoImportJob(id: number, closedWeeks: WeeklySettlement[]): Promise<ImportUndoResult> {
+    const actor = getCurrentActor();
+    const inClosedWeek = (day: string) => closedWeeks.some((week) => week.weekStart <= day && week.weekEnd >= day);
+    return await db.transaction(async (tx) => {
+      // Marking the job first means two undos of one import cannot both run
+      const [job] = await tx.update(importJobs)
+        .set({ undoneBy: actor?.name ?? "system", undoneAt: new Date() })
+        .where(and(eq(importJobs.id, id), isNull(importJobs.undoneAt)))
+        .returning();
+      if (!job) throw new Error("The import has already been undone");
+
+      const records = await tx.select().from(importJobRecords).where(eq(importJobRecords.jobId, id));
+      const idsOf = (entity: ImportRecordEntity) => records.filter((r) => r.entity === entity).map((r) => Number(r.recordId));
+      const result: ImportUndoResult = { removed: {}, restored: 0, kept: [] };
+      const countRemoved = (entity: ImportRecordEntity) => { result.removed[entity] = (result.removed[entity] ?? 0) + 1; };
+
+      const rentLogIds = idsOf("driverRentLog");
+      const rentLogs = rentLogIds.length > 0 ? await tx.select().from(driverRentLogs).where(inArray(driverRentLogs.id, rentLogIds)) : [];
+      let closedRentLogs = 0;
+      for (const rentLog of rentLogs) {
+        if (inClosedWeek(rentLog.date.toISOString().split("T")[0])) {
+          closedRentLogs++;
+          continue;
+        }
+        await tx.delete(driverRentLogs).where(eq(driverRentLogs.id, rentLog.id));
+        await this.recordAudit(tx, "driverRentLog", rentLog.id, "delete", rentLog, null);
+        countRemoved("driverRentLog");
+      }
+      if (closedRentLogs > 0) result.kept.push(`${closedRentLogs} trip log(s) in closed weeks`);
+
+      const leaveIds = idsOf("driverLeave");
+      const leaves = leaveIds.length > 0 ? await tx.select().from(driverLeaves).where(inArray(driverLeaves.id, leaveIds)) : [];
+      let closedLeaves = 0;
+      for (const leave of leaves) {
+        if (inClosedWeek(leave.startDate)) {
+          closedLeaves++;
+          continue;
+        }
+        await tx.delete(driverLeaves).where(eq(driverLeaves.id, leave.id));
+        await this.recordAudit(tx, "driverLeave", leave.id, "delete", leave, null);
+        countRemoved("driverLeave");
+      }
+      if (closedLeaves > 0) result.kept.push(`${closedLeaves} leave(s) in closed weeks`);
+
+      const summaryRecords = records.filter((r) => r.entity === "weeklySummary");
+      const rewritten = summaryRecords.length === 0 ? [] : await tx.selectDistinct({ recordId: importJobRecords.recordId })
+        .from(importJobRecords)
+        .innerJoin(importJobs, eq(importJobRecords.jobId, importJobs.id))
+        .where(and(
+          eq(importJobRecords.entity, "weeklySummary"),
+          inArray(importJobRecords.recordId, summaryRecords.map((r) => r.recordId)),
+          sql`${importJobRecords.jobId} > ${id}`,
+          isNull(importJobs.undoneAt),
+        ));
+      const rewrittenIds = new Set(rewritten.map((r) => r.recordId));
+      let closedSummaries = 0;
+      for (const record of summaryRecords) {
+        const [driverId, startDate, endDate] = record.recordId.split(":");
+        const summaryKey = and(
+          eq(weeklySummaries.driverId, Number(driverId)),
+          eq(weeklySummaries.startDate, startDate),
+          eq(weeklySummaries.endDate, endDate),
+        );
+        const [current] = await tx.select().from(weeklySummaries).where(summaryKey);
+        if (!current) continue;
+        if (inClosedWeek(startDate)) {
+          closedSummaries++;
+        } else if (rewrittenIds.has(record.recordId)) {
+          result.kept.push(`Weekly summary ${startDate} to ${endDate} for driver #${driverId}: a later import wrote it again`);
+        } else if (record.before) {
+          const before = record.before as WeeklySummary;
+          const [restored] = await tx.update(weeklySummaries)
+            .set({
+              trips: before.trips,
+              totalEarnings: before.totalEarnings,
+              cash: before.cash,
+              refund: before.refund,
+              expenses: before.expenses,
+              dues: before.dues,
+              tolls: before.tolls,
+              tips: before.tips,
+              incentives: before.incentives,
+              platformFees: before.platformFees,
+              updatedAt: new Date(),
+            })
+            .where(summaryKey)
+            .returning();
+          await this.recordAudit(tx, "weeklySummary", record.recordId, "update", current, restored);
+          result.restored++;
+        } else {
+          await tx.delete(weeklySummaries).where(summaryKey);
+          await this.recordAudit(tx, "weeklySummary", record.recordId, "delete", current, null);
+          countRemoved("weeklySummary");
+        }
+      }
+      if (closedSummaries > 0) result.kept.push(`${closedSummaries} weekly summar${closedSummaries === 1 ? "y" : "ies"} in closed weeks`);
+
+      // Drivers and vehicles go last, once the rows above no longer use them
+      const driverReferences = await this.findReferences(tx, idsOf("driver"), [
+        [driverRentLogs.driverId, "trip logs"], [weeklySummaries.driverId, "weekly summaries"],
+        [driverPayouts.driverId, "payouts"], [driverAdvances.driverId, "advances"], [driverDeposits.driverId, "a deposit"],
+        [depositDeductions.driverId, "deposit deductions"], [driverAdjustments.driverId, "adjustments"],
+        [rosterEntries.driverId, "the roster"], [driverLeaves.driverId, "leaves"], [incidents.driverId, "incidents"],
+        [driverDocuments.driverId, "documents"], [accommodationAssignments.driverId, "room assignments"],
+        [driverAliases.driverId, "aliases"], [vehicleDriverAssignments.morningDriverId, "vehicle assignments"],
+        [vehicleDriverAssignments.eveningDriverId, "vehicle assignments"],
+      ]);
+      const importedDrivers = idsOf("driver").length > 0 ? await tx.select().from(drivers).where(inArray(drivers.id, idsOf("driver"))) : [];
+      for (const driver of importedDrivers) {
+        const usedBy = driverReferences.get(driver.id);
+        if (usedBy) {
+          result.kept.push(`Driver ${driver.name}: used by ${usedBy.join(", ")}`);
+          continue;
+        }
+        await tx.delete(drivers).where(eq(drivers.id, driver.id));
+        await this.recordAudit(tx, "driver", driver.id, "delete", driver, null);
+        countRemoved("driver");
+      }
+
+      const vehicleReferences = await this.findReferences(tx, idsOf("vehicle"), [
+        [driverRentLogs.vehicleId, "trip logs"], [substituteDrivers.vehicleId, "substitute shifts"],
+        [vehicleDriverAssignments.vehicleId, "driver assignments"], [maintenanceRecords.vehicleId, "maintenance records"],
+        [serviceIntervals.vehicleId, "service intervals"], [fuelEntries.vehicleId, "fuel entries"],
+        [rosterEntries.vehicleId, "the roster"], [driverLeaves.vehicleId, "leaves"], [incidents.vehicleId, "incidents"],
+        [vehicleDocuments.vehicleId, "documents"], [substituteRateCards.vehicleId, "rate cards"], [vehicleAliases.vehicleId, "aliases"],
+      ]);
+      const importedVehicles = idsOf("vehicle").length > 0 ? await tx.select().from(vehicles).where(inArray(vehicles.id, idsOf("vehicle"))) : [];
+      for (const vehicle of importedVehicles) {
+        const usedBy = vehicleReferences.get(vehicle.id);
+        if (usedBy) {
+          result.kept.push(`Vehicle ${vehicle.vehicleNumber}: used by ${usedBy.join(", ")}`);
+          continue;
+        }
+        await tx.delete(vehicles).where(eq(vehicles.id, vehicle.id));
+        await this.recordAudit(tx, "vehicle", vehicle.id, "delete", vehicle, null);
+        countRemoved("vehicle");
+      }
+
+      await tx.update(importJobs).set({ undoKept: result.kept }).where(eq(importJobs.id, id));
+      return result;
+    });
   }
 
   // Meta operations
@@ -809,4 +2970,17 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
+// Weekly summaries are keyed by driver and week rather than a serial id
+function weeklySummaryAuditId(summary: { driverId: number; startDate: string; endDate: string }): string {
+  return `${summary.driverId}:${summary.startDate}:${summary.endDate}`;
+}
+
+// Password hashes never go into the audit log
+function redactAuditValue(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value ?? null;
+  if (!("passwordHash" in value)) return value;
+  const { passwordHash, ...rest } = value as Record<string, unknown>;
+  return rest;
+}
+
 export const storage = new DatabaseStorage();
@@ -0,0 +1,90 @@
+import { pool } from "../db";
+
+/**
+ * One-off migration from the `drivers.has_accommodation` flag and the fixed
+ * ₹4,666/week room cost to the accommodations registry. Creates a single
+ * "Main Room" at ₹20,000/month (the old weekly figure over 30-day months),
+ * leased from the earliest driver or rent log date, and gives every flagged
+ * driver an assignment from their joining date to their dismissal date with
+ * the old ₹100/day room charge. Run it once with
+ * `npx tsx server/utils/migrateAccommodations.ts` BEFORE `npm run db:push`,
+ * which would otherwise drop the flag. Re-running it is harmless.
+ */
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+    [table, column]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+const LEGACY_ROOM_NAME = "Main Room";
+
+async function migrateAccommodations() {
+  try {
+    if (!(await columnExists("drivers", "has_accommodation"))) {
+      console.log("drivers: no legacy has_accommodation column, skipping");
+      return;
+    }
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS accommodations (
+        id serial PRIMARY KEY,
+        name text NOT NULL UNIQUE,
+        address text NOT NULL,
+        monthly_rent integer NOT NULL,
+        capacity integer NOT NULL,
+        occupant_daily_rent integer NOT NULL DEFAULT 100,
+        lease_start date NOT NULL,
+        lease_end date,
+        notes text,
+        created_at timestamp NOT NULL DEFAULT now(),
+        updated_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS accommodation_assignments (
+        id serial PRIMARY KEY,
+        accommodation_id integer NOT NULL,
+        driver_id integer NOT NULL,
+        start_date date NOT NULL,
+        end_date date,
+        created_at timestamp NOT NULL DEFAULT now(),
+        updated_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    const existing = await pool.query(`SELECT id FROM accommodations WHERE name = $1`, [LEGACY_ROOM_NAME]);
+    if ((existing.rowCount ?? 0) > 0) {
+      console.log(`accommodations: "${LEGACY_ROOM_NAME}" already exists, skipping`);
+      return;
+    }
+
+    const housed = await pool.query(`SELECT COUNT(*)::int AS count FROM drivers WHERE has_accommodation`);
+    const room = await pool.query(`
+      INSERT INTO accommodations (name, address, monthly_rent, capacity, occupant_daily_rent, lease_start, notes)
+      SELECT $1, 'Unknown', 20000, GREATEST($2::int, 1), 100,
+        COALESCE(LEAST((SELECT MIN(joined_date) FROM drivers), (SELECT MIN(DATE(date)) FROM driver_rent_logs)), CURRENT_DATE),
+        'Created from the fixed weekly room rent; update the address, rent and lease dates'
+      RETURNING id
+    `, [LEGACY_ROOM_NAME, housed.rows[0].count]);
+    const roomId = room.rows[0].id;
+
+    const assigned = await pool.query(`
+      INSERT INTO accommodation_assignments (accommodation_id, driver_id, start_date, end_date)
+      SELECT $1, id, joined_date, dismiss_date
+      FROM drivers
+      WHERE has_accommodation
+    `, [roomId]);
+    console.log(`accommodations: created "${LEGACY_ROOM_NAME}" and assigned ${assigned.rowCount ?? 0} drivers to it`);
+
+    console.log("Accommodation migration completed. Run `npm run db:push` next.");
+  } catch (error) {
+    console.error("Accommodation migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateAccommodations();
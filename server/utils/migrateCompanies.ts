@@ -0,0 +1,69 @@
+import { pool } from "../db";
+
+/**
+ * One-off migration from the free-text `company` columns on vehicles and
+ * slab_schedules to the companies registry. Run it once with
+ * `npx tsx server/utils/migrateCompanies.ts` BEFORE `npm run db:push`, which
+ * would otherwise drop the text columns before they are mapped to company ids.
+ * Re-running it is harmless.
+ */
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+    [table, column]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM information_schema.tables WHERE table_name = $1`,
+    [table]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function migrateCompanies() {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS companies (
+        id serial PRIMARY KEY,
+        name text NOT NULL UNIQUE,
+        settlement_day text NOT NULL DEFAULT 'monday',
+        wallet_deduction integer NOT NULL DEFAULT 0,
+        active boolean NOT NULL DEFAULT true,
+        created_at timestamp NOT NULL DEFAULT now(),
+        updated_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    for (const table of ["vehicles", "slab_schedules"]) {
+      if (!(await tableExists(table)) || !(await columnExists(table, "company"))) {
+        console.log(`${table}: no legacy company column, skipping`);
+        continue;
+      }
+
+      await pool.query(`
+        INSERT INTO companies (name)
+        SELECT DISTINCT TRIM(company) FROM ${table} WHERE company IS NOT NULL AND TRIM(company) <> ''
+        ON CONFLICT (name) DO NOTHING
+      `);
+      await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS company_id integer`);
+      const updated = await pool.query(`
+        UPDATE ${table} t SET company_id = c.id
+        FROM companies c
+        WHERE c.name = TRIM(t.company) AND t.company_id IS NULL
+      `);
+      console.log(`${table}: linked ${updated.rowCount ?? 0} rows to companies`);
+    }
+
+    console.log("Company migration completed. Run `npm run db:push` next.");
+  } catch (error) {
+    console.error("Company migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateCompanies();
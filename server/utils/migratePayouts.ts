@@ -0,0 +1,66 @@
+import { pool } from "../db";
+
+/**
+ * One-off migration of the hand-typed `weekly_summaries.payout` figures into
+ * driver_payouts records (method "cash", dated at the week's end). Run it once
+ * with `npx tsx server/utils/migratePayouts.ts` BEFORE `npm run db:push`,
+ * which would otherwise drop the column with the amounts in it. Re-running it
+ * is harmless.
+ */
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+    [table, column]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+const MIGRATED_NOTE = "Migrated from weekly summary payout";
+
+async function migratePayouts() {
+  try {
+    if (!(await columnExists("weekly_summaries", "payout"))) {
+      console.log("weekly_summaries: no legacy payout column, skipping");
+      return;
+    }
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS driver_payouts (
+        id serial PRIMARY KEY,
+        driver_id integer NOT NULL,
+        date date NOT NULL,
+        amount integer NOT NULL,
+        method text NOT NULL,
+        reference text,
+        notes text,
+        recorded_by text NOT NULL,
+        voided_at timestamp,
+        voided_by text,
+        void_reason text,
+        created_at timestamp NOT NULL DEFAULT now(),
+        updated_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+
+    const inserted = await pool.query(`
+      INSERT INTO driver_payouts (driver_id, date, amount, method, notes, recorded_by)
+      SELECT ws.driver_id, ws.end_date, ws.payout, 'cash', $1, 'system'
+      FROM weekly_summaries ws
+      WHERE ws.payout > 0
+        AND NOT EXISTS (
+          SELECT 1 FROM driver_payouts dp
+          WHERE dp.driver_id = ws.driver_id AND dp.date = ws.end_date AND dp.notes = $1
+        )
+    `, [MIGRATED_NOTE]);
+    console.log(`weekly_summaries: copied ${inserted.rowCount ?? 0} payouts to driver_payouts`);
+
+    console.log("Payout migration completed. Run `npm run db:push` next.");
+  } catch (error) {
+    console.error("Payout migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+migratePayouts();
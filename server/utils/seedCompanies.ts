@@ -0,0 +1,37 @@
+import { storage } from "../storage";
+import { DEFAULT_SLABS } from "../services/rentalCalculator";
+
+/**
+ * Seed the companies in DEFAULT_SLABS, each with an open-ended slab schedule,
+ * into a database that has none yet. Companies are only created while the
+ * registry is empty and schedules only while no company has any, so once an
+ * owner renames or deletes a default company it stays that way on restart.
+ * A database migrated from before slab schedules gets the schedules its
+ * existing weeks were calculated with.
+ */
+export async function ensureDefaultCompanies() {
+  try {
+    const [companies, schedules] = await Promise.all([storage.getAllCompanies(), storage.getSlabSchedules()]);
+    if (companies.length > 0 && schedules.length > 0) return;
+
+    for (const [name, slabs] of Object.entries(DEFAULT_SLABS)) {
+      let company = companies.find((c) => c.name === name);
+      if (!company) {
+        if (companies.length > 0) continue;
+        company = await storage.createCompany({ name, settlementDay: "monday", walletDeduction: 0 });
+        console.log(`Seeded company ${name}`);
+      }
+
+      await storage.createSlabSchedule({
+        companyId: company.id,
+        effectiveFrom: "2000-01-01",
+        effectiveTo: null,
+        notes: "Initial schedule",
+        rows: slabs,
+      });
+      console.log(`Seeded default slab schedule for ${name}`);
+    }
+  } catch (error) {
+    console.error("Failed to seed companies:", error);
+  }
+}
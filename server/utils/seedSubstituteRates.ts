@@ -0,0 +1,23 @@
+import { storage } from "../storage";
+import { DEFAULT_SUBSTITUTE_BANDS } from "../services/substituteRates";
+
+/**
+ * Make sure the fleet-wide substitute rate card exists, starting from the
+ * fixed rates shifts were charged at before the card. Safe to run on every start.
+ */
+export async function ensureDefaultSubstituteRateCard() {
+  try {
+    if (await storage.findSubstituteRateCard(null, null)) return;
+    await storage.createSubstituteRateCard({
+      companyId: null,
+      vehicleId: null,
+      weekendPremium: 0,
+      holidayPremium: 0,
+      notes: "Initial rates",
+      bands: DEFAULT_SUBSTITUTE_BANDS,
+    });
+    console.log("Seeded default substitute rate card");
+  } catch (error) {
+    console.error("Failed to seed substitute rate card:", error);
+  }
+}
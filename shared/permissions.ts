@@ -0,0 +1,126 @@
+import type { UserRole } from "./schema";
+
+const ALL_ROLES: UserRole[] = ["owner", "accountant", "dispatcher", "read_only"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: "Owner",
+  accountant: "Accountant",
+  dispatcher: "Dispatcher",
+  read_only: "Read-only",
+};
+
+interface RouteGroup {
+  prefixes: string[];
+  read: UserRole[];  // GET
+  write: UserRole[]; // POST, PUT, PATCH, DELETE
+}
+
+/**
+ * API route groups and the roles allowed to use them. A request is matched to
+ * the group with the longest matching prefix (":name" segments match any
+ * segment); routes outside every group are owner-only, so new routes must be
+ * added here.
+ */
+export const ROUTE_GROUPS: Record<string, RouteGroup> = {
+  general: {
+    prefixes: ["/api/events", "/api/dashboard", "/api/meta", "/api/validate-qr-code"],
+    read: ALL_ROLES,
+    write: ["owner"],
+  },
+  fleet: {
+    prefixes: ["/api/vehicles", "/api/drivers", "/api/vehicle-assignments", "/api/accommodations/:id/assignments", "/api/maintenance", "/api/vehicle-compliance", "/api/reports/expiring-documents"],
+    read: ALL_ROLES,
+    write: ["owner", "dispatcher"],
+  },
+  rates: {
+    prefixes: ["/api/companies", "/api/slab-schedules", "/api/rental-slabs", "/api/accommodations", "/api/substitute-rates"],
+    read: ALL_ROLES,
+    write: ["owner", "accountant"],
+  },
+  operations: {
+    prefixes: ["/api/driver-rent-logs", "/api/substitute-drivers", "/api/import/trip-logs", "/api/incidents", "/api/fuel-entries", "/api/reports/fuel",
+      "/api/odometer", "/api/reports/odometer", "/api/roster",
+      "/api/driver-leaves", "/api/reports/idle-vehicles", "/api/substitutes"],
+    read: ALL_ROLES,
+    write: ["owner", "dispatcher"],
+  },
+  finance: {
+    prefixes: ["/api/weekly-summary", "/api/settlements", "/api/payouts", "/api/advances", "/api/import/weekly-summary", "/api/export"],
+    read: ["owner", "accountant", "read_only"],
+    write: ["owner", "accountant"],
+  },
+  // Both importers' users tie unfamiliar names to drivers and vehicles
+  importAliases: {
+    prefixes: ["/api/import-aliases"],
+    read: ALL_ROLES,
+    write: ["owner", "accountant", "dispatcher"],
+  },
+  ledger: {
+    prefixes: ["/api/drivers/:id/ledger", "/api/drivers/:id/adjustments", "/api/drivers/:id/deposit", "/api/drivers/:id/final-settlement"],
+    read: ["owner", "accountant", "read_only"],
+    write: ["owner", "accountant"],
+  },
+  weekReopen: {
+    prefixes: ["/api/settlements/reopen"],
+    read: [],
+    write: ["owner"],
+  },
+  investments: {
+    prefixes: ["/api/investments", "/api/investment-returns", "/api/export/investments"],
+    read: ["owner", "accountant"],
+    write: ["owner"],
+  },
+  audit: {
+    prefixes: ["/api/audit-log"],
+    read: ["owner", "accountant"],
+    write: [], // append-only, written by storage
+  },
+  users: {
+    prefixes: ["/api/users"],
+    read: ["owner"],
+    write: ["owner"],
+  },
+};
+
+// Prefix segments starting with ":" match any single path segment
+function matchesPrefix(path: string, prefix: string): boolean {
+  const pathSegments = path.split("/");
+  const prefixSegments = prefix.split("/");
+  if (prefixSegments.length > pathSegments.length) return false;
+  return prefixSegments.every((segment, i) => segment.startsWith(":") || segment === pathSegments[i]);
+}
+
+export function findRouteGroup(path: string): RouteGroup | undefined {
+  let best: { group: RouteGroup; length: number } | undefined;
+  for (const group of Object.values(ROUTE_GROUPS)) {
+    for (const prefix of group.prefixes) {
+      if (matchesPrefix(path, prefix) && (!best || prefix.length > best.length)) {
+        best = { group, length: prefix.length };
+      }
+    }
+  }
+  return best?.group;
+}
+
+export function canAccessApi(role: UserRole, method: string, path: string): boolean {
+  const group = findRouteGroup(path);
+  if (!group) return role === "owner";
+  const allowed = method === "GET" || method === "HEAD" ? group.read : group.write;
+  return allowed.includes(role);
+}
+
+/** Client pages and the roles that may open them; pages not listed are open to every role. */
+export const PAGE_ROLES: Record<string, UserRole[]> = {
+  "/weekly-summary": ["owner", "accountant", "read_only"],
+  "/settlements": ["owner", "accountant", "read_only"],
+  "/drivers-payments": ["owner", "accountant", "read_only"],
+  "/investments": ["owner", "accountant"],
+  "/import": ["owner", "dispatcher"],
+  "/audit-log": ["owner", "accountant"],
+  "/users": ["owner"],
+};
+
+export function canAccessPage(role: UserRole, path: string): boolean {
+  const roles = PAGE_ROLES[path];
+  return !roles || roles.includes(role);
+}
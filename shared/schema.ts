@@ -1,13 +1,28 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, json, unique, date, primaryKey, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, json, unique, date, primaryKey, index, varchar } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { STATEMENT_FIELDS, STATEMENT_PROFILE_IDS, type StatementColumns } from "./statementProfiles";
+
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  contactName: text("contact_name"),
+  contactPhone: text("contact_phone"),
+  contactEmail: text("contact_email"),
+  settlementDay: text("settlement_day").notNull().default("monday"), // weekday the company settles the previous week
+  walletDeduction: integer("wallet_deduction").notNull().default(0), // fixed weekly deduction from the company wallet, per vehicle
+  walletNotes: text("wallet_notes"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
 
 export const vehicles = pgTable("vehicles", {
   id: serial("id").primaryKey(),
   vehicleNumber: text("vehicle_number").notNull().unique(),
   qrCode: text("qr_code"),
-  company: text("company").notNull(), // "PMV" or "Letzryd"
+  companyId: integer("company_id").notNull(),
   purchasedDate: date("purchased_date").notNull(),
   droppedDate: date("dropped_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -19,9 +34,16 @@ export const drivers = pgTable("drivers", {
   name: text("name").notNull(),
   phone: text("phone").notNull(),
   qrCode: text("qr_code"),
-  hasAccommodation: boolean("has_accommodation").notNull().default(false),
   joinedDate: date("joined_date").notNull(),
   dismissDate: date("dismiss_date"),
+  // KYC; scanned copies and the photo are kept in driver_documents
+  licenceNumber: text("licence_number"),
+  licenceExpiry: date("licence_expiry"),
+  badgeNumber: text("badge_number"), // PSV badge
+  badgeExpiry: date("badge_expiry"),
+  idReference: text("id_reference"), // Aadhaar or other government ID number
+  emergencyContactName: text("emergency_contact_name"),
+  emergencyContactPhone: text("emergency_contact_phone"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -43,6 +65,8 @@ export const driverRentLogs = pgTable("driver_rent_logs", {
   rent: integer("rent").notNull(),
   amountCollected: integer("amount_collected").notNull().default(0),
   fuel: integer("fuel").notNull().default(0),
+  startOdometer: integer("start_odometer"), // km readings at handover, when noted
+  endOdometer: integer("end_odometer"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   vehicleId: integer("vehicle_id").notNull(),
@@ -57,21 +81,45 @@ export const weeklySettlements = pgTable("weekly_settlements", {
   weekEnd: date("week_end").notNull(),
   companyRent: integer("company_rent"),
   companyWallet: integer("company_wallet"),
+  // A closed week is settled with the leasing company; its trips and summaries are read-only
+  closedAt: timestamp("closed_at"),
+  closedBy: text("closed_by"),
+  closeReason: text("close_reason"),
+  reopenedAt: timestamp("reopened_at"),
+  reopenedBy: text("reopened_by"),
+  reopenReason: text("reopen_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (t) => ({
   pk: primaryKey({ columns: [t.weekStart, t.weekEnd] }),
 }));
 
-export const substituteDrivers = pgTable("substitute_drivers", {
+// People who cover shifts for absent drivers; each substitute shift points at one
+export const substitutes = pgTable("substitutes", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  phone: text("phone"),
+  rate6h: integer("rate_6h"), // agreed charge per shift length; null means the standard rate
+  rate8h: integer("rate_8h"),
+  rate12h: integer("rate_12h"),
+  active: boolean("active").notNull().default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const substituteDrivers = pgTable("substitute_drivers", {
+  id: serial("id").primaryKey(),
+  substituteId: integer("substitute_id"), // null on shifts recorded before the registry, until linked
+  name: text("name").notNull(),           // the substitute's name, kept in step with the registry
   vehicleId: integer("vehicle_id").notNull(),
   date: timestamp("date").notNull(),
   shift: text("shift").notNull(), // "morning" or "evening"
-  shiftHours: integer("shift_hours").notNull(), // 6, 8, or 12
+  shiftHours: integer("shift_hours").notNull(), // hours worked, 1 to 24; priced from the substitute rate card
   tripCount: integer("trip_count").notNull(),
   charge: integer("charge").notNull(),
+  startOdometer: integer("start_odometer"), // km readings at handover, when noted
+  endOdometer: integer("end_odometer"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -86,7 +134,12 @@ export const weeklySummaries = pgTable("weekly_summaries", {
   refund: integer("refund").notNull().default(0),
   expenses: integer("expenses").notNull().default(0),
   dues: integer("dues").notNull().default(0),
-  payout: integer("payout").notNull().default(0),
+  // Items the platform statement breaks out. They are already counted in
+  // total earnings and refunds, so the wallet does not add them again.
+  tolls: integer("tolls").notNull().default(0),
+  tips: integer("tips").notNull().default(0),
+  incentives: integer("incentives").notNull().default(0),
+  platformFees: integer("platform_fees").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (t) => ({
@@ -94,6 +147,305 @@ export const weeklySummaries = pgTable("weekly_summaries", {
   byDriver: index("weekly_summaries_driver_idx").on(t.driverId),
 }));
 
+// Flat weekly fee taken from every driver's wallet. The leasing company's
+// wallet deduction (companies.walletDeduction) is charged to the fleet per
+// vehicle, not to drivers.
+export const WEEKLY_WALLET_FEE = 100;
+
+/** A driver's wallet for a week: earnings less the cash they kept, plus refunds, less expenses and the weekly fee. */
+export function weeklyWallet(summary: { totalEarnings: number; cash: number; refund: number; expenses: number }): number {
+  return summary.totalEarnings - summary.cash + summary.refund - summary.expenses - WEEKLY_WALLET_FEE;
+}
+
+export const PAYOUT_METHODS = ["cash", "upi", "bank"] as const;
+
+// Money handed to a driver. Payouts are voided rather than deleted so the
+// handover record survives; voided payouts count nowhere.
+export const driverPayouts = pgTable("driver_payouts", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  date: date("date").notNull(),
+  amount: integer("amount").notNull(),
+  method: text("method").notNull(), // one of PAYOUT_METHODS
+  reference: text("reference"),     // UPI/bank transaction reference
+  notes: text("notes"),
+  recordedBy: text("recorded_by").notNull(),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: text("voided_by"),
+  voidReason: text("void_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriverDate: index("driver_payouts_driver_date_idx").on(t.driverId, t.date),
+}));
+
+// Money lent to a driver and recovered in weekly instalments, the first due on
+// firstInstalmentDate and each later one 7 days after the previous
+export const driverAdvances = pgTable("driver_advances", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  issuedDate: date("issued_date").notNull(),
+  principal: integer("principal").notNull(),
+  instalmentAmount: integer("instalment_amount").notNull(),
+  instalmentCount: integer("instalment_count").notNull(),
+  firstInstalmentDate: date("first_instalment_date").notNull(),
+  method: text("method").notNull(), // one of PAYOUT_METHODS
+  reference: text("reference"),
+  notes: text("notes"),
+  issuedBy: text("issued_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriver: index("driver_advances_driver_idx").on(t.driverId),
+}));
+
+// Security deposit collected when a driver joins, one per driver
+export const driverDeposits = pgTable("driver_deposits", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull().unique(),
+  amount: integer("amount").notNull(),
+  collectedDate: date("collected_date").notNull(),
+  method: text("method").notNull(), // one of PAYOUT_METHODS
+  reference: text("reference"),
+  notes: text("notes"),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const DEPOSIT_DEDUCTION_REASONS = ["damage", "unpaid_dues", "other"] as const;
+
+// Amounts kept out of a deposit. "unpaid_dues" deductions settle what the driver
+// owes, so they are also credited to the driver's ledger.
+export const depositDeductions = pgTable("deposit_deductions", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  date: date("date").notNull(),
+  amount: integer("amount").notNull(),
+  reason: text("reason").notNull(), // one of DEPOSIT_DEDUCTION_REASONS
+  description: text("description").notNull(),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriver: index("deposit_deductions_driver_idx").on(t.driverId),
+}));
+
+export const MAINTENANCE_CATEGORIES = ["service", "tyres", "battery", "repair", "bodywork", "other"] as const;
+
+// Servicing, tyre changes and repairs done on a vehicle
+export const maintenanceRecords = pgTable("maintenance_records", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  date: date("date").notNull(),
+  category: text("category").notNull(), // one of MAINTENANCE_CATEGORIES
+  odometer: integer("odometer"),        // km reading at the time, when noted
+  cost: integer("cost").notNull(),
+  garage: text("garage"),
+  description: text("description"),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byVehicleDate: index("maintenance_records_vehicle_date_idx").on(t.vehicleId, t.date),
+}));
+
+// How often a kind of maintenance is due on a vehicle, by days and/or km since the last one
+export const serviceIntervals = pgTable("service_intervals", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  category: text("category").notNull(), // one of MAINTENANCE_CATEGORIES
+  intervalDays: integer("interval_days"),
+  intervalKm: integer("interval_km"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  vehicleCategory: unique("service_intervals_vehicle_category_unique").on(t.vehicleId, t.category),
+}));
+
+export const FUEL_TYPES = ["cng", "petrol", "diesel", "ev"] as const;
+export const FUEL_PAYMENT_METHODS = ["cash", "upi", "card", "fuel_card"] as const;
+
+// Fuel bought for a vehicle during a shift: litres of petrol or diesel, kg of CNG
+// or kWh of charge. Full-tank fills with an odometer reading mark the points
+// efficiency is measured between.
+export const fuelEntries = pgTable("fuel_entries", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  date: date("date").notNull(),
+  shift: text("shift").notNull(), // "morning" or "evening"
+  fuelType: text("fuel_type").notNull(), // one of FUEL_TYPES
+  quantity: decimal("quantity", { precision: 8, scale: 2 }).notNull(),
+  pricePerUnit: decimal("price_per_unit", { precision: 8, scale: 2 }).notNull(),
+  amount: integer("amount").notNull(),
+  odometer: integer("odometer"),
+  fullTank: boolean("full_tank").notNull().default(true),
+  paymentMethod: text("payment_method").notNull(), // one of FUEL_PAYMENT_METHODS
+  station: text("station"),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byVehicleDate: index("fuel_entries_vehicle_date_idx").on(t.vehicleId, t.date),
+}));
+
+// Dated shift plan: who drives which vehicle on each morning and evening. The
+// vehicle_driver_assignments row stays as the standing default for the vehicle.
+export const rosterEntries = pgTable("roster_entries", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  driverId: integer("driver_id").notNull(),
+  date: date("date").notNull(),
+  shift: text("shift").notNull(), // "morning" or "evening"
+  notes: text("notes"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  slot: unique("roster_entries_vehicle_date_shift_unique").on(t.vehicleId, t.date, t.shift),
+  byDriverDate: index("roster_entries_driver_date_idx").on(t.driverId, t.date),
+}));
+
+export const LEAVE_TYPES = ["planned", "unplanned", "sick", "no_vehicle"] as const;
+export const LEAVE_SOURCES = ["manual", "import"] as const;
+
+// Days a driver was off, inclusive of both ends. Unplanned and sick leave can
+// leave a vehicle idle; "no_vehicle" marks days the driver was available but
+// had no car, as the trip-log sheets record them.
+export const driverLeaves = pgTable("driver_leaves", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  type: text("type").notNull(), // one of LEAVE_TYPES
+  vehicleId: integer("vehicle_id"), // vehicle the driver would have driven, when known
+  reason: text("reason"),
+  source: text("source").notNull().default("manual"), // one of LEAVE_SOURCES
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriverStart: index("driver_leaves_driver_start_idx").on(t.driverId, t.startDate),
+}));
+
+export const INCIDENT_TYPES = ["challan", "accident", "damage", "other"] as const;
+export const INCIDENT_RESOLUTIONS = ["rent_log", "substitute", "manual"] as const;
+
+// Traffic fines and damage to a vehicle. The driver responsible is worked out
+// from the trip logs and substitute shifts for the vehicle at the time, and the
+// amount is charged in their settlement for the week of chargeDate.
+export const incidents = pgTable("incidents", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  type: text("type").notNull(), // one of INCIDENT_TYPES
+  date: date("date").notNull(),
+  time: text("time"),           // HH:MM, when known; picks the shift
+  amount: integer("amount").notNull(),
+  reference: text("reference"), // challan or claim number
+  description: text("description"),
+  shiftDate: date("shift_date"), // shift the incident fell in; the day before for small hours
+  shift: text("shift"),
+  driverId: integer("driver_id"),                     // driver charged, if any
+  substituteDriverId: integer("substitute_driver_id"), // substitute shift the incident fell in
+  resolvedBy: text("resolved_by"), // one of INCIDENT_RESOLUTIONS, null while unresolved
+  chargeToDriver: boolean("charge_to_driver").notNull().default(true),
+  chargeDate: date("charge_date").notNull(),
+  evidenceFileName: text("evidence_file_name"),
+  evidencePath: text("evidence_path"), // relative to the uploads directory
+  evidenceType: text("evidence_type"),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byVehicleDate: index("incidents_vehicle_date_idx").on(t.vehicleId, t.date),
+  byDriverChargeDate: index("incidents_driver_charge_date_idx").on(t.driverId, t.chargeDate),
+}));
+
+export const DRIVER_DOCUMENT_KINDS = ["photo", "licence", "badge", "id_proof", "other"] as const;
+
+// Uploaded KYC files for a driver; the latest photo is the one shown
+export const driverDocuments = pgTable("driver_documents", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  kind: text("kind").notNull(), // one of DRIVER_DOCUMENT_KINDS
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path").notNull(), // relative to the uploads directory
+  fileType: text("file_type").notNull(),
+  uploadedBy: text("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriver: index("driver_documents_driver_idx").on(t.driverId),
+}));
+
+export const VEHICLE_DOCUMENT_TYPES = ["insurance", "permit", "fitness", "pollution", "road_tax"] as const;
+
+// Insurance policies, permits and certificates held for a vehicle. Renewals are
+// added as new rows, so the latest expiry of each type is the one in force.
+export const vehicleDocuments = pgTable("vehicle_documents", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  type: text("type").notNull(), // one of VEHICLE_DOCUMENT_TYPES
+  documentNumber: text("document_number"),
+  issuedDate: date("issued_date"),
+  expiryDate: date("expiry_date").notNull(),
+  fileName: text("file_name"), // original name of the uploaded copy
+  filePath: text("file_path"), // relative to the uploads directory
+  fileType: text("file_type"),
+  notes: text("notes"),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byVehicleType: index("vehicle_documents_vehicle_type_idx").on(t.vehicleId, t.type),
+  byExpiry: index("vehicle_documents_expiry_idx").on(t.expiryDate),
+}));
+
+// Daily vehicle rent charged to a driver; accommodation charges are added on top
+export const BASE_DRIVER_RENT = 500;
+
+// Rented rooms drivers stay in. The fleet pays the monthly rent for the lease
+// period; each occupant is charged occupantDailyRent on top of the vehicle rent.
+export const accommodations = pgTable("accommodations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  address: text("address").notNull(),
+  monthlyRent: integer("monthly_rent").notNull(),
+  capacity: integer("capacity").notNull(),
+  occupantDailyRent: integer("occupant_daily_rent").notNull().default(100),
+  leaseStart: date("lease_start").notNull(),
+  leaseEnd: date("lease_end"), // null while the room is still rented
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Which room a driver stays in and when; endDate is null while they still live there
+export const accommodationAssignments = pgTable("accommodation_assignments", {
+  id: serial("id").primaryKey(),
+  accommodationId: integer("accommodation_id").notNull(),
+  driverId: integer("driver_id").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriver: index("accommodation_assignments_driver_idx").on(t.driverId, t.startDate),
+  byAccommodation: index("accommodation_assignments_accommodation_idx").on(t.accommodationId),
+}));
+
+// Manual corrections to a driver's ledger; positive amounts are owed to the driver, negative by the driver
+export const driverAdjustments = pgTable("driver_adjustments", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  date: date("date").notNull(),
+  amount: integer("amount").notNull(),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byDriver: index("driver_adjustments_driver_idx").on(t.driverId),
+}));
+
 export const investments = pgTable("investments", {
   id: serial("id").primaryKey(),
   investorName: text("investor_name").notNull(),
@@ -114,17 +466,193 @@ export const investmentReturns = pgTable("investment_returns", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const slabSchedules = pgTable("slab_schedules", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull(),
+  effectiveFrom: date("effective_from").notNull(), // inclusive
+  effectiveTo: date("effective_to"),               // inclusive, null = still in force
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  byCompany: index("slab_schedules_company_idx").on(t.companyId),
+}));
+
+export const slabScheduleRows = pgTable("slab_schedule_rows", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull(),
+  minTrips: integer("min_trips").notNull(),
+  maxTrips: integer("max_trips"), // null = no upper bound
+  rate: integer("rate").notNull(), // per day
+}, (t) => ({
+  bySchedule: index("slab_schedule_rows_schedule_idx").on(t.scheduleId),
+}));
+
+// Substitute shift charges: the fleet-wide card (no company or vehicle), with
+// optional cards overriding it for a company's vehicles or a single vehicle
+export const substituteRateCards = pgTable("substitute_rate_cards", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id"),
+  vehicleId: integer("vehicle_id"),
+  weekendPremium: integer("weekend_premium").notNull().default(0), // added to Saturday and Sunday shifts
+  holidayPremium: integer("holiday_premium").notNull().default(0), // added on holidays, in place of the weekend premium
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const substituteRateBands = pgTable("substitute_rate_bands", {
+  id: serial("id").primaryKey(),
+  rateCardId: integer("rate_card_id").notNull(),
+  maxHours: integer("max_hours").notNull(), // covers shifts longer than the band below, up to this many hours
+  charge: integer("charge").notNull(),
+}, (t) => ({
+  byCard: index("substitute_rate_bands_card_idx").on(t.rateCardId),
+}));
+
+// Days substitute shifts earn the holiday premium
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  date: date("date").notNull().unique(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The column mapping last saved for each statement import profile
+export const statementColumnMappings = pgTable("statement_column_mappings", {
+  profile: text("profile").primaryKey(), // one of STATEMENT_PROFILE_IDS
+  columns: json("columns").$type<StatementColumns>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Other names imports use for a driver or a vehicle, stored normalised (see server/services/nameMatching.ts)
+export const driverAliases = pgTable("driver_aliases", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull(),
+  alias: text("alias").notNull().unique(),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const vehicleAliases = pgTable("vehicle_aliases", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull(),
+  alias: text("alias").notNull().unique(),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const IMPORT_KINDS = ["trip-logs", "weekly-summary"] as const;
+export const IMPORT_RECORD_ENTITIES = ["driver", "vehicle", "driverRentLog", "driverLeave", "weeklySummary"] as const;
+
+// One run of an importer. The rows it wrote are tagged in import_job_records so the run can be undone.
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // one of IMPORT_KINDS
+  fileName: text("file_name"),
+  options: json("options").$type<Record<string, unknown>>().notNull(), // what the import was run with, e.g. the statement format
+  counts: json("counts").$type<Record<string, number>>().notNull(),
+  uploadedBy: text("uploaded_by").notNull(),
+  undoneBy: text("undone_by"),
+  undoneAt: timestamp("undone_at"),
+  undoKept: json("undo_kept").$type<string[]>(), // rows the undo left in place, and why
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const importJobRecords = pgTable("import_job_records", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  entity: text("entity").notNull(),      // one of IMPORT_RECORD_ENTITIES
+  recordId: text("record_id").notNull(), // row id, or key parts joined with ":" as in the audit log
+  before: json("before"),                // a weekly summary the import overwrote, put back by undo; null for rows it created
+}, (t) => ({
+  byJob: index("import_job_records_job_idx").on(t.jobId),
+}));
+
+// Login sessions, managed by connect-pg-simple
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (t) => ({
+  byExpire: index("IDX_session_expire").on(t.expire),
+}));
+
+export const USER_ROLES = ["owner", "accountant", "dispatcher", "read_only"] as const;
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  displayName: text("display_name").notNull(),
+  role: text("role").notNull(), // one of USER_ROLES
+  active: boolean("active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const AUDIT_ENTITIES = [
+  "user", "company", "vehicle", "driver", "vehicleDriverAssignment", "driverRentLog",
+  "weeklySettlement", "substituteDriver", "weeklySummary", "investment", "investmentReturn", "slabSchedule",
+  "driverAdjustment", "driverPayout", "driverAdvance", "driverDeposit", "depositDeduction",
+  "accommodation", "accommodationAssignment", "maintenanceRecord", "serviceInterval", "vehicleDocument",
+  "driverDocument", "incident", "fuelEntry", "rosterEntry", "driverLeave", "substitute",
+  "substituteRateCard", "holiday", "statementColumnMapping", "driverAlias", "vehicleAlias",
+] as const;
+export const AUDIT_ACTIONS = ["create", "update", "delete"] as const;
+
+// Append-only change history written by storage; rows are never updated or deleted
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entity: text("entity").notNull(),      // one of AUDIT_ENTITIES
+  entityId: text("entity_id").notNull(), // row id, or key parts joined with ":" for composite keys
+  action: text("action").notNull(),      // one of AUDIT_ACTIONS
+  before: json("before"),                // null for create
+  after: json("after"),                  // null for delete
+  actorId: integer("actor_id"),          // null when written by a script or background job
+  actorName: text("actor_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  byEntity: index("audit_log_entity_idx").on(t.entity, t.entityId),
+  byCreatedAt: index("audit_log_created_at_idx").on(t.createdAt),
+}));
+
 // Relations
+export const companiesRelations = relations(companies, ({ many }) => ({
+  vehicles: many(vehicles),
+  slabSchedules: many(slabSchedules),
+}));
+
 export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [vehicles.companyId],
+    references: [companies.id],
+  }),
   assignments: one(vehicleDriverAssignments, {
     fields: [vehicles.id],
     references: [vehicleDriverAssignments.vehicleId],
   }),
   substituteDrivers: many(substituteDrivers),
+  maintenanceRecords: many(maintenanceRecords),
+  serviceIntervals: many(serviceIntervals),
+  documents: many(vehicleDocuments),
+  incidents: many(incidents),
+  fuelEntries: many(fuelEntries),
+  rosterEntries: many(rosterEntries),
 }));
 
 export const driversRelations = relations(drivers, ({ many }) => ({
   rentLogs: many(driverRentLogs),
+  adjustments: many(driverAdjustments),
+  payouts: many(driverPayouts),
+  advances: many(driverAdvances),
+  depositDeductions: many(depositDeductions),
+  accommodationAssignments: many(accommodationAssignments),
+  documents: many(driverDocuments),
+  incidents: many(incidents),
+  rosterEntries: many(rosterEntries),
+  leaves: many(driverLeaves),
 }));
 
 export const vehicleDriverAssignmentsRelations = relations(vehicleDriverAssignments, ({ one }) => ({
@@ -150,11 +678,19 @@ export const driverRentLogsRelations = relations(driverRentLogs, ({ one }) => ({
 }));
 
 
+export const substitutesRelations = relations(substitutes, ({ many }) => ({
+  shifts: many(substituteDrivers),
+}));
+
 export const substituteDriversRelations = relations(substituteDrivers, ({ one }) => ({
   vehicle: one(vehicles, {
     fields: [substituteDrivers.vehicleId],
     references: [vehicles.id],
   }),
+  substitute: one(substitutes, {
+    fields: [substituteDrivers.substituteId],
+    references: [substitutes.id],
+  }),
 }));
 
 export const weeklySummariesRelations = relations(weeklySummaries, ({ one }) => ({
@@ -164,6 +700,124 @@ export const weeklySummariesRelations = relations(weeklySummaries, ({ one }) =>
   }),
 }));
 
+export const driverPayoutsRelations = relations(driverPayouts, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverPayouts.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const driverAdvancesRelations = relations(driverAdvances, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverAdvances.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const driverDepositsRelations = relations(driverDeposits, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverDeposits.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const depositDeductionsRelations = relations(depositDeductions, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [depositDeductions.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const maintenanceRecordsRelations = relations(maintenanceRecords, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [maintenanceRecords.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const serviceIntervalsRelations = relations(serviceIntervals, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [serviceIntervals.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const fuelEntriesRelations = relations(fuelEntries, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [fuelEntries.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const rosterEntriesRelations = relations(rosterEntries, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [rosterEntries.vehicleId],
+    references: [vehicles.id],
+  }),
+  driver: one(drivers, {
+    fields: [rosterEntries.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const driverLeavesRelations = relations(driverLeaves, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverLeaves.driverId],
+    references: [drivers.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [driverLeaves.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const incidentsRelations = relations(incidents, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [incidents.vehicleId],
+    references: [vehicles.id],
+  }),
+  driver: one(drivers, {
+    fields: [incidents.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const driverDocumentsRelations = relations(driverDocuments, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverDocuments.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const vehicleDocumentsRelations = relations(vehicleDocuments, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleDocuments.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const accommodationsRelations = relations(accommodations, ({ many }) => ({
+  assignments: many(accommodationAssignments),
+}));
+
+export const accommodationAssignmentsRelations = relations(accommodationAssignments, ({ one }) => ({
+  accommodation: one(accommodations, {
+    fields: [accommodationAssignments.accommodationId],
+    references: [accommodations.id],
+  }),
+  driver: one(drivers, {
+    fields: [accommodationAssignments.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const driverAdjustmentsRelations = relations(driverAdjustments, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverAdjustments.driverId],
+    references: [drivers.id],
+  }),
+}));
+
 export const investmentsRelations = relations(investments, ({ many }) => ({
   returns: many(investmentReturns),
 }));
@@ -175,7 +829,95 @@ export const investmentReturnsRelations = relations(investmentReturns, ({ one })
   }),
 }));
 
+export const slabSchedulesRelations = relations(slabSchedules, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [slabSchedules.companyId],
+    references: [companies.id],
+  }),
+  rows: many(slabScheduleRows),
+}));
+
+export const slabScheduleRowsRelations = relations(slabScheduleRows, ({ one }) => ({
+  schedule: one(slabSchedules, {
+    fields: [slabScheduleRows.scheduleId],
+    references: [slabSchedules.id],
+  }),
+}));
+
+export const substituteRateCardsRelations = relations(substituteRateCards, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [substituteRateCards.companyId],
+    references: [companies.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [substituteRateCards.vehicleId],
+    references: [vehicles.id],
+  }),
+  bands: many(substituteRateBands),
+}));
+
+export const substituteRateBandsRelations = relations(substituteRateBands, ({ one }) => ({
+  rateCard: one(substituteRateCards, {
+    fields: [substituteRateBands.rateCardId],
+    references: [substituteRateCards.id],
+  }),
+}));
+
+export const driverAliasesRelations = relations(driverAliases, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverAliases.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const vehicleAliasesRelations = relations(vehicleAliases, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleAliases.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const importJobsRelations = relations(importJobs, ({ many }) => ({
+  records: many(importJobRecords),
+}));
+
+export const importJobRecordsRelations = relations(importJobRecords, ({ one }) => ({
+  job: one(importJobs, {
+    fields: [importJobRecords.jobId],
+    references: [importJobs.id],
+  }),
+}));
+
 // Insert schemas
+export const SETTLEMENT_DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+
+export const insertCompanySchema = createInsertSchema(companies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Company name is required"),
+  settlementDay: z.enum(SETTLEMENT_DAYS).default("monday"),
+  walletDeduction: z.number().int().min(0).default(0),
+});
+
+export const updateCompanySchema = insertCompanySchema.partial();
+
+export const insertUserSchema = z.object({
+  username: z.string().trim().toLowerCase().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  displayName: z.string().trim().min(1, "Display name is required"),
+  role: z.enum(USER_ROLES),
+  active: z.boolean().default(true),
+});
+
+export const updateUserSchema = insertUserSchema.partial().omit({ username: true });
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1),
+  password: z.string().min(1),
+});
+
 export const insertVehicleSchema = createInsertSchema(vehicles).omit({
   id: true,
   createdAt: true,
@@ -223,12 +965,56 @@ export const upsertWeeklySettlementSchema = z.object({
   companyWallet: z.number().int().min(0).nullable().optional(),
 });
 
+export const weekLockSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  weekEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
 export const insertSubstituteDriverSchema = createInsertSchema(substituteDrivers).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   date: z.coerce.date(),
+  shiftHours: z.number().int().min(1, "Shift must be at least 1 hour").max(24, "Shift cannot exceed 24 hours"),
+});
+
+export const insertSubstituteSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  phone: z.string().trim().optional().transform((value) => value || null),
+  rate6h: z.number().int().positive().nullable().optional(),
+  rate8h: z.number().int().positive().nullable().optional(),
+  rate12h: z.number().int().positive().nullable().optional(),
+  active: z.boolean().optional(),
+  notes: z.string().trim().optional().transform((value) => value || null),
+});
+
+export const substituteQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+
+// Free-text names on older substitute shifts to attach to a registry entry
+export const linkSubstituteShiftsSchema = z.object({
+  names: z.array(z.string().trim().min(1)).min(1, "Pick at least one name"),
+});
+
+export const odometerReadingsSchema = z.object({
+  startOdometer: z.number().int().min(0).nullable(),
+  endOdometer: z.number().int().min(0).nullable(),
+});
+
+export const handoverQuerySchema = z.object({
+  vehicleId: z.coerce.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  shift: z.enum(["morning", "evening"]),
+});
+
+export const odometerQuerySchema = z.object({
+  vehicleId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
 });
 
 export const upsertWeeklySummarySchema = z.object({
@@ -241,7 +1027,207 @@ export const upsertWeeklySummarySchema = z.object({
   refund: z.number().int().min(0).default(0),
   expenses: z.number().int().min(0).default(0),
   dues: z.number().int().min(0).default(0),
-  payout: z.number().int().min(0).default(0),
+  tolls: z.number().int().min(0).default(0),
+  tips: z.number().int().min(0).default(0),
+  incentives: z.number().int().min(0).default(0),
+  platformFees: z.number().int().min(0).default(0),
+});
+
+export const insertDriverPayoutSchema = z.object({
+  driverId: z.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  amount: z.number().int().positive("Amount must be positive"),
+  method: z.enum(PAYOUT_METHODS),
+  reference: z.string().trim().optional().transform((value) => value || null),
+  notes: z.string().trim().optional().transform((value) => value || null),
+});
+
+export const voidDriverPayoutSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const driverPayoutQuerySchema = z.object({
+  driverId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  includeVoided: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+});
+
+export const insertDriverAdvanceSchema = z.object({
+  driverId: z.number().int().positive(),
+  issuedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  principal: z.number().int().positive("Principal must be positive"),
+  instalmentAmount: z.number().int().positive("Instalment amount must be positive"),
+  instalmentCount: z.number().int().positive("Instalment count must be positive"),
+  firstInstalmentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  method: z.enum(PAYOUT_METHODS),
+  reference: z.string().trim().optional().transform((value) => value || null),
+  notes: z.string().trim().optional().transform((value) => value || null),
+})
+  .refine((advance) => advance.instalmentAmount * advance.instalmentCount >= advance.principal, {
+    message: "Instalments do not cover the principal",
+    path: ["instalmentCount"],
+  })
+  .refine((advance) => advance.firstInstalmentDate >= advance.issuedDate, {
+    message: "The first instalment cannot be due before the advance is issued",
+    path: ["firstInstalmentDate"],
+  });
+
+export const upsertDriverDepositSchema = z.object({
+  amount: z.number().int().positive("Amount must be positive"),
+  collectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  method: z.enum(PAYOUT_METHODS),
+  reference: z.string().trim().optional().transform((value) => value || null),
+  notes: z.string().trim().optional().transform((value) => value || null),
+});
+
+export const insertDepositDeductionSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  amount: z.number().int().positive("Amount must be positive"),
+  reason: z.enum(DEPOSIT_DEDUCTION_REASONS),
+  description: z.string().trim().min(1, "Description is required"),
+});
+
+export const insertMaintenanceRecordSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  category: z.enum(MAINTENANCE_CATEGORIES),
+  odometer: z.number().int().min(0).nullable().optional(),
+  cost: z.number().int().min(0),
+  garage: z.string().trim().optional().transform((value) => value || null),
+  description: z.string().trim().optional().transform((value) => value || null),
+});
+
+export const upsertServiceIntervalSchema = z.object({
+  category: z.enum(MAINTENANCE_CATEGORIES),
+  intervalDays: z.number().int().positive().nullable().optional(),
+  intervalKm: z.number().int().positive().nullable().optional(),
+  notes: z.string().trim().optional().transform((value) => value || null),
+}).refine((i) => !!i.intervalDays || !!i.intervalKm, {
+  message: "Set an interval in days, km or both",
+});
+
+export const insertFuelEntrySchema = z.object({
+  vehicleId: z.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  shift: z.enum(["morning", "evening"]),
+  fuelType: z.enum(FUEL_TYPES),
+  quantity: z.number().positive("Quantity must be positive"),
+  pricePerUnit: z.number().positive("Price must be positive"),
+  amount: z.number().int().positive().optional(), // defaults to quantity × price, rounded
+  odometer: z.number().int().min(0).nullable().optional(),
+  fullTank: z.boolean().default(true),
+  paymentMethod: z.enum(FUEL_PAYMENT_METHODS),
+  station: z.string().trim().optional().transform((value) => value || null),
+});
+
+export const fuelQuerySchema = z.object({
+  vehicleId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+
+export const insertRosterEntrySchema = z.object({
+  vehicleId: z.number().int().positive(),
+  driverId: z.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  shift: z.enum(["morning", "evening"]),
+  notes: z.string().trim().optional().transform((value) => value || null),
+});
+
+export const rosterQuerySchema = z.object({
+  vehicleId: z.coerce.number().int().positive().optional(),
+  driverId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+}).refine((q) => q.from <= q.to, { message: "From date must be on or before to date" });
+
+export const copyRosterWeekSchema = z.object({
+  fromWeekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  toWeekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+export const insertDriverLeaveSchema = z.object({
+  driverId: z.number().int().positive(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  type: z.enum(LEAVE_TYPES),
+  vehicleId: z.number().int().positive().nullable().optional(),
+  reason: z.string().trim().optional().transform((value) => value || null),
+}).refine((leave) => leave.endDate >= leave.startDate, {
+  message: "End date must be on or after start date",
+});
+
+export const leaveQuerySchema = z.object({
+  driverId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+
+export const insertIncidentSchema = z.object({
+  vehicleId: z.number().int().positive(),
+  type: z.enum(INCIDENT_TYPES),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM").nullable().optional(),
+  amount: z.number().int().positive("Amount must be positive"),
+  reference: z.string().trim().optional().transform((value) => value || null),
+  description: z.string().trim().optional().transform((value) => value || null),
+  driverId: z.number().int().positive().nullable().optional(), // set to charge a driver by hand instead of resolving
+  chargeToDriver: z.boolean().default(true),
+  chargeDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+
+export const incidentQuerySchema = z.object({
+  vehicleId: z.coerce.number().int().positive().optional(),
+  driverId: z.coerce.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+
+export const insertVehicleDocumentSchema = z.object({
+  type: z.enum(VEHICLE_DOCUMENT_TYPES),
+  documentNumber: z.string().trim().optional().transform((value) => value || null),
+  issuedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+  expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  notes: z.string().trim().optional().transform((value) => value || null),
+}).refine((d) => !d.issuedDate || d.issuedDate <= d.expiryDate, {
+  message: "Expiry date cannot be before the issue date",
+  path: ["expiryDate"],
+});
+
+export const insertAccommodationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  address: z.string().trim().min(1, "Address is required"),
+  monthlyRent: z.number().int().min(0),
+  capacity: z.number().int().positive("Capacity must be at least 1"),
+  occupantDailyRent: z.number().int().min(0),
+  leaseStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  leaseEnd: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+  notes: z.string().trim().optional().transform((value) => value || null),
+}).refine((a) => !a.leaseEnd || a.leaseEnd >= a.leaseStart, {
+  message: "Lease end must be on or after lease start",
+});
+
+export const insertAccommodationAssignmentSchema = z.object({
+  driverId: z.number().int().positive(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+}).refine((a) => !a.endDate || a.endDate >= a.startDate, {
+  message: "End date must be on or after start date",
+});
+
+export const endAccommodationAssignmentSchema = z.object({
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+export const insertDriverAdjustmentSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  amount: z.number().int().refine((amount) => amount !== 0, "Amount cannot be zero"),
+  description: z.string().trim().min(1, "Description is required"),
+});
+
+export const driverLedgerQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
 export const insertInvestmentSchema = createInsertSchema(investments).omit({
@@ -268,15 +1254,150 @@ export const updateInvestmentReturnSchema = createInsertSchema(investmentReturns
   updatedAt: true,
 }).partial();
 
+export const slabRowSchema = z.object({
+  minTrips: z.number().int().min(0),
+  maxTrips: z.number().int().min(0).nullable(),
+  rate: z.number().int().min(0),
+}).refine((r) => r.maxTrips === null || r.maxTrips >= r.minTrips, {
+  message: "maxTrips must be greater than or equal to minTrips",
+});
+
+export const upsertSlabScheduleSchema = z.object({
+  companyId: z.number().int().positive(),
+  effectiveFrom: z.string(),
+  effectiveTo: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  rows: z.array(slabRowSchema).min(1),
+}).refine((s) => !s.effectiveTo || s.effectiveTo >= s.effectiveFrom, {
+  message: "effectiveTo must be on or after effectiveFrom",
+});
+
+export const substituteRateBandSchema = z.object({
+  maxHours: z.number().int().min(1).max(24),
+  charge: z.number().int().min(0),
+});
+
+export const upsertSubstituteRateCardSchema = z.object({
+  companyId: z.number().int().positive().nullable().optional(),
+  vehicleId: z.number().int().positive().nullable().optional(),
+  weekendPremium: z.number().int().min(0).default(0),
+  holidayPremium: z.number().int().min(0).default(0),
+  notes: z.string().trim().optional().transform((value) => value || null),
+  bands: z.array(substituteRateBandSchema).min(1, "Add at least one hours band"),
+}).refine((card) => !(card.companyId && card.vehicleId), {
+  message: "A rate card overrides either a company or a vehicle, not both",
+}).refine((card) => new Set(card.bands.map((band) => band.maxHours)).size === card.bands.length, {
+  message: "Each hours band must end at a different hour",
+});
+
+export const insertHolidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+export const substituteQuoteQuerySchema = z.object({
+  vehicleId: z.coerce.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  shiftHours: z.coerce.number().int().min(1).max(24),
+  substituteId: z.coerce.number().int().positive().optional(),
+});
+
+// Matches the user confirmed for one import only, from the name in the file to the record's id
+const importMatchesSchema = z.record(z.string(), z.number().int().positive());
+
+const statementColumnsSchema = z.record(z.enum(STATEMENT_FIELDS), z.string().trim().min(1).nullable());
+
+export const saveStatementColumnsSchema = z.object({
+  columns: statementColumnsSchema,
+});
+
+export const statementImportSchema = z.object({
+  profile: z.enum(STATEMENT_PROFILE_IDS).default("template"),
+  columns: statementColumnsSchema.optional(), // defaults to the profile's saved mapping
+  csvData: z.array(z.record(z.string(), z.unknown())).min(1, "The statement has no rows"),
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(), // for statements without a date column
+  confirmOverwrite: z.boolean().optional(),
+  driverMatches: importMatchesSchema.optional(),
+  fileName: z.string().trim().max(255).optional(), // kept on the import job
+  sheetName: z.string().trim().max(255).optional(),
+});
+
+export const tripImportPreviewSchema = z.object({
+  csvData: z.array(z.record(z.string(), z.unknown())).min(1, "The file has no rows"),
+  defaultCompanyId: z.coerce.number().int().positive().nullish(), // company for vehicles the file creates
+  driverMatches: importMatchesSchema.optional(),
+  vehicleMatches: importMatchesSchema.optional(),
+});
+
+export const tripImportCommitSchema = tripImportPreviewSchema.extend({
+  fingerprint: z.string().min(1, "Preview the file before importing it"),
+  driverPhones: z.record(z.string(), z.string().trim()).optional(), // for drivers the import creates, by name
+  fileName: z.string().trim().max(255).optional(), // kept on the import job
+  sheetName: z.string().trim().max(255).optional(),
+});
+
+export const EXPORT_TYPES = ["settlements", "trips", "drivers", "vehicles", "weekly-summaries", "investments"] as const;
+export const EXPORT_FORMATS = ["json", "xlsx"] as const;
+
+export const exportQuerySchema = z.object({
+  type: z.enum(EXPORT_TYPES),
+  format: z.enum(EXPORT_FORMATS).default("json"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(), // weekly summaries only
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+});
+
+export const insertDriverAliasSchema = z.object({
+  driverId: z.coerce.number().int().positive(),
+  alias: z.string().trim().min(1, "Alias is required"),
+});
+
+export const insertVehicleAliasSchema = z.object({
+  vehicleId: z.coerce.number().int().positive(),
+  alias: z.string().trim().min(1, "Alias is required"),
+});
+
+export const importJobQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const auditLogQuerySchema = z.object({
+  entity: z.enum(AUDIT_ENTITIES).optional(),
+  entityId: z.string().optional(),
+  entityIdPrefix: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">;
+export type UserRole = typeof USER_ROLES[number];
+export type Company = typeof companies.$inferSelect;
 export type Vehicle = typeof vehicles.$inferSelect;
+export type VehicleWithCompany = Vehicle & { companyName: string | null };
 export type Driver = typeof drivers.$inferSelect;
+export type DriverWithAccommodation = Driver & { accommodationId: number | null; accommodationName: string | null; dailyRent: number };
 export type VehicleDriverAssignment = typeof vehicleDriverAssignments.$inferSelect;
 export type DriverRentLog = typeof driverRentLogs.$inferSelect;
 export type WeeklySettlement = typeof weeklySettlements.$inferSelect;
+export type WeekLockState = Pick<WeeklySettlement, "closedAt" | "closedBy" | "closeReason" | "reopenedAt" | "reopenedBy" | "reopenReason">;
 export type SubstituteDriver = typeof substituteDrivers.$inferSelect;
 export type WeeklySummary = typeof weeklySummaries.$inferSelect;
+export type SlabSchedule = typeof slabSchedules.$inferSelect;
+export type SlabScheduleRow = typeof slabScheduleRows.$inferSelect;
+export type SlabScheduleWithRows = SlabSchedule & { rows: SlabScheduleRow[] };
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
 
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type UpdateCompany = z.infer<typeof updateCompanySchema>;
 export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
 export type UpdateVehicle = z.infer<typeof updateVehicleSchema>;
 export type InsertDriver = z.infer<typeof insertDriverSchema>;
@@ -284,8 +1405,126 @@ export type UpdateDriver = z.infer<typeof updateDriverSchema>;
 export type InsertVehicleDriverAssignment = z.infer<typeof insertVehicleDriverAssignmentSchema>;
 export type InsertDriverRentLog = z.infer<typeof insertDriverRentLogSchema>;
 export type UpsertWeeklySettlementInput = z.infer<typeof upsertWeeklySettlementSchema>;
+export type WeekLockInput = z.infer<typeof weekLockSchema>;
 export type InsertSubstituteDriver = z.infer<typeof insertSubstituteDriverSchema>;
+export type Substitute = typeof substitutes.$inferSelect;
+export type InsertSubstitute = z.infer<typeof insertSubstituteSchema>;
+export type SubstituteQuery = z.infer<typeof substituteQuerySchema>;
+// Registry entry with the shifts they covered and what they were paid in a period
+export type SubstituteWithTotals = Substitute & { shifts: number; trips: number; paid: number; lastShift: string | null };
+export type UnlinkedSubstituteName = { name: string; shifts: number; paid: number };
+export type OdometerReadings = z.infer<typeof odometerReadingsSchema>;
+export type OdometerQuery = z.infer<typeof odometerQuerySchema>;
+export type HandoverQuery = z.infer<typeof handoverQuerySchema>;
 export type UpsertWeeklySummary = z.infer<typeof upsertWeeklySummarySchema>;
+export type UpsertSlabSchedule = z.infer<typeof upsertSlabScheduleSchema>;
+export type SubstituteRateCard = typeof substituteRateCards.$inferSelect;
+export type SubstituteRateBand = typeof substituteRateBands.$inferSelect;
+export type SubstituteRateCardWithBands = SubstituteRateCard & {
+  bands: SubstituteRateBand[];
+  companyName: string | null;
+  vehicleNumber: string | null;
+};
+export type UpsertSubstituteRateCard = z.infer<typeof upsertSubstituteRateCardSchema>;
+export type Holiday = typeof holidays.$inferSelect;
+export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
+export type SubstituteQuoteQuery = z.infer<typeof substituteQuoteQuerySchema>;
+export type StatementColumnMapping = typeof statementColumnMappings.$inferSelect;
+export type StatementImport = z.infer<typeof statementImportSchema>;
+export type TripImportPreview = z.infer<typeof tripImportPreviewSchema>;
+export type TripImportCommit = z.infer<typeof tripImportCommitSchema>;
+export type ExportType = typeof EXPORT_TYPES[number];
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type DriverAlias = typeof driverAliases.$inferSelect;
+export type DriverAliasWithDriver = DriverAlias & { driverName: string };
+export type InsertDriverAlias = z.infer<typeof insertDriverAliasSchema>;
+export type VehicleAlias = typeof vehicleAliases.$inferSelect;
+export type VehicleAliasWithVehicle = VehicleAlias & { vehicleNumber: string };
+export type InsertVehicleAlias = z.infer<typeof insertVehicleAliasSchema>;
+export type ImportKind = typeof IMPORT_KINDS[number];
+export type ImportRecordEntity = typeof IMPORT_RECORD_ENTITIES[number];
+export type ImportJob = typeof importJobs.$inferSelect;
+export type ImportJobRecord = typeof importJobRecords.$inferSelect;
+export type ImportJobQuery = z.infer<typeof importJobQuerySchema>;
+// What an importer records about its run; storage tags the rows it writes
+export type ImportJobDetails = Pick<typeof importJobs.$inferInsert, "fileName" | "options" | "counts">;
+// A job with how many rows of each kind it tagged
+export type ImportJobWithRecords = ImportJob & { records: Partial<Record<ImportRecordEntity, number>> };
+export type ImportUndoResult = {
+  removed: Partial<Record<ImportRecordEntity, number>>;
+  restored: number; // weekly summaries put back as they were before the import
+  kept: string[];
+};
+export type DriverPayout = typeof driverPayouts.$inferSelect;
+export type PayoutMethod = typeof PAYOUT_METHODS[number];
+export type InsertDriverPayout = z.infer<typeof insertDriverPayoutSchema>;
+export type DriverPayoutQuery = z.infer<typeof driverPayoutQuerySchema>;
+export type DriverAdvance = typeof driverAdvances.$inferSelect;
+export type InsertDriverAdvance = z.infer<typeof insertDriverAdvanceSchema>;
+export type DriverDeposit = typeof driverDeposits.$inferSelect;
+export type UpsertDriverDeposit = z.infer<typeof upsertDriverDepositSchema>;
+export type DepositDeduction = typeof depositDeductions.$inferSelect;
+export type InsertDepositDeduction = z.infer<typeof insertDepositDeductionSchema>;
+export type MaintenanceCategory = typeof MAINTENANCE_CATEGORIES[number];
+export type MaintenanceRecord = typeof maintenanceRecords.$inferSelect;
+export type InsertMaintenanceRecord = z.infer<typeof insertMaintenanceRecordSchema>;
+export type ServiceInterval = typeof serviceIntervals.$inferSelect;
+export type UpsertServiceInterval = z.infer<typeof upsertServiceIntervalSchema>;
+export type FuelType = typeof FUEL_TYPES[number];
+export type FuelPaymentMethod = typeof FUEL_PAYMENT_METHODS[number];
+export type FuelEntry = typeof fuelEntries.$inferSelect;
+export type InsertFuelEntry = z.infer<typeof insertFuelEntrySchema>;
+export type FuelQuery = z.infer<typeof fuelQuerySchema>;
+// Columns of a fuel entry the routes set, with the amount filled in
+export type FuelEntryValues = Omit<typeof fuelEntries.$inferInsert, "id" | "recordedBy" | "createdAt" | "updatedAt">;
+export type FuelEntryWithVehicle = FuelEntry & { vehicleNumber: string };
+export type RosterEntry = typeof rosterEntries.$inferSelect;
+export type InsertRosterEntry = z.infer<typeof insertRosterEntrySchema>;
+export type RosterQuery = z.infer<typeof rosterQuerySchema>;
+export type CopyRosterWeek = z.infer<typeof copyRosterWeekSchema>;
+export type RosterEntryWithNames = RosterEntry & { vehicleNumber: string; driverName: string };
+export type LeaveType = typeof LEAVE_TYPES[number];
+export type LeaveSource = typeof LEAVE_SOURCES[number];
+export type DriverLeave = typeof driverLeaves.$inferSelect;
+export type InsertDriverLeave = z.infer<typeof insertDriverLeaveSchema>;
+export type LeaveQuery = z.infer<typeof leaveQuerySchema>;
+// Columns of a leave the routes and importer set
+export type DriverLeaveValues = Omit<typeof driverLeaves.$inferInsert, "id" | "recordedBy" | "createdAt" | "updatedAt">;
+export type DriverLeaveWithNames = DriverLeave & { driverName: string; vehicleNumber: string | null };
+// What a trip log import writes. Drivers and vehicles it creates are referred
+// to by their upper-cased name or number, existing ones by id.
+export type TripImportWrite = {
+  drivers: InsertDriver[];
+  vehicles: InsertVehicle[];
+  rentLogs: Array<Omit<InsertDriverRentLog, "driverId" | "vehicleId"> & { driverId: number | string; vehicleId: number | string }>;
+  leaves: Array<Omit<DriverLeaveValues, "driverId" | "vehicleId"> & { driverId: number; vehicleId: number | null }>;
+};
+export type TripImportCreated = { jobId: number; driverIds: number[]; vehicleIds: number[]; rentLogIds: number[]; leaveIds: number[] };
+export type IncidentType = typeof INCIDENT_TYPES[number];
+export type IncidentResolution = typeof INCIDENT_RESOLUTIONS[number];
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncident = z.infer<typeof insertIncidentSchema>;
+export type IncidentQuery = z.infer<typeof incidentQuerySchema>;
+// Columns of an incident the routes set, with the responsible driver already resolved
+export type IncidentValues = Omit<typeof incidents.$inferInsert, "id" | "chargeToDriver" | "recordedBy" | "createdAt" | "updatedAt"> & {
+  chargeToDriver: boolean;
+};
+export type IncidentWithNames = Incident & { vehicleNumber: string; driverName: string | null; substituteName: string | null };
+export type DriverDocumentKind = typeof DRIVER_DOCUMENT_KINDS[number];
+export type DriverDocument = typeof driverDocuments.$inferSelect;
+export type VehicleDocumentType = typeof VEHICLE_DOCUMENT_TYPES[number];
+export type VehicleDocument = typeof vehicleDocuments.$inferSelect;
+export type InsertVehicleDocument = z.infer<typeof insertVehicleDocumentSchema>;
+export type Accommodation = typeof accommodations.$inferSelect;
+export type InsertAccommodation = z.infer<typeof insertAccommodationSchema>;
+export type AccommodationAssignment = typeof accommodationAssignments.$inferSelect;
+export type AccommodationAssignmentWithNames = AccommodationAssignment & { driverName: string; accommodationName: string };
+export type AccommodationWithOccupancy = Accommodation & { occupants: AccommodationAssignmentWithNames[] };
+export type InsertAccommodationAssignment = z.infer<typeof insertAccommodationAssignmentSchema>;
+export type DriverAdjustment = typeof driverAdjustments.$inferSelect;
+export type InsertDriverAdjustment = z.infer<typeof insertDriverAdjustmentSchema>;
+export type DriverLedgerQuery = z.infer<typeof driverLedgerQuerySchema>;
 export type Investment = typeof investments.$inferSelect;
 export type InsertInvestment = z.infer<typeof insertInvestmentSchema>;
 export type UpdateInvestment = z.infer<typeof updateInvestmentSchema>;
@@ -0,0 +1,121 @@
+// Driver statement formats the weekly summary importer understands. Each
+// profile lists, per field, the headers it is known to use; the first header
+// present in a file wins, unless a saved column mapping names another.
+
+export const STATEMENT_FIELDS = [
+  "date", "driver", "driverSurname", "trips", "totalEarnings", "cash", "refund",
+  "tolls", "tips", "incentives", "platformFees",
+] as const;
+export type StatementField = typeof STATEMENT_FIELDS[number];
+
+// The money fields, all stored as whole rupees
+export const STATEMENT_AMOUNT_FIELDS = [
+  "totalEarnings", "cash", "refund", "tolls", "tips", "incentives", "platformFees",
+] as const satisfies readonly StatementField[];
+
+export const STATEMENT_FIELD_LABELS: Record<StatementField, string> = {
+  date: "Date",
+  driver: "Driver",
+  driverSurname: "Driver surname",
+  trips: "Trips",
+  totalEarnings: "Total earnings",
+  cash: "Cash collected",
+  refund: "Refunds",
+  tolls: "Tolls",
+  tips: "Tips",
+  incentives: "Incentives",
+  platformFees: "Platform fees",
+};
+
+export const STATEMENT_PROFILE_IDS = ["uber", "ola", "template"] as const;
+export type StatementProfileId = typeof STATEMENT_PROFILE_IDS[number];
+
+// The header chosen for each field; null leaves the field out
+export type StatementColumns = Partial<Record<StatementField, string | null>>;
+
+export interface StatementProfile {
+  id: StatementProfileId;
+  name: string;
+  description: string;
+  headers: Partial<Record<StatementField, string[]>>;
+}
+
+export const STATEMENT_PROFILES: Record<StatementProfileId, StatementProfile> = {
+  uber: {
+    id: "uber",
+    name: "Uber fleet payments",
+    description: "Payments CSV from the Uber fleet portal. It has no date column, so rows are filed in the selected week.",
+    headers: {
+      driver: ["Driver first name", "Driver name"],
+      driverSurname: ["Driver surname", "Driver last name"],
+      trips: ["Trips", "Completed trips"],
+      totalEarnings: ["Total Earnings", "Your earnings"],
+      cash: ["Cash collected", "Payouts:Cash Collected"],
+      refund: ["Refunds & Expenses", "Refunds"],
+      tolls: ["Refunds & Expenses:Refunds:Toll", "Toll", "Tolls"],
+      tips: ["Your earnings:Tip", "Tip", "Tips"],
+      incentives: ["Your earnings:Promotion", "Promotion", "Incentives"],
+      platformFees: ["Your earnings:Fare:Service Fee", "Service Fee", "Uber Fee"],
+    },
+  },
+  ola: {
+    id: "ola",
+    name: "Ola fleet statement",
+    description: "Driver-wise statement CSV from the Ola fleet dashboard.",
+    headers: {
+      date: ["Date", "Ride Date", "Statement Date"],
+      driver: ["Driver Name", "Driver"],
+      trips: ["Total Rides", "Rides", "Trips"],
+      totalEarnings: ["Total Earnings", "Net Earnings", "Earnings"],
+      cash: ["Cash Collected", "Cash"],
+      refund: ["Refunds", "Refund", "Adjustments"],
+      tolls: ["Toll", "Tolls", "Toll Charges"],
+      tips: ["Tips", "Tip"],
+      incentives: ["Incentives", "Incentive", "Bonus"],
+      platformFees: ["Commission", "Ola Commission", "Platform Fee"],
+    },
+  },
+  template: {
+    id: "template",
+    name: "Fleet template",
+    description: "Our own weekly summary sheet.",
+    headers: {
+      date: ["Date"],
+      driver: ["Driver"],
+      trips: ["Trips"],
+      totalEarnings: ["Total earnings"],
+      cash: ["Cash collected"],
+      refund: ["Refunds", "Refund"],
+      tolls: ["Tolls", "Toll"],
+      tips: ["Tips", "Tip"],
+      incentives: ["Incentives", "Incentive"],
+      platformFees: ["Platform fees", "Platform fee"],
+    },
+  },
+};
+
+/**
+ * The header to read each field from in a file with the given headers:
+ * the saved mapping's choice when the file has it, else the profile's first
+ * known header that the file has. A field the saved mapping leaves out stays
+ * out. Headers match ignoring case and spacing.
+ */
+export function resolveStatementColumns(
+  profile: StatementProfile,
+  fileHeaders: string[],
+  saved?: StatementColumns | null,
+): StatementColumns {
+  const normalise = (header: string) => header.toLowerCase().replace(/\s+/g, "");
+  const byKey = new Map(fileHeaders.map((header) => [normalise(header), header]));
+  const columns: StatementColumns = {};
+  for (const field of STATEMENT_FIELDS) {
+    if (saved && saved[field] === null) {
+      columns[field] = null;
+      continue;
+    }
+    const candidates = [saved?.[field], ...(profile.headers[field] ?? [])].filter((header): header is string => !!header);
+    const match = candidates.map((header) => byKey.get(normalise(header))).find(Boolean);
+    columns[field] = match ?? null;
+  }
+  return columns;
+}